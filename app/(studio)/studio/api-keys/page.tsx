@@ -0,0 +1,316 @@
+/**
+ * API Keys
+ *
+ * Manage seller-scoped keys for the public REST API (/api/v1/pages):
+ * - Create a key restricted to a seller_id (and optionally one seller_domain)
+ * - The key is shown once on creation; only a hash is stored
+ * - Revoke a key (it stops working immediately)
+ *
+ * Usage: /studio/api-keys
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface ApiKeySummary {
+  id: string;
+  name: string;
+  key_prefix: string;
+  seller_id: string;
+  seller_domain: string | null;
+  created_by: string | null;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+function formatDate(value: string | null) {
+  if (!value) return '-';
+  return new Date(value).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export default function ApiKeysPage() {
+  const router = useRouter();
+
+  const [apiKeys, setApiKeys] = useState<ApiKeySummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [sellerId, setSellerId] = useState('');
+  const [sellerDomain, setSellerDomain] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [createError, setCreateError] = useState<string | null>(null);
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const fetchApiKeys = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch('/api/api-keys');
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to fetch API keys');
+      }
+      setApiKeys(body.api_keys || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchApiKeys();
+  }, [fetchApiKeys]);
+
+  async function handleCreate(e: React.FormEvent) {
+    e.preventDefault();
+
+    try {
+      setCreating(true);
+      setCreateError(null);
+      setNewKey(null);
+      const response = await fetch('/api/api-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          seller_id: sellerId,
+          seller_domain: sellerDomain || null,
+        }),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        const details = body.validationErrors?.map((err: { message: string }) => err.message).join(', ');
+        throw new Error(details || body.error || 'Failed to create API key');
+      }
+
+      setNewKey(body.key);
+      setName('');
+      setSellerId('');
+      setSellerDomain('');
+      await fetchApiKeys();
+    } catch (err) {
+      setCreateError(err instanceof Error ? err.message : 'Failed to create API key');
+    } finally {
+      setCreating(false);
+    }
+  }
+
+  async function handleRevoke(apiKey: ApiKeySummary) {
+    if (!confirm(`Revoke "${apiKey.name}"? Anything using this key will stop working immediately.`)) {
+      return;
+    }
+
+    try {
+      setRevokingId(apiKey.id);
+      const response = await fetch(`/api/api-keys/${apiKey.id}`, { method: 'DELETE' });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || 'Revoke failed');
+      }
+      await fetchApiKeys();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Revoke failed');
+    } finally {
+      setRevokingId(null);
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => router.push('/')}
+              className="inline-flex items-center text-gray-600 hover:text-gray-900"
+              title="Back to Dashboard"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+              </svg>
+            </button>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">API Keys</h1>
+              <p className="mt-1 text-sm text-gray-500">
+                Keys for publishing through <span className="font-mono">/api/v1/pages</span>
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        {/* Create Key */}
+        <form onSubmit={handleCreate} className="bg-white shadow rounded-lg p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Create a key</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Cyngn content pipeline"
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Seller ID *</label>
+              <input
+                type="text"
+                value={sellerId}
+                onChange={(e) => setSellerId(e.target.value)}
+                placeholder="cyngn"
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900 font-mono"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Seller Domain</label>
+              <input
+                type="text"
+                value={sellerDomain}
+                onChange={(e) => setSellerDomain(e.target.value)}
+                placeholder="Any domain"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900 font-mono"
+              />
+            </div>
+          </div>
+          <div className="mt-4 flex items-center gap-4">
+            <button
+              type="submit"
+              disabled={creating}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+            >
+              {creating ? 'Creating...' : 'Create key'}
+            </button>
+            {createError && <p className="text-sm text-red-600">{createError}</p>}
+          </div>
+
+          {newKey && (
+            <div className="mt-4 p-4 bg-green-50 border border-green-200 rounded-md">
+              <p className="text-sm font-medium text-green-800 mb-2">
+                Copy this key now. It will not be shown again.
+              </p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 px-3 py-2 bg-white border border-green-200 rounded text-sm font-mono text-gray-900 break-all">
+                  {newKey}
+                </code>
+                <button
+                  type="button"
+                  onClick={() => navigator.clipboard.writeText(newKey)}
+                  className="px-3 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 text-sm"
+                >
+                  Copy
+                </button>
+              </div>
+            </div>
+          )}
+        </form>
+
+        {/* Key List */}
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          {loading ? (
+            <div className="p-8 text-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+              <p className="mt-4 text-gray-500">Loading API keys...</p>
+            </div>
+          ) : error ? (
+            <div className="p-8 text-center">
+              <p className="text-gray-500">{error}</p>
+              <button
+                onClick={fetchApiKeys}
+                className="mt-4 text-blue-600 hover:text-blue-800"
+              >
+                Try again
+              </button>
+            </div>
+          ) : apiKeys.length === 0 ? (
+            <div className="p-8 text-center">
+              <h3 className="text-lg font-medium text-gray-900">No API keys yet</h3>
+              <p className="mt-1 text-gray-500">Create a key to publish pages from your content pipeline.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Name
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Key
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Scope
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Last Used
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Created
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {apiKeys.map((apiKey) => (
+                    <tr key={apiKey.id} className={apiKey.revoked_at ? 'bg-gray-50 text-gray-400' : 'hover:bg-gray-50'}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {apiKey.name}
+                        {apiKey.revoked_at && (
+                          <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800">
+                            revoked
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 font-mono">
+                        {apiKey.key_prefix}…
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 font-mono">
+                        {apiKey.seller_id}
+                        {apiKey.seller_domain ? ` @ ${apiKey.seller_domain}` : ' @ any domain'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {formatDate(apiKey.last_used_at)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {formatDate(apiKey.created_at)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                        {!apiKey.revoked_at && (
+                          <button
+                            onClick={() => handleRevoke(apiKey)}
+                            disabled={revokingId === apiKey.id}
+                            className="px-3 py-1 text-red-600 hover:text-red-800 rounded-md hover:bg-red-50 disabled:opacity-50"
+                          >
+                            {revokingId === apiKey.id ? 'Revoking...' : 'Revoke'}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,293 @@
+/**
+ * Asset Library
+ *
+ * Upload images once and reference them from page JSON by id:
+ * - Kinds: seller logo, customer logo, OG (social share) image
+ * - Each upload is stored with resized variants (thumbnail, display size, 1200x630 for OG)
+ * - Reference: "brand": { "logoAssetId": "ast_…" }, "ogImageAssetId": "ast_…" or a
+ *   trustedBy logo's "assetId"; validation fails when the id is not in the library
+ *
+ * Usage: /studio/assets
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { ASSET_KINDS, type AssetKind } from '@/config/constants';
+import type { ResolvedAsset } from '@/lib/assets/references';
+
+interface LibraryAsset {
+  asset_id: string;
+  kind: AssetKind;
+  seller_id?: string | null;
+  filename: string;
+  alt?: string | null;
+  bytes: number;
+  width: number;
+  height: number;
+  created_at?: string;
+  resolved: ResolvedAsset;
+}
+
+const KIND_LABELS: Record<AssetKind, string> = {
+  logo: 'Seller logo',
+  customer_logo: 'Customer logo',
+  og_image: 'OG image',
+};
+
+function formatBytes(bytes: number) {
+  return bytes >= 1_000_000 ? `${(bytes / 1_000_000).toFixed(1)} MB` : `${Math.round(bytes / 1000)} KB`;
+}
+
+export default function AssetLibraryPage() {
+  const router = useRouter();
+
+  const [assets, setAssets] = useState<LibraryAsset[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [kindFilter, setKindFilter] = useState<AssetKind | ''>('');
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const [file, setFile] = useState<File | null>(null);
+  const [fileInputKey, setFileInputKey] = useState(0); // Remount clears the picked file
+  const [kind, setKind] = useState<AssetKind>('logo');
+  const [sellerId, setSellerId] = useState('');
+  const [alt, setAlt] = useState('');
+  const [uploading, setUploading] = useState(false);
+  const [copied, setCopied] = useState<string | null>(null);
+
+  const fetchAssets = useCallback(async () => {
+    try {
+      setLoading(true);
+      const query = kindFilter ? `?kind=${kindFilter}` : '';
+      const response = await fetch(`/api/assets${query}`);
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to load assets');
+      }
+      setAssets(body.assets || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [kindFilter]);
+
+  useEffect(() => {
+    fetchAssets();
+  }, [fetchAssets]);
+
+  async function handleUpload(e: React.FormEvent) {
+    e.preventDefault();
+    if (!file) return;
+
+    try {
+      setUploading(true);
+      setError(null);
+      setMessage(null);
+
+      const data = new FormData();
+      data.append('file', file);
+      data.append('kind', kind);
+      if (sellerId.trim()) data.append('seller_id', sellerId.trim());
+      if (alt.trim()) data.append('alt', alt.trim());
+
+      const response = await fetch('/api/assets', { method: 'POST', body: data });
+      const body = await response.json();
+      if (!response.ok) {
+        const details = (body.validationErrors || []).map(
+          (issue: { path: string; message: string }) => `${issue.path}: ${issue.message}`
+        );
+        throw new Error([body.error || 'Upload failed', ...details].join(' — '));
+      }
+
+      setMessage(`Uploaded ${body.asset.filename} as ${body.asset.asset_id}.`);
+      setFile(null);
+      setFileInputKey((key) => key + 1);
+      setAlt('');
+      await fetchAssets();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setUploading(false);
+    }
+  }
+
+  async function handleCopy(assetId: string) {
+    await navigator.clipboard.writeText(assetId);
+    setCopied(assetId);
+    setTimeout(() => setCopied((current) => (current === assetId ? null : current)), 1500);
+  }
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900';
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => router.push('/')}
+              className="inline-flex items-center text-gray-600 hover:text-gray-900"
+              title="Back to Dashboard"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+              </svg>
+            </button>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Asset Library</h1>
+              <p className="mt-1 text-sm text-gray-500">
+                Logos and share images stored with resized variants; reference them from page JSON by id
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-800">{error}</div>
+        )}
+        {message && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-4 text-sm text-green-800">{message}</div>
+        )}
+
+        {/* Upload */}
+        <form onSubmit={handleUpload} className="bg-white shadow rounded-lg p-6 space-y-4">
+          <h2 className="text-lg font-semibold text-gray-900">Upload</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Image *</label>
+              <input
+                key={fileInputKey}
+                type="file"
+                accept="image/png,image/jpeg,image/webp,image/gif"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+                className="block w-full text-sm text-gray-700"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Kind *</label>
+              <select value={kind} onChange={(e) => setKind(e.target.value as AssetKind)} className={`${inputClass} bg-white`}>
+                {ASSET_KINDS.map((value) => (
+                  <option key={value} value={value}>
+                    {KIND_LABELS[value]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Seller ID</label>
+              <input
+                type="text"
+                value={sellerId}
+                onChange={(e) => setSellerId(e.target.value)}
+                placeholder="cyngn"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Alt text</label>
+              <input
+                type="text"
+                value={alt}
+                onChange={(e) => setAlt(e.target.value)}
+                placeholder="Cyngn logo"
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-gray-500">
+              PNG, JPEG, WebP or GIF up to 5 MB. Reference by id: <code>&quot;brand&quot;: {'{'} &quot;logoAssetId&quot;: &quot;ast_…&quot; {'}'}</code> or{' '}
+              <code>&quot;ogImageAssetId&quot;: &quot;ast_…&quot;</code>; customer logos go in{' '}
+              <code>&quot;trustedBy&quot;: {'{'} &quot;logos&quot;: [{'{'} &quot;assetId&quot;: &quot;ast_…&quot;, &quot;alt&quot;: &quot;…&quot; {'}'}] {'}'}</code>
+            </p>
+            <button
+              type="submit"
+              disabled={!file || uploading}
+              className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              {uploading ? 'Uploading…' : 'Upload'}
+            </button>
+          </div>
+        </form>
+
+        {/* Library */}
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900">Library</h2>
+            <select
+              value={kindFilter}
+              onChange={(e) => setKindFilter(e.target.value as AssetKind | '')}
+              className="px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-900 bg-white"
+            >
+              <option value="">All kinds</option>
+              {ASSET_KINDS.map((value) => (
+                <option key={value} value={value}>
+                  {KIND_LABELS[value]}
+                </option>
+              ))}
+            </select>
+          </div>
+          {loading ? (
+            <p className="px-6 py-8 text-sm text-gray-500">Loading…</p>
+          ) : assets.length === 0 ? (
+            <p className="px-6 py-8 text-sm text-gray-500">No assets yet.</p>
+          ) : (
+            <ul className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 p-6">
+              {assets.map((asset) => (
+                <li key={asset.asset_id} className="border border-gray-200 rounded-lg overflow-hidden">
+                  <div className="h-32 flex items-center justify-center bg-gray-100 p-3">
+                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                    <img
+                      src={asset.resolved.variants.thumb?.url || asset.resolved.url}
+                      alt={asset.alt || asset.filename}
+                      className="max-h-full max-w-full object-contain"
+                    />
+                  </div>
+                  <div className="p-3 space-y-1 text-xs text-gray-600">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-mono text-gray-900 truncate">{asset.asset_id}</span>
+                      <button
+                        type="button"
+                        onClick={() => handleCopy(asset.asset_id)}
+                        className="shrink-0 font-medium text-blue-600 hover:text-blue-800"
+                      >
+                        {copied === asset.asset_id ? 'Copied' : 'Copy ID'}
+                      </button>
+                    </div>
+                    <div className="truncate" title={asset.filename}>{asset.filename}</div>
+                    <div>
+                      {KIND_LABELS[asset.kind]} · {asset.width}×{asset.height} · {formatBytes(asset.bytes)}
+                      {asset.seller_id ? ` · ${asset.seller_id}` : ''}
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {Object.entries(asset.resolved.variants).map(([name, variant]) => (
+                        <a
+                          key={name}
+                          href={variant.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-blue-600 hover:underline"
+                        >
+                          {name} ({variant.width}×{variant.height})
+                        </a>
+                      ))}
+                      <a href={asset.resolved.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                        original
+                      </a>
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,285 @@
+/**
+ * Audit Log
+ *
+ * Read-only view of audit_events for compliance reviews:
+ * - Filter by action, actor, page key and date range
+ * - Shows content_sha before/after for page actions
+ * - Export the filtered events as CSV
+ *
+ * Usage: /studio/audit
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { AUDIT_ACTIONS } from '@/config/constants';
+
+interface AuditEvent {
+  id: string;
+  occurred_at: string;
+  actor: string;
+  action: string;
+  target_type: string;
+  target_id: string | null;
+  page_url_key: string | null;
+  before_sha: string | null;
+  after_sha: string | null;
+  ip: string | null;
+  user_agent: string | null;
+  metadata: Record<string, unknown>;
+}
+
+interface AuditFilters {
+  action: string;
+  actor: string;
+  pageUrlKey: string;
+  from: string; // yyyy-mm-dd
+  to: string;   // yyyy-mm-dd
+}
+
+const EMPTY_FILTERS: AuditFilters = { action: '', actor: '', pageUrlKey: '', from: '', to: '' };
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+}
+
+function shortSha(sha: string | null) {
+  return sha ? sha.slice(0, 8) : '—';
+}
+
+/**
+ * Query string for /api/audit-events; dates cover whole local days
+ */
+function buildQuery(filters: AuditFilters, format?: 'csv') {
+  const params = new URLSearchParams();
+  if (filters.action) params.set('action', filters.action);
+  if (filters.actor.trim()) params.set('actor', filters.actor.trim());
+  if (filters.pageUrlKey.trim()) params.set('page_url_key', filters.pageUrlKey.trim());
+  if (filters.from) params.set('from', new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set('to', new Date(`${filters.to}T23:59:59.999`).toISOString());
+  if (format) params.set('format', format);
+  return params.toString();
+}
+
+export default function AuditLogPage() {
+  const router = useRouter();
+
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+
+  const fetchEvents = useCallback(async (active: AuditFilters) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch(`/api/audit-events?${buildQuery(active)}`);
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to fetch audit events');
+      }
+      setEvents(body.audit_events || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchEvents(appliedFilters);
+  }, [fetchEvents, appliedFilters]);
+
+  function handleApply(e: React.FormEvent) {
+    e.preventDefault();
+    setAppliedFilters(filters);
+  }
+
+  function handleReset() {
+    setFilters(EMPTY_FILTERS);
+    setAppliedFilters(EMPTY_FILTERS);
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <button
+                onClick={() => router.push('/')}
+                className="inline-flex items-center text-gray-600 hover:text-gray-900"
+                title="Back to Dashboard"
+              >
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+                </svg>
+              </button>
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Audit Log</h1>
+                <p className="mt-1 text-sm text-gray-500">
+                  Publishes, deletes, tracking tokens, API keys and sign-ins
+                </p>
+              </div>
+            </div>
+            <a
+              href={`/api/audit-events?${buildQuery(appliedFilters, 'csv')}`}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm font-medium"
+            >
+              Export CSV
+            </a>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        {/* Filters */}
+        <form onSubmit={handleApply} className="bg-white shadow rounded-lg p-6">
+          <div className="grid grid-cols-1 sm:grid-cols-5 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Action</label>
+              <select
+                value={filters.action}
+                onChange={(e) => setFilters({ ...filters, action: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900"
+              >
+                <option value="">All actions</option>
+                {AUDIT_ACTIONS.map((action) => (
+                  <option key={action} value={action}>{action}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Actor</label>
+              <input
+                type="text"
+                value={filters.actor}
+                onChange={(e) => setFilters({ ...filters, actor: e.target.value })}
+                placeholder="studio, api:..."
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Page URL Key</label>
+              <input
+                type="text"
+                value={filters.pageUrlKey}
+                onChange={(e) => setFilters({ ...filters, pageUrlKey: e.target.value })}
+                placeholder="adient-cyngn-1025"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900 font-mono"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+              <input
+                type="date"
+                value={filters.from}
+                onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+              <input
+                type="date"
+                value={filters.to}
+                onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900"
+              />
+            </div>
+          </div>
+          <div className="mt-4 flex items-center gap-4">
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm font-medium"
+            >
+              Apply filters
+            </button>
+            <button
+              type="button"
+              onClick={handleReset}
+              className="px-4 py-2 text-gray-600 hover:text-gray-900 text-sm"
+            >
+              Reset
+            </button>
+          </div>
+        </form>
+
+        {/* Event List */}
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          {loading ? (
+            <div className="p-8 text-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+              <p className="mt-4 text-gray-500">Loading audit events...</p>
+            </div>
+          ) : error ? (
+            <div className="p-8 text-center">
+              <p className="text-gray-500">{error}</p>
+              <button
+                onClick={() => fetchEvents(appliedFilters)}
+                className="mt-4 text-blue-600 hover:text-blue-800"
+              >
+                Try again
+              </button>
+            </div>
+          ) : events.length === 0 ? (
+            <div className="p-8 text-center">
+              <h3 className="text-lg font-medium text-gray-900">No audit events</h3>
+              <p className="mt-1 text-gray-500">Nothing matches these filters.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">When</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actor</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Action</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Target</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Content SHA</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">IP</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {events.map((event) => (
+                    <tr key={event.id} className="hover:bg-gray-50 align-top">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDate(event.occurred_at)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{event.actor}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-900">{event.action}</td>
+                      <td className="px-6 py-4 text-sm text-gray-500">
+                        <div className="font-mono text-gray-900">{event.page_url_key || event.target_id || '-'}</div>
+                        {Object.keys(event.metadata || {}).length > 0 && (
+                          <div className="mt-1 text-xs text-gray-400 font-mono break-all max-w-md">
+                            {JSON.stringify(event.metadata)}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-500">
+                        {event.before_sha || event.after_sha
+                          ? `${shortSha(event.before_sha)} → ${shortSha(event.after_sha)}`
+                          : '-'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500" title={event.user_agent || undefined}>
+                        {event.ip || '-'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,300 @@
+/**
+ * Seller Domains
+ *
+ * Register the domains sellers publish on and prove ownership:
+ * - Register a domain for a seller; it starts as "pending"
+ * - The seller adds the DNS TXT record shown for it, then Verify looks it up
+ * - Only verified domains (and the platform's own) are served and accept publishes
+ *
+ * Usage: /studio/domains
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import type { SellerDomainStatus } from '@/config/constants';
+
+interface RegisteredDomain {
+  domain: string;
+  seller_id: string;
+  status: SellerDomainStatus;
+  last_checked_at?: string | null;
+  last_check_error?: string | null;
+  verified_at?: string | null;
+  created_at?: string;
+  record: { type: 'TXT'; name: string; value: string };
+}
+
+const STATUS_STYLES: Record<SellerDomainStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  verified: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+export default function SellerDomainsPage() {
+  const router = useRouter();
+
+  const [domains, setDomains] = useState<RegisteredDomain[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const [domain, setDomain] = useState('');
+  const [sellerId, setSellerId] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [busyDomain, setBusyDomain] = useState<string | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+
+  const fetchDomains = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/seller-domains');
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to load domains');
+      }
+      setDomains(body.domains || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchDomains();
+  }, [fetchDomains]);
+
+  async function handleRegister(e: React.FormEvent) {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      setError(null);
+      setMessage(null);
+
+      const response = await fetch('/api/seller-domains', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ domain: domain.trim(), seller_id: sellerId.trim() }),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        const details = (body.validationErrors || []).map(
+          (issue: { path: string; message: string }) => `${issue.path}: ${issue.message}`
+        );
+        throw new Error([body.error || 'Failed to register domain', ...details].join(' — '));
+      }
+
+      setMessage(`Registered ${body.domain.domain}. Add its TXT record, then click Verify.`);
+      setDomain('');
+      await fetchDomains();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleVerify(entry: RegisteredDomain) {
+    try {
+      setBusyDomain(entry.domain);
+      setError(null);
+      setMessage(null);
+
+      const response = await fetch(`/api/seller-domains/${encodeURIComponent(entry.domain)}/verify`, { method: 'POST' });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || 'Verification failed');
+      }
+
+      if (body.verified) {
+        setMessage(`${entry.domain} is verified.`);
+      } else {
+        setError(`${entry.domain} could not be verified: ${body.domain.last_check_error || 'record not found'}`);
+      }
+      await fetchDomains();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setBusyDomain(null);
+    }
+  }
+
+  async function handleRemove(entry: RegisteredDomain) {
+    if (!confirm(`Remove ${entry.domain}? Its pages stop being served on this domain.`)) return;
+
+    try {
+      setBusyDomain(entry.domain);
+      setError(null);
+      setMessage(null);
+
+      const response = await fetch(`/api/seller-domains/${encodeURIComponent(entry.domain)}`, { method: 'DELETE' });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to remove domain');
+      }
+
+      setMessage(`Removed ${entry.domain}.`);
+      await fetchDomains();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setBusyDomain(null);
+    }
+  }
+
+  async function handleCopy(value: string) {
+    await navigator.clipboard.writeText(value);
+    setCopied(value);
+    setTimeout(() => setCopied((current) => (current === value ? null : current)), 1500);
+  }
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900';
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => router.push('/')}
+              className="inline-flex items-center text-gray-600 hover:text-gray-900"
+              title="Back to Dashboard"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+              </svg>
+            </button>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Seller Domains</h1>
+              <p className="mt-1 text-sm text-gray-500">
+                Pages are served and published only on domains verified with a DNS TXT record
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-800">{error}</div>
+        )}
+        {message && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-4 text-sm text-green-800">{message}</div>
+        )}
+
+        {/* Register */}
+        <form onSubmit={handleRegister} className="bg-white shadow rounded-lg p-6 space-y-4">
+          <h2 className="text-lg font-semibold text-gray-900">Register a domain</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Domain *</label>
+              <input
+                type="text"
+                value={domain}
+                onChange={(e) => setDomain(e.target.value)}
+                placeholder="cyngn.com"
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Seller ID *</label>
+              <input
+                type="text"
+                value={sellerId}
+                onChange={(e) => setSellerId(e.target.value)}
+                placeholder="cyngn"
+                className={inputClass}
+                required
+              />
+            </div>
+            <div className="flex items-end">
+              <button
+                type="submit"
+                disabled={saving || !domain.trim() || !sellerId.trim()}
+                className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+              >
+                {saving ? 'Registering…' : 'Register'}
+              </button>
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            Buyer pages are served at {'{buyer}'}.{'{domain}'}; point those hosts at this app, then add the TXT record shown below.
+          </p>
+        </form>
+
+        {/* Registry */}
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">Registered domains</h2>
+          </div>
+          {loading ? (
+            <p className="px-6 py-8 text-sm text-gray-500">Loading…</p>
+          ) : domains.length === 0 ? (
+            <p className="px-6 py-8 text-sm text-gray-500">No domains registered yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {domains.map((entry) => (
+                <li key={entry.domain} className="px-6 py-4 space-y-3">
+                  <div className="flex flex-wrap items-center justify-between gap-3">
+                    <div className="flex items-center gap-3">
+                      <span className="font-medium text-gray-900">{entry.domain}</span>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[entry.status]}`}>
+                        {entry.status}
+                      </span>
+                      <span className="text-sm text-gray-500">{entry.seller_id}</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <button
+                        type="button"
+                        onClick={() => handleVerify(entry)}
+                        disabled={busyDomain === entry.domain}
+                        className="px-3 py-1.5 text-sm font-medium text-blue-700 border border-blue-200 rounded-md hover:bg-blue-50 disabled:opacity-50"
+                      >
+                        {busyDomain === entry.domain ? 'Checking…' : entry.status === 'verified' ? 'Re-check' : 'Verify'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleRemove(entry)}
+                        disabled={busyDomain === entry.domain}
+                        className="px-3 py-1.5 text-sm font-medium text-red-700 border border-red-200 rounded-md hover:bg-red-50 disabled:opacity-50"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-[auto_1fr_1fr] gap-2 text-xs text-gray-600 bg-gray-50 rounded-md p-3">
+                    <span className="font-semibold text-gray-700">{entry.record.type}</span>
+                    {[entry.record.name, entry.record.value].map((value) => (
+                      <div key={value} className="flex items-center gap-2 min-w-0">
+                        <code className="truncate text-gray-900" title={value}>{value}</code>
+                        <button
+                          type="button"
+                          onClick={() => handleCopy(value)}
+                          className="shrink-0 font-medium text-blue-600 hover:text-blue-800"
+                        >
+                          {copied === value ? 'Copied' : 'Copy'}
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+
+                  <p className="text-xs text-gray-500">
+                    {entry.verified_at ? `Verified ${new Date(entry.verified_at).toLocaleString()}` : 'Never verified'}
+                    {entry.last_checked_at ? ` · Last checked ${new Date(entry.last_checked_at).toLocaleString()}` : ''}
+                    {entry.last_check_error ? ` · ${entry.last_check_error}` : ''}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
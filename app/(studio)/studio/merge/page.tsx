@@ -0,0 +1,633 @@
+/**
+ * Mail Merge
+ *
+ * Build many near-identical pages from one template:
+ * - Paste (or upload) a RawLandingContent template with {{placeholders}}
+ * - Paste (or upload) a CSV with a buyer_id column plus one column per placeholder
+ *   (optional per-row columns: mmyy, seller_domain, page_url_key, contact_ids, contact_emails)
+ * - Validate: every row is filled and run through validateAndNormalize (pass/fail grid)
+ * - Publish: valid rows are published in one batch job with live progress,
+ *   optionally generating tracking tokens for each row's contacts
+ *
+ * Usage: /studio/merge
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { MAIL_MERGE_META_COLUMNS } from '@/config/constants';
+
+type RowStatus = 'valid' | 'invalid' | 'pending' | 'publishing' | 'published' | 'failed';
+
+interface MergeIssue {
+  path: string;
+  message: string;
+}
+
+interface GridRow {
+  row_number: number;
+  buyer: string | null;
+  page_url_key: string | null;
+  status: RowStatus;
+  contacts: number;
+  errors: MergeIssue[];
+  warnings: MergeIssue[];
+  url?: string | null;
+  tokens_created?: number | null;
+}
+
+interface PreviewRow {
+  row_number: number;
+  variables: Record<string, string>;
+  page_url_key: string | null;
+  buyer_name: string | null;
+  contact_ids: string[];
+  errors: MergeIssue[];
+  warnings: MergeIssue[];
+  valid: boolean;
+}
+
+interface BatchItem {
+  row_number: number;
+  status: Exclude<RowStatus, 'valid'>;
+  variables: Record<string, string>;
+  page_url_key: string | null;
+  contact_ids: string[];
+  errors: MergeIssue[];
+  warnings: MergeIssue[];
+  url: string | null;
+  tokens_created: number | null;
+}
+
+interface MergeProgress {
+  total: number;
+  invalid: number;
+  pending: number;
+  publishing: number;
+  published: number;
+  failed: number;
+  done: boolean;
+}
+
+interface BatchSummary {
+  id: string;
+  name: string;
+  status: 'ready' | 'running' | 'completed';
+  total_rows: number;
+  generate_tokens: boolean;
+  created_at: string;
+  completed_at: string | null;
+}
+
+interface BatchDetail {
+  batch: BatchSummary;
+  items: BatchItem[];
+  progress: MergeProgress;
+}
+
+const STATUS_STYLES: Record<RowStatus, string> = {
+  valid: 'bg-green-100 text-green-800',
+  invalid: 'bg-red-100 text-red-800',
+  pending: 'bg-gray-100 text-gray-700',
+  publishing: 'bg-blue-100 text-blue-800',
+  published: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function fromPreview(row: PreviewRow): GridRow {
+  return {
+    row_number: row.row_number,
+    buyer: row.buyer_name,
+    page_url_key: row.page_url_key,
+    status: row.valid ? 'valid' : 'invalid',
+    contacts: row.contact_ids.length,
+    errors: row.errors,
+    warnings: row.warnings,
+  };
+}
+
+function fromBatchItem(item: BatchItem): GridRow {
+  return {
+    row_number: item.row_number,
+    buyer: item.variables.BuyersName ?? null,
+    page_url_key: item.page_url_key,
+    status: item.status,
+    contacts: item.contact_ids.length,
+    errors: item.errors,
+    warnings: item.warnings,
+    url: item.url,
+    tokens_created: item.tokens_created,
+  };
+}
+
+export default function MailMergePage() {
+  const router = useRouter();
+
+  const [campaigns, setCampaigns] = useState<Array<{ id: string; name: string }>>([]);
+  const [batches, setBatches] = useState<BatchSummary[]>([]);
+
+  const [name, setName] = useState('');
+  const [sellerId, setSellerId] = useState('');
+  const [sellerDomain, setSellerDomain] = useState('');
+  const [mmyy, setMmyy] = useState('');
+  const [campaignId, setCampaignId] = useState('');
+  const [generateTokens, setGenerateTokens] = useState(false);
+  const [templateText, setTemplateText] = useState('');
+  const [csvText, setCsvText] = useState('');
+
+  const [rows, setRows] = useState<GridRow[]>([]);
+  const [placeholders, setPlaceholders] = useState<string[]>([]);
+  const [validated, setValidated] = useState(false);
+  const [validating, setValidating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [batch, setBatch] = useState<BatchSummary | null>(null);
+  const [progress, setProgress] = useState<MergeProgress | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const fetchBatches = useCallback(async () => {
+    try {
+      const response = await fetch('/api/merge-batches');
+      const body = await response.json();
+      if (response.ok) {
+        setBatches(body.batches || []);
+      }
+    } catch (err) {
+      console.error('Failed to load batches:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    async function loadCampaigns() {
+      try {
+        const response = await fetch('/api/campaigns');
+        if (response.ok) {
+          setCampaigns(await response.json());
+        }
+      } catch (err) {
+        console.error('Failed to load campaigns:', err);
+      }
+    }
+    loadCampaigns();
+    fetchBatches();
+  }, [fetchBatches]);
+
+  function resetResults() {
+    setValidated(false);
+    setRows([]);
+    setBatch(null);
+    setProgress(null);
+  }
+
+  async function loadFile(e: React.ChangeEvent<HTMLInputElement>, setText: (text: string) => void) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setText(await file.text());
+    resetResults();
+    e.target.value = '';
+  }
+
+  /**
+   * Request body shared by validate and publish; null if the template is not JSON
+   */
+  function buildBody(validateOnly: boolean) {
+    let template: unknown;
+    try {
+      template = JSON.parse(templateText);
+    } catch {
+      setError('Template is not valid JSON');
+      return null;
+    }
+
+    return {
+      name: name.trim() || `Mail merge ${new Date().toLocaleDateString('en-US')}`,
+      template,
+      csv: csvText,
+      defaults: {
+        seller_id: sellerId.trim(),
+        seller_domain: sellerDomain.trim() || null,
+        mmyy: mmyy.trim() || null,
+        campaign_id: campaignId || null,
+      },
+      generate_tokens: generateTokens,
+      validate_only: validateOnly,
+    };
+  }
+
+  function describeError(body: { error?: string; validationErrors?: MergeIssue[] }, fallback: string) {
+    const details = (body.validationErrors || []).map((issue) => `${issue.path}: ${issue.message}`);
+    return [body.error || fallback, ...details].join(' — ');
+  }
+
+  function applyDetail(detail: BatchDetail) {
+    setBatch(detail.batch);
+    setProgress(detail.progress);
+    setRows(detail.items.map(fromBatchItem));
+  }
+
+  async function handleValidate() {
+    const body = buildBody(true);
+    if (!body) return;
+
+    try {
+      setValidating(true);
+      setError(null);
+      resetResults();
+      const response = await fetch('/api/merge-batches', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(describeError(result, 'Validation failed'));
+      }
+      setPlaceholders(result.placeholders || []);
+      setRows((result.rows as PreviewRow[]).map(fromPreview));
+      setValidated(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setValidating(false);
+    }
+  }
+
+  const runBatch = useCallback(async (batchId: string) => {
+    try {
+      setRunning(true);
+      setError(null);
+      for (;;) {
+        const response = await fetch(`/api/merge-batches/${batchId}/run`, { method: 'POST' });
+        const detail = await response.json();
+        if (!response.ok) {
+          throw new Error(detail.error || 'Batch run failed');
+        }
+        applyDetail(detail);
+        if (detail.progress.done) break;
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setRunning(false);
+      fetchBatches();
+    }
+  }, [fetchBatches]);
+
+  async function handlePublish() {
+    const validCount = rows.filter((row) => row.status === 'valid').length;
+    if (!confirm(`Publish ${validCount} page${validCount === 1 ? '' : 's'}? Invalid rows are skipped.`)) {
+      return;
+    }
+
+    const body = buildBody(false);
+    if (!body) return;
+
+    try {
+      setRunning(true);
+      setError(null);
+      const response = await fetch('/api/merge-batches', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        if (result.rows) {
+          setRows((result.rows as PreviewRow[]).map(fromPreview));
+        }
+        throw new Error(describeError(result, 'Failed to create batch'));
+      }
+      applyDetail(result);
+      await runBatch(result.batch.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      setRunning(false);
+    }
+  }
+
+  async function handleOpenBatch(batchId: string, resume: boolean) {
+    try {
+      setError(null);
+      const response = await fetch(`/api/merge-batches/${batchId}`);
+      const detail = await response.json();
+      if (!response.ok) {
+        throw new Error(detail.error || 'Failed to load batch');
+      }
+      applyDetail(detail);
+      setValidated(false);
+      if (resume && !detail.progress.done) {
+        await runBatch(batchId);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  }
+
+  const validCount = rows.filter((row) => row.status === 'valid').length;
+  const invalidCount = rows.filter((row) => row.status === 'invalid').length;
+  const toPublish = progress ? progress.total - progress.invalid : 0;
+  const processed = progress ? progress.published + progress.failed : 0;
+  const percent = toPublish > 0 ? Math.round((processed / toPublish) * 100) : 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => router.push('/')}
+              className="inline-flex items-center text-gray-600 hover:text-gray-900"
+              title="Back to Dashboard"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+              </svg>
+            </button>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Mail Merge</h1>
+              <p className="mt-1 text-sm text-gray-500">
+                One template with {'{{placeholders}}'} + a CSV of accounts → one page per row
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        {/* Batch Settings */}
+        <div className="bg-white shadow rounded-lg p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Batch Settings</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Batch Name</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Q4 automotive outbound"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Seller ID *</label>
+              <input
+                type="text"
+                value={sellerId}
+                onChange={(e) => { setSellerId(e.target.value); resetResults(); }}
+                placeholder="cyngn"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Seller Domain</label>
+              <input
+                type="text"
+                value={sellerDomain}
+                onChange={(e) => { setSellerDomain(e.target.value); resetResults(); }}
+                placeholder="cyngn.com"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900"
+              />
+              <p className="mt-1 text-xs text-gray-500">Used for rows without a seller_domain column</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">MMYY</label>
+              <input
+                type="text"
+                value={mmyy}
+                onChange={(e) => { setMmyy(e.target.value); resetResults(); }}
+                placeholder="1025"
+                maxLength={4}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900"
+              />
+              <p className="mt-1 text-xs text-gray-500">Used for rows without an mmyy column</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Campaign</label>
+              <select
+                value={campaignId}
+                onChange={(e) => setCampaignId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900 bg-white"
+              >
+                <option value="">No campaign</option>
+                {campaigns.map((campaign) => (
+                  <option key={campaign.id} value={campaign.id}>{campaign.name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex items-center">
+              <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={generateTokens}
+                  onChange={(e) => setGenerateTokens(e.target.checked)}
+                  className="rounded border-gray-300"
+                />
+                Generate tracking links for each row&apos;s contacts (needs a campaign)
+              </label>
+            </div>
+          </div>
+        </div>
+
+        {/* Template + CSV */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="bg-white shadow rounded-lg p-6">
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-lg font-semibold text-gray-900">Template JSON</h2>
+              <label className="text-sm text-blue-600 hover:text-blue-800 cursor-pointer">
+                Upload .json
+                <input type="file" accept=".json,application/json" className="hidden" onChange={(e) => loadFile(e, setTemplateText)} />
+              </label>
+            </div>
+            <textarea
+              value={templateText}
+              onChange={(e) => { setTemplateText(e.target.value); resetResults(); }}
+              placeholder='{ "BuyersName": "{{BuyersName}}", "biggestBusinessBenefitBuyerStatement": "{{headline}}", ... }'
+              rows={16}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-xs font-mono text-gray-900"
+            />
+          </div>
+          <div className="bg-white shadow rounded-lg p-6">
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-lg font-semibold text-gray-900">Accounts CSV</h2>
+              <label className="text-sm text-blue-600 hover:text-blue-800 cursor-pointer">
+                Upload .csv
+                <input type="file" accept=".csv,text/csv" className="hidden" onChange={(e) => loadFile(e, setCsvText)} />
+              </label>
+            </div>
+            <textarea
+              value={csvText}
+              onChange={(e) => { setCsvText(e.target.value); resetResults(); }}
+              placeholder={'buyer_id,BuyersName,headline,contact_emails\nadient,Adient,Make Adient\'s plants resilient,jane@adient.com;raj@adient.com'}
+              rows={16}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-xs font-mono text-gray-900"
+            />
+            <p className="mt-2 text-xs text-gray-500">
+              Required: buyer_id. Optional per-row columns: {MAIL_MERGE_META_COLUMNS.filter((c) => c !== 'buyer_id').join(', ')}.
+              Every other column fills the matching {'{{placeholder}}'}.
+            </p>
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="flex flex-wrap items-center gap-4">
+          <button
+            onClick={handleValidate}
+            disabled={validating || running || !templateText.trim() || !csvText.trim() || !sellerId.trim()}
+            className="px-4 py-2 bg-gray-800 text-white rounded-md hover:bg-gray-900 text-sm font-medium disabled:opacity-50"
+          >
+            {validating ? 'Validating...' : 'Validate rows'}
+          </button>
+          <button
+            onClick={handlePublish}
+            disabled={!validated || validCount === 0 || running}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm font-medium disabled:opacity-50"
+          >
+            {running ? 'Publishing...' : `Publish ${validCount} valid row${validCount === 1 ? '' : 's'}`}
+          </button>
+          {validated && (
+            <span className="text-sm text-gray-600">
+              {validCount} pass · {invalidCount} fail
+              {placeholders.length > 0 && <> · placeholders: <span className="font-mono">{placeholders.join(', ')}</span></>}
+            </span>
+          )}
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">{error}</div>
+        )}
+
+        {/* Progress */}
+        {batch && progress && (
+          <div className="bg-white shadow rounded-lg p-6">
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-lg font-semibold text-gray-900">{batch.name}</h2>
+              <span className="text-sm text-gray-600">
+                {processed} / {toPublish} processed · {progress.published} published · {progress.failed} failed · {progress.invalid} skipped
+              </span>
+            </div>
+            <div className="w-full h-3 bg-gray-200 rounded-full overflow-hidden">
+              <div className="h-3 bg-blue-600 transition-all" style={{ width: `${percent}%` }} />
+            </div>
+            {!running && !progress.done && (
+              <button
+                onClick={() => runBatch(batch.id)}
+                className="mt-4 text-sm text-blue-600 hover:text-blue-800"
+              >
+                Resume publishing
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Row Grid */}
+        {rows.length > 0 && (
+          <div className="bg-white shadow rounded-lg overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Row</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Buyer</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Page URL Key</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Contacts</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Details</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {rows.map((row) => (
+                    <tr key={row.row_number} className="align-top">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{row.row_number}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{row.buyer || '-'}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-900">
+                        {row.url ? (
+                          <a href={row.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800">
+                            {row.page_url_key}
+                          </a>
+                        ) : (
+                          row.page_url_key || '-'
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_STYLES[row.status]}`}>
+                          {row.status === 'valid' ? 'pass' : row.status === 'invalid' ? 'fail' : row.status}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {row.contacts}
+                        {row.tokens_created != null && ` (${row.tokens_created} new links)`}
+                      </td>
+                      <td className="px-6 py-4 text-xs">
+                        {row.errors.map((issue, i) => (
+                          <div key={`e${i}`} className="text-red-700">
+                            {issue.path && <span className="font-mono">{issue.path}: </span>}{issue.message}
+                          </div>
+                        ))}
+                        {row.warnings.map((issue, i) => (
+                          <div key={`w${i}`} className="text-yellow-700">
+                            {issue.path && <span className="font-mono">{issue.path}: </span>}{issue.message}
+                          </div>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {/* Recent Batches */}
+        {batches.length > 0 && (
+          <div className="bg-white shadow rounded-lg overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">Recent Batches</h2>
+            </div>
+            <ul className="divide-y divide-gray-200">
+              {batches.map((item) => (
+                <li key={item.id} className="px-6 py-4 flex items-center justify-between gap-4">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{item.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {item.total_rows} rows · {item.status} · {formatDate(item.created_at)}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-4 text-sm">
+                    <button
+                      onClick={() => handleOpenBatch(item.id, false)}
+                      disabled={running}
+                      className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                    >
+                      View
+                    </button>
+                    {item.status !== 'completed' && (
+                      <button
+                        onClick={() => handleOpenBatch(item.id, true)}
+                        disabled={running}
+                        className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                      >
+                        Resume
+                      </button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
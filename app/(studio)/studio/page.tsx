@@ -18,12 +18,24 @@
 
 import { useState, useRef, useEffect, Suspense } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
-import { validateAndNormalize, type ValidationResult } from '@/lib/validation';
+import { validateAndNormalize, validateAndNormalizeSync, type ValidationResult } from '@/lib/validation';
+import { applySellerDefaults, type SellerDefaults } from '@/lib/normalize/sellerDefaults';
+import { collectAssetReferences, type AssetLookup, type ResolvedAsset } from '@/lib/assets/references';
+import type { NormalizedContent } from '@/lib/normalize/normalized.types';
 import { LandingPage } from '@/components/landing/LandingPage';
 import { suggestPageUrlKey } from '@/lib/utils/slug';
-import { publishLanding } from '@/lib/actions/publishLanding';
+import { mapNormalizedToRaw } from '@/lib/normalize/mapNormalizedToRaw';
+import { getSitePage } from '@/lib/normalize/site';
+import { publishLanding, dryRunPublish } from '@/lib/actions/publishLanding';
+import { saveDraft, submitDraftForReview } from '@/lib/actions/draftWorkflow';
+import { promptStudioSecret } from '@/lib/utils/studioFetch';
+import { CAMPAIGN_WINDOW_CONFIG } from '@/config/constants';
 import { ContactMultiSelect } from '@/components/studio/ContactMultiSelect';
-import type { PublishResult } from '@/lib/types';
+import { ContentDiffView } from '@/components/studio/ContentDiffView';
+import { TemplatePicker } from '@/components/studio/TemplatePicker';
+import { generateSlug } from '@/lib/validation/publishMeta';
+import type { ContentDiff } from '@/lib/normalize/diff';
+import type { PublishResult, PublishDryRunResult, DraftResult } from '@/lib/types';
 
 // Contact type for multi-select
 interface Contact {
@@ -56,6 +68,15 @@ interface TokenGenerationResult {
   };
 }
 
+/**
+ * Format an ISO timestamp for a datetime-local input (local time, minute precision)
+ */
+function toDateTimeLocal(iso: string): string {
+  const date = new Date(iso);
+  const offsetMs = date.getTimezoneOffset() * 60_000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
+
 function StudioContent() {
   const searchParams = useSearchParams();
   const router = useRouter();
@@ -66,8 +87,18 @@ function StudioContent() {
   const [validating, setValidating] = useState(false);
   const [publishing, setPublishing] = useState(false);
   const [publishResult, setPublishResult] = useState<PublishResult | null>(null);
+  const [savingDraft, setSavingDraft] = useState(false);
+  const [submittingReview, setSubmittingReview] = useState(false);
+  const [draftResult, setDraftResult] = useState<DraftResult | null>(null);
+  const [draftId, setDraftId] = useState<string | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [dryRunning, setDryRunning] = useState(false);
+  const [dryRunResult, setDryRunResult] = useState<PublishDryRunResult | null>(null);
+  const [liveDiff, setLiveDiff] = useState<{ diff: ContentDiff; liveVersion: number | null; hasLive: boolean } | null>(null);
   const [loadingEdit, setLoadingEdit] = useState(false);
   const [editMode, setEditMode] = useState(false);
+  const [sampleContent, setSampleContent] = useState<NormalizedContent | null>(null);
+  const [previewSitePage, setPreviewSitePage] = useState<string | null>(null); // Microsite page shown in the preview (null = overview)
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   // Metadata fields
@@ -76,6 +107,12 @@ function StudioContent() {
   const [mmyy, setMmyy] = useState('');
   const [sellerDomain, setSellerDomain] = useState('abm.hrytos.com');
   const [campaignId, setCampaignId] = useState('');
+  const [publishedBy, setPublishedBy] = useState('');
+  const [expireAt, setExpireAt] = useState(''); // datetime-local value; empty = campaign default
+  const [vanitySlug, setVanitySlug] = useState(''); // empty = {buyer}-{seller}-{mmyy}
+  const [originalPageUrlKey, setOriginalPageUrlKey] = useState<string | null>(null); // Key of the page being edited
+  const [redirectOldKey, setRedirectOldKey] = useState(true);
+  const [pendingRedirectFrom, setPendingRedirectFrom] = useState<string[]>([]); // Saved on the draft (roll-forward clones)
   const [campaigns, setCampaigns] = useState<Array<{id: string; name: string}>>([]);
   
   // Contact selection for token generation
@@ -106,12 +143,33 @@ function StudioContent() {
         setMmyy(page.mmyy || '');
         setSellerDomain(page.seller_domain || 'abm.hrytos.com');
         setCampaignId(page.campaign_id || '');
+        setExpireAt(page.expire_at ? toDateTimeLocal(page.expire_at) : '');
+        setOriginalPageUrlKey(page.page_url_key || null);
+        setPendingRedirectFrom(page.redirect_from || []);
+        setVanitySlug(
+          page.page_url_key && page.page_url_key !== generateSlug(page.buyer_id, page.seller_id, page.mmyy)
+            ? page.page_url_key
+            : ''
+        );
+        
+        // Editing a draft row: keep its id so it can be submitted for review
+        if (page.status === 'draft' || page.status === 'in_review' || page.status === 'scheduled') {
+          setDraftId(page.id);
+          setDraftResult({
+            ok: true,
+            id: page.id,
+            pageUrlKey: page.page_url_key,
+            status: page.status,
+            publishAt: page.publish_at,
+          });
+        }
         
         // Set the JSON content
-        if (page.page_content?.raw) {
-          setJsonInput(JSON.stringify(page.page_content.raw, null, 2));
+        // Prefer the raw JSON stored on publish; legacy rows only have normalized content
+        if (page.page_content?.original) {
+          setJsonInput(JSON.stringify(page.page_content.original, null, 2));
         } else if (page.page_content?.normalized) {
-          setJsonInput(JSON.stringify(page.page_content.normalized, null, 2));
+          setJsonInput(JSON.stringify(mapNormalizedToRaw(page.page_content.normalized), null, 2));
         } else if (page.page_content) {
           setJsonInput(JSON.stringify(page.page_content, null, 2));
         }
@@ -144,6 +202,53 @@ function StudioContent() {
     loadCampaigns();
   }, []);
 
+  // Sample content for the template thumbnails until the editor content is validated
+  useEffect(() => {
+    async function loadSample() {
+      try {
+        const response = await fetch('/content-cyngn-abm.json');
+        if (response.ok) {
+          setSampleContent(validateAndNormalizeSync(await response.json()).normalized);
+        }
+      } catch (error) {
+        console.error('Failed to load template sample:', error);
+      }
+    }
+    loadSample();
+  }, []);
+
+  // templateType of the editor JSON (undefined = not parseable yet)
+  const editorTemplateId = (() => {
+    try {
+      const raw = JSON.parse(jsonInput);
+      return raw && typeof raw === 'object' ? (typeof raw.templateType === 'string' ? raw.templateType : null) : undefined;
+    } catch {
+      return undefined;
+    }
+  })();
+
+  const handleSelectTemplate = (templateId: string) => {
+    try {
+      const raw = JSON.parse(jsonInput);
+      setJsonInput(JSON.stringify({ ...raw, templateType: templateId }, null, 2));
+      setValidationResult(null); // Re-validate with the new template
+    } catch {
+      // Picker is disabled while the JSON does not parse
+    }
+  };
+
+  // Key the page will be published at, and old keys that should 301 to it
+  const pageUrlKey = vanitySlug || generateSlug(buyerId, sellerId, mmyy);
+  const keyChanged = !!originalPageUrlKey && originalPageUrlKey !== pageUrlKey;
+  const redirectFrom = [
+    ...pendingRedirectFrom,
+    ...(keyChanged && redirectOldKey && originalPageUrlKey ? [originalPageUrlKey] : []),
+  ];
+  const slugMeta = {
+    ...(vanitySlug ? { page_url_key: vanitySlug } : {}),
+    ...(redirectFrom.length > 0 ? { redirect_from: redirectFrom } : {}),
+  };
+
   const handleValidate = async () => {
     setValidating(true);
     setValidationResult(null);
@@ -152,8 +257,28 @@ function StudioContent() {
       // Parse JSON
       const raw = JSON.parse(jsonInput);
       
+      // Merge the seller profile defaults (if any) like publish does, then validate
+      let sellerDefaults: SellerDefaults | null = null;
+      if (sellerId.trim()) {
+        const profileResponse = await fetch(`/api/sellers/${encodeURIComponent(sellerId.trim().toLowerCase())}`);
+        if (profileResponse.ok) {
+          sellerDefaults = (await profileResponse.json()).defaults;
+        }
+      }
+
+      // Look up the library assets the content references (publish does the same on the server)
+      const assetIds = collectAssetReferences(applySellerDefaults(raw, sellerDefaults)).map((ref) => ref.assetId);
+      let assets: AssetLookup = {};
+      if (assetIds.length > 0) {
+        const assetResponse = await fetch(`/api/assets?ids=${encodeURIComponent(assetIds.join(','))}`);
+        if (assetResponse.ok) {
+          const { assets: rows } = (await assetResponse.json()) as { assets: Array<{ asset_id: string; resolved: ResolvedAsset }> };
+          assets = Object.fromEntries(rows.map((row) => [row.asset_id, row.resolved]));
+        }
+      }
+
       // Validate and normalize
-      const result = await validateAndNormalize(raw);
+      const result = await validateAndNormalize(raw, { sellerDefaults, assets });
       setValidationResult(result);
     } catch (error) {
       // JSON parse error
@@ -217,12 +342,19 @@ function StudioContent() {
     setJsonInput('');
     setValidationResult(null);
     setPublishResult(null);
+    setDraftResult(null);
+    setDraftId(null);
     setTokenResult(null);
     setBuyerId('');
     setSellerId('');
     setMmyy('');
     setSellerDomain('abm.hrytos.com');
     setCampaignId('');
+    setExpireAt('');
+    setVanitySlug('');
+    setOriginalPageUrlKey(null);
+    setRedirectOldKey(true);
+    setPendingRedirectFrom([]);
     setSelectedContacts([]);
     setEditMode(false);
     if (fileInputRef.current) {
@@ -271,6 +403,9 @@ function StudioContent() {
         buyer_id: buyerId,
         seller_id: sellerId,
         mmyy: mmyy,
+        published_by: publishedBy || null,
+        ...slugMeta,
+        ...(expireAt ? { expire_at: new Date(expireAt).toISOString() } : {}),
       };
 
       // Call the publish server action
@@ -359,6 +494,155 @@ function StudioContent() {
     }
   };
 
+  const handleSaveDraft = async () => {
+    if (!validationResult?.isValid || !validationResult.normalized) {
+      alert('Please validate your content first!');
+      return;
+    }
+
+    if (!sellerDomain || !buyerId || !sellerId || !mmyy) {
+      alert('Please fill in all required metadata fields (Seller Domain, Buyer ID, Seller ID, MMYY)!');
+      return;
+    }
+
+    const secret = promptStudioSecret();
+    if (!secret) {
+      return;
+    }
+
+    setSavingDraft(true);
+    try {
+      const result = await saveDraft(
+        JSON.parse(jsonInput),
+        {
+          seller_domain: sellerDomain,
+          campaign_id: campaignId || null,
+          buyer_id: buyerId,
+          seller_id: sellerId,
+          mmyy: mmyy,
+          ...slugMeta,
+          ...(expireAt ? { expire_at: new Date(expireAt).toISOString() } : {}),
+        },
+        secret
+      );
+      setDraftResult(result);
+      if (result.ok && result.id) {
+        setDraftId(result.id);
+      }
+    } catch (error) {
+      setDraftResult({
+        ok: false,
+        error: `Save failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      });
+    } finally {
+      setSavingDraft(false);
+    }
+  };
+
+  const handleDryRun = async () => {
+    if (!validationResult?.isValid || !validationResult.normalized) {
+      alert('Please validate your content first!');
+      return;
+    }
+
+    if (!sellerDomain || !buyerId || !sellerId || !mmyy) {
+      alert('Please fill in all required metadata fields (Seller Domain, Buyer ID, Seller ID, MMYY)!');
+      return;
+    }
+
+    const secret = promptStudioSecret();
+    if (!secret) {
+      return;
+    }
+
+    setDryRunning(true);
+    setDryRunResult(null);
+    try {
+      const result = await dryRunPublish(
+        JSON.parse(jsonInput),
+        {
+          seller_domain: sellerDomain,
+          campaign_id: campaignId || null,
+          buyer_id: buyerId,
+          seller_id: sellerId,
+          mmyy: mmyy,
+          published_by: publishedBy || null,
+          ...slugMeta,
+          ...(expireAt ? { expire_at: new Date(expireAt).toISOString() } : {}),
+        },
+        secret
+      );
+      setDryRunResult(result);
+    } catch (error) {
+      setDryRunResult({
+        ok: false,
+        dryRun: true,
+        error: `Dry run failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      });
+    } finally {
+      setDryRunning(false);
+    }
+  };
+
+  const handleCompareWithLive = async () => {
+    if (!validationResult?.isValid || !validationResult.normalized) {
+      alert('Please validate your content first!');
+      return;
+    }
+
+    if (!buyerId || !sellerId || !mmyy) {
+      alert('Please fill in Buyer ID, Seller ID and MMYY to find the live page!');
+      return;
+    }
+
+    setComparing(true);
+    setLiveDiff(null);
+    try {
+      const response = await fetch('/api/landing-pages/diff', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          rawJson: JSON.parse(jsonInput),
+          seller_id: sellerId,
+          page_url_key: keyChanged ? originalPageUrlKey : pageUrlKey, // Live content is still at the old key
+        }),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || 'Compare failed');
+      }
+      setLiveDiff({ diff: body.diff, liveVersion: body.from?.version ?? null, hasLive: !!body.from });
+    } catch (error) {
+      alert(`Compare failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  const handleSubmitForReview = async () => {
+    if (!draftId) {
+      return;
+    }
+
+    const secret = promptStudioSecret();
+    if (!secret) {
+      return;
+    }
+
+    setSubmittingReview(true);
+    try {
+      const result = await submitDraftForReview(draftId, secret, publishedBy || null);
+      setDraftResult(result);
+    } catch (error) {
+      setDraftResult({
+        ok: false,
+        error: `Submit failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      });
+    } finally {
+      setSubmittingReview(false);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gray-50 py-8 px-4 sm:px-6 lg:px-8">
       <div className="max-w-7xl mx-auto">
@@ -463,6 +747,36 @@ function StudioContent() {
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900 placeholder:text-gray-400"
               />
             </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Published By
+              </label>
+              <input
+                type="text"
+                value={publishedBy}
+                onChange={(e) => setPublishedBy(e.target.value)}
+                placeholder="jane@cyngn.com"
+                maxLength={100}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900 placeholder:text-gray-400"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Shown in version history
+              </p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Expires
+              </label>
+              <input
+                type="datetime-local"
+                value={expireAt}
+                onChange={(e) => setExpireAt(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Blank = {CAMPAIGN_WINDOW_CONFIG.EXPIRY_GRACE_DAYS} days after the MMYY month ends
+              </p>
+            </div>
             <div className="sm:col-span-2">
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 Seller Domain * (e.g., cyngn.com, techflow.io)
@@ -475,9 +789,40 @@ function StudioContent() {
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900 placeholder:text-gray-400 font-mono"
               />
               <p className="mt-1 text-xs text-gray-500">
-                URL will be: <span className="font-mono">{sellerDomain || 'seller-domain.com'}/p/{buyerId || 'buyer-id'}-{sellerId || 'seller-id'}-{mmyy || 'MMYY'}</span>
+                URL will be: <span className="font-mono">{sellerDomain || 'seller-domain.com'}/p/{vanitySlug || `${buyerId || 'buyer-id'}-${sellerId || 'seller-id'}-${mmyy || 'MMYY'}`}</span>
               </p>
             </div>
+            <div className="sm:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Custom URL Slug
+              </label>
+              <input
+                type="text"
+                value={vanitySlug}
+                onChange={(e) => setVanitySlug(e.target.value.toLowerCase())}
+                placeholder={buyerId && sellerId && mmyy ? generateSlug(buyerId, sellerId, mmyy) : 'adient-autonomy'}
+                maxLength={100}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900 placeholder:text-gray-400 font-mono"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Optional vanity slug (lowercase letters, numbers, hyphens). Blank = buyer-seller-mmyy
+              </p>
+              {pendingRedirectFrom.length > 0 && (
+                <p className="mt-2 text-xs text-blue-700">
+                  On publish, {pendingRedirectFrom.map((key) => `/p/${key}`).join(', ')} will redirect here
+                </p>
+              )}
+              {keyChanged && (
+                <label className="mt-2 flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={redirectOldKey}
+                    onChange={(e) => setRedirectOldKey(e.target.checked)}
+                  />
+                  Permanently redirect <span className="font-mono">/p/{originalPageUrlKey}</span> to the new URL
+                </label>
+              )}
+            </div>
           </div>
           
           {sellerDomain && buyerId && sellerId && mmyy && (
@@ -486,7 +831,7 @@ function StudioContent() {
                 🔗 Public URL:
               </div>
               <div className="text-sm text-blue-700 font-mono space-y-1 mt-1">
-                <div>https://{sellerDomain}/p/{buyerId}-{sellerId}-{mmyy}</div>
+                <div>https://{sellerDomain}/p/{pageUrlKey}</div>
               </div>
             </div>
           )}
@@ -517,6 +862,22 @@ function StudioContent() {
         <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
           {/* Left Column: Input + Validation */}
           <div className="space-y-4">
+            {/* Template Picker */}
+            <div className="border border-gray-200 rounded-lg p-4 bg-white shadow-sm">
+              <label className="block text-sm font-medium text-gray-700 mb-3">
+                🎨 Template
+              </label>
+              <TemplatePicker
+                selectedId={editorTemplateId ?? null}
+                content={validationResult?.normalized ?? sampleContent}
+                onSelect={handleSelectTemplate}
+                disabled={editorTemplateId === undefined}
+              />
+              {editorTemplateId === undefined && (
+                <p className="mt-2 text-xs text-gray-500">Paste valid JSON to pick a template</p>
+              )}
+            </div>
+
             {/* JSON Input */}
             <div className="border border-gray-200 rounded-lg p-4 bg-white shadow-sm">
               <div className="flex items-center justify-between mb-3">
@@ -561,6 +922,160 @@ function StudioContent() {
               {validating ? '⏳ Validating...' : '✅ Validate & Normalize'}
             </button>
 
+            <div className="grid grid-cols-2 gap-3">
+              <button
+                onClick={handleSaveDraft}
+                disabled={savingDraft || !validationResult?.isValid || !sellerDomain || !buyerId}
+                className="w-full bg-yellow-500 hover:bg-yellow-600 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-semibold py-3 px-6 rounded-lg transition-colors duration-200 shadow-sm"
+              >
+                {savingDraft ? '⏳ Saving...' : '💾 Save Draft'}
+              </button>
+              <button
+                onClick={handleSubmitForReview}
+                disabled={submittingReview || !draftId || (!!draftResult?.status && draftResult.status !== 'draft')}
+                className="w-full bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-semibold py-3 px-6 rounded-lg transition-colors duration-200 shadow-sm"
+                title={draftId ? 'Send the saved draft to reviewers' : 'Save a draft first'}
+              >
+                {submittingReview ? '⏳ Submitting...' : '📝 Submit for Review'}
+              </button>
+            </div>
+
+            {/* Draft Result */}
+            {draftResult && (
+              <div className={`p-3 rounded-lg border text-sm ${
+                draftResult.ok
+                  ? 'bg-yellow-50 border-yellow-200 text-yellow-800'
+                  : 'bg-red-50 border-red-200 text-red-800'
+              }`}>
+                {draftResult.ok ? (
+                  draftResult.status === 'in_review'
+                    ? <>📝 Draft <span className="font-mono">{draftResult.pageUrlKey}</span> is in review. Approve it from the dashboard to publish.</>
+                    : draftResult.status === 'scheduled'
+                    ? <>🗓️ Draft <span className="font-mono">{draftResult.pageUrlKey}</span> is scheduled to publish {draftResult.publishAt ? new Date(draftResult.publishAt).toLocaleString() : ''}.</>
+                    : <>💾 Draft <span className="font-mono">{draftResult.pageUrlKey}</span> saved. The live page is unchanged.</>
+                ) : (
+                  <>
+                    <div className="font-semibold">❌ {draftResult.error}</div>
+                    {draftResult.validationErrors && draftResult.validationErrors.length > 0 && (
+                      <ul className="mt-1 list-disc list-inside">
+                        {draftResult.validationErrors.map((err, idx) => (
+                          <li key={idx}><span className="font-mono">{err.path}</span>: {err.message}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <button
+                onClick={handleCompareWithLive}
+                disabled={comparing || !validationResult?.isValid || !buyerId || !sellerId || !mmyy}
+                className="w-full bg-white hover:bg-gray-50 disabled:bg-gray-100 disabled:text-gray-400 disabled:cursor-not-allowed text-gray-800 font-semibold py-3 px-6 rounded-lg border border-gray-300 transition-colors duration-200 shadow-sm"
+              >
+                {comparing ? '⏳ Comparing...' : '🔍 Compare with Live'}
+              </button>
+              <button
+                onClick={handleDryRun}
+                disabled={dryRunning || !validationResult?.isValid || !sellerDomain || !buyerId}
+                className="w-full bg-white hover:bg-gray-50 disabled:bg-gray-100 disabled:text-gray-400 disabled:cursor-not-allowed text-gray-800 font-semibold py-3 px-6 rounded-lg border border-gray-300 transition-colors duration-200 shadow-sm"
+                title="Run every publish check without writing anything"
+              >
+                {dryRunning ? '⏳ Checking...' : '🧪 Dry Run'}
+              </button>
+            </div>
+
+            {/* Dry-run report */}
+            {dryRunResult && (
+              <div className={`p-3 rounded-lg border text-sm ${
+                dryRunResult.ok
+                  ? 'bg-gray-50 border-gray-200 text-gray-800'
+                  : 'bg-red-50 border-red-200 text-red-800'
+              }`}>
+                <div className="flex items-center justify-between mb-2">
+                  <span className="font-semibold">
+                    {dryRunResult.ok
+                      ? dryRunResult.changed
+                        ? `🧪 Publish would ${dryRunResult.action} v${dryRunResult.nextVersion}`
+                        : '🧪 Publish would be a no-op (already live)'
+                      : `❌ ${dryRunResult.error}`}
+                  </span>
+                  <button
+                    onClick={() => setDryRunResult(null)}
+                    className="text-xs text-gray-500 hover:text-gray-800"
+                  >
+                    Close
+                  </button>
+                </div>
+                <dl className="grid grid-cols-3 gap-x-3 gap-y-1 text-xs">
+                  {dryRunResult.url && (
+                    <>
+                      <dt className="text-gray-500">URL</dt>
+                      <dd className="col-span-2 font-mono break-all">{dryRunResult.url}</dd>
+                    </>
+                  )}
+                  {dryRunResult.contentSha && (
+                    <>
+                      <dt className="text-gray-500">content_sha</dt>
+                      <dd className="col-span-2 font-mono">
+                        {dryRunResult.currentContentSha
+                          ? `${dryRunResult.currentContentSha.slice(0, 12)} → ${dryRunResult.contentSha.slice(0, 12)}`
+                          : `${dryRunResult.contentSha.slice(0, 12)} (new)`}
+                        {dryRunResult.currentContentSha && !dryRunResult.contentChanged && ' (unchanged)'}
+                      </dd>
+                    </>
+                  )}
+                  {dryRunResult.throttled && (
+                    <>
+                      <dt className="text-gray-500">Throttle</dt>
+                      <dd className="col-span-2">Blocked for {Math.ceil((dryRunResult.throttleRemainingMs ?? 0) / 1000)}s</dd>
+                    </>
+                  )}
+                  {dryRunResult.revalidatePaths && (
+                    <>
+                      <dt className="text-gray-500">Revalidates</dt>
+                      <dd className="col-span-2 font-mono">{dryRunResult.revalidatePaths.join(', ') || 'nothing'}</dd>
+                    </>
+                  )}
+                </dl>
+                {dryRunResult.validationErrors && dryRunResult.validationErrors.length > 0 && (
+                  <ul className="mt-2 list-disc list-inside text-xs">
+                    {dryRunResult.validationErrors.map((err, idx) => (
+                      <li key={idx}><span className="font-mono">{err.path}</span>: {err.message}</li>
+                    ))}
+                  </ul>
+                )}
+                {dryRunResult.warnings && dryRunResult.warnings.length > 0 && (
+                  <ul className="mt-2 list-disc list-inside text-xs text-yellow-800">
+                    {dryRunResult.warnings.map((warning, idx) => (
+                      <li key={idx}><span className="font-mono">{warning.path}</span>: {warning.message}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {/* Diff against the live page */}
+            {liveDiff && (
+              <div className="border border-gray-200 rounded-lg p-4 bg-white shadow-sm">
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="text-sm font-semibold text-gray-900">
+                    {liveDiff.hasLive
+                      ? `Changes vs live${liveDiff.liveVersion ? ` (v${liveDiff.liveVersion})` : ''}`
+                      : 'Nothing is live yet — every field is new'}
+                  </h3>
+                  <button
+                    onClick={() => setLiveDiff(null)}
+                    className="text-xs text-gray-500 hover:text-gray-800"
+                  >
+                    Close
+                  </button>
+                </div>
+                <ContentDiffView diff={liveDiff.diff} fromLabel="Live" toLabel="Editor" />
+              </div>
+            )}
+
             <button
               onClick={handlePublish}
               disabled={publishing || !validationResult?.isValid || !sellerDomain || !buyerId}
@@ -584,6 +1099,9 @@ function StudioContent() {
                   <div className="space-y-3">
                     <div className="p-3 rounded-lg font-semibold bg-green-100 border border-green-300 text-green-800">
                       {publishResult.changed ? '✅ Published Successfully!' : '✅ Already Published (No Changes)'}
+                      {publishResult.changed && publishResult.version && (
+                        <span className="ml-2 text-sm font-normal">(version {publishResult.version})</span>
+                      )}
                     </div>
 
                     <div className="p-3 bg-blue-50 rounded-lg border border-blue-200">
@@ -611,6 +1129,14 @@ function StudioContent() {
                       </div>
                     )}
 
+                    {publishResult.versionHistoryError && (
+                      <div className="p-3 bg-yellow-50 rounded-lg border border-yellow-200">
+                        <div className="text-sm text-yellow-800">
+                          ⚠️ {publishResult.versionHistoryError}
+                        </div>
+                      </div>
+                    )}
+
                     {!publishResult.changed && (
                       <div className="p-3 bg-yellow-50 rounded-lg border border-yellow-200">
                         <div className="text-sm text-yellow-800">
@@ -832,8 +1358,30 @@ function StudioContent() {
                         ✨ Rendering normalized content with Phase 4 components
                       </p>
                     </div>
+                    {validationResult.normalized.site && (
+                      <div className="flex flex-wrap gap-2 px-3 py-2 border-b border-blue-200 bg-white">
+                        {[
+                          { slug: null, label: validationResult.normalized.site.overviewLabel },
+                          ...validationResult.normalized.site.pages.map((page) => ({ slug: page.slug, label: page.navLabel })),
+                        ].map(({ slug, label }) => (
+                          <button
+                            key={slug ?? '__overview'}
+                            onClick={() => setPreviewSitePage(slug)}
+                            className={`px-2 py-1 text-xs rounded-md ${
+                              (getSitePage(validationResult.normalized, previewSitePage ?? '')?.slug ?? null) === slug
+                                ? 'bg-blue-600 text-white'
+                                : 'text-gray-600 hover:bg-gray-100'
+                            }`}
+                          >
+                            {label}
+                          </button>
+                        ))}
+                      </div>
+                    )}
                     <div className="max-h-[800px] overflow-y-auto bg-white">
-                      <LandingPage content={validationResult.normalized} />
+                      <LandingPage
+                        content={getSitePage(validationResult.normalized, previewSitePage ?? '')?.content ?? validationResult.normalized}
+                      />
                     </div>
                   </div>
                 )}
@@ -0,0 +1,618 @@
+/**
+ * Seller Profiles
+ *
+ * Store a seller's shared brand, links and boilerplate once:
+ * - Name, "About" description, website / read-more links, meeting scheduler
+ * - Brand: logo, colors (primary, accent, bg, text), fonts (heading, body)
+ * - Suggest theme: proposes WCAG-compliant colors from the logo (URL or upload), previewed before applying
+ * - Every page of the seller uses these wherever its own JSON leaves the field empty
+ * - Re-apply & republish: republishes each live page of the seller so a profile
+ *   change reaches pages that are already published
+ *
+ * Usage: /studio/sellers
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { FONT_CATALOGUE } from '@/lib/theme/fonts';
+import type { ThemeSuggestion } from '@/lib/theme/palette';
+import { ThemeSuggestionPreview } from '@/components/studio/ThemeSuggestionPreview';
+
+interface SellerBrand {
+  logoUrl?: string;
+  colors?: { primary?: string; accent?: string; bg?: string; text?: string };
+  fonts?: { heading?: string; body?: string };
+}
+
+interface SellerProfile {
+  seller_id: string;
+  name: string;
+  description?: string | null;
+  website_url?: string | null;
+  read_more_url?: string | null;
+  meeting_scheduler_url?: string | null;
+  brand: SellerBrand;
+  updated_at?: string;
+  updated_by?: string | null;
+  live_pages: number;
+}
+
+interface RepublishItem {
+  page_url_key: string;
+  ok: boolean;
+  changed?: boolean;
+  version?: number;
+  url?: string;
+  error?: string;
+}
+
+type FormState = {
+  seller_id: string;
+  name: string;
+  description: string;
+  website_url: string;
+  read_more_url: string;
+  meeting_scheduler_url: string;
+  logoUrl: string;
+  primary: string;
+  accent: string;
+  bg: string;
+  text: string;
+  heading: string;
+  body: string;
+};
+
+const EMPTY_FORM: FormState = {
+  seller_id: '',
+  name: '',
+  description: '',
+  website_url: '',
+  read_more_url: '',
+  meeting_scheduler_url: '',
+  logoUrl: '',
+  primary: '',
+  accent: '',
+  bg: '',
+  text: '',
+  heading: '',
+  body: '',
+};
+
+const COLOR_FIELDS = ['primary', 'accent', 'bg', 'text'] as const;
+
+function toForm(seller: SellerProfile): FormState {
+  return {
+    seller_id: seller.seller_id,
+    name: seller.name,
+    description: seller.description || '',
+    website_url: seller.website_url || '',
+    read_more_url: seller.read_more_url || '',
+    meeting_scheduler_url: seller.meeting_scheduler_url || '',
+    logoUrl: seller.brand?.logoUrl || '',
+    primary: seller.brand?.colors?.primary || '',
+    accent: seller.brand?.colors?.accent || '',
+    bg: seller.brand?.colors?.bg || '',
+    text: seller.brand?.colors?.text || '',
+    heading: seller.brand?.fonts?.heading || '',
+    body: seller.brand?.fonts?.body || '',
+  };
+}
+
+function formatDate(value?: string) {
+  if (!value) return '—';
+  return new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Font picker limited to the self-hosted catalogue
+ */
+function FontSelect({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  const known = FONT_CATALOGUE.some((font) => font.family === value);
+
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900 bg-white"
+    >
+      <option value="">Template default</option>
+      {FONT_CATALOGUE.map((font) => (
+        <option key={font.slug} value={font.family}>
+          {font.family} ({font.category})
+        </option>
+      ))}
+      {value && !known && <option value={value}>{value} (not in catalogue)</option>}
+    </select>
+  );
+}
+
+export default function SellerProfilesPage() {
+  const router = useRouter();
+
+  const [sellers, setSellers] = useState<SellerProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<FormState>(EMPTY_FORM);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const [suggestion, setSuggestion] = useState<ThemeSuggestion | null>(null);
+  const [suggesting, setSuggesting] = useState(false);
+
+  const [republishing, setRepublishing] = useState<string | null>(null);
+  const [republishResults, setRepublishResults] = useState<RepublishItem[]>([]);
+
+  const fetchSellers = useCallback(async () => {
+    try {
+      const response = await fetch('/api/sellers');
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to load seller profiles');
+      }
+      setSellers(body.sellers || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSellers();
+  }, [fetchSellers]);
+
+  function setField(field: keyof FormState, value: string) {
+    setForm((current) => ({ ...current, [field]: value }));
+  }
+
+  function handleEdit(seller: SellerProfile) {
+    setForm(toForm(seller));
+    setSuggestion(null);
+    setEditing(seller.seller_id);
+    setError(null);
+    setMessage(null);
+  }
+
+  function handleNew() {
+    setForm(EMPTY_FORM);
+    setSuggestion(null);
+    setEditing(null);
+    setError(null);
+    setMessage(null);
+  }
+
+  /**
+   * Ask for a palette from the logo URL field, or from an uploaded file
+   */
+  async function handleSuggestTheme(file?: File) {
+    try {
+      setSuggesting(true);
+      setError(null);
+      setSuggestion(null);
+
+      let init: RequestInit;
+      if (file) {
+        const data = new FormData();
+        data.append('logo', file);
+        init = { method: 'POST', body: data };
+      } else {
+        init = {
+          method: 'POST',
+          headers: { 'content-type': 'application/json' },
+          body: JSON.stringify({ logoUrl: form.logoUrl }),
+        };
+      }
+
+      const response = await fetch('/api/theme/suggest', init);
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || 'Could not suggest a theme');
+      }
+      setSuggestion(body);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setSuggesting(false);
+    }
+  }
+
+  function handleApplySuggestion() {
+    if (!suggestion) return;
+    setForm((current) => ({ ...current, ...suggestion.colors }));
+    setSuggestion(null);
+  }
+
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      setError(null);
+      setMessage(null);
+      const response = await fetch('/api/sellers', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({
+          seller_id: form.seller_id,
+          name: form.name,
+          description: form.description,
+          website_url: form.website_url,
+          read_more_url: form.read_more_url,
+          meeting_scheduler_url: form.meeting_scheduler_url,
+          brand: {
+            logoUrl: form.logoUrl,
+            colors: { primary: form.primary, accent: form.accent, bg: form.bg, text: form.text },
+            fonts: { heading: form.heading, body: form.body },
+          },
+        }),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        const details = (body.validationErrors || []).map(
+          (issue: { path: string; message: string }) => `${issue.path}: ${issue.message}`
+        );
+        throw new Error([body.error || 'Failed to save profile', ...details].join(' — '));
+      }
+      setEditing(body.seller.seller_id);
+      setMessage('Profile saved. Live pages keep the old values until they are republished.');
+      await fetchSellers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleRepublish(seller: SellerProfile) {
+    if (!confirm(`Republish ${seller.live_pages} live page${seller.live_pages === 1 ? '' : 's'} of ${seller.name} with the current profile?`)) {
+      return;
+    }
+
+    try {
+      setRepublishing(seller.seller_id);
+      setRepublishResults([]);
+      setError(null);
+      setMessage(null);
+
+      let cursor: string | null = null;
+      do {
+        const response = await fetch(`/api/sellers/${encodeURIComponent(seller.seller_id)}/republish`, {
+          method: 'POST',
+          headers: { 'content-type': 'application/json' },
+          body: JSON.stringify({ cursor }),
+        });
+        const body: { results: RepublishItem[]; next_cursor: string | null; error?: string } = await response.json();
+        if (!response.ok) {
+          throw new Error(body.error || 'Republish failed');
+        }
+        setRepublishResults((current) => [...current, ...body.results]);
+        cursor = body.next_cursor;
+      } while (cursor);
+
+      setMessage(`Finished republishing ${seller.name}.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setRepublishing(null);
+      fetchSellers();
+    }
+  }
+
+  const republishTarget = sellers.find((seller) => seller.seller_id === republishing);
+  const changedCount = republishResults.filter((item) => item.ok && item.changed).length;
+  const failedResults = republishResults.filter((item) => !item.ok);
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900';
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => router.push('/')}
+              className="inline-flex items-center text-gray-600 hover:text-gray-900"
+              title="Back to Dashboard"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+              </svg>
+            </button>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Seller Profiles</h1>
+              <p className="mt-1 text-sm text-gray-500">
+                Brand, links and boilerplate shared by every page of a seller (a page&apos;s own JSON always wins)
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-800">{error}</div>
+        )}
+        {message && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-4 text-sm text-green-800">{message}</div>
+        )}
+
+        {/* Profiles */}
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900">Profiles</h2>
+            <button
+              onClick={handleNew}
+              className="px-3 py-1.5 text-sm font-medium text-blue-600 hover:text-blue-800"
+            >
+              + New profile
+            </button>
+          </div>
+          {loading ? (
+            <p className="px-6 py-8 text-sm text-gray-500">Loading…</p>
+          ) : sellers.length === 0 ? (
+            <p className="px-6 py-8 text-sm text-gray-500">No seller profiles yet.</p>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Seller</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Brand</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Live pages</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Updated</th>
+                  <th className="px-6 py-3" />
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {sellers.map((seller) => (
+                  <tr key={seller.seller_id}>
+                    <td className="px-6 py-4 text-sm">
+                      <div className="font-medium text-gray-900">{seller.name}</div>
+                      <div className="font-mono text-xs text-gray-500">{seller.seller_id}</div>
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex gap-1">
+                        {COLOR_FIELDS.map((key) => seller.brand?.colors?.[key] && (
+                          <span
+                            key={key}
+                            title={`${key}: ${seller.brand.colors[key]}`}
+                            className="inline-block w-5 h-5 rounded border border-gray-300"
+                            style={{ backgroundColor: seller.brand.colors[key] }}
+                          />
+                        ))}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">{seller.live_pages}</td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      {formatDate(seller.updated_at)}
+                      {seller.updated_by && <span className="block text-xs">by {seller.updated_by}</span>}
+                    </td>
+                    <td className="px-6 py-4 text-right text-sm whitespace-nowrap space-x-3">
+                      <button onClick={() => handleEdit(seller)} className="text-blue-600 hover:text-blue-800">
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleRepublish(seller)}
+                        disabled={!!republishing || seller.live_pages === 0}
+                        className="text-purple-600 hover:text-purple-800 disabled:text-gray-400 disabled:cursor-not-allowed"
+                      >
+                        Re-apply &amp; republish
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Republish progress */}
+        {(republishing || republishResults.length > 0) && (
+          <div className="bg-white shadow rounded-lg p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-2">Republish</h2>
+            {republishTarget && (
+              <div className="mb-3">
+                <div className="flex justify-between text-sm text-gray-700 mb-1">
+                  <span>{republishTarget.name}</span>
+                  <span>{republishResults.length} / {republishTarget.live_pages}</span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className="bg-purple-600 h-2 rounded-full transition-all"
+                    style={{
+                      width: `${Math.min(100, Math.round((republishResults.length / Math.max(1, republishTarget.live_pages)) * 100))}%`,
+                    }}
+                  />
+                </div>
+              </div>
+            )}
+            <p className="text-sm text-gray-700">
+              {republishResults.length} processed · {changedCount} updated ·{' '}
+              {republishResults.length - changedCount - failedResults.length} unchanged · {failedResults.length} failed
+            </p>
+            {failedResults.length > 0 && (
+              <ul className="mt-3 space-y-1 text-sm text-red-700">
+                {failedResults.map((item) => (
+                  <li key={item.page_url_key}>
+                    <span className="font-mono">{item.page_url_key}</span>: {item.error}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {/* Edit form */}
+        <form onSubmit={handleSave} className="bg-white shadow rounded-lg p-6 space-y-6">
+          <h2 className="text-lg font-semibold text-gray-900">
+            {editing ? `Edit ${editing}` : 'New profile'}
+          </h2>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Seller ID *</label>
+              <input
+                type="text"
+                value={form.seller_id}
+                onChange={(e) => setField('seller_id', e.target.value)}
+                disabled={!!editing}
+                placeholder="cyngn"
+                className={`${inputClass} disabled:bg-gray-100`}
+              />
+              <p className="mt-1 text-xs text-gray-500">Same seller_id the pages are published with</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setField('name', e.target.value)}
+                placeholder="Cyngn"
+                className={inputClass}
+              />
+            </div>
+            <div className="sm:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">About (sellerDescription)</label>
+              <textarea
+                value={form.description}
+                onChange={(e) => setField('description', e.target.value)}
+                rows={3}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Website</label>
+              <input
+                type="url"
+                value={form.website_url}
+                onChange={(e) => setField('website_url', e.target.value)}
+                placeholder="https://www.cyngn.com"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Read more link</label>
+              <input
+                type="url"
+                value={form.read_more_url}
+                onChange={(e) => setField('read_more_url', e.target.value)}
+                placeholder="https://www.cyngn.com/about"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Meeting scheduler</label>
+              <input
+                type="url"
+                value={form.meeting_scheduler_url}
+                onChange={(e) => setField('meeting_scheduler_url', e.target.value)}
+                placeholder="https://meetings.hubspot.com/..."
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Logo URL</label>
+              <input
+                type="url"
+                value={form.logoUrl}
+                onChange={(e) => setField('logoUrl', e.target.value)}
+                placeholder="https://..."
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+              <h3 className="text-sm font-semibold text-gray-900">Brand colors</h3>
+              <div className="flex items-center gap-3">
+                <button
+                  type="button"
+                  onClick={() => handleSuggestTheme()}
+                  disabled={suggesting || !form.logoUrl}
+                  title={form.logoUrl ? 'Propose colors from the logo URL' : 'Enter a logo URL or upload a logo'}
+                  className="px-3 py-1.5 text-sm font-medium text-blue-600 border border-blue-200 rounded-md hover:bg-blue-50 disabled:text-gray-400 disabled:border-gray-200 disabled:cursor-not-allowed"
+                >
+                  {suggesting ? 'Analyzing logo…' : 'Suggest theme'}
+                </button>
+                <label className={`text-sm font-medium text-blue-600 hover:text-blue-800 ${suggesting ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}>
+                  Upload logo
+                  <input
+                    type="file"
+                    accept="image/*"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      e.target.value = '';
+                      if (file) handleSuggestTheme(file);
+                    }}
+                  />
+                </label>
+              </div>
+            </div>
+            {suggestion && (
+              <div className="mb-4">
+                <ThemeSuggestionPreview
+                  suggestion={suggestion}
+                  sellerName={form.name}
+                  onApply={handleApplySuggestion}
+                  onDismiss={() => setSuggestion(null)}
+                />
+              </div>
+            )}
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+              {COLOR_FIELDS.map((key) => (
+                <div key={key}>
+                  <label className="block text-xs font-medium text-gray-700 mb-1 capitalize">{key}</label>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      value={form[key]}
+                      onChange={(e) => setField(key, e.target.value)}
+                      placeholder="#1a73e8"
+                      className={`${inputClass} font-mono`}
+                    />
+                    <span
+                      className="inline-block w-8 h-8 shrink-0 rounded border border-gray-300"
+                      style={{ backgroundColor: form[key] || 'transparent' }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Heading font</label>
+              <FontSelect value={form.heading} onChange={(value) => setField('heading', value)} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Body font</label>
+              <FontSelect value={form.body} onChange={(value) => setField('body', value)} />
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={saving || !form.seller_id.trim() || !form.name.trim()}
+              className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving…' : 'Save profile'}
+            </button>
+          </div>
+        </form>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,371 @@
+/**
+ * Version History
+ *
+ * Lists every published version of a landing page with options to:
+ * - Preview a previous version (opens /preview/studio-temp)
+ * - Restore (roll back to) a previous version in one click
+ * - Compare any two versions (or the pending draft) field by field
+ *
+ * Usage: /studio/versions?id={landing_page_id}
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback, Suspense } from 'react';
+import { useSearchParams, useRouter } from 'next/navigation';
+import { ContentDiffView } from '@/components/studio/ContentDiffView';
+import type { ContentDiff } from '@/lib/normalize/diff';
+
+interface VersionSummary {
+  id: string;
+  version: number;
+  content_sha: string;
+  published_by: string | null;
+  restored_from_version: number | null;
+  published_at: string;
+}
+
+interface VersionsResponse {
+  landing_page: {
+    id: string;
+    page_url_key: string;
+    version: number;
+    content_sha: string;
+  };
+  current_version: number;
+  versions: VersionSummary[];
+}
+
+interface DiffResponse {
+  from: { ref: string; version: number | null };
+  to: { ref: string; version: number | null };
+  diff: ContentDiff;
+}
+
+function refLabel(ref: string) {
+  return ref === 'draft' ? 'Pending draft' : ref === 'live' ? 'Live' : `v${ref}`;
+}
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function VersionsContent() {
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const landingPageId = searchParams.get('id');
+
+  const [data, setData] = useState<VersionsResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [restoringVersion, setRestoringVersion] = useState<number | null>(null);
+  const [previewingVersion, setPreviewingVersion] = useState<number | null>(null);
+  const [compareFrom, setCompareFrom] = useState('');
+  const [compareTo, setCompareTo] = useState('live');
+  const [comparing, setComparing] = useState(false);
+  const [diffResult, setDiffResult] = useState<DiffResponse | null>(null);
+
+  const fetchVersions = useCallback(async () => {
+    if (!landingPageId) {
+      setError('Missing landing page id');
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch(`/api/landing-pages/${landingPageId}/versions`);
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to fetch versions');
+      }
+      setData(body);
+      // Default comparison: previous version → live
+      const previous = (body as VersionsResponse).versions.find(
+        (v) => v.version < (body as VersionsResponse).current_version
+      );
+      setCompareFrom((current) => current || (previous ? String(previous.version) : ''));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [landingPageId]);
+
+  useEffect(() => {
+    fetchVersions();
+  }, [fetchVersions]);
+
+  async function handlePreview(version: number) {
+    try {
+      setPreviewingVersion(version);
+      const response = await fetch(`/api/landing-pages/${landingPageId}/versions/${version}`);
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to load version');
+      }
+
+      const normalized = body.version?.page_content?.normalized;
+      if (!normalized) {
+        throw new Error('This version has no previewable content');
+      }
+
+      // Same hand-off as the studio "Open in new tab" preview
+      localStorage.setItem('preview-content', JSON.stringify(normalized));
+      window.open('/preview/studio-temp', '_blank');
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Preview failed');
+    } finally {
+      setPreviewingVersion(null);
+    }
+  }
+
+  async function handleRestore(version: number) {
+    if (!confirm(`Restore version ${version}? It will be republished as a new version and go live immediately.`)) {
+      return;
+    }
+
+    try {
+      setRestoringVersion(version);
+      const response = await fetch(`/api/landing-pages/${landingPageId}/versions/${version}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || 'Restore failed');
+      }
+
+      if (!body.changed) {
+        alert(`Version ${version} is identical to the live content. Nothing was changed.`);
+      } else if (body.version_history_error) {
+        alert(body.version_history_error);
+      }
+      await fetchVersions();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Restore failed');
+    } finally {
+      setRestoringVersion(null);
+    }
+  }
+
+  async function handleCompare() {
+    if (!compareFrom || !compareTo || compareFrom === compareTo) {
+      alert('Pick two different versions to compare');
+      return;
+    }
+
+    try {
+      setComparing(true);
+      setDiffResult(null);
+      const query = new URLSearchParams({ from: compareFrom, to: compareTo });
+      const response = await fetch(`/api/landing-pages/${landingPageId}/diff?${query}`);
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || 'Compare failed');
+      }
+      setDiffResult(body);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Compare failed');
+    } finally {
+      setComparing(false);
+    }
+  }
+
+  const compareOptions = [
+    { value: 'live', label: 'Live' },
+    { value: 'draft', label: 'Pending draft' },
+    ...(data?.versions.map((v) => ({ value: String(v.version), label: `v${v.version}` })) ?? []),
+  ];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => router.push('/')}
+              className="inline-flex items-center text-gray-600 hover:text-gray-900"
+              title="Back to Dashboard"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+              </svg>
+            </button>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Version History</h1>
+              <p className="mt-1 text-sm text-gray-500 font-mono">
+                {data?.landing_page.page_url_key || ' '}
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          {loading ? (
+            <div className="p-8 text-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+              <p className="mt-4 text-gray-500">Loading versions...</p>
+            </div>
+          ) : error ? (
+            <div className="p-8 text-center">
+              <p className="text-gray-500">{error}</p>
+              <button
+                onClick={fetchVersions}
+                className="mt-4 text-blue-600 hover:text-blue-800"
+              >
+                Try again
+              </button>
+            </div>
+          ) : !data || data.versions.length === 0 ? (
+            <div className="p-8 text-center">
+              <h3 className="text-lg font-medium text-gray-900">No versions recorded yet</h3>
+              <p className="mt-1 text-gray-500">Versions are recorded each time the page is published with changes.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Version
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Content SHA
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Published By
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Published
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {data.versions.map((version) => {
+                    const isLive = version.version === data.current_version;
+                    return (
+                      <tr key={version.id} className="hover:bg-gray-50">
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          v{version.version}
+                          {isLive && (
+                            <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
+                              live
+                            </span>
+                          )}
+                          {version.restored_from_version && (
+                            <span className="ml-2 text-xs text-gray-500">
+                              restored from v{version.restored_from_version}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 font-mono" title={version.content_sha}>
+                          {version.content_sha.slice(0, 12)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {version.published_by || '-'}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {formatDate(version.published_at)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                          <div className="flex items-center justify-end gap-2">
+                            <button
+                              onClick={() => handlePreview(version.version)}
+                              disabled={previewingVersion === version.version}
+                              className="px-3 py-1 text-gray-600 hover:text-blue-600 rounded-md hover:bg-gray-100 disabled:opacity-50"
+                            >
+                              Preview
+                            </button>
+                            {!isLive && (
+                              <button
+                                onClick={() => handleRestore(version.version)}
+                                disabled={restoringVersion !== null}
+                                className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                              >
+                                {restoringVersion === version.version ? 'Restoring...' : 'Restore'}
+                              </button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {data && data.versions.length > 0 && (
+          <div className="mt-8 bg-white shadow rounded-lg p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Compare versions</h2>
+            <div className="flex flex-wrap items-center gap-3 mb-6 text-sm">
+              <select
+                value={compareFrom}
+                onChange={(e) => setCompareFrom(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-md"
+              >
+                <option value="">Select…</option>
+                {compareOptions.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <span className="text-gray-500">→</span>
+              <select
+                value={compareTo}
+                onChange={(e) => setCompareTo(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-md"
+              >
+                {compareOptions.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleCompare}
+                disabled={comparing}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {comparing ? 'Comparing...' : 'Compare'}
+              </button>
+            </div>
+
+            {diffResult && (
+              <ContentDiffView
+                diff={diffResult.diff}
+                fromLabel={refLabel(diffResult.from.ref)}
+                toLabel={refLabel(diffResult.to.ref)}
+              />
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
+
+export default function VersionsPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    }>
+      <VersionsContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isStudioRequest } from '@/lib/auth/studioAuth';
+import { revokeApiKey } from '@/lib/db/apiKeys';
+import { recordAuditEvent, getAuditRequestInfo } from '@/lib/db/auditLog';
+
+/**
+ * Single API Key API (studio only)
+ * 
+ * DELETE /api/api-keys/[id] - Revoke a key (it stops working immediately; the row is kept)
+ */
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!isStudioRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(id)) {
+      return NextResponse.json({ error: 'Invalid API key ID format' }, { status: 400 });
+    }
+
+    const apiKey = await revokeApiKey(id);
+    if (!apiKey) {
+      return NextResponse.json({ error: 'API key not found' }, { status: 404 });
+    }
+
+    await recordAuditEvent({
+      actor: 'studio',
+      action: 'api_key.revoke',
+      target_type: 'api_key',
+      target_id: id,
+      metadata: { name: apiKey.name, key_prefix: apiKey.key_prefix, seller_id: apiKey.seller_id },
+    }, getAuditRequestInfo(request.headers));
+
+    console.info('[DELETE /api/api-keys/[id]] API key revoked', { id });
+
+    return NextResponse.json({ api_key: apiKey });
+  } catch (error) {
+    console.error('[DELETE /api/api-keys/[id]] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
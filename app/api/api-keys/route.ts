@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { isStudioRequest } from '@/lib/auth/studioAuth';
+import { listApiKeys, createApiKey } from '@/lib/db/apiKeys';
+import { recordAuditEvent, getAuditRequestInfo } from '@/lib/db/auditLog';
+import { PublishMetaSchema } from '@/lib/validation/publishMeta';
+
+/**
+ * API Keys Management API (studio only)
+ * 
+ * GET  /api/api-keys - List keys (never includes the key itself)
+ * POST /api/api-keys - Create a seller-scoped key; the plaintext key is returned once
+ */
+
+const CreateApiKeySchema = z.object({
+  name: z.string().trim().min(1, 'name is required').max(100, 'name must not exceed 100 characters'),
+  seller_id: PublishMetaSchema.shape.seller_id,
+  seller_domain: PublishMetaSchema.shape.seller_domain.optional().nullable(),
+  created_by: z.string().trim().max(100).optional().nullable(),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    if (!isStudioRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const apiKeys = await listApiKeys();
+    return NextResponse.json({ api_keys: apiKeys });
+  } catch (error) {
+    console.error('[GET /api/api-keys] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!isStudioRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = CreateApiKeySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid API key settings',
+          validationErrors: parsed.error.issues.map((issue) => ({
+            path: issue.path.join('.'),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { apiKey, plaintextKey } = await createApiKey(parsed.data);
+
+    await recordAuditEvent({
+      actor: apiKey.created_by || 'studio',
+      action: 'api_key.create',
+      target_type: 'api_key',
+      target_id: apiKey.id,
+      metadata: {
+        name: apiKey.name,
+        key_prefix: apiKey.key_prefix,
+        seller_id: apiKey.seller_id,
+        seller_domain: apiKey.seller_domain,
+      },
+    }, getAuditRequestInfo(request.headers));
+
+    console.info('[POST /api/api-keys] API key created', {
+      id: apiKey.id,
+      sellerId: apiKey.seller_id,
+      sellerDomain: apiKey.seller_domain,
+    });
+
+    return NextResponse.json({ api_key: apiKey, key: plaintextKey }, { status: 201 });
+  } catch (error) {
+    console.error('[POST /api/api-keys] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { isStudioRequest } from '@/lib/auth/studioAuth';
+import { listAssets, getAssets, toResolvedAsset } from '@/lib/db/assets';
+import { recordAuditEvent, getAuditRequestInfo } from '@/lib/db/auditLog';
+import { uploadAsset } from '@/lib/assets/upload';
+import { PublishMetaSchema } from '@/lib/validation/publishMeta';
+import type { AssetRow } from '@/lib/db/supabase';
+import { ASSET_CONFIG, ASSET_KINDS } from '@/config/constants';
+
+/**
+ * Asset Library API (studio only)
+ * 
+ * GET  /api/assets - Library, newest first (?kind=logo|customer_logo|og_image, ?seller_id=)
+ * GET  /api/assets?ids=ast_a,ast_b - Just these assets; the studio editor builds its AssetLookup from it
+ * POST /api/assets - Upload an image (multipart form: file, kind, seller_id?, alt?)
+ * 
+ * Each asset is returned with the public URLs of its original and resized variants.
+ * Content references an asset by asset_id (brand.logoAssetId, ogImageAssetId).
+ */
+
+const UploadFieldsSchema = z.object({
+  kind: z.enum(ASSET_KINDS),
+  seller_id: PublishMetaSchema.shape.seller_id.optional().or(z.literal('').transform(() => undefined)),
+  alt: z.string().trim().max(200, 'alt must not exceed 200 characters').optional(),
+});
+
+function toResponseAsset(row: AssetRow) {
+  return { ...row, resolved: toResolvedAsset(row) };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    if (!isStudioRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const ids = searchParams.get('ids');
+    if (ids !== null) {
+      const rows = await getAssets(ids.split(',').map((id) => id.trim()).filter(Boolean));
+      return NextResponse.json({ assets: rows.map(toResponseAsset) });
+    }
+
+    const kind = searchParams.get('kind');
+    if (kind && !(ASSET_KINDS as readonly string[]).includes(kind)) {
+      return NextResponse.json({ error: `kind must be one of ${ASSET_KINDS.join(', ')}` }, { status: 400 });
+    }
+
+    const rows = await listAssets({
+      kind: (kind as (typeof ASSET_KINDS)[number]) || undefined,
+      sellerId: searchParams.get('seller_id') || undefined,
+    });
+    return NextResponse.json({ assets: rows.map(toResponseAsset) });
+  } catch (error) {
+    console.error('[GET /api/assets] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!isStudioRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const form = await request.formData().catch(() => null);
+    const file = form?.get('file');
+    if (!form || !file || typeof file === 'string') {
+      return NextResponse.json({ error: 'file is required (multipart form data)' }, { status: 400 });
+    }
+    if (file.size > ASSET_CONFIG.MAX_UPLOAD_BYTES) {
+      return NextResponse.json(
+        { error: `File must not exceed ${ASSET_CONFIG.MAX_UPLOAD_BYTES / 1_000_000} MB` },
+        { status: 413 }
+      );
+    }
+
+    const parsed = UploadFieldsSchema.safeParse({
+      kind: form.get('kind'),
+      seller_id: form.get('seller_id') ?? undefined,
+      alt: form.get('alt') ?? undefined,
+    });
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid upload',
+          validationErrors: parsed.error.issues.map((issue) => ({
+            path: issue.path.join('.'),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const actor = 'studio';
+    const result = await uploadAsset({
+      file: Buffer.from(await file.arrayBuffer()),
+      filename: file.name || 'upload',
+      kind: parsed.data.kind,
+      sellerId: parsed.data.seller_id,
+      alt: parsed.data.alt,
+      createdBy: actor,
+    });
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    await recordAuditEvent({
+      actor,
+      action: 'asset.upload',
+      target_type: 'asset',
+      target_id: result.asset.asset_id,
+      metadata: { kind: result.asset.kind, filename: result.asset.filename, seller_id: result.asset.seller_id ?? null },
+    }, getAuditRequestInfo(request.headers));
+
+    return NextResponse.json({ asset: toResponseAsset(result.asset) }, { status: 201 });
+  } catch (error) {
+    console.error('[POST /api/assets] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isStudioRequest } from '@/lib/auth/studioAuth';
+import { listAuditEvents, auditEventsToCsv } from '@/lib/db/auditLog';
+import { AUDIT_ACTIONS, type AuditAction } from '@/config/constants';
+
+/**
+ * Audit Log API (studio only)
+ * 
+ * GET /api/audit-events - List audit events, newest first
+ * 
+ * Query params (all optional):
+ * - action: one of AUDIT_ACTIONS (e.g. page.publish)
+ * - actor: substring match on the actor
+ * - page_url_key: exact page key
+ * - from, to: ISO 8601 bounds on occurred_at (inclusive)
+ * - limit: max rows (default 500, max 5000)
+ * - format=csv: download as CSV instead of JSON
+ */
+
+function parseTimestamp(value: string | null): string | null | undefined {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    if (!isStudioRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const action = searchParams.get('action');
+    if (action && !AUDIT_ACTIONS.includes(action as AuditAction)) {
+      return NextResponse.json({ error: `Unknown action: ${action}` }, { status: 400 });
+    }
+
+    const from = parseTimestamp(searchParams.get('from'));
+    const to = parseTimestamp(searchParams.get('to'));
+    if (from === undefined || to === undefined) {
+      return NextResponse.json({ error: 'from and to must be ISO 8601 timestamps' }, { status: 400 });
+    }
+
+    const format = searchParams.get('format');
+    const events = await listAuditEvents({
+      action: action as AuditAction | null,
+      actor: searchParams.get('actor'),
+      page_url_key: searchParams.get('page_url_key'),
+      from,
+      to,
+      limit: Number(searchParams.get('limit')) || (format === 'csv' ? 5000 : 500),
+    });
+
+    if (format === 'csv') {
+      const filename = `audit-events-${new Date().toISOString().slice(0, 10)}.csv`;
+      return new NextResponse(auditEventsToCsv(events), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+          'Cache-Control': 'no-store',
+        },
+      });
+    }
+
+    return NextResponse.json({ audit_events: events });
+  } catch (error) {
+    console.error('[GET /api/audit-events] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
+import { recordAuditEvent, getAuditRequestInfo } from '@/lib/db/auditLog';
 
 export async function POST(request: NextRequest) {
   try {
@@ -25,9 +26,21 @@ export async function POST(request: NextRequest) {
         path: '/',
       });
       
+      await recordAuditEvent({
+        actor: 'studio',
+        action: 'auth.login',
+        target_type: 'session',
+      }, getAuditRequestInfo(request.headers));
+      
       return NextResponse.json({ success: true });
     }
     
+    await recordAuditEvent({
+      actor: 'anonymous',
+      action: 'auth.login_failed',
+      target_type: 'session',
+    }, getAuditRequestInfo(request.headers));
+    
     return NextResponse.json(
       { error: 'Invalid password' },
       { status: 401 }
@@ -40,9 +53,14 @@ export async function POST(request: NextRequest) {
   }
 }
 
-export async function DELETE() {
+export async function DELETE(request: NextRequest) {
   // Logout endpoint
   const cookieStore = await cookies();
   cookieStore.delete('studio_auth');
+  await recordAuditEvent({
+    actor: 'studio',
+    action: 'auth.logout',
+    target_type: 'session',
+  }, getAuditRequestInfo(request.headers));
   return NextResponse.json({ success: true });
 }
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runPublishSchedule } from '@/lib/publish/scheduler';
+
+/**
+ * Publish Schedule Cron API
+ * 
+ * GET /api/cron/publish-schedule - Publish due scheduled drafts and archive expired pages
+ * 
+ * Security:
+ * - Requires `Authorization: Bearer ${CRON_SECRET}` (sent automatically by Vercel Cron)
+ * - Schedule is configured in vercel.json
+ */
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret) {
+      console.error('[GET /api/cron/publish-schedule] CRON_SECRET not configured');
+      return NextResponse.json({ error: 'Server configuration error' }, { status: 500 });
+    }
+
+    if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const result = await runPublishSchedule();
+
+    return NextResponse.json({
+      ok: result.errors.length === 0,
+      ...result,
+    });
+  } catch (error) {
+    console.error('[GET /api/cron/publish-schedule] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { purgeExpiredTrash } from '@/lib/db/trash';
+import { pruneRateLimits } from '@/lib/rateLimit';
+
+/**
+ * Trash Purge Cron API
+ * 
+ * GET /api/cron/purge-trash - Permanently delete pages that have been in the trash
+ * longer than TRASH_CONFIG.RETENTION_DAYS, and drop expired rate-limit buckets
+ * 
+ * Security:
+ * - Requires `Authorization: Bearer ${CRON_SECRET}` (sent automatically by Vercel Cron)
+ * - Schedule is configured in vercel.json
+ */
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret) {
+      console.error('[GET /api/cron/purge-trash] CRON_SECRET not configured');
+      return NextResponse.json({ error: 'Server configuration error' }, { status: 500 });
+    }
+
+    if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const result = await purgeExpiredTrash();
+
+    let rateLimitBucketsPruned = 0;
+    try {
+      rateLimitBucketsPruned = await pruneRateLimits();
+    } catch (error) {
+      result.errors.push({
+        page_url_key: '*',
+        error: `Rate-limit prune failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      });
+    }
+
+    return NextResponse.json({
+      ok: result.errors.length === 0,
+      ...result,
+      rateLimitBucketsPruned,
+    });
+  } catch (error) {
+    console.error('[GET /api/cron/purge-trash] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/db/supabase';
+import { LIVE_STATUSES } from '@/config/constants';
+import { checkRateLimit, rateLimitHeaders } from '@/lib/rateLimit';
 
 /**
  * Event Logging API
@@ -12,49 +14,17 @@ import { supabaseAdmin } from '@/lib/db/supabase';
  * 4. Updates visitor statistics
  * 
  * Security:
- * - Rate limited by visitor_id (in-memory, per-instance)
+ * - Rate limited by visitor_id (RATE_LIMITS.events, shared across instances; 429 with Retry-After)
  * - Input validation
  * - No authentication required (landing pages are public)
  */
 
-// Rate limiting: Max 100 events per visitor per minute
-const rateLimitMap = new Map<string, { count: number; timestamp: number }>();
-const RATE_LIMIT_MAX = 100;
-const RATE_LIMIT_WINDOW_MS = 60 * 1000;
-
 // Valid event types to prevent spam
 const VALID_EVENT_TYPES = new Set([
   'email_click', 'page_view', 'scroll_depth', 'time_on_page',
   'cta_click', 'form_submit', 'video_play', 'idle', 'leave'
 ]);
 
-// Cleanup old rate limit entries periodically
-setInterval(() => {
-  const now = Date.now();
-  for (const [key, value] of rateLimitMap.entries()) {
-    if (now - value.timestamp > RATE_LIMIT_WINDOW_MS) {
-      rateLimitMap.delete(key);
-    }
-  }
-}, RATE_LIMIT_WINDOW_MS);
-
-function checkRateLimit(visitorId: string): boolean {
-  const now = Date.now();
-  const entry = rateLimitMap.get(visitorId);
-  
-  if (!entry || now - entry.timestamp > RATE_LIMIT_WINDOW_MS) {
-    rateLimitMap.set(visitorId, { count: 1, timestamp: now });
-    return true;
-  }
-  
-  if (entry.count >= RATE_LIMIT_MAX) {
-    return false;
-  }
-  
-  entry.count++;
-  return true;
-}
-
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
@@ -92,10 +62,11 @@ export async function POST(request: NextRequest) {
     }
     
     // Rate limit check
-    if (!checkRateLimit(visitor_id)) {
+    const rateLimit = await checkRateLimit('events', visitor_id);
+    if (!rateLimit.allowed) {
       return NextResponse.json(
         { error: 'Rate limit exceeded' },
-        { status: 429 }
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
       );
     }
 
@@ -141,6 +112,8 @@ export async function POST(request: NextRequest) {
         .from('landing_pages')
         .select('id')
         .eq('page_url_key', landing_page_slug)
+        .in('status', LIVE_STATUSES)
+        .is('deleted_at', null)
         .single();
       
       landingPageId = landingPage?.id;
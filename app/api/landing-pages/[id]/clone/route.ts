@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isStudioRequest } from '@/lib/auth/studioAuth';
+import { cloneToDraft } from '@/lib/actions/draftWorkflow';
+
+/**
+ * Clone Landing Page API
+ * 
+ * POST /api/landing-pages/[id]/clone - Copy a page's content into a new draft
+ * 
+ * Body: { buyer_id?, mmyy?, seller_domain?, page_url_key?, buyer_name?, roll_forward? }
+ * Auth: studio session cookie or x-studio-secret header
+ * 
+ * Returns 201 with the draft ({ ok, id, pageUrlKey, ... }); open it with /studio?edit={id}.
+ * 
+ * Example (roll Adient's October page forward to November):
+ *   curl -X POST https://abm.hrytos.com/api/landing-pages/{id}/clone \
+ *     -H "content-type: application/json" -H "x-studio-secret: $STUDIO_PUBLISH_SECRET" \
+ *     -d '{"mmyy":"1125","roll_forward":true}'
+ */
+
+function cloneErrorStatus(error: string | undefined): number {
+  if (error === 'Landing page not found') return 404;
+  if (error?.startsWith('A page or draft already exists')) return 409;
+  if (error?.startsWith('Database error')) return 500;
+  return 400;
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!isStudioRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'Request body must be a JSON object' }, { status: 400 });
+    }
+
+    const result = await cloneToDraft(id, body, process.env.STUDIO_PUBLISH_SECRET);
+    if (!result.ok) {
+      return NextResponse.json(result, { status: cloneErrorStatus(result.error) });
+    }
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error('[POST /api/landing-pages/[id]/clone] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin, hasNormalizedContent } from '@/lib/db/supabase';
+import { getLandingPageVersion } from '@/lib/db/landingPageVersions';
+import { isStudioRequest } from '@/lib/auth/studioAuth';
+import { diffNormalizedContent } from '@/lib/normalize/diff';
+import { DRAFT_STATUSES, LIVE_STATUSES } from '@/config/constants';
+import type { NormalizedContent } from '@/lib/normalize/normalized.types';
+
+/**
+ * Landing Page Content Diff API
+ * 
+ * GET /api/landing-pages/[id]/diff?from=<ref>&to=<ref> - Field-level diff between two versions
+ * 
+ * A ref is a version number, "live" (the current live row) or "draft" (the
+ * pending draft for the same page_url_key). Defaults: from=live, to=draft.
+ */
+
+interface ResolvedContent {
+  ref: string;
+  version: number | null;
+  content_sha: string | null;
+  normalized: NormalizedContent;
+}
+
+async function resolveContent(
+  id: string,
+  pageUrlKey: string,
+  ref: string
+): Promise<ResolvedContent | { error: string; status: number }> {
+  if (ref === 'live' || ref === 'draft') {
+    const { data, error } = await supabaseAdmin
+      .from('landing_pages')
+      .select('version, content_sha, page_content')
+      .eq('page_url_key', pageUrlKey)
+      .in('status', ref === 'live' ? LIVE_STATUSES : DRAFT_STATUSES)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (error) {
+      return { error: error.message, status: 500 };
+    }
+    if (!data || !hasNormalizedContent(data.page_content)) {
+      return { error: ref === 'live' ? 'No live version for this page' : 'No draft for this page', status: 404 };
+    }
+
+    return {
+      ref,
+      version: ref === 'live' ? data.version ?? null : null,
+      content_sha: data.content_sha,
+      normalized: data.page_content.normalized as NormalizedContent,
+    };
+  }
+
+  const version = Number(ref);
+  if (!Number.isInteger(version) || version <= 0) {
+    return { error: `Invalid ref "${ref}" (use a version number, "live" or "draft")`, status: 400 };
+  }
+
+  const snapshot = await getLandingPageVersion(id, version);
+  if (!snapshot || !hasNormalizedContent(snapshot.page_content)) {
+    return { error: `Version ${version} not found`, status: 404 };
+  }
+
+  return {
+    ref,
+    version,
+    content_sha: snapshot.content_sha,
+    normalized: snapshot.page_content.normalized as NormalizedContent,
+  };
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!isStudioRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const searchParams = request.nextUrl.searchParams;
+    const fromRef = searchParams.get('from') || 'live';
+    const toRef = searchParams.get('to') || 'draft';
+
+    const { data: page, error: fetchError } = await supabaseAdmin
+      .from('landing_pages')
+      .select('id, page_url_key')
+      .eq('id', id)
+      .is('deleted_at', null)
+      .single();
+
+    if (fetchError || !page) {
+      return NextResponse.json({ error: 'Landing page not found' }, { status: 404 });
+    }
+
+    const [from, to] = await Promise.all([
+      resolveContent(page.id, page.page_url_key, fromRef),
+      resolveContent(page.id, page.page_url_key, toRef),
+    ]);
+
+    if ('error' in from) {
+      return NextResponse.json({ error: from.error }, { status: from.status });
+    }
+    if ('error' in to) {
+      return NextResponse.json({ error: to.error }, { status: to.status });
+    }
+
+    return NextResponse.json({
+      from: { ref: from.ref, version: from.version, content_sha: from.content_sha },
+      to: { ref: to.ref, version: to.version, content_sha: to.content_sha },
+      diff: diffNormalizedContent(from.normalized, to.normalized),
+    });
+  } catch (error) {
+    console.error('[GET /api/landing-pages/[id]/diff] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
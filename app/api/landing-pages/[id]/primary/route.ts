@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isStudioRequest } from '@/lib/auth/studioAuth';
+import { setPrimaryLanding } from '@/lib/db/primaryPages';
+import { getAuditRequestInfo } from '@/lib/db/auditLog';
+
+/**
+ * Primary Page API
+ *
+ * POST /api/landing-pages/[id]/primary - Serve this published page at the bare buyer
+ *                                        subdomain ({buyer_id}.{seller_domain})
+ *
+ * Auth: studio session cookie or x-studio-secret header
+ *
+ * The buyer's other pages on the domain stay reachable at /{mmyy} or /{page_url_key}.
+ * Returns { ok, page, previous } where previous is the page_url_key that was primary.
+ */
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!isStudioRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const result = await setPrimaryLanding(id, 'studio', getAuditRequestInfo(request.headers));
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('[POST /api/landing-pages/[id]/primary] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
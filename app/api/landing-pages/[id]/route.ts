@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/db/supabase';
+import { trashLandingPage } from '@/lib/db/trash';
+import { getAuditRequestInfo } from '@/lib/db/auditLog';
 
 /**
  * Landing Page by ID API
  * 
  * GET /api/landing-pages/[id] - Get a specific landing page
- * DELETE /api/landing-pages/[id] - Delete a landing page
+ * DELETE /api/landing-pages/[id] - Move a landing page to the trash (see /api/landing-pages/trash)
  */
 
 export async function GET(
@@ -19,6 +21,7 @@ export async function GET(
       .from('landing_pages')
       .select('*')
       .eq('id', id)
+      .is('deleted_at', null)
       .single();
 
     if (error) {
@@ -48,63 +51,18 @@ export async function DELETE(
       return NextResponse.json({ error: 'Invalid landing page ID format' }, { status: 400 });
     }
 
-    // First check if the landing page exists
-    const { data: existing, error: fetchError } = await supabaseAdmin
-      .from('landing_pages')
-      .select('id, page_url_key')
-      .eq('id', id)
-      .single();
-
-    if (fetchError || !existing) {
-      return NextResponse.json({ error: 'Landing page not found' }, { status: 404 });
-    }
-
-    // Delete any associated tokens first (if there's a landing_page_token table)
-    try {
-      await supabaseAdmin
-        .from('landing_page_token')
-        .delete()
-        .eq('landing_page_id', id);
-    } catch {
-      // Ignore errors if table doesn't exist or no tokens
-    }
-
-    // Delete the landing page
-    const { error: deleteError } = await supabaseAdmin
-      .from('landing_pages')
-      .delete()
-      .eq('id', id);
-
-    if (deleteError) {
-      console.error('[DELETE /api/landing-pages/[id]] Delete error:', deleteError);
-      return NextResponse.json({ error: deleteError.message }, { status: 500 });
-    }
-
-    // Revalidate the cache for this page
-    const revalidateUrl = new URL('/api/revalidate', request.url);
-    try {
-      await fetch(revalidateUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-revalidate-secret': process.env.REVALIDATE_SECRET || '',
-        },
-        body: JSON.stringify({ 
-          tag: `landing:${existing.page_url_key}`,
-          path: `/p/${existing.page_url_key}`
-        }),
-      });
-    } catch {
-      // Log but don't fail if revalidation fails
-      console.warn('[DELETE /api/landing-pages/[id]] Revalidation failed, continuing...');
+    // Soft delete: the row and its tracking tokens stay until purged from the trash
+    const result = await trashLandingPage(id, 'studio', getAuditRequestInfo(request.headers));
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
     }
 
     return NextResponse.json({ 
       success: true, 
-      message: 'Landing page deleted successfully',
+      message: 'Landing page moved to trash',
       deleted: {
-        id: existing.id,
-        page_url_key: existing.page_url_key
+        id: result.page.id,
+        page_url_key: result.page.page_url_key
       }
     });
   } catch (error) {
@@ -0,0 +1,196 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/db/supabase';
+import { getLandingPageVersion, recordLandingPageVersion } from '@/lib/db/landingPageVersions';
+import { isStudioRequest } from '@/lib/auth/studioAuth';
+import { requestRevalidation } from '@/lib/utils/revalidate';
+import { claimPublishThrottle } from '@/lib/publish/pipeline';
+import { getSitePageSlugs } from '@/lib/normalize/site';
+import { recordAuditEvent, getAuditRequestInfo } from '@/lib/db/auditLog';
+
+/**
+ * Single Landing Page Version API
+ * 
+ * GET /api/landing-pages/[id]/versions/[version] - Get a version snapshot (for preview)
+ * POST /api/landing-pages/[id]/versions/[version] - Restore (roll back to) this version
+ * 
+ * Restoring never rewrites history: it publishes the old snapshot as a new
+ * version with restored_from_version set, then revalidates the live page.
+ * Only a published row is restored. It shares the publish throttle (429 with
+ * Retry-After), and a publish or restore that bumped the version first wins (409).
+ */
+
+function parseVersion(raw: string): number | null {
+  const version = Number(raw);
+  return Number.isInteger(version) && version > 0 ? version : null;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; version: string }> }
+) {
+  try {
+    if (!isStudioRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, version: versionParam } = await params;
+    const version = parseVersion(versionParam);
+    if (version === null) {
+      return NextResponse.json({ error: 'Invalid version number' }, { status: 400 });
+    }
+
+    const snapshot = await getLandingPageVersion(id, version);
+    if (!snapshot) {
+      return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ version: snapshot });
+  } catch (error) {
+    console.error('[GET /api/landing-pages/[id]/versions/[version]] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; version: string }> }
+) {
+  try {
+    if (!isStudioRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, version: versionParam } = await params;
+    const version = parseVersion(versionParam);
+    if (version === null) {
+      return NextResponse.json({ error: 'Invalid version number' }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const restoredBy = typeof body?.restored_by === 'string' && body.restored_by.trim()
+      ? body.restored_by.trim().slice(0, 100)
+      : 'studio';
+
+    // Load the live row and the snapshot to restore (a draft or archived row is never restored into place)
+    const { data: page, error: fetchError } = await supabaseAdmin
+      .from('landing_pages')
+      .select('id, page_url_key, version, content_sha')
+      .eq('id', id)
+      .eq('status', 'published')
+      .is('deleted_at', null)
+      .single();
+
+    if (fetchError || !page) {
+      return NextResponse.json({ error: 'Published landing page not found' }, { status: 404 });
+    }
+
+    const snapshot = await getLandingPageVersion(id, version);
+    if (!snapshot) {
+      return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+    }
+
+    // Idempotency: restoring content that is already live is a no-op
+    if (snapshot.content_sha === page.content_sha) {
+      return NextResponse.json({
+        ok: true,
+        changed: false,
+        version: page.version,
+        restored_from_version: version,
+      });
+    }
+
+    // A restore is a publish: it takes the same throttle window
+    const throttled = await claimPublishThrottle(page.page_url_key);
+    if (throttled) {
+      return NextResponse.json(
+        { error: throttled.error },
+        { status: 429, headers: { 'Retry-After': String(throttled.retryAfterSeconds) } }
+      );
+    }
+
+    const now = new Date().toISOString();
+    const nextVersion = (page.version ?? 1) + 1;
+
+    // Optimistic guard: only write over the version we read
+    let update = supabaseAdmin
+      .from('landing_pages')
+      .update({
+        page_content: snapshot.page_content,
+        content_sha: snapshot.content_sha,
+        version: nextVersion,
+        published_at: now,
+        updated_at: now,
+      })
+      .eq('id', id)
+      .eq('status', 'published')
+      .is('deleted_at', null);
+    update = page.version === null ? update.is('version', null) : update.eq('version', page.version);
+
+    const { data: updated, error: updateError } = await update.select('id');
+
+    if (updateError) {
+      console.error('[POST /api/landing-pages/[id]/versions/[version]] Update error:', updateError);
+      return NextResponse.json({ error: updateError.message }, { status: 500 });
+    }
+    if (!updated || updated.length === 0) {
+      return NextResponse.json(
+        { error: 'The page changed while restoring (published, restored or unpublished); reload and try again' },
+        { status: 409 }
+      );
+    }
+
+    // A failed snapshot doesn't undo the restore, but the response flags it
+    const versionHistoryError = await recordLandingPageVersion({
+      landing_page_id: id,
+      page_url_key: page.page_url_key,
+      version: nextVersion,
+      content_sha: snapshot.content_sha,
+      page_content: snapshot.page_content,
+      published_by: restoredBy,
+      restored_from_version: version,
+      published_at: now,
+    });
+
+    const revalidated = await requestRevalidation(
+      page.page_url_key,
+      'restoreVersion',
+      getSitePageSlugs(snapshot.page_content?.normalized)
+    );
+
+    await recordAuditEvent({
+      actor: restoredBy,
+      action: 'page.rollback',
+      target_type: 'page',
+      target_id: id,
+      page_url_key: page.page_url_key,
+      before_sha: page.content_sha,
+      after_sha: snapshot.content_sha,
+      metadata: {
+        version: nextVersion,
+        restored_from_version: version,
+        ...(versionHistoryError ? { version_history_error: versionHistoryError } : {}),
+      },
+    }, getAuditRequestInfo(request.headers));
+
+    console.info('[restoreVersion] Restored landing page version', {
+      id,
+      slug: page.page_url_key,
+      restoredFrom: version,
+      newVersion: nextVersion,
+    });
+
+    return NextResponse.json({
+      ok: true,
+      changed: true,
+      version: nextVersion,
+      restored_from_version: version,
+      revalidated,
+      ...(versionHistoryError
+        ? { version_history_error: `Version ${nextVersion} is live but missing from the version history: ${versionHistoryError}` }
+        : {}),
+    });
+  } catch (error) {
+    console.error('[POST /api/landing-pages/[id]/versions/[version]] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/db/supabase';
+import { listLandingPageVersions } from '@/lib/db/landingPageVersions';
+import { isStudioRequest } from '@/lib/auth/studioAuth';
+
+/**
+ * Landing Page Version History API
+ * 
+ * GET /api/landing-pages/[id]/versions - List all published versions (newest first)
+ */
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!isStudioRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const { data: page, error } = await supabaseAdmin
+      .from('landing_pages')
+      .select('id, page_url_key, version, content_sha, published_at')
+      .eq('id', id)
+      .is('deleted_at', null)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return NextResponse.json({ error: 'Landing page not found' }, { status: 404 });
+      }
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const versions = await listLandingPageVersions(id);
+
+    return NextResponse.json({
+      landing_page: page,
+      current_version: page.version,
+      versions,
+    });
+  } catch (error) {
+    console.error('[GET /api/landing-pages/[id]/versions] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
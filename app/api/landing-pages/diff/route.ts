@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin, hasNormalizedContent } from '@/lib/db/supabase';
+import { isStudioRequest } from '@/lib/auth/studioAuth';
+import { validateAndNormalize } from '@/lib/validation';
+import { getSellerDefaults } from '@/lib/db/sellers';
+import { getAssetLookupForContent } from '@/lib/db/assets';
+import { diffNormalizedContent } from '@/lib/normalize/diff';
+import { LIVE_STATUSES } from '@/config/constants';
+import type { NormalizedContent } from '@/lib/normalize/normalized.types';
+
+/**
+ * Editor Content Diff API
+ * 
+ * POST /api/landing-pages/diff - Diff the raw JSON in the editor against what is currently live
+ * 
+ * Body: { rawJson, page_url_key, seller_id? }
+ * The raw JSON goes through the same validation/normalization as publish, so the
+ * diff shows exactly what Publish would change. If nothing is live yet, every
+ * field is reported as added. The seller profile defaults (seller_id, or the live
+ * page's seller) are merged in just like on publish.
+ */
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!isStudioRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const pageUrlKey = typeof body?.page_url_key === 'string' ? body.page_url_key.trim() : '';
+    if (!body || body.rawJson === undefined || !pageUrlKey) {
+      return NextResponse.json({ error: 'rawJson and page_url_key are required' }, { status: 400 });
+    }
+
+    const { data: live, error } = await supabaseAdmin
+      .from('landing_pages')
+      .select('version, content_sha, seller_id, page_content')
+      .eq('page_url_key', pageUrlKey)
+      .in('status', LIVE_STATUSES)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[POST /api/landing-pages/diff] Query error:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const sellerId = typeof body.seller_id === 'string' && body.seller_id.trim()
+      ? body.seller_id.trim()
+      : live?.seller_id;
+    const sellerDefaults = sellerId ? await getSellerDefaults(sellerId) : null;
+    const validationResult = await validateAndNormalize(body.rawJson, {
+      sellerDefaults,
+      assets: await getAssetLookupForContent(body.rawJson, sellerDefaults),
+    });
+    if (!validationResult.isValid || !validationResult.normalized) {
+      return NextResponse.json(
+        {
+          error: 'Content validation failed',
+          validationErrors: validationResult.errors?.map((err) => ({
+            path: err.field || 'unknown',
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const liveContent = live && hasNormalizedContent(live.page_content)
+      ? (live.page_content.normalized as NormalizedContent)
+      : null;
+
+    return NextResponse.json({
+      from: live
+        ? { ref: 'live', version: live.version ?? null, content_sha: live.content_sha }
+        : null,
+      to: { ref: 'editor', version: null, content_sha: validationResult.contentSha },
+      diff: diffNormalizedContent(liveContent, validationResult.normalized),
+    });
+  } catch (error) {
+    console.error('[POST /api/landing-pages/diff] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/db/supabase';
+import { LIVE_STATUSES } from '@/config/constants';
 
 /**
  * Landing Pages API
@@ -18,6 +19,7 @@ export async function GET(request: NextRequest) {
         .from('landing_pages')
         .select('*')
         .eq('id', id)
+        .is('deleted_at', null)
         .single();
 
       if (error) {
@@ -27,12 +29,14 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ landing_page: data });
     }
     
-    // If page_url_key is specified, find that specific page
+    // If page_url_key is specified, find the live page for that key (drafts share the key)
     if (pageUrlKey) {
       const { data, error } = await supabaseAdmin
         .from('landing_pages')
         .select('id, page_url_key, buyer_id, seller_id, seller_domain, status, published_at, created_at, updated_at')
         .eq('page_url_key', pageUrlKey)
+        .in('status', LIVE_STATUSES)
+        .is('deleted_at', null)
         .single();
 
       if (error) {
@@ -45,7 +49,8 @@ export async function GET(request: NextRequest) {
     // Otherwise return all landing pages (ordered by most recent first)
     const { data, error } = await supabaseAdmin
       .from('landing_pages')
-      .select('id, page_url_key, buyer_id, seller_id, seller_domain, status, published_at, created_at, updated_at')
+      .select('id, page_url_key, buyer_id, seller_id, seller_domain, mmyy, status, content_sha, version, submitted_by, submitted_at, publish_at, schedule_error, expire_at, published_at, is_primary, created_at, updated_at')
+      .is('deleted_at', null)
       .order('published_at', { ascending: false, nullsFirst: false })
       .order('created_at', { ascending: false })
       .limit(100);
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isStudioRequest } from '@/lib/auth/studioAuth';
+import { purgeLandingPage, restoreLandingPage } from '@/lib/db/trash';
+import { getAuditRequestInfo } from '@/lib/db/auditLog';
+
+/**
+ * Trashed Page API
+ * 
+ * POST /api/landing-pages/trash/[id] - Restore the page (its tracking tokens work again)
+ * DELETE /api/landing-pages/trash/[id] - Delete the page and its tracking tokens permanently
+ */
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!isStudioRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const result = await restoreLandingPage(id, 'studio', getAuditRequestInfo(request.headers));
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true, restored: result.page, tokens: result.tokens });
+  } catch (error) {
+    console.error('[POST /api/landing-pages/trash/[id]] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!isStudioRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const result = await purgeLandingPage(id, 'studio', getAuditRequestInfo(request.headers));
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true, purged: result.page });
+  } catch (error) {
+    console.error('[DELETE /api/landing-pages/trash/[id]] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
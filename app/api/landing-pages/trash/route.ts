@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isStudioRequest } from '@/lib/auth/studioAuth';
+import { listTrashedPages } from '@/lib/db/trash';
+import { TRASH_CONFIG } from '@/config/constants';
+
+/**
+ * Trash API
+ * 
+ * GET /api/landing-pages/trash - List deleted pages (most recently deleted first)
+ * POST /api/landing-pages/trash/[id] - Restore a page
+ * DELETE /api/landing-pages/trash/[id] - Delete a page permanently
+ * 
+ * Pages are purged automatically after TRASH_CONFIG.RETENTION_DAYS (/api/cron/purge-trash).
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    if (!isStudioRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const pages = await listTrashedPages();
+    return NextResponse.json({ landing_pages: pages, retention_days: TRASH_CONFIG.RETENTION_DAYS });
+  } catch (error) {
+    console.error('[GET /api/landing-pages/trash] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isStudioRequest } from '@/lib/auth/studioAuth';
+import { getMergeBatch } from '@/lib/publish/mergeBatches';
+
+/**
+ * Mail-Merge Batch API (studio only)
+ * 
+ * GET /api/merge-batches/{id} - Batch, every row with its status, and progress counts
+ */
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!isStudioRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const detail = await getMergeBatch(id);
+    if (!detail) {
+      return NextResponse.json({ error: 'Batch not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(detail);
+  } catch (error) {
+    console.error('[GET /api/merge-batches/[id]] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isStudioRequest } from '@/lib/auth/studioAuth';
+import { getAuditRequestInfo } from '@/lib/db/auditLog';
+import { runMergeBatch } from '@/lib/publish/mergeBatches';
+
+/**
+ * Mail-Merge Batch Run API (studio only)
+ * 
+ * POST /api/merge-batches/{id}/run - Publish the next pending rows (up to
+ * MAIL_MERGE_CONFIG.ROWS_PER_RUN) and return the batch with its progress.
+ * The studio calls this until progress.done is true.
+ */
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!isStudioRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const detail = await runMergeBatch(id, {
+      host: new URL(request.url).host,
+      requestInfo: getAuditRequestInfo(request.headers),
+    });
+
+    if (!detail) {
+      return NextResponse.json({ error: 'Batch not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(detail);
+  } catch (error) {
+    console.error('[POST /api/merge-batches/[id]/run] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
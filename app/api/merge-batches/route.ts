@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { isStudioRequest } from '@/lib/auth/studioAuth';
+import { PublishMetaSchema } from '@/lib/validation/publishMeta';
+import { previewMergeBatch, createMergeBatch, listMergeBatches } from '@/lib/publish/mergeBatches';
+import type { MergePlan } from '@/lib/publish/mailMerge';
+import { MAIL_MERGE_CONFIG } from '@/config/constants';
+
+/**
+ * Mail-Merge Batches API (studio only)
+ * 
+ * GET  /api/merge-batches - Recent batches
+ * POST /api/merge-batches - Validate a template + CSV; stores the batch unless validate_only is set
+ * 
+ * Body: { name, template, csv, defaults: { seller_id, seller_domain?, mmyy?, campaign_id? },
+ *         generate_tokens?, validate_only? }
+ * Every row is returned with its pass/fail result. Publishing happens in
+ * POST /api/merge-batches/{id}/run.
+ */
+
+const MergeBatchSchema = z
+  .object({
+    name: z.string().trim().min(1, 'name is required').max(100, 'name must not exceed 100 characters'),
+    template: z.record(z.string(), z.unknown()),
+    csv: z
+      .string()
+      .min(1, 'csv is required')
+      .max(MAIL_MERGE_CONFIG.MAX_CSV_BYTES, `csv must not exceed ${MAIL_MERGE_CONFIG.MAX_CSV_BYTES} characters`),
+    defaults: z.object({
+      seller_id: PublishMetaSchema.shape.seller_id,
+      seller_domain: PublishMetaSchema.shape.seller_domain.optional().nullable(),
+      mmyy: PublishMetaSchema.shape.mmyy.optional().nullable(),
+      campaign_id: PublishMetaSchema.shape.campaign_id,
+    }),
+    generate_tokens: z.boolean().default(false),
+    validate_only: z.boolean().optional(),
+  })
+  .refine((val) => !val.generate_tokens || !!val.defaults.campaign_id, {
+    message: 'campaign_id is required to generate tracking tokens',
+    path: ['defaults', 'campaign_id'],
+  });
+
+/**
+ * Rows for the pass/fail grid (without the filled content)
+ */
+function summarizePlan(plan: Extract<MergePlan, { ok: true }>) {
+  return {
+    placeholders: plan.placeholders,
+    columns: plan.columns,
+    rows: plan.rows.map((row) => ({
+      row_number: row.row_number,
+      variables: row.variables,
+      page_url_key: row.page_url_key,
+      buyer_name: row.buyer_name,
+      contact_ids: row.contact_ids,
+      errors: row.errors,
+      warnings: row.warnings,
+      valid: row.valid,
+    })),
+  };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    if (!isStudioRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const batches = await listMergeBatches();
+    return NextResponse.json({ batches });
+  } catch (error) {
+    console.error('[GET /api/merge-batches] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!isStudioRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = MergeBatchSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid mail-merge batch',
+          validationErrors: parsed.error.issues.map((issue) => ({
+            path: issue.path.join('.'),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { validate_only, ...input } = parsed.data;
+
+    if (validate_only) {
+      const plan = await previewMergeBatch(input);
+      if (!plan.ok) {
+        return NextResponse.json({ error: plan.error }, { status: 400 });
+      }
+      return NextResponse.json({ ok: true, ...summarizePlan(plan) });
+    }
+
+    const result = await createMergeBatch(input, 'studio');
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error, ...(result.plan?.ok ? summarizePlan(result.plan) : {}) },
+        { status: result.plan?.ok ? 422 : 400 }
+      );
+    }
+
+    return NextResponse.json({ ok: true, ...result.detail }, { status: 201 });
+  } catch (error) {
+    console.error('[POST /api/merge-batches] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
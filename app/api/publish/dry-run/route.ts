@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isStudioRequest } from '@/lib/auth/studioAuth';
+import { dryRunPublishPipeline } from '@/lib/publish/pipeline';
+
+/**
+ * Publish Dry-Run API
+ * 
+ * POST /api/publish/dry-run - Report what publishing this content would do, without doing it
+ * 
+ * Body: { rawJson, meta } (same arguments as the publishLanding server action)
+ * Auth: studio session cookie or x-studio-secret header (for ops scripts)
+ * 
+ * Always 200 for a completed run; check `ok` to see whether the real publish
+ * would be accepted, and `changed` / `action` for what it would write.
+ * 
+ * Example:
+ *   curl -X POST https://abm.hrytos.com/api/publish/dry-run \
+ *     -H "content-type: application/json" -H "x-studio-secret: $STUDIO_PUBLISH_SECRET" \
+ *     -d '{"rawJson": {...}, "meta": {"buyer_id":"adient","seller_id":"cyngn","mmyy":"1025"}}'
+ */
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!isStudioRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'Request body must be a JSON object with rawJson and meta' }, { status: 400 });
+    }
+
+    const result = await dryRunPublishPipeline(body.rawJson, body.meta);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('[POST /api/publish/dry-run] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -15,13 +15,16 @@
  * Usage:
  * POST /api/revalidate
  * Headers: { 'x-revalidate-secret': '<secret>', 'content-type': 'application/json' }
- * Body: { "slug": "adient-cyngn-1025" }
+ * Body: { "slug": "adient-cyngn-1025", "pages": ["roi", "security"] }
+ * (pages: optional microsite child pages, revalidated at /p/{slug}/{page})
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { revalidatePath } from 'next/cache';
 import { z } from 'zod';
 import { getLandingCacheTag } from '@/lib/db/publishedLanding';
+import { getRevalidationPaths } from '@/lib/utils/revalidate';
+import { SITE_LIMITS } from '@/lib/validation/rules';
 
 /**
  * Request body schema validation
@@ -36,6 +39,10 @@ const RevalidateRequestSchema = z.object({
       'Slug must contain only lowercase letters, numbers, and hyphens'
     )
     .max(100, 'Slug cannot exceed 100 characters'),
+  pages: z
+    .array(z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Page slugs must contain only lowercase letters, numbers, and hyphens'))
+    .max(SITE_LIMITS.MAX_PAGES)
+    .optional(),
 });
 
 type RevalidateRequest = z.infer<typeof RevalidateRequestSchema>;
@@ -120,14 +127,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { slug } = validationResult.data;
+    const { slug, pages } = validationResult.data;
 
-    // 3. Revalidate the landing page path
-    const pagePath = `/p/${slug}`;
+    // 3. Revalidate the landing page path(s), child pages included
+    const paths = getRevalidationPaths(slug, pages);
+    const pagePath = paths[0];
     const cacheTag = getLandingCacheTag(slug);
     
     try {
-      revalidatePath(pagePath);
+      paths.forEach((path) => revalidatePath(path));
       
       const duration = Date.now() - startTime;
 
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isStudioRequest } from '@/lib/auth/studioAuth';
+import { getSellerDomain, deleteSellerDomain } from '@/lib/db/sellerDomains';
+import { recordAuditEvent, getAuditRequestInfo } from '@/lib/db/auditLog';
+
+/**
+ * Single Seller Domain API (studio only)
+ * 
+ * DELETE /api/seller-domains/{domain} - Remove a domain from the registry
+ * (its pages stop being served on it and it can no longer be published to)
+ */
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ domain: string }> }
+) {
+  try {
+    if (!isStudioRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { domain } = await params;
+    const entry = await getSellerDomain(decodeURIComponent(domain));
+    if (!entry) {
+      return NextResponse.json({ error: 'Domain not found' }, { status: 404 });
+    }
+
+    await deleteSellerDomain(entry.domain);
+
+    await recordAuditEvent({
+      actor: 'studio',
+      action: 'domain.delete',
+      target_type: 'domain',
+      target_id: entry.domain,
+      metadata: { seller_id: entry.seller_id, status: entry.status },
+    }, getAuditRequestInfo(request.headers));
+
+    console.info('[DELETE /api/seller-domains/[domain]] Domain removed', { domain: entry.domain });
+
+    return NextResponse.json({ domain: entry });
+  } catch (error) {
+    console.error('[DELETE /api/seller-domains/[domain]] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isStudioRequest } from '@/lib/auth/studioAuth';
+import { getSellerDomain } from '@/lib/db/sellerDomains';
+import { verifySellerDomain, withVerificationRecord } from '@/lib/domains/verification';
+import { recordAuditEvent, getAuditRequestInfo } from '@/lib/db/auditLog';
+
+/**
+ * Seller Domain Verification API (studio only)
+ * 
+ * POST /api/seller-domains/{domain}/verify - Look up the domain's DNS TXT record and
+ * store the result: "verified" when it holds the expected value, "failed" otherwise
+ * (a verified domain that fails a re-check stops being served)
+ */
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ domain: string }> }
+) {
+  try {
+    if (!isStudioRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { domain } = await params;
+    const entry = await getSellerDomain(decodeURIComponent(domain));
+    if (!entry) {
+      return NextResponse.json({ error: 'Domain not found' }, { status: 404 });
+    }
+
+    const checked = await verifySellerDomain(entry);
+
+    await recordAuditEvent({
+      actor: 'studio',
+      action: 'domain.verify',
+      target_type: 'domain',
+      target_id: checked.domain,
+      metadata: {
+        seller_id: checked.seller_id,
+        previous_status: entry.status,
+        status: checked.status,
+        error: checked.last_check_error ?? null,
+      },
+    }, getAuditRequestInfo(request.headers));
+
+    return NextResponse.json({ domain: withVerificationRecord(checked), verified: checked.status === 'verified' });
+  } catch (error) {
+    console.error('[POST /api/seller-domains/[domain]/verify] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { isStudioRequest } from '@/lib/auth/studioAuth';
+import { listSellerDomains, getSellerDomain, createSellerDomain, isPlatformDomain } from '@/lib/db/sellerDomains';
+import { withVerificationRecord } from '@/lib/domains/verification';
+import { isPublicSuffix } from '@/lib/domains/host';
+import { recordAuditEvent, getAuditRequestInfo } from '@/lib/db/auditLog';
+import { PublishMetaSchema } from '@/lib/validation/publishMeta';
+
+/**
+ * Seller Domains API (studio only)
+ * 
+ * GET  /api/seller-domains - List registered domains (?seller_id= to filter) with the
+ *                            DNS TXT record each one needs
+ * POST /api/seller-domains - Register a domain for a seller (status "pending")
+ * 
+ * Pages are served and published only on verified domains; verify with
+ * POST /api/seller-domains/{domain}/verify once the TXT record is in place.
+ */
+
+const RegisterDomainSchema = z.object({
+  domain: z.string().trim().toLowerCase().pipe(PublishMetaSchema.shape.seller_domain),
+  seller_id: PublishMetaSchema.shape.seller_id,
+  created_by: z.string().trim().max(100).optional().nullable(),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    if (!isStudioRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const sellerId = request.nextUrl.searchParams.get('seller_id') || undefined;
+    const domains = await listSellerDomains(sellerId);
+    return NextResponse.json({ domains: domains.map(withVerificationRecord) });
+  } catch (error) {
+    console.error('[GET /api/seller-domains] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!isStudioRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = RegisterDomainSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid domain registration',
+          validationErrors: parsed.error.issues.map((issue) => ({
+            path: issue.path.join('.'),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { domain, seller_id, created_by } = parsed.data;
+    const actor = created_by || 'studio';
+
+    if (isPlatformDomain(domain)) {
+      return NextResponse.json({ error: `${domain} is a platform domain and is always served` }, { status: 400 });
+    }
+
+    // A public suffix (co.uk, vercel.app, ...) can't be owned, so buyer hosts under it can't be routed
+    if (isPublicSuffix(domain)) {
+      return NextResponse.json({ error: `${domain} is a public suffix; register the domain you own under it` }, { status: 400 });
+    }
+
+    const existing = await getSellerDomain(domain);
+    if (existing) {
+      return NextResponse.json(
+        { error: existing.seller_id === seller_id ? `${domain} is already registered` : `${domain} is registered to another seller` },
+        { status: 409 }
+      );
+    }
+
+    const entry = await createSellerDomain(domain, seller_id, actor);
+
+    await recordAuditEvent({
+      actor,
+      action: 'domain.create',
+      target_type: 'domain',
+      target_id: entry.domain,
+      metadata: { seller_id: entry.seller_id },
+    }, getAuditRequestInfo(request.headers));
+
+    return NextResponse.json({ domain: withVerificationRecord(entry) }, { status: 201 });
+  } catch (error) {
+    console.error('[POST /api/seller-domains] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isStudioRequest } from '@/lib/auth/studioAuth';
+import { getSeller } from '@/lib/db/sellers';
+import { republishSellerPages } from '@/lib/publish/sellerPages';
+
+/**
+ * Seller Profile Republish API (studio only)
+ * 
+ * POST /api/sellers/{sellerId}/republish - Republish the next live pages of the
+ * seller (up to SELLER_REPUBLISH_CONFIG.PAGES_PER_RUN) with the current profile.
+ * 
+ * Body: { cursor? } - next_cursor from the previous call; the studio calls again
+ * until next_cursor is null.
+ */
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sellerId: string }> }
+) {
+  try {
+    if (!isStudioRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { sellerId } = await params;
+    const seller = await getSeller(sellerId);
+    if (!seller) {
+      return NextResponse.json({ error: 'Seller profile not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const cursor = typeof body?.cursor === 'string' && body.cursor ? body.cursor : null;
+
+    const run = await republishSellerPages(seller.seller_id, cursor, `seller-profile:${seller.seller_id}`);
+    return NextResponse.json(run);
+  } catch (error) {
+    console.error('[POST /api/sellers/[sellerId]/republish] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
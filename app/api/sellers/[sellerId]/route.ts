@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isStudioRequest } from '@/lib/auth/studioAuth';
+import { getSeller, sellerRowToDefaults } from '@/lib/db/sellers';
+
+/**
+ * Seller Profile API (studio only)
+ * 
+ * GET /api/sellers/{sellerId} - The profile plus the raw content defaults it
+ * supplies (the studio editor merges these before validating, like publish does)
+ */
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sellerId: string }> }
+) {
+  try {
+    if (!isStudioRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { sellerId } = await params;
+    const seller = await getSeller(sellerId);
+    if (!seller) {
+      return NextResponse.json({ error: 'Seller profile not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ seller, defaults: sellerRowToDefaults(seller) });
+  } catch (error) {
+    console.error('[GET /api/sellers/[sellerId]] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { isStudioRequest } from '@/lib/auth/studioAuth';
+import type { SellerRow } from '@/lib/db/supabase';
+import { listSellers, getSeller, upsertSeller } from '@/lib/db/sellers';
+import { recordAuditEvent, getAuditRequestInfo } from '@/lib/db/auditLog';
+import { PublishMetaSchema } from '@/lib/validation/publishMeta';
+import { isHttpsUrl } from '@/lib/utils/url';
+import { findCatalogueFont } from '@/lib/theme/fonts';
+
+/**
+ * Seller Profiles API (studio only)
+ * 
+ * GET  /api/sellers - List seller profiles with their live page counts
+ * POST /api/sellers - Create or update a profile (brand, links, boilerplate)
+ * 
+ * Profile values are defaults: a page's own non-empty raw value always wins.
+ * Saving a profile does not touch live pages; use
+ * POST /api/sellers/{sellerId}/republish to re-apply it.
+ */
+
+const optionalHttpsUrl = z
+  .string()
+  .trim()
+  .max(2048)
+  .refine((val) => val === '' || isHttpsUrl(val), { message: 'URL must use https://' })
+  .transform((val) => val || null)
+  .optional()
+  .nullable();
+
+const optionalHexColor = z
+  .string()
+  .trim()
+  .regex(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i, 'Color must be a hex value (e.g., "#1a73e8")')
+  .optional()
+  .or(z.literal('').transform(() => undefined));
+
+const optionalFont = z
+  .string()
+  .trim()
+  .refine((val) => val === '' || !!findCatalogueFont(val), { message: 'Font must be one of the font catalogue families' })
+  .optional();
+
+const SellerProfileSchema = z.object({
+  seller_id: PublishMetaSchema.shape.seller_id,
+  name: z.string().trim().min(1, 'name is required').max(100, 'name must not exceed 100 characters'),
+  description: z.string().trim().max(1000, 'description must not exceed 1000 characters').optional().nullable(),
+  website_url: optionalHttpsUrl,
+  read_more_url: optionalHttpsUrl,
+  meeting_scheduler_url: optionalHttpsUrl,
+  brand: z
+    .object({
+      logoUrl: optionalHttpsUrl,
+      colors: z
+        .object({
+          primary: optionalHexColor,
+          accent: optionalHexColor,
+          bg: optionalHexColor,
+          text: optionalHexColor,
+        })
+        .optional(),
+      fonts: z
+        .object({
+          heading: optionalFont,
+          body: optionalFont,
+        })
+        .optional(),
+    })
+    .optional()
+    .nullable(),
+  updated_by: z.string().trim().max(100).optional().nullable(),
+});
+
+/**
+ * Drop empty values so a blank form field never overrides a page with ''
+ */
+function compactBrand(brand: z.infer<typeof SellerProfileSchema>['brand']): SellerRow['brand'] {
+  if (!brand) return {};
+
+  const compact = (values: Record<string, string | null | undefined> | undefined) => {
+    const entries = Object.entries(values || {}).filter(([, value]) => !!value);
+    return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+  };
+
+  return Object.fromEntries(
+    Object.entries({
+      logoUrl: brand.logoUrl || undefined,
+      colors: compact(brand.colors),
+      fonts: compact(brand.fonts),
+    }).filter(([, value]) => value !== undefined)
+  ) as SellerRow['brand'];
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    if (!isStudioRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const sellers = await listSellers();
+    return NextResponse.json({ sellers });
+  } catch (error) {
+    console.error('[GET /api/sellers] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!isStudioRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = SellerProfileSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid seller profile',
+          validationErrors: parsed.error.issues.map((issue) => ({
+            path: issue.path.join('.'),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { updated_by, brand, ...profile } = parsed.data;
+    const actor = updated_by || 'studio';
+    const existing = await getSeller(profile.seller_id);
+
+    const seller = await upsertSeller(
+      {
+        ...profile,
+        description: profile.description || null,
+        website_url: profile.website_url ?? null,
+        read_more_url: profile.read_more_url ?? null,
+        meeting_scheduler_url: profile.meeting_scheduler_url ?? null,
+        brand: compactBrand(brand),
+      },
+      actor
+    );
+
+    await recordAuditEvent({
+      actor,
+      action: 'seller.update',
+      target_type: 'seller',
+      target_id: seller.seller_id,
+      metadata: { name: seller.name, created: !existing },
+    }, getAuditRequestInfo(request.headers));
+
+    return NextResponse.json({ seller }, { status: existing ? 200 : 201 });
+  } catch (error) {
+    console.error('[POST /api/sellers] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isStudioRequest } from '@/lib/auth/studioAuth';
+import { fetchLogoImage, suggestThemeFromImage } from '@/lib/theme/palette';
+import { THEME_SUGGEST_CONFIG } from '@/config/constants';
+
+/**
+ * Theme Suggestion API (studio only)
+ * 
+ * POST /api/theme/suggest - Propose brand colors (primary, accent, bg, text) from a logo
+ * 
+ * Body: JSON { logoUrl } (https), or multipart form data with a "logo" file
+ * Returns { colors, swatches, contrast }: every pair the templates draw meets WCAG AA.
+ * Nothing is saved; the studio applies the colors to the form.
+ */
+
+/**
+ * Logo bytes from the request: an uploaded file, or downloaded from logoUrl
+ */
+async function readLogo(request: NextRequest): Promise<Buffer | { error: string }> {
+  const contentType = request.headers.get('content-type') || '';
+
+  if (contentType.startsWith('multipart/form-data')) {
+    const form = await request.formData().catch(() => null);
+    const file = form?.get('logo');
+    if (!file || typeof file === 'string') {
+      return { error: 'logo file is required' };
+    }
+    if (file.size > THEME_SUGGEST_CONFIG.MAX_LOGO_BYTES) {
+      return { error: 'Logo is too large' };
+    }
+    return Buffer.from(await file.arrayBuffer());
+  }
+
+  const body = await request.json().catch(() => null);
+  const logoUrl = typeof body?.logoUrl === 'string' ? body.logoUrl.trim() : '';
+  if (!logoUrl) {
+    return { error: 'logoUrl is required' };
+  }
+
+  try {
+    return await fetchLogoImage(logoUrl);
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Logo could not be downloaded' };
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!isStudioRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const logo = await readLogo(request);
+    if (!Buffer.isBuffer(logo)) {
+      return NextResponse.json({ error: logo.error }, { status: 400 });
+    }
+
+    try {
+      return NextResponse.json(await suggestThemeFromImage(logo));
+    } catch (error) {
+      console.warn('[POST /api/theme/suggest] Unreadable image:', error);
+      return NextResponse.json({ error: 'Logo is not a readable image (PNG, JPEG, WebP, GIF or SVG)' }, { status: 422 });
+    }
+  } catch (error) {
+    console.error('[POST /api/theme/suggest] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
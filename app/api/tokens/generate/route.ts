@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabaseAdmin } from '@/lib/db/supabase';
-import { nanoid } from 'nanoid';
+import { isStudioRequest } from '@/lib/auth/studioAuth';
+import { getAuditRequestInfo } from '@/lib/db/auditLog';
+import { generateTrackingTokens } from '@/lib/db/trackingTokens';
 
 /**
  * Bulk Token Generation API
@@ -13,22 +14,11 @@ import { nanoid } from 'nanoid';
  * 3. Generates new tokens for contacts that don't have them
  * 4. Bulk inserts new tokens to database
  * 5. Returns all tokens with contact details
+ * 
+ * The work is done by generateTrackingTokens (lib/db/trackingTokens.ts), which
+ * mail-merge batches use too. Every call that creates tokens is written to the audit log.
  */
 
-// Type definitions for Supabase query results
-interface TokenContactResult {
-  id: string;
-  token: string;
-  tracking_url: string | null;
-  contact: {
-    id: string;
-    email: string;
-    full_name: string;
-    company_name: string;
-    job_title: string | null;
-  } | null;
-}
-
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
@@ -61,146 +51,28 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get landing page to determine the correct domain for tracking URLs
-    const { data: landingPage, error: landingPageError } = await supabaseAdmin
-      .from('landing_pages')
-      .select('seller_domain')
-      .eq('id', landing_page_id)
-      .single();
-
-    if (landingPageError || !landingPage) {
-      return NextResponse.json(
-        { error: 'Landing page not found' },
-        { status: 404 }
-      );
-    }
-
-    // Use seller_domain from landing page, fallback to NEXT_PUBLIC_SITE_URL or request origin
-    const domain = landingPage.seller_domain || 
-                   process.env.NEXT_PUBLIC_SITE_URL?.replace(/^https?:\/\//, '') || 
-                   new URL(request.url).host;
-    const protocol = domain.includes('localhost') ? 'http' : 'https';
-    const baseUrl = `${protocol}://${domain}`;
-
-    // 1. Check which contacts already have tokens for this campaign + landing page
-    const { data: existingTokens, error: existingError } = await supabaseAdmin
-      .from('landing_page_token')
-      .select('contact_id, token, tracking_url')
-      .eq('campaign_id', campaign_id)
-      .eq('landing_page_id', landing_page_id)
-      .in('contact_id', contact_ids);
-
-    if (existingError) {
-      console.error('Failed to check existing tokens:', existingError);
-      return NextResponse.json(
-        { error: 'Failed to check existing tokens' },
-        { status: 500 }
-      );
-    }
-
-    // 2. Determine which contacts need new tokens
-    const existingContactIds = new Set((existingTokens || []).map((t) => t.contact_id));
-    const newContactIds = contact_ids.filter((id) => !existingContactIds.has(id));
-
-    // 3. Fetch contact details for new tokens
-    let newTokens: any[] = [];
-    
-    if (newContactIds.length > 0) {
-      const { data: contacts, error: contactsError } = await supabaseAdmin
-        .from('contacts')
-        .select('id, email, full_name')
-        .in('id', newContactIds);
-
-      if (contactsError || !contacts) {
-        console.error('Failed to fetch contacts:', contactsError);
-        return NextResponse.json(
-          { error: 'Failed to fetch contact details' },
-          { status: 500 }
-        );
-      }
-
-      // 4. Generate unique tokens for each new contact
-      newTokens = contacts.map((contact) => {
-        // Generate token: random_firstname (e.g., abc123_john)
-        const randomPart = nanoid(8);
-        const namePart = contact.email?.split('@')[0]?.toLowerCase()?.replace(/[^a-z0-9]/g, '') || 'user';
-        const token = `${randomPart}_${namePart}`;
-        const tracking_url = `${baseUrl}/r/${token}`;
-
-        return {
-          token,
-          tracking_url,
-          contact_id: contact.id,
-          campaign_id,
-          landing_page_id,
-          expires_at: new Date(Date.now() + 90 * 24 * 60 * 60 * 1000).toISOString(), // 90 days
-          click_count: 0,
-        };
-      });
-
-      // 5. Bulk insert new tokens
-      const { error: insertError } = await supabaseAdmin
-        .from('landing_page_token')
-        .insert(newTokens);
-
-      if (insertError) {
-        console.error('Failed to insert tokens:', insertError);
-        return NextResponse.json(
-          { error: 'Failed to create tokens', details: insertError.message },
-          { status: 500 }
-        );
-      }
-    }
-
-    // 6. Fetch ALL tokens (existing + new) with full contact details
-    const { data: allTokens, error: allTokensError } = await supabaseAdmin
-      .from('landing_page_token')
-      .select(`
-        id,
-        token,
-        tracking_url,
-        contact:contacts (
-          id,
-          email,
-          full_name,
-          company_name,
-          job_title
-        )
-      `)
-      .eq('campaign_id', campaign_id)
-      .eq('landing_page_id', landing_page_id)
-      .in('contact_id', contact_ids);
+    const result = await generateTrackingTokens(
+      {
+        contactIds: contact_ids,
+        campaignId: campaign_id,
+        landingPageId: landing_page_id,
+        fallbackHost: new URL(request.url).host,
+      },
+      isStudioRequest(request) ? 'studio' : 'anonymous',
+      getAuditRequestInfo(request.headers)
+    );
 
-    if (allTokensError) {
-      console.error('Failed to fetch all tokens:', allTokensError);
+    if (!result.ok) {
       return NextResponse.json(
-        { error: 'Failed to fetch tokens' },
-        { status: 500 }
+        { error: result.error, ...(result.details ? { details: result.details } : {}) },
+        { status: result.status }
       );
     }
 
-    // 7. Format response
-    const typedTokens = (allTokens || []) as unknown as TokenContactResult[];
-    const formattedTokens = typedTokens.map((t) => ({
-      token: t.token,
-      tracking_url: t.tracking_url,
-      contact: {
-        id: t.contact?.id,
-        email: t.contact?.email,
-        full_name: t.contact?.full_name,
-        company_name: t.contact?.company_name,
-        job_title: t.contact?.job_title,
-      },
-    }));
-
     return NextResponse.json({
       success: true,
-      tokens: formattedTokens,
-      summary: {
-        total: formattedTokens.length,
-        new: newTokens.length,
-        existing: existingTokens?.length || 0,
-      },
+      tokens: result.tokens,
+      summary: result.summary,
     });
   } catch (error) {
     console.error('Error in token generation:', error);
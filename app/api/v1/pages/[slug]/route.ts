@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin, type LandingPageRow } from '@/lib/db/supabase';
+import { authenticateApiKey, checkApiKeyScope } from '@/lib/auth/apiKeyAuth';
+import { apiError, toApiPage, withIdempotency, API_PAGE_COLUMNS } from '@/lib/api/v1';
+import { trashLandingPage } from '@/lib/db/trash';
+import { getAuditRequestInfo } from '@/lib/db/auditLog';
+import { LIVE_STATUSES } from '@/config/constants';
+
+/**
+ * Public REST API v1 — Single Page
+ * 
+ * GET    /api/v1/pages/[slug] - Get a live page, including its raw and normalized content
+ * DELETE /api/v1/pages/[slug] - Move a live page to the trash and revalidate its URL (honours Idempotency-Key)
+ * 
+ * Pages outside the API key's seller scope are reported as 404.
+ */
+
+/**
+ * Load the live row for a slug if it is within the key's scope
+ */
+async function findScopedLivePage(
+  slug: string,
+  columns: string,
+  apiKey: Parameters<typeof checkApiKeyScope>[0]
+): Promise<Partial<LandingPageRow> | null> {
+  const { data, error } = await supabaseAdmin
+    .from('landing_pages')
+    .select(columns)
+    .eq('page_url_key', slug)
+    .in('status', LIVE_STATUSES)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  const row = data as Partial<LandingPageRow> | null;
+  if (!row || checkApiKeyScope(apiKey, row.seller_id, row.seller_domain)) {
+    return null;
+  }
+
+  return row;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const auth = await authenticateApiKey(request);
+    if (!auth.ok) {
+      return apiError(auth.status, auth.error);
+    }
+
+    const { slug } = await params;
+    const page = await findScopedLivePage(slug, `${API_PAGE_COLUMNS}, page_content`, auth.apiKey);
+    if (!page) {
+      return apiError(404, 'Page not found');
+    }
+
+    return NextResponse.json({ ok: true, page: toApiPage(page, { includeContent: true }) });
+  } catch (error) {
+    console.error('[GET /api/v1/pages/[slug]] Error:', error);
+    return apiError(500, 'Internal server error');
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const auth = await authenticateApiKey(request);
+    if (!auth.ok) {
+      return apiError(auth.status, auth.error);
+    }
+    const { apiKey } = auth;
+    const { slug } = await params;
+
+    return await withIdempotency(request, apiKey, '', async () => {
+      const page = await findScopedLivePage(slug, 'id, page_url_key, seller_id, seller_domain', apiKey);
+      if (!page?.id) {
+        return { status: 404, body: { ok: false, error: 'Page not found' } };
+      }
+
+      // Soft delete, like the studio: the page can be restored from the dashboard trash
+      const result = await trashLandingPage(page.id, `api:${apiKey.name}`, getAuditRequestInfo(request.headers));
+      if (!result.ok) {
+        return { status: result.status, body: { ok: false, error: result.error } };
+      }
+
+      console.info('[DELETE /api/v1/pages/[slug]] Moved to trash via API key', { slug, apiKeyId: apiKey.id });
+
+      return { status: 200, body: { ok: true, deleted: { page_url_key: slug } } };
+    });
+  } catch (error) {
+    console.error('[DELETE /api/v1/pages/[slug]] Error:', error);
+    return apiError(500, 'Internal server error');
+  }
+}
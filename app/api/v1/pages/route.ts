@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/db/supabase';
+import { authenticateApiKey, checkApiKeyScope } from '@/lib/auth/apiKeyAuth';
+import { apiError, toApiPage, withIdempotency, API_PAGE_COLUMNS } from '@/lib/api/v1';
+import { publishLanding } from '@/lib/actions/publishLanding';
+import { resolvePublishTarget, findLiveRow, findRedirectSources } from '@/lib/publish/pipeline';
+import { LIVE_STATUSES } from '@/config/constants';
+
+/**
+ * Public REST API v1 — Pages
+ * 
+ * GET  /api/v1/pages - List live pages for the API key's seller (?buyer_id=&limit=)
+ * POST /api/v1/pages - Create or update (publish) a page
+ * 
+ * Auth: `Authorization: Bearer lpk_...` (seller-scoped key from /studio/api-keys)
+ * 
+ * POST body: { content: <raw landing JSON>, meta: { buyer_id, mmyy, seller_domain?, seller_id?, campaign_id?, expire_at?, published_by? } }
+ * - The actor is always api:{key name}; a client published_by is only kept as a label in the audit metadata
+ * - seller_id / seller_domain default to the key's scope and must match it
+ * - Same pipeline as the studio publish (validation, idempotent content_sha, versioning, revalidation)
+ * - Send an `Idempotency-Key` header to make retries safe
+ * 
+ * Responses use the PublishResult shape plus page_url_key:
+ * 201 created (first version), 200 updated or unchanged, 422 validation errors,
+ * 403 out of the key's scope (including a live page or redirect_from source on another domain), 429 throttled
+ * (Retry-After), 409 key owned by another page or Idempotency-Key reuse
+ */
+
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 200;
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateApiKey(request);
+    if (!auth.ok) {
+      return apiError(auth.status, auth.error);
+    }
+    const { apiKey } = auth;
+
+    const searchParams = request.nextUrl.searchParams;
+    const buyerId = searchParams.get('buyer_id');
+    const limit = Math.min(
+      Math.max(Number(searchParams.get('limit')) || DEFAULT_LIST_LIMIT, 1),
+      MAX_LIST_LIMIT
+    );
+
+    let query = supabaseAdmin
+      .from('landing_pages')
+      .select(API_PAGE_COLUMNS)
+      .eq('seller_id', apiKey.seller_id)
+      .in('status', LIVE_STATUSES)
+      .is('deleted_at', null)
+      .order('published_at', { ascending: false, nullsFirst: false })
+      .limit(limit);
+
+    if (apiKey.seller_domain) {
+      query = query.eq('seller_domain', apiKey.seller_domain);
+    }
+    if (buyerId) {
+      query = query.eq('buyer_id', buyerId.toLowerCase());
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      console.error('[GET /api/v1/pages] Query error:', error);
+      return apiError(500, 'Failed to list pages');
+    }
+
+    return NextResponse.json({ ok: true, pages: (data || []).map((row) => toApiPage(row)) });
+  } catch (error) {
+    console.error('[GET /api/v1/pages] Error:', error);
+    return apiError(500, 'Internal server error');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateApiKey(request);
+    if (!auth.ok) {
+      return apiError(auth.status, auth.error);
+    }
+    const { apiKey } = auth;
+
+    const rawBody = await request.text();
+    let body: { content?: unknown; meta?: Record<string, unknown> | null } | null = null;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      return apiError(400, 'Request body must be valid JSON');
+    }
+
+    if (!body || typeof body !== 'object' || body.content === undefined || body.content === null) {
+      return apiError(400, 'content is required');
+    }
+
+    const { content } = body;
+    const requestMeta = body.meta && typeof body.meta === 'object' ? body.meta : {};
+
+    return await withIdempotency(request, apiKey, rawBody, async () => {
+      const meta = {
+        ...requestMeta,
+        seller_id: requestMeta.seller_id ?? apiKey.seller_id,
+        seller_domain: requestMeta.seller_domain ?? apiKey.seller_domain ?? undefined,
+        published_by: `api:${apiKey.name}`.slice(0, 100),
+        published_label: requestMeta.published_by ?? requestMeta.published_label,
+      };
+
+      const resolved = resolvePublishTarget(meta);
+      if (!resolved.ok) {
+        return { status: 422, body: resolved.result };
+      }
+
+      const { slug, meta: validMeta, redirectFrom } = resolved.target;
+      const scopeError = checkApiKeyScope(apiKey, validMeta.seller_id, validMeta.seller_domain);
+      if (scopeError) {
+        return { status: 403, body: { ok: false, error: scopeError } };
+      }
+
+      // The page being replaced must be in scope too: a key restricted to one domain
+      // can't move its seller's page from another domain
+      const live = await findLiveRow(slug);
+      if (!live.ok) {
+        return { status: 500, body: live.result };
+      }
+      const liveScopeError = live.row && checkApiKeyScope(apiKey, live.row.seller_id, live.row.seller_domain);
+      if (liveScopeError) {
+        return { status: 403, body: { ok: false, error: liveScopeError, page_url_key: slug } };
+      }
+
+      // Same for redirect_from: publishing archives the pages at those keys
+      // (another seller's source is a 409 from publishLanding's ownership check)
+      const sources = await findRedirectSources(slug, redirectFrom);
+      if (!sources.ok) {
+        return { status: 500, body: sources.result };
+      }
+      for (const source of sources.rows.filter((row) => row.seller_id === apiKey.seller_id)) {
+        const sourceScopeError = checkApiKeyScope(apiKey, source.seller_id, source.seller_domain);
+        if (sourceScopeError) {
+          return {
+            status: 403,
+            body: { ok: false, error: `redirect_from "${source.page_url_key}": ${sourceScopeError}`, page_url_key: slug },
+          };
+        }
+      }
+
+      // publishLanding claims the throttle window itself (atomically, in the shared store)
+      const result = await publishLanding(content, meta, process.env.STUDIO_PUBLISH_SECRET);
+      if (result.retryAfterSeconds) {
+        return {
+          status: 429,
+          body: result,
+          headers: { 'Retry-After': String(result.retryAfterSeconds) },
+        };
+      }
+      // Only real server errors are 500 (withIdempotency doesn't store them, so clients retry)
+      const status = result.ok
+        ? result.changed && result.version === 1 ? 201 : 200
+        : result.conflict ? 409 : result.validationErrors ? 422 : 500;
+
+      if (result.ok) {
+        console.info('[POST /api/v1/pages] Published via API key', {
+          slug,
+          apiKeyId: apiKey.id,
+          changed: result.changed,
+          version: result.version,
+        });
+      }
+
+      return { status, body: { ...result, page_url_key: slug } };
+    });
+  } catch (error) {
+    console.error('[POST /api/v1/pages] Error:', error);
+    return apiError(500, 'Internal server error');
+  }
+}
@@ -16,6 +16,8 @@ const geistMono = Geist_Mono({
 export const metadata: Metadata = {
   title: "Create Next App",
   description: "Generated by create next app",
+  // Nothing is indexed unless a landing page opts in with seo.index
+  robots: { index: false, follow: false },
 };
 
 export default function RootLayout({
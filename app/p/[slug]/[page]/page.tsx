@@ -0,0 +1,111 @@
+/**
+ * CONTEXT FOR COPILOT — PART B (Multi-Tenant)
+ * Public route: /p/[slug]/[page]
+ *
+ * - Microsite child pages (ROI, case studies, security FAQ, ...) of a published page
+ * - Shares the parent's row: brand, header navigation, analytics context (plus site_page)
+ * - Shows the expired-page experience once the parent's expire_at has passed
+ * - Follows landing_page_redirects for the parent's old keys
+ * - Returns 404 for missing/unpublished pages or unknown child pages
+ *
+ * On a buyer subdomain child pages are served by app/p/[slug] (adient.cyngn.com/roi).
+ */
+
+import { notFound, permanentRedirect } from 'next/navigation';
+import { preload } from 'react-dom';
+import { Metadata } from 'next';
+import {
+  getPublishedLanding,
+  getExpiredLanding,
+  extractNormalizedContent,
+  generateMetadataFromContent,
+} from '@/lib/db/publishedLanding';
+import { LandingPage } from '@/components/landing/LandingPage';
+import { AnalyticsPageWrapper } from '@/components/analytics/AnalyticsPageWrapper';
+import { ExpiredLanding } from '@/components/landing/ExpiredLanding';
+import { isExpired } from '@/lib/utils/campaignWindow';
+import { findRedirectSafe } from '@/lib/db/redirects';
+import { buildPublicQuery } from '@/lib/utils/url';
+import { getFontPreloadUrls, resolvePageFonts } from '@/lib/theme/fonts';
+import { getSiteNav, getSitePage } from '@/lib/normalize/site';
+import { getCanonicalUrl } from '@/lib/seo/canonical';
+
+interface SitePageRouteParams {
+  params: Promise<{ slug: string; page: string }>;
+  searchParams?: Promise<Record<string, string | string[] | undefined>>;
+}
+
+/**
+ * Generate dynamic metadata for SEO from the child page's own content
+ * (its own indexing settings and canonical URL)
+ */
+export async function generateMetadata({ params }: SitePageRouteParams): Promise<Metadata> {
+  const { slug, page } = await params;
+  const row = await getPublishedLanding(slug);
+  const sitePage = getSitePage(extractNormalizedContent(row), page);
+
+  if (!row || !sitePage) {
+    return {
+      title: 'Page Not Found',
+      description: 'The requested landing page could not be found.',
+    };
+  }
+
+  return generateMetadataFromContent(sitePage.content, getCanonicalUrl(row, sitePage.content.seo, sitePage.slug));
+}
+
+/**
+ * Microsite child page route
+ *
+ * URL Examples:
+ * - /p/adient-cyngn-1025/roi
+ * - /p/adient-cyngn-1025/security
+ */
+export default async function SitePageRoute({ params, searchParams }: SitePageRouteParams) {
+  const { slug, page } = await params;
+  const landingPageRow = await getPublishedLanding(slug);
+  const content = extractNormalizedContent(landingPageRow);
+
+  if (!landingPageRow || !content) {
+    // Old key that moved: the child page moved with it (keeping r, vid, sid, ...;
+    // the middleware normally answers first with a 301). Uncached and never throws.
+    const redirectTarget = await findRedirectSafe(slug);
+    if (redirectTarget) {
+      permanentRedirect(`/p/${redirectTarget}/${page}${buildPublicQuery(searchParams ? await searchParams : undefined)}`);
+    }
+
+    const expiredRow = await getExpiredLanding(slug);
+    if (expiredRow) {
+      return <ExpiredLanding content={extractNormalizedContent(expiredRow)} />;
+    }
+    notFound();
+  }
+
+  if (isExpired(landingPageRow.expire_at)) {
+    return <ExpiredLanding content={content} />;
+  }
+
+  const sitePage = getSitePage(content, page);
+  if (!sitePage) {
+    notFound();
+  }
+
+  const pageProps = {
+    buyer_id: landingPageRow.buyer_id || 'unknown',
+    seller_id: landingPageRow.seller_id,
+    page_url_key: landingPageRow.page_url_key,
+    content_sha: landingPageRow.content_sha,
+    site_page: sitePage.slug,
+  };
+
+  // Same brand fonts as the rest of the site
+  for (const href of getFontPreloadUrls(resolvePageFonts(content.brand?.fonts))) {
+    preload(href, { as: 'font', type: 'font/woff2', crossOrigin: 'anonymous' });
+  }
+
+  return (
+    <AnalyticsPageWrapper pageProps={pageProps}>
+      <LandingPage content={sitePage.content} nav={getSiteNav(content, `/p/${slug}`, sitePage.slug)} />
+    </AnalyticsPageWrapper>
+  );
+}
@@ -5,29 +5,68 @@
  * - Fetches published landing pages from Supabase
  * - Uses On-Demand ISR with cache tags: "landing:{slug}"
  * - Renders using Part A components (Hero, Benefits, Options, etc.)
- * - Generates dynamic metadata from normalized content
+ * - Generates dynamic metadata from normalized content (noindex unless seo.index, canonical URL)
+ * - Preloads the page's self-hosted brand fonts (lib/theme/fonts.ts)
+ * - Shows the expired-page experience once a page's expire_at has passed
+ * - Follows landing_page_redirects for old keys (middleware normally answers first with a 301)
+ * - Microsites: renders the shared header navigation; on a buyer subdomain the path can
+ *   select a child page (adient.cyngn.com/roi); /p/{slug}/{page} is app/p/[slug]/[page]
  * - Returns 404 for missing/unpublished pages
  */
 
-import { notFound } from 'next/navigation';
+import { notFound, permanentRedirect } from 'next/navigation';
+import { preload } from 'react-dom';
 import { Metadata } from 'next';
 import {
   getPublishedContent,
   getPublishedLanding,
-  getPublishedContentByDomain,
-  getPublishedLandingByDomain,
+  resolveDomainLanding,
+  getExpiredLanding,
+  getExpiredLandingByDomain,
+  extractNormalizedContent,
   generateMetadataFromContent,
   type PublicRouteParams,
   getRouteSlug,
 } from '@/lib/db/publishedLanding';
 import { LandingPage } from '@/components/landing/LandingPage';
 import { AnalyticsPageWrapper } from '@/components/analytics/AnalyticsPageWrapper';
+import { ExpiredLanding } from '@/components/landing/ExpiredLanding';
+import { isExpired } from '@/lib/utils/campaignWindow';
+import { findRedirectSafe } from '@/lib/db/redirects';
+import { buildPublicQuery } from '@/lib/utils/url';
+import { getFontPreloadUrls, resolvePageFonts } from '@/lib/theme/fonts';
+import { getSiteNav, getSitePage } from '@/lib/normalize/site';
+import { getCanonicalUrl } from '@/lib/seo/canonical';
+import type { LandingPageRow } from '@/lib/db/supabase';
 
 /**
  * Extended route params that include searchParams for domain routing
  */
 interface ExtendedRouteParams extends PublicRouteParams {
-  searchParams?: Promise<{ _buyer_id?: string; _seller_domain?: string; _domain_route?: string }>;
+  searchParams?: Promise<{
+    _buyer_id?: string;
+    _seller_domain?: string;
+    _domain_route?: string;
+    _domain_path?: string;
+    [key: string]: string | string[] | undefined;
+  }>;
+}
+
+/**
+ * Find an expired page for this request (domain first, then slug)
+ */
+async function findExpiredLanding(
+  slug: string,
+  buyerId: string | undefined,
+  sellerDomain: string | undefined,
+  isDomainRoute: boolean,
+  domainPath?: string
+): Promise<LandingPageRow | null> {
+  if (buyerId && sellerDomain && isDomainRoute) {
+    const row = await getExpiredLandingByDomain(buyerId, sellerDomain, domainPath?.split('/')[0]);
+    if (row) return row;
+  }
+  return getExpiredLanding(slug);
 }
 
 /**
@@ -42,38 +81,59 @@ export async function generateMetadata(
   const buyerId = resolvedSearchParams?._buyer_id;
   const sellerDomain = resolvedSearchParams?._seller_domain;
   const isDomainRoute = resolvedSearchParams?._domain_route === 'true';
+  const domainPath = resolvedSearchParams?._domain_path;
   
+  let row: LandingPageRow | null = null;
   let content = null;
+  let sitePage: string | null = null;
   
   // Priority 1: Domain lookup (if coming from wildcard domain)
   if (buyerId && sellerDomain && isDomainRoute) {
-    content = await getPublishedContentByDomain(buyerId, sellerDomain);
+    const resolved = await resolveDomainLanding(buyerId, sellerDomain, domainPath);
+    const parentContent = extractNormalizedContent(resolved?.row ?? null);
+    content = resolved?.sitePage ? getSitePage(parentContent, resolved.sitePage)?.content ?? null : parentContent;
+    row = resolved?.row ?? null;
+    sitePage = resolved?.sitePage ?? null;
   }
   
   // Priority 2: Slug-based lookup (backward compatibility)
   if (!content) {
-    content = await getPublishedContent(slug);
+    row = await getPublishedLanding(slug);
+    content = extractNormalizedContent(row);
+    sitePage = null;
   }
 
   if (!content) {
+    const expiredRow = await findExpiredLanding(slug, buyerId, sellerDomain, isDomainRoute, domainPath);
+    if (expiredRow) {
+      return {
+        title: 'Page Expired',
+        description: 'This personalized page is no longer available.',
+        robots: { index: false, follow: false },
+      };
+    }
+
     return {
       title: 'Page Not Found',
       description: 'The requested landing page could not be found.',
     };
   }
 
-  return generateMetadataFromContent(content);
+  // Both /p/{slug} and the buyer subdomain point search engines at one canonical URL
+  return generateMetadataFromContent(content, row ? getCanonicalUrl(row, content.seo, sitePage) : undefined);
 }
 
 /**
  * Public landing page route
  * Supports both:
- * 1. Wildcard domain routing: adient.cyngn.com
+ * 1. Wildcard domain routing: adient.cyngn.com (primary page), adient.cyngn.com/1025
  * 2. Path routing: yoursite.com/p/adient-cyngn-1025
  * 
  * URL Examples:
  * - /p/adient-cyngn-1025 (path-based)
- * - adient.cyngn.com (wildcard domain-based)
+ * - adient.cyngn.com (wildcard domain-based, the buyer's primary page)
+ * - adient.cyngn.com/0925 (wildcard domain-based, another month's page)
+ * - adient.cyngn.com/roi (wildcard domain-based, a child page of the primary microsite)
  */
 export default async function PublicLandingPage({ params, searchParams }: ExtendedRouteParams) {
   const slug = await getRouteSlug(params);
@@ -81,15 +141,23 @@ export default async function PublicLandingPage({ params, searchParams }: Extend
   const buyerId = resolvedSearchParams?._buyer_id;
   const sellerDomain = resolvedSearchParams?._seller_domain;
   const isDomainRoute = resolvedSearchParams?._domain_route === 'true';
+  const domainPath = resolvedSearchParams?._domain_path;
   
   let landingPageRow = null;
   let content = null;
+  let sitePage: string | null = null;
+  let basePath = `/p/${slug}`;
   
-  // Priority 1: Domain lookup (if coming from wildcard domain)
+  // Priority 1: Domain lookup (if coming from wildcard domain): the page for the
+  // path (/1025, /{page_url_key}), or the buyer's primary page on the bare subdomain,
+  // and a microsite child page (/roi, /1025/roi)
   if (buyerId && sellerDomain && isDomainRoute) {
-    landingPageRow = await getPublishedLandingByDomain(buyerId, sellerDomain);
-    if (landingPageRow) {
-      content = await getPublishedContentByDomain(buyerId, sellerDomain);
+    const resolved = await resolveDomainLanding(buyerId, sellerDomain, domainPath);
+    if (resolved) {
+      landingPageRow = resolved.row;
+      content = extractNormalizedContent(resolved.row);
+      sitePage = resolved.sitePage;
+      basePath = resolved.basePath;
     }
   }
   
@@ -100,28 +168,59 @@ export default async function PublicLandingPage({ params, searchParams }: Extend
       getPublishedLanding(slug)
     ]);
     content = slugContent;
+    basePath = `/p/${slug}`;
     if (!landingPageRow) {
       landingPageRow = slugRow;
     }
   }
 
+  // Old key that moved: follow the redirect (uncached, so a just-recorded redirect is seen;
+  // never throws, so a redirect-table outage falls through to the expired page / 404 instead of a 500)
+  if ((!content || !landingPageRow) && !isDomainRoute) {
+    const redirectTarget = await findRedirectSafe(slug);
+    if (redirectTarget) {
+      permanentRedirect(`/p/${redirectTarget}${buildPublicQuery(resolvedSearchParams)}`);
+    }
+  }
+
+  // Expired pages (archived by the scheduler, or past expire_at before it ran)
+  // point visitors to the seller instead of a 404
+  if (!content || !landingPageRow || isExpired(landingPageRow.expire_at)) {
+    const expiredRow = landingPageRow && isExpired(landingPageRow.expire_at)
+      ? landingPageRow
+      : await findExpiredLanding(slug, buyerId, sellerDomain, isDomainRoute, domainPath);
+
+    if (expiredRow) {
+      return <ExpiredLanding content={extractNormalizedContent(expiredRow)} />;
+    }
+  }
+
   // Return 404 if page not found or not published
   if (!content || !landingPageRow) {
     notFound();
   }
 
+  // A microsite child page shares the parent's row (analytics context) and navigation
+  const pageContent = (sitePage && getSitePage(content, sitePage)?.content) || content;
+
   // Extract analytics context from the landing page row
   const pageProps = {
     buyer_id: landingPageRow.buyer_id || 'unknown',
     seller_id: landingPageRow.seller_id,
     page_url_key: landingPageRow.page_url_key,
     content_sha: landingPageRow.content_sha,
+    ...(sitePage ? { site_page: sitePage } : {}),
   };
 
+  // Fonts come from our own origin; hint the above-the-fold weights so text doesn't swap late
+  for (const href of getFontPreloadUrls(resolvePageFonts(content.brand?.fonts))) {
+    preload(href, { as: 'font', type: 'font/woff2', crossOrigin: 'anonymous' });
+  }
+
   // Render the landing page with analytics wrapper
   return (
     <AnalyticsPageWrapper pageProps={pageProps}>
-      <LandingPage content={content} />
+      <LandingPage content={pageContent} nav={getSiteNav(content, basePath, sitePage)} />
     </AnalyticsPageWrapper>
   );
 }
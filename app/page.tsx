@@ -4,14 +4,20 @@
  * Lists all landing pages with options to:
  * - View/Preview
  * - Edit (navigate to studio with pre-populated data)
- * - Delete
+ * - Duplicate (copy into a new draft for another buyer or month)
+ * - Delete (moves to the trash; restore or delete permanently from the Trash panel)
  * - Create new
+ * - Review drafts side by side with the live page (submit, approve, return)
+ * - Choose which of a buyer's live pages the bare subdomain ({buyer}.{seller_domain}) serves
  */
 
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
+import { approveDraft, cloneToDraft, returnDraftToEditing, scheduleDraft, submitDraftForReview } from '@/lib/actions/draftWorkflow';
+import { promptStudioSecret } from '@/lib/utils/studioFetch';
+import { DRAFT_STATUSES, TRASH_CONFIG, type LandingPageStatus } from '@/config/constants';
 
 interface LandingPage {
   id: string;
@@ -19,12 +25,67 @@ interface LandingPage {
   buyer_id: string | null;
   seller_id: string | null;
   seller_domain: string | null;
-  status: 'draft' | 'published' | 'archived';
+  mmyy: string | null;
+  status: LandingPageStatus;
+  content_sha: string | null;
+  version: number | null;
+  submitted_by: string | null;
+  submitted_at: string | null;
+  publish_at: string | null;
+  schedule_error: string | null;
+  expire_at: string | null;
   published_at: string | null;
+  is_primary: boolean | null;
   created_at: string;
   updated_at: string;
 }
 
+/**
+ * Live row and working draft that share a page_url_key
+ */
+/**
+ * Row in the Trash panel (/api/landing-pages/trash)
+ */
+interface TrashedPage {
+  id: string;
+  page_url_key: string;
+  buyer_id: string | null;
+  seller_id: string | null;
+  status: LandingPageStatus;
+  deleted_at: string;
+  deleted_by: string | null;
+  purge_after: string;
+}
+
+/**
+ * Duplicate dialog fields (blank = copy from the source page)
+ */
+interface CloneForm {
+  buyerId: string;
+  mmyy: string;
+  sellerDomain: string;
+  buyerName: string;
+  rollForward: boolean;
+}
+
+interface PageGroup {
+  key: string;
+  live?: LandingPage;
+  draft?: LandingPage;
+}
+
+function formatDateTime(value: string | null) {
+  return value
+    ? new Date(value).toLocaleDateString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit'
+      })
+    : '-';
+}
+
 export default function DashboardPage() {
   const router = useRouter();
   const [landingPages, setLandingPages] = useState<LandingPage[]>([]);
@@ -32,6 +93,53 @@ export default function DashboardPage() {
   const [error, setError] = useState<string | null>(null);
   const [deletingId, setDeletingId] = useState<string | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<string | null>(null);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [cloneSource, setCloneSource] = useState<LandingPage | null>(null);
+  const [cloneForm, setCloneForm] = useState<CloneForm | null>(null);
+  const [cloning, setCloning] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const [trashedPages, setTrashedPages] = useState<TrashedPage[]>([]);
+  const [trashLoading, setTrashLoading] = useState(false);
+  const [trashActionId, setTrashActionId] = useState<string | null>(null);
+  const [primaryId, setPrimaryId] = useState<string | null>(null);
+
+  // Group rows by page_url_key, keeping the list order (most recent first)
+  const pageGroups = useMemo(() => {
+    const groups = new Map<string, PageGroup>();
+    for (const page of landingPages) {
+      const group = groups.get(page.page_url_key) ?? { key: page.page_url_key };
+      if (DRAFT_STATUSES.includes(page.status)) {
+        group.draft = page;
+      } else {
+        group.live = page;
+      }
+      groups.set(page.page_url_key, group);
+    }
+    return Array.from(groups.values());
+  }, [landingPages]);
+
+  // Buyer subdomains with more than one live page, and the page each one serves at "/"
+  // (marked primary, else the most recently published; see lib/db/publishedLanding.ts)
+  const subdomainServing = useMemo(() => {
+    const byHost = new Map<string, LandingPage[]>();
+    for (const page of landingPages) {
+      if (page.status !== 'published' || !page.buyer_id || !page.seller_domain) continue;
+      const host = `${page.buyer_id}.${page.seller_domain}`;
+      byHost.set(host, [...(byHost.get(host) ?? []), page]);
+    }
+
+    const serving = new Map<string, string>();
+    for (const [host, pages] of byHost) {
+      if (pages.length < 2) continue;
+      const [primary] = [...pages].sort(
+        (a, b) =>
+          Number(!!b.is_primary) - Number(!!a.is_primary) ||
+          (b.published_at ?? '').localeCompare(a.published_at ?? '')
+      );
+      serving.set(host, primary.id);
+    }
+    return serving;
+  }, [landingPages]);
 
   useEffect(() => {
     fetchLandingPages();
@@ -68,6 +176,9 @@ export default function DashboardPage() {
       // Remove from local state
       setLandingPages(prev => prev.filter(page => page.id !== id));
       setShowDeleteConfirm(null);
+      if (showTrash) {
+        await fetchTrash();
+      }
     } catch (err) {
       alert(err instanceof Error ? err.message : 'Delete failed');
     } finally {
@@ -75,12 +186,200 @@ export default function DashboardPage() {
     }
   }
 
+  async function handleSetPrimary(page: LandingPage) {
+    try {
+      setPrimaryId(page.id);
+      const response = await fetch(`/api/landing-pages/${page.id}/primary`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to set primary page');
+      }
+
+      setLandingPages(prev => prev.map(row =>
+        row.buyer_id === page.buyer_id && row.seller_domain === page.seller_domain
+          ? { ...row, is_primary: row.id === page.id }
+          : row
+      ));
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to set primary page');
+    } finally {
+      setPrimaryId(null);
+    }
+  }
+
+  async function fetchTrash() {
+    try {
+      setTrashLoading(true);
+      const response = await fetch('/api/landing-pages/trash');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load trash');
+      }
+      setTrashedPages(data.landing_pages || []);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to load trash');
+    } finally {
+      setTrashLoading(false);
+    }
+  }
+
+  function toggleTrash() {
+    if (!showTrash) {
+      fetchTrash();
+    }
+    setShowTrash(!showTrash);
+  }
+
+  async function handleTrashAction(page: TrashedPage, action: 'restore' | 'purge') {
+    if (action === 'purge' && !confirm(`Permanently delete ${page.page_url_key} and its tracking links? This cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      setTrashActionId(page.id);
+      const response = await fetch(`/api/landing-pages/trash/${page.id}`, {
+        method: action === 'restore' ? 'POST' : 'DELETE',
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to ${action} page`);
+      }
+
+      setTrashedPages(prev => prev.filter(row => row.id !== page.id));
+      if (action === 'restore') {
+        await fetchLandingPages();
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : `Failed to ${action} page`);
+    } finally {
+      setTrashActionId(null);
+    }
+  }
+
+  async function handlePreviewDraft(id: string) {
+    try {
+      const response = await fetch(`/api/landing-pages?id=${id}`);
+      const data = await response.json();
+      if (!response.ok || !data.landing_page?.page_content?.normalized) {
+        throw new Error(data.error || 'Draft has no previewable content');
+      }
+      localStorage.setItem('preview-content', JSON.stringify(data.landing_page.page_content.normalized));
+      window.open('/preview/studio-temp', '_blank');
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Preview failed');
+    }
+  }
+
+  async function handleReviewAction(draft: LandingPage, action: 'submit' | 'approve' | 'schedule' | 'return') {
+    if (action === 'approve' && !confirm(`Approve and publish ${draft.page_url_key}? The buyer will see this version immediately.`)) {
+      return;
+    }
+
+    let publishAt: string | null = null;
+    if (action === 'schedule') {
+      const input = prompt('Publish at (YYYY-MM-DD HH:MM, your local time):');
+      if (!input) {
+        return;
+      }
+      const parsed = new Date(input.trim().replace(' ', 'T'));
+      if (Number.isNaN(parsed.getTime())) {
+        alert('Invalid date. Use the format YYYY-MM-DD HH:MM.');
+        return;
+      }
+      publishAt = parsed.toISOString();
+    }
+
+    const secret = promptStudioSecret();
+    if (!secret) {
+      return;
+    }
+
+    try {
+      setReviewingId(draft.id);
+      const result =
+        action === 'submit'
+          ? await submitDraftForReview(draft.id, secret)
+          : action === 'approve'
+            ? await approveDraft(draft.id, secret)
+            : action === 'schedule' && publishAt
+              ? await scheduleDraft(draft.id, publishAt, secret)
+              : await returnDraftToEditing(draft.id, secret);
+
+      if (!result.ok) {
+        throw new Error(result.error || 'Review action failed');
+      }
+      await fetchLandingPages();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Review action failed');
+    } finally {
+      setReviewingId(null);
+    }
+  }
+
+  function openCloneDialog(page: LandingPage) {
+    setCloneSource(page);
+    setCloneForm({
+      buyerId: page.buyer_id || '',
+      mmyy: page.mmyy || '',
+      sellerDomain: page.seller_domain || '',
+      buyerName: '',
+      rollForward: false,
+    });
+  }
+
+  function closeCloneDialog() {
+    setCloneSource(null);
+    setCloneForm(null);
+  }
+
+  async function handleClone() {
+    if (!cloneSource || !cloneForm) {
+      return;
+    }
+
+    const secret = promptStudioSecret();
+    if (!secret) {
+      return;
+    }
+
+    // Only send what changed; the server copies everything else from the source
+    const buyerId = cloneForm.buyerId.trim().toLowerCase();
+    const mmyy = cloneForm.mmyy.trim();
+    const sellerDomain = cloneForm.sellerDomain.trim().toLowerCase();
+    const target = {
+      ...(buyerId && buyerId !== cloneSource.buyer_id ? { buyer_id: buyerId } : {}),
+      ...(mmyy && mmyy !== cloneSource.mmyy ? { mmyy } : {}),
+      ...(sellerDomain && sellerDomain !== cloneSource.seller_domain ? { seller_domain: sellerDomain } : {}),
+      ...(cloneForm.buyerName.trim() ? { buyer_name: cloneForm.buyerName.trim() } : {}),
+      ...(cloneForm.rollForward ? { roll_forward: true } : {}),
+    };
+
+    try {
+      setCloning(true);
+      const result = await cloneToDraft(cloneSource.id, target, secret);
+      if (!result.ok || !result.id) {
+        const details = result.validationErrors?.map((err) => `${err.path}: ${err.message}`).join('\n');
+        throw new Error(details ? `${result.error}\n${details}` : result.error || 'Duplicate failed');
+      }
+      closeCloneDialog();
+      router.push(`/studio?edit=${result.id}`);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Duplicate failed');
+    } finally {
+      setCloning(false);
+    }
+  }
+
   function getStatusColor(status: string) {
     switch (status) {
       case 'published':
         return 'bg-green-100 text-green-800';
       case 'draft':
         return 'bg-yellow-100 text-yellow-800';
+      case 'in_review':
+        return 'bg-indigo-100 text-indigo-800';
+      case 'scheduled':
+        return 'bg-blue-100 text-blue-800';
       case 'archived':
         return 'bg-gray-100 text-gray-800';
       default:
@@ -126,7 +425,7 @@ export default function DashboardPage() {
           <div className="bg-white overflow-hidden shadow rounded-lg">
             <div className="px-4 py-5 sm:p-6">
               <dt className="text-sm font-medium text-gray-500 truncate">Total Pages</dt>
-              <dd className="mt-1 text-3xl font-semibold text-gray-900">{landingPages.length}</dd>
+              <dd className="mt-1 text-3xl font-semibold text-gray-900">{pageGroups.length}</dd>
             </div>
           </div>
           <div className="bg-white overflow-hidden shadow rounded-lg">
@@ -139,9 +438,10 @@ export default function DashboardPage() {
           </div>
           <div className="bg-white overflow-hidden shadow rounded-lg">
             <div className="px-4 py-5 sm:p-6">
-              <dt className="text-sm font-medium text-gray-500 truncate">Drafts</dt>
+              <dt className="text-sm font-medium text-gray-500 truncate">Drafts / In Review</dt>
               <dd className="mt-1 text-3xl font-semibold text-yellow-600">
                 {landingPages.filter(p => p.status === 'draft').length}
+                <span className="text-indigo-600"> / {landingPages.filter(p => p.status === 'in_review').length}</span>
               </dd>
             </div>
           </div>
@@ -149,8 +449,14 @@ export default function DashboardPage() {
 
         {/* Landing Pages List */}
         <div className="bg-white shadow rounded-lg overflow-hidden">
-          <div className="px-4 py-5 sm:px-6 border-b border-gray-200">
+          <div className="px-4 py-5 sm:px-6 border-b border-gray-200 flex items-center justify-between">
             <h2 className="text-lg font-medium text-gray-900">All Landing Pages</h2>
+            <button
+              onClick={toggleTrash}
+              className="text-sm text-gray-600 hover:text-blue-600"
+            >
+              {showTrash ? 'Hide trash' : 'Trash'}
+            </button>
           </div>
 
           {loading ? (
@@ -201,10 +507,10 @@ export default function DashboardPage() {
                       Buyer / Seller
                     </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Status
+                      Live
                     </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Published
+                      Draft
                     </th>
                     <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Actions
@@ -212,8 +518,10 @@ export default function DashboardPage() {
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
-                  {landingPages.map((page) => (
-                    <tr key={page.id} className="hover:bg-gray-50">
+                  {pageGroups.map(({ key, live, draft }) => {
+                    const page = (live ?? draft)!;
+                    return (
+                    <tr key={key} className="hover:bg-gray-50 align-top">
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="flex items-center">
                           <div>
@@ -231,71 +539,268 @@ export default function DashboardPage() {
                         <div className="text-sm text-gray-500">{page.seller_id || '-'}</div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
-                        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusColor(page.status)}`}>
-                          {page.status}
-                        </span>
+                        {live ? (
+                          <>
+                            <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusColor(live.status)}`}>
+                              {live.status}{live.version ? ` · v${live.version}` : ''}
+                            </span>
+                            <div className="mt-1 text-sm text-gray-500">{formatDateTime(live.published_at)}</div>
+                            {live.expire_at && (
+                              <div className="text-xs text-gray-400">
+                                {live.status === 'archived' ? 'Expired' : 'Expires'} {formatDateTime(live.expire_at)}
+                              </div>
+                            )}
+                            {live.buyer_id && live.seller_domain && subdomainServing.has(`${live.buyer_id}.${live.seller_domain}`) && (
+                              subdomainServing.get(`${live.buyer_id}.${live.seller_domain}`) === live.id ? (
+                                <div className="text-xs text-green-700">
+                                  Serves {live.buyer_id}.{live.seller_domain}{live.is_primary ? ' (primary)' : ' (newest)'}
+                                </div>
+                              ) : (
+                                <div className="text-xs text-gray-400">
+                                  At {live.buyer_id}.{live.seller_domain}/{live.mmyy || live.page_url_key}
+                                  {' · '}
+                                  <button
+                                    onClick={() => handleSetPrimary(live)}
+                                    disabled={primaryId === live.id}
+                                    className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                                  >
+                                    {primaryId === live.id ? 'Switching…' : 'Make primary'}
+                                  </button>
+                                </div>
+                              )
+                            )}
+                            <div className="mt-2 flex items-center gap-2">
+                              {/* Preview Button */}
+                              <a
+                                href={getPublicUrl(live)}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-gray-500 hover:text-blue-600 p-2 rounded-md hover:bg-gray-100"
+                                title="Preview"
+                              >
+                                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                                </svg>
+                              </a>
+
+                              {/* Edit Button */}
+                              <button
+                                onClick={() => router.push(`/studio?edit=${live.id}`)}
+                                className="text-gray-500 hover:text-blue-600 p-2 rounded-md hover:bg-gray-100"
+                                title="Edit"
+                              >
+                                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                                </svg>
+                              </button>
+
+                              {/* History Button */}
+                              <button
+                                onClick={() => router.push(`/studio/versions?id=${live.id}`)}
+                                className="text-gray-500 hover:text-blue-600 p-2 rounded-md hover:bg-gray-100"
+                                title="Version History"
+                              >
+                                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                                </svg>
+                              </button>
+
+                              {/* Duplicate Button */}
+                              <button
+                                onClick={() => openCloneDialog(live)}
+                                className="text-gray-500 hover:text-blue-600 p-2 rounded-md hover:bg-gray-100"
+                                title="Duplicate"
+                              >
+                                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                                </svg>
+                              </button>
+
+                              {/* Delete Button */}
+                              <button
+                                onClick={() => setShowDeleteConfirm(live.id)}
+                                className="text-gray-500 hover:text-red-600 p-2 rounded-md hover:bg-gray-100"
+                                title="Delete"
+                              >
+                                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                                </svg>
+                              </button>
+                            </div>
+                          </>
+                        ) : (
+                          <span className="text-sm text-gray-400">Not published</span>
+                        )}
                       </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                        {page.published_at 
-                          ? new Date(page.published_at).toLocaleDateString('en-US', {
-                              month: 'short',
-                              day: 'numeric',
-                              year: 'numeric',
-                              hour: '2-digit',
-                              minute: '2-digit'
-                            })
-                          : '-'
-                        }
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        {draft ? (
+                          <>
+                            <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusColor(draft.status)}`}>
+                              {draft.status === 'in_review' ? 'in review' : draft.status}
+                            </span>
+                            <div className="mt-1 text-sm text-gray-500">
+                              {draft.status === 'scheduled'
+                                ? `Publishes ${formatDateTime(draft.publish_at)}`
+                                : draft.status === 'in_review'
+                                ? `Submitted ${formatDateTime(draft.submitted_at)}${draft.submitted_by ? ` by ${draft.submitted_by}` : ''}`
+                                : `Saved ${formatDateTime(draft.updated_at)}`}
+                            </div>
+                            {draft.status === 'scheduled' && draft.schedule_error && (
+                              <div className="text-xs text-red-600" title={draft.schedule_error}>
+                                Scheduled publish failed
+                              </div>
+                            )}
+                            {live && live.content_sha === draft.content_sha && (
+                              <div className="text-xs text-gray-400">Same content as live</div>
+                            )}
+                            <div className="mt-2 flex items-center gap-2 text-sm">
+                              <button
+                                onClick={() => handlePreviewDraft(draft.id)}
+                                className="px-2 py-1 text-gray-600 hover:text-blue-600 rounded-md hover:bg-gray-100"
+                              >
+                                Preview
+                              </button>
+                              <button
+                                onClick={() => router.push(`/studio?edit=${draft.id}`)}
+                                className="px-2 py-1 text-gray-600 hover:text-blue-600 rounded-md hover:bg-gray-100"
+                              >
+                                Edit
+                              </button>
+                              {!live && (
+                                <button
+                                  onClick={() => openCloneDialog(draft)}
+                                  className="px-2 py-1 text-gray-600 hover:text-blue-600 rounded-md hover:bg-gray-100"
+                                >
+                                  Duplicate
+                                </button>
+                              )}
+                              {draft.status === 'draft' ? (
+                                <button
+                                  onClick={() => handleReviewAction(draft, 'submit')}
+                                  disabled={reviewingId === draft.id}
+                                  className="px-2 py-1 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
+                                >
+                                  Submit
+                                </button>
+                              ) : (
+                                <>
+                                  <button
+                                    onClick={() => handleReviewAction(draft, 'approve')}
+                                    disabled={reviewingId === draft.id}
+                                    className="px-2 py-1 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+                                  >
+                                    {reviewingId === draft.id ? 'Working...' : draft.status === 'scheduled' ? 'Publish now' : 'Approve'}
+                                  </button>
+                                  <button
+                                    onClick={() => handleReviewAction(draft, 'schedule')}
+                                    disabled={reviewingId === draft.id}
+                                    className="px-2 py-1 text-gray-600 hover:text-blue-600 rounded-md hover:bg-gray-100 disabled:opacity-50"
+                                  >
+                                    {draft.status === 'scheduled' ? 'Reschedule' : 'Schedule'}
+                                  </button>
+                                  <button
+                                    onClick={() => handleReviewAction(draft, 'return')}
+                                    disabled={reviewingId === draft.id}
+                                    className="px-2 py-1 text-gray-600 hover:text-red-600 rounded-md hover:bg-gray-100 disabled:opacity-50"
+                                  >
+                                    Return
+                                  </button>
+                                </>
+                              )}
+                            </div>
+                          </>
+                        ) : (
+                          <span className="text-sm text-gray-400">-</span>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                        <div className="flex items-center justify-end gap-2">
-                          {/* Preview Button */}
-                          <a
-                            href={getPublicUrl(page)}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="text-gray-500 hover:text-blue-600 p-2 rounded-md hover:bg-gray-100"
-                            title="Preview"
-                          >
-                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
-                            </svg>
-                          </a>
-                          
-                          {/* Edit Button */}
-                          <button
-                            onClick={() => router.push(`/studio?edit=${page.id}`)}
-                            className="text-gray-500 hover:text-blue-600 p-2 rounded-md hover:bg-gray-100"
-                            title="Edit"
-                          >
-                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-                            </svg>
-                          </button>
-                          
-                          {/* Delete Button */}
+                        {draft && (
                           <button
-                            onClick={() => setShowDeleteConfirm(page.id)}
+                            onClick={() => setShowDeleteConfirm(draft.id)}
                             className="text-gray-500 hover:text-red-600 p-2 rounded-md hover:bg-gray-100"
-                            title="Delete"
+                            title="Discard Draft"
                           >
-                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                            </svg>
+                            Discard draft
                           </button>
-                        </div>
+                        )}
                       </td>
                     </tr>
-                  ))}
+                    );
+                  })}
                 </tbody>
               </table>
             </div>
           )}
         </div>
 
+        {/* Trash */}
+        {showTrash && (
+          <div className="mt-8 bg-white shadow rounded-lg overflow-hidden">
+            <div className="px-4 py-5 sm:px-6 border-b border-gray-200">
+              <h2 className="text-lg font-medium text-gray-900">Trash</h2>
+              <p className="mt-1 text-sm text-gray-500">
+                Deleted pages keep their tracking links until they are purged, {TRASH_CONFIG.RETENTION_DAYS} days after deletion.
+              </p>
+            </div>
+            {trashLoading ? (
+              <div className="p-6 text-center text-gray-500">Loading trash...</div>
+            ) : trashedPages.length === 0 ? (
+              <div className="p-6 text-center text-gray-500">Trash is empty</div>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Page URL Key</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Deleted</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Purged</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {trashedPages.map((page) => (
+                    <tr key={page.id}>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">{page.page_url_key}</div>
+                        <div className="text-sm text-gray-500">{page.buyer_id || '-'} / {page.seller_id || '-'}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusColor(page.status)}`}>
+                          {page.status === 'in_review' ? 'in review' : page.status}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {formatDateTime(page.deleted_at)}
+                        {page.deleted_by && <div className="text-xs text-gray-400">by {page.deleted_by}</div>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDateTime(page.purge_after)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                        <button
+                          onClick={() => handleTrashAction(page, 'restore')}
+                          disabled={trashActionId === page.id}
+                          className="px-2 py-1 text-gray-600 hover:text-blue-600 rounded-md hover:bg-gray-100 disabled:opacity-50"
+                        >
+                          Restore
+                        </button>
+                        <button
+                          onClick={() => handleTrashAction(page, 'purge')}
+                          disabled={trashActionId === page.id}
+                          className="ml-2 px-2 py-1 text-gray-600 hover:text-red-600 rounded-md hover:bg-gray-100 disabled:opacity-50"
+                        >
+                          Delete forever
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+
         {/* Quick Links */}
-        <div className="mt-8 grid grid-cols-1 gap-5 sm:grid-cols-2">
+        <div className="mt-8 grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-3">
           <div 
             onClick={() => router.push('/tokens')}
             className="bg-white overflow-hidden shadow rounded-lg hover:shadow-md transition-shadow cursor-pointer"
@@ -337,9 +842,212 @@ export default function DashboardPage() {
               </div>
             </div>
           </div>
+          
+          <div 
+            onClick={() => router.push('/studio/api-keys')}
+            className="bg-white overflow-hidden shadow rounded-lg hover:shadow-md transition-shadow cursor-pointer"
+          >
+            <div className="px-4 py-5 sm:p-6">
+              <div className="flex items-center">
+                <div className="flex-shrink-0 bg-gray-100 rounded-md p-3">
+                  <svg className="h-6 w-6 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 20l4-16m4 4l4 4-4 4M6 16l-4-4 4-4" />
+                  </svg>
+                </div>
+                <div className="ml-5">
+                  <h3 className="text-lg font-medium text-gray-900">API Keys</h3>
+                  <p className="mt-1 text-sm text-gray-500">
+                    Publish pages from your content pipeline
+                  </p>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <div 
+            onClick={() => router.push('/studio/merge')}
+            className="bg-white overflow-hidden shadow rounded-lg hover:shadow-md transition-shadow cursor-pointer"
+          >
+            <div className="px-4 py-5 sm:p-6">
+              <div className="flex items-center">
+                <div className="flex-shrink-0 bg-teal-100 rounded-md p-3">
+                  <svg className="h-6 w-6 text-teal-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7v8a2 2 0 002 2h6M8 7V5a2 2 0 012-2h4.586a1 1 0 01.707.293l4.414 4.414a1 1 0 01.293.707V15a2 2 0 01-2 2h-2M8 7H6a2 2 0 00-2 2v10a2 2 0 002 2h8a2 2 0 002-2v-2" />
+                  </svg>
+                </div>
+                <div className="ml-5">
+                  <h3 className="text-lg font-medium text-gray-900">Mail Merge</h3>
+                  <p className="mt-1 text-sm text-gray-500">
+                    One template + a CSV of accounts → many pages
+                  </p>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <div 
+            onClick={() => router.push('/studio/sellers')}
+            className="bg-white overflow-hidden shadow rounded-lg hover:shadow-md transition-shadow cursor-pointer"
+          >
+            <div className="px-4 py-5 sm:p-6">
+              <div className="flex items-center">
+                <div className="flex-shrink-0 bg-rose-100 rounded-md p-3">
+                  <svg className="h-6 w-6 text-rose-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4" />
+                  </svg>
+                </div>
+                <div className="ml-5">
+                  <h3 className="text-lg font-medium text-gray-900">Seller Profiles</h3>
+                  <p className="mt-1 text-sm text-gray-500">
+                    Shared brand, links and boilerplate for every page
+                  </p>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <div 
+            onClick={() => router.push('/studio/assets')}
+            className="bg-white overflow-hidden shadow rounded-lg hover:shadow-md transition-shadow cursor-pointer"
+          >
+            <div className="px-4 py-5 sm:p-6">
+              <div className="flex items-center">
+                <div className="flex-shrink-0 bg-sky-100 rounded-md p-3">
+                  <svg className="h-6 w-6 text-sky-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                  </svg>
+                </div>
+                <div className="ml-5">
+                  <h3 className="text-lg font-medium text-gray-900">Asset Library</h3>
+                  <p className="mt-1 text-sm text-gray-500">
+                    Upload logos and share images, reference them by id
+                  </p>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <div 
+            onClick={() => router.push('/studio/domains')}
+            className="bg-white overflow-hidden shadow rounded-lg hover:shadow-md transition-shadow cursor-pointer"
+          >
+            <div className="px-4 py-5 sm:p-6">
+              <div className="flex items-center">
+                <div className="flex-shrink-0 bg-lime-100 rounded-md p-3">
+                  <svg className="h-6 w-6 text-lime-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 01-9 9m9-9a9 9 0 00-9-9m9 9H3m9 9a9 9 0 01-9-9m9 9c1.657 0 3-4.03 3-9s-1.343-9-3-9m0 18c-1.657 0-3-4.03-3-9s1.343-9 3-9m-9 9a9 9 0 019-9" />
+                  </svg>
+                </div>
+                <div className="ml-5">
+                  <h3 className="text-lg font-medium text-gray-900">Seller Domains</h3>
+                  <p className="mt-1 text-sm text-gray-500">
+                    Register and verify the domains pages are served on
+                  </p>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <div 
+            onClick={() => router.push('/studio/audit')}
+            className="bg-white overflow-hidden shadow rounded-lg hover:shadow-md transition-shadow cursor-pointer"
+          >
+            <div className="px-4 py-5 sm:p-6">
+              <div className="flex items-center">
+                <div className="flex-shrink-0 bg-amber-100 rounded-md p-3">
+                  <svg className="h-6 w-6 text-amber-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+                  </svg>
+                </div>
+                <div className="ml-5">
+                  <h3 className="text-lg font-medium text-gray-900">Audit Log</h3>
+                  <p className="mt-1 text-sm text-gray-500">
+                    Who published, deleted and generated links
+                  </p>
+                </div>
+              </div>
+            </div>
+          </div>
         </div>
       </main>
 
+      {/* Duplicate Modal */}
+      {cloneSource && cloneForm && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-[28rem] shadow-lg rounded-md bg-white">
+            <h3 className="text-lg font-medium text-gray-900">Duplicate {cloneSource.page_url_key}</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Copies the content into a new draft. Blank fields keep the source value.
+            </p>
+            <div className="mt-4 grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Buyer ID</label>
+                <input
+                  type="text"
+                  value={cloneForm.buyerId}
+                  onChange={(e) => setCloneForm({ ...cloneForm, buyerId: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Month (MMYY)</label>
+                <input
+                  type="text"
+                  value={cloneForm.mmyy}
+                  onChange={(e) => setCloneForm({ ...cloneForm, mmyy: e.target.value })}
+                  maxLength={4}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div className="col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Seller Domain</label>
+                <input
+                  type="text"
+                  value={cloneForm.sellerDomain}
+                  onChange={(e) => setCloneForm({ ...cloneForm, sellerDomain: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div className="col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">New Buyer Name</label>
+                <input
+                  type="text"
+                  value={cloneForm.buyerName}
+                  onChange={(e) => setCloneForm({ ...cloneForm, buyerName: e.target.value })}
+                  placeholder="Replaces the current buyer name in all text"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 placeholder:text-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              {cloneSource.status === 'published' && (
+                <label className="col-span-2 flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={cloneForm.rollForward}
+                    onChange={(e) => setCloneForm({ ...cloneForm, rollForward: e.target.checked })}
+                  />
+                  Roll forward: redirect /p/{cloneSource.page_url_key} to the new page once it is published
+                </label>
+              )}
+            </div>
+            <div className="flex gap-4 mt-6">
+              <button
+                onClick={closeCloneDialog}
+                className="flex-1 px-4 py-2 bg-gray-100 text-gray-800 text-base font-medium rounded-md shadow-sm hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-300"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleClone}
+                disabled={cloning}
+                className="flex-1 px-4 py-2 bg-blue-600 text-white text-base font-medium rounded-md shadow-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+              >
+                {cloning ? 'Duplicating...' : 'Create Draft'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Delete Confirmation Modal */}
       {showDeleteConfirm && (
         <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
@@ -353,7 +1061,7 @@ export default function DashboardPage() {
               <h3 className="text-lg font-medium text-gray-900 mt-4">Delete Landing Page</h3>
               <div className="mt-2 px-4">
                 <p className="text-sm text-gray-500">
-                  Are you sure you want to delete this landing page? This action cannot be undone.
+                  The page goes offline and moves to the trash. Its tracking links are kept, and you can restore it for {TRASH_CONFIG.RETENTION_DAYS} days.
                 </p>
               </div>
               <div className="flex gap-4 mt-6 px-4">
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/db/supabase';
 import { nanoid } from 'nanoid';
+import { checkRateLimit, rateLimitHeaders } from '@/lib/rateLimit';
 
 /**
  * Email Redirect Endpoint
@@ -15,44 +16,18 @@ import { nanoid } from 'nanoid';
  * 6. Redirects to landing page with tracking params
  * 
  * Security:
- * - Rate limiting to prevent token enumeration
+ * - Rate limited per IP to prevent token enumeration (RATE_LIMITS.tokenLookup; 429 with Retry-After)
  * - Expired tokens are rejected
  * - Invalid tokens redirect to homepage
  */
 
-// Rate limiting for token lookups (prevent brute-force)
-const tokenLookupRateLimit = new Map<string, { count: number; timestamp: number }>();
-const TOKEN_RATE_LIMIT_MAX = 10;  // Max 10 attempts per IP per minute
-const TOKEN_RATE_LIMIT_WINDOW_MS = 60 * 1000;
-
-// Cleanup rate limit entries periodically
-setInterval(() => {
-  const now = Date.now();
-  for (const [key, value] of tokenLookupRateLimit.entries()) {
-    if (now - value.timestamp > TOKEN_RATE_LIMIT_WINDOW_MS) {
-      tokenLookupRateLimit.delete(key);
-    }
-  }
-}, TOKEN_RATE_LIMIT_WINDOW_MS);
-
-function checkTokenRateLimit(request: NextRequest): boolean {
-  const ip = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 
-             request.headers.get('x-real-ip') || 
-             'unknown';
-  const now = Date.now();
-  const entry = tokenLookupRateLimit.get(ip);
-  
-  if (!entry || now - entry.timestamp > TOKEN_RATE_LIMIT_WINDOW_MS) {
-    tokenLookupRateLimit.set(ip, { count: 1, timestamp: now });
-    return true;
-  }
-  
-  if (entry.count >= TOKEN_RATE_LIMIT_MAX) {
-    return false;
-  }
-  
-  entry.count++;
-  return true;
+/**
+ * Rate-limit key for token lookups: the client IP
+ */
+function getClientIp(request: NextRequest): string {
+  return request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() ||
+         request.headers.get('x-real-ip') ||
+         'unknown';
 }
 
 // Type definitions for Supabase query results
@@ -85,8 +60,12 @@ export async function GET(
   const { token } = await params;
   
   // Rate limit check to prevent token enumeration
-  if (!checkTokenRateLimit(request)) {
-    return NextResponse.redirect(new URL('/', request.url));
+  const rateLimit = await checkRateLimit('tokenLookup', getClientIp(request));
+  if (!rateLimit.allowed) {
+    return new NextResponse('Too many requests', {
+      status: 429,
+      headers: rateLimitHeaders(rateLimit),
+    });
   }
   
   // Validate token format (should be 8 chars + underscore + name)
@@ -0,0 +1,32 @@
+import type { MetadataRoute } from 'next';
+import { headers } from 'next/headers';
+import { resolveHost } from '@/lib/domains/host';
+import { findServedDomainCached } from '@/lib/db/sellerDomains';
+import { getHostOrigin } from '@/lib/seo/canonical';
+
+/**
+ * robots.txt per host
+ *
+ * - Application domain: only /p/ pages may be crawled (the studio and APIs are not)
+ * - Buyer subdomain ({buyer}.{seller_domain}): the whole host may be crawled
+ * - Refused hosts (unverified domains, reserved labels): nothing may be crawled
+ *
+ * Crawling is not indexing: pages stay noindex unless their content sets seo.index.
+ * Both point at the host's sitemap.xml (app/sitemap.ts). The middleware skips this
+ * route, so the host is resolved here.
+ */
+export default async function robots(): Promise<MetadataRoute.Robots> {
+  const hostRoute = await resolveHost((await headers()).get('host') || '', findServedDomainCached);
+  const origin = getHostOrigin(hostRoute);
+
+  if (!origin) {
+    return { rules: { userAgent: '*', disallow: '/' } };
+  }
+
+  return {
+    rules: hostRoute.type === 'app'
+      ? { userAgent: '*', allow: '/p/', disallow: '/' }
+      : { userAgent: '*', allow: '/' },
+    sitemap: `${origin}/sitemap.xml`,
+  };
+}
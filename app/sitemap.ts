@@ -0,0 +1,39 @@
+import type { MetadataRoute } from 'next';
+import { headers } from 'next/headers';
+import { resolveHost } from '@/lib/domains/host';
+import { findServedDomainCached } from '@/lib/db/sellerDomains';
+import { listIndexableLandings } from '@/lib/db/sitemap';
+import { getHostOrigin, getIndexableUrls, isOnOrigin } from '@/lib/seo/canonical';
+
+/**
+ * sitemap.xml per host
+ *
+ * Lists the canonical URLs on this host of published pages (and microsite pages)
+ * that opted into indexing with seo.index:
+ * - Application domain: pages whose canonical URL is /p/{page_url_key}
+ * - Buyer subdomain: that buyer's pages on the seller domain with a subdomain canonical URL
+ * - Refused hosts: nothing
+ *
+ * Child pages are only listed with an indexable parent page.
+ */
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
+  const hostRoute = await resolveHost((await headers()).get('host') || '', findServedDomainCached);
+  const origin = getHostOrigin(hostRoute);
+
+  if (!origin) {
+    return [];
+  }
+
+  const pages = hostRoute.type === 'buyer'
+    ? await listIndexableLandings(hostRoute.buyerId, hostRoute.sellerDomain)
+    : await listIndexableLandings();
+
+  return pages.flatMap((page) =>
+    getIndexableUrls(page, page.seo, page.site)
+      .filter((url) => isOnOrigin(url, origin))
+      .map((url) => ({
+        url,
+        ...(page.published_at ? { lastModified: page.published_at } : {}),
+      }))
+  );
+}
@@ -172,6 +172,7 @@ export function AnalyticsProvider({ children }: AnalyticsProviderProps) {
         content_sha: context.content_sha,
         host: context.host,
         route_scheme: context.route_scheme,
+        site_page: context.site_page ?? null, // Cleared on a microsite's overview page
         device_type: context.device_type,
         viewport_w: context.viewport_w,
         viewport_h: context.viewport_h,
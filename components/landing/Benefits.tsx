@@ -26,11 +26,11 @@ export function Benefits({ benefits }: BenefitsProps) {
   }
 
   return (
-    <section id="benefits-section" className="py-16 md:py-20 bg-gray-50">
+    <section id="benefits-section" className="py-16 md:py-20 bg-[var(--color-bg-muted)]">
       <div className="container mx-auto px-6 md:px-12 max-w-7xl">
         {benefits.title && (
           <div className="mb-12 md:mb-16">
-            <h2 className="text-3xl md:text-4xl font-bold text-[#2C3E50] mb-2">
+            <h2 className="text-3xl md:text-4xl font-bold text-[var(--color-heading)] mb-2">
               {benefits.title}
             </h2>
           </div>
@@ -40,13 +40,13 @@ export function Benefits({ benefits }: BenefitsProps) {
           {benefits.items.map((item, index) => (
             <div 
               key={index} 
-              className="bg-white p-8 rounded-lg shadow-sm hover:shadow-md transition-shadow duration-300"
+              className="bg-[var(--color-bg)] p-8 rounded-lg shadow-sm hover:shadow-md transition-shadow duration-300"
             >
-              <h3 className="text-xl font-bold text-[#2C3E50] mb-4">
+              <h3 className="text-xl font-bold text-[var(--color-heading)] mb-4">
                 {item.title}
               </h3>
               {item.body && (
-                <p className="text-gray-700 leading-relaxed text-base">
+                <p className="text-[var(--color-text)] leading-relaxed text-base">
                   {item.body}
                 </p>
               )}
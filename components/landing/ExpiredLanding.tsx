@@ -0,0 +1,81 @@
+/**
+ * CONTEXT FOR COPILOT — PART B (Multi-Tenant)
+ * Expired-page experience for /p/[slug]
+ * Shown instead of the 404 when a page's campaign window (expire_at) has passed.
+ * Points visitors to the seller's meeting link or website from the page's own content.
+ */
+
+import type { NormalizedContent } from '@/lib/normalize/normalized.types';
+
+export interface ExpiredLandingProps {
+  content: NormalizedContent | null;
+}
+
+export function ExpiredLanding({ content }: ExpiredLandingProps) {
+  const sellerName =
+    content?.hero.sellerName ||
+    content?.options?.sellerName ||
+    content?.social?.sellerName ||
+    null;
+  const buyerName = content?.buyersName || null;
+  const meetingLink = content?.options?.meetingLink || content?.hero.cta?.href || null;
+  const sellerWebsite = content?.seller?.links?.primary || null;
+  const primaryColor = content?.brand?.colors?.primary || '#2563eb';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-gray-50 to-gray-100 flex items-center justify-center px-4">
+      <div className="max-w-md w-full text-center">
+        {/* Clock Icon */}
+        <div className="mb-8">
+          <svg
+            className="mx-auto h-24 w-24 text-gray-400"
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+            aria-hidden="true"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
+            />
+          </svg>
+        </div>
+
+        <h1 className="text-3xl font-bold text-gray-900 mb-4">
+          This page has expired
+        </h1>
+        <p className="text-gray-600 mb-8 leading-relaxed">
+          {buyerName && sellerName
+            ? `The page ${sellerName} prepared for ${buyerName} is no longer available. `
+            : 'This personalized page is no longer available. '}
+          {sellerName
+            ? `${sellerName} would still be glad to talk.`
+            : 'The team would still be glad to talk.'}
+        </p>
+
+        {/* Action Buttons */}
+        <div className="flex flex-col sm:flex-row gap-4 justify-center">
+          {meetingLink && (
+            <a
+              href={meetingLink}
+              className="inline-flex items-center justify-center px-6 py-3 text-white font-medium rounded-lg hover:opacity-90 transition-opacity focus:outline-none focus:ring-2 focus:ring-offset-2"
+              style={{ backgroundColor: primaryColor }}
+            >
+              Book a meeting
+            </a>
+          )}
+          {sellerWebsite && sellerWebsite !== meetingLink && (
+            <a
+              href={sellerWebsite}
+              className="inline-flex items-center justify-center px-6 py-3 bg-gray-200 text-gray-800 font-medium rounded-lg hover:bg-gray-300 transition-colors focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2"
+            >
+              {sellerName ? `Visit ${sellerName}` : 'Visit website'}
+            </a>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -29,7 +29,7 @@ export function Footer({ footer, brandLogoUrl }: FooterProps) {
   const hoverProps = useHoverTelemetry('footer_cta', 'footer');
 
   return (
-    <footer className="bg-[#2C3E50] text-white py-6">
+    <footer className="bg-[var(--color-accent)] text-[var(--color-on-accent)] py-6">
       <div className="container mx-auto px-6 max-w-7xl">
         <div className="flex flex-col md:flex-row justify-between items-center space-y-3 md:space-y-0">
           {/* Logo */}
@@ -45,12 +45,12 @@ export function Footer({ footer, brandLogoUrl }: FooterProps) {
 
           {/* Copyright */}
           <div className="text-center md:text-right">
-            <p className="text-gray-300 text-sm">
+            <p className="opacity-80 text-sm">
               © {currentYear} All rights reserved.
             </p>
-            <div className="flex items-center justify-center md:justify-end gap-2 text-xs text-gray-400 mt-1">
+            <div className="flex items-center justify-center md:justify-end gap-2 text-xs opacity-70 mt-1">
               <span>Powered by</span>
-              <span className="font-semibold text-gray-200">Hrytos</span>
+              <span className="font-semibold">Hrytos</span>
             </div>
           </div>
         </div>
@@ -35,18 +35,18 @@ export function Hero({ hero }: HeroProps) {
   const vimeoId = videoUrl ? parseVimeoId(videoUrl) : null;
 
   return (
-    <section className="relative bg-white py-12 md:py-16 lg:py-20 overflow-hidden">
+    <section className="relative bg-[var(--color-bg)] py-12 md:py-16 lg:py-20 overflow-hidden">
       <div className="container mx-auto px-6 md:px-12 max-w-7xl">
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-12 lg:gap-16 items-start">
           {/* Text Content - Left Column */}
           <div className="space-y-6">
             {/* Headline - Left aligned, large and bold */}
-            <h1 className="text-3xl md:text-4xl lg:text-5xl font-bold text-[#2C3E50] leading-tight">
+            <h1 className="text-3xl md:text-4xl lg:text-5xl font-bold text-[var(--color-heading)] leading-tight">
               {headline}
             </h1>
 
             {subhead && (
-              <div className="space-y-4 text-base md:text-lg text-gray-700 leading-relaxed">
+              <div className="space-y-4 text-base md:text-lg text-[var(--color-text)] leading-relaxed">
                 {subhead.split('\n\n').map((paragraph, idx) => (
                   <p key={idx}>
                     {paragraph}
@@ -56,7 +56,7 @@ export function Hero({ hero }: HeroProps) {
             )}
 
             {shortDescription && (
-              <div className="text-base md:text-lg text-gray-700 leading-relaxed">
+              <div className="text-base md:text-lg text-[var(--color-text)] leading-relaxed">
                 <p>{shortDescription}</p>
               </div>
             )}
@@ -75,7 +75,7 @@ export function Hero({ hero }: HeroProps) {
                     linkType: cta.href.startsWith('http') ? 'external' : 'internal'
                   })}
                   {...hoverProps}
-                  className="inline-flex items-center justify-center px-8 py-4 bg-[#2C3E50] hover:bg-[#1a252f] text-white font-bold text-lg rounded-lg shadow-lg hover:shadow-xl transition-all duration-300"
+                  className="inline-flex items-center justify-center px-8 py-4 bg-[var(--color-primary)] hover:brightness-90 text-[var(--color-on-primary)] font-bold text-lg rounded-lg shadow-lg hover:shadow-xl transition-all duration-300"
                 >
                   {cta.text || 'Get Started'}
                 </a>
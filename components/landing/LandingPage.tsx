@@ -10,56 +10,60 @@
  * - Studio flow: Paste → Validate → Normalize → Preview (optional draft save to landing_pages with status draft/validated).
  */
 
-'use client';
-
+import type { CSSProperties } from 'react';
 import type { NormalizedContent } from '@/lib/normalize/normalized.types';
-import {
-  Hero,
-  Benefits,
-  Options,
-  Proof,
-  SocialProofs,
-  SecondaryBenefit,
-  SellerInfo,
-  Footer,
-} from './index';
-import { CyngnAbmTemplate } from './templates';
+import { resolveTheme } from '@/lib/theme/tokens';
+import { getFontFaceCss, resolvePageFonts } from '@/lib/theme/fonts';
+import type { SiteNavLink } from '@/lib/normalize/site';
+import { getTemplateOrDefault } from './templates';
+import { SiteNav } from './SiteNav';
+import { OrganizationJsonLd } from './OrganizationJsonLd';
 
 export interface LandingPageProps {
   content: NormalizedContent;
+  /** Microsite header navigation (lib/normalize/site.ts getSiteNav); omitted for a single page */
+  nav?: SiteNavLink[];
 }
 
 /**
  * Complete Landing Page component
- * Renders all sections from normalized content
+ * Renders normalized content with the template named by content.templateType
+ * 
+ * Templates come from the registry (components/landing/templates/registry.ts);
+ * an unknown id falls back to the default template.
  * 
- * Supports multiple templates:
- * - 'default': Standard template with all sections
- * - 'cyngn-abm': Bespoke ABM template for Cyngn
+ * Theme: brand colors/fonts over the template's defaults become CSS variables on
+ * the wrapper (see resolveTheme). Not a client component, so on /p/[slug] the
+ * variables are computed on the server and are part of the HTML; tokens changed
+ * for contrast are listed in data-theme-adjusted. The page's catalogue fonts are
+ * declared with a hoisted <style> (@font-face pointing at /fonts, deduplicated by href).
  * 
  * Sections auto-skip if their data is empty (no visual gaps)
  * 
+ * Microsite pages get the shared header navigation above the template (nav prop).
+ * 
+ * The seller is described for search engines with Organization JSON-LD.
+ * 
  * Note: Analytics wrapper is handled by the parent page component
  */
-export function LandingPage({ content }: LandingPageProps) {
-  // Check for template type and render appropriate template
-  if (content.templateType === 'cyngn-abm') {
-    return <CyngnAbmTemplate content={content} />;
-  }
+export function LandingPage({ content, nav = [] }: LandingPageProps) {
+  const template = getTemplateOrDefault(content.templateType);
+  const { Renderer } = template;
+  const { variables, adjustments } = resolveTheme(content.brand, template.theme);
+  const { heading, body } = resolvePageFonts(content.brand?.fonts);
 
-  // Default template
   return (
-    <div className="min-h-screen bg-white">
-      {/* SEO Meta - handled in page.tsx head */}
-        
-        <Hero hero={content.hero} />
-        <Benefits benefits={content.benefits} />
-        <Options options={content.options} />
-        <Proof proof={content.proof} />
-        <SocialProofs social={content.social} />
-        <SecondaryBenefit secondary={content.secondary} />
-        <SellerInfo seller={content.seller} />
-        <Footer footer={content.footer} brandLogoUrl={content.brand?.logoUrl} />
-      </div>
+    <div
+      className="lp-theme"
+      style={variables as CSSProperties}
+      data-theme-adjusted={adjustments.length > 0 ? adjustments.map((a) => a.token).join(' ') : undefined}
+    >
+      <style href={`lp-fonts-${heading.slug}-${body.slug}`} precedence="default">
+        {getFontFaceCss([heading, body])}
+      </style>
+      <OrganizationJsonLd content={content} />
+      <SiteNav links={nav} brandLogoUrl={content.brand?.logoUrl} />
+      <Renderer content={content} />
+    </div>
   );
 }
@@ -34,18 +34,18 @@ export function Options({ options }: OptionsProps) {
     : 'Learn More';
 
   return (
-    <section id="options-section" className="py-16 md:py-20 bg-white">
+    <section id="options-section" className="py-16 md:py-20 bg-[var(--color-bg)]">
       <div className="container mx-auto px-6 md:px-12 max-w-7xl">
         {/* Dynamic title from normalized data */}
         {options.title && (
-          <h2 className="text-3xl md:text-4xl font-bold text-[#2C3E50] mb-2">
+          <h2 className="text-3xl md:text-4xl font-bold text-[var(--color-heading)] mb-2">
             {options.title}
           </h2>
         )}
         
         {/* Dynamic intro text from synopsisAutomationOptions */}
         {options.intro && (
-          <p className="text-gray-700 text-base md:text-lg mb-12 max-w-4xl leading-relaxed">
+          <p className="text-[var(--color-text)] text-base md:text-lg mb-12 max-w-4xl leading-relaxed">
             {options.intro}
           </p>
         )}
@@ -54,14 +54,14 @@ export function Options({ options }: OptionsProps) {
           {options.cards.map((card, index) => (
             <div
               key={index}
-              className="bg-[#2C3E50] hover:bg-[#34495E] rounded-lg p-8 text-white shadow-lg hover:shadow-xl transition-all duration-300"
+              className="bg-[var(--color-primary)] hover:brightness-110 rounded-lg p-8 text-[var(--color-on-primary)] shadow-lg hover:shadow-xl transition-all duration-300"
             >
               <h3 className="text-xl md:text-2xl font-bold mb-4 leading-tight">
                 {card.title}
               </h3>
 
               {card.description && (
-                <p className="text-gray-300 leading-relaxed mb-6 text-base">
+                <p className="opacity-80 leading-relaxed mb-6 text-base">
                   {card.description}
                 </p>
               )}
@@ -78,7 +78,7 @@ export function Options({ options }: OptionsProps) {
                     linkType: 'external'
                   })}
                   {...hoverProps}
-                  className="inline-block px-6 py-3 bg-white hover:bg-gray-100 text-[#2C3E50] font-bold rounded-lg transition-all duration-300 shadow-md hover:shadow-lg"
+                  className="inline-block px-6 py-3 bg-[var(--color-on-primary)] hover:opacity-90 text-[var(--color-primary)] font-bold rounded-lg transition-all duration-300 shadow-md hover:shadow-lg"
                 >
                   {buttonText}
                 </a>
@@ -0,0 +1,31 @@
+/**
+ * CONTEXT FOR COPILOT — PART A (Landing Page)
+ * - We render a landing page purely from a provided JSON.
+ * - No deploy or GitHub writes in Part A.
+ * - Use the normalized content contract defined in PART_A_Landing_Page_Implementation_Plan.md (sections: meta, hero, benefits, options, proof, social, secondary, seller, footer).
+ * - Implement strict validation: required fields, URL hygiene (https only), length caps (headline ≤90, subhead ≤220, benefit body ≤400, quote ≤300).
+ * - Produce deterministic content_sha: SHA256 over stable-stringified normalized JSON.
+ * - Theme via tokens: colors (primary, accent, bg, text), fonts (heading, body), enforce 4.5:1 contrast (auto-adjust text + warning flag).
+ * - Components accept normalized props only; skip empty sections without leaving gaps.
+ * - Studio flow: Paste → Validate → Normalize → Preview (optional draft save to landing_pages with status draft/validated).
+ */
+
+import type { NormalizedContent } from '@/lib/normalize/normalized.types';
+import { buildOrganizationJsonLd, serializeJsonLd } from '@/lib/seo/jsonLd';
+
+export interface OrganizationJsonLdProps {
+  content: NormalizedContent;
+}
+
+/**
+ * Seller organization structured data (schema.org JSON-LD)
+ * Skips rendering when the content has no seller name
+ */
+export function OrganizationJsonLd({ content }: OrganizationJsonLdProps) {
+  const data = buildOrganizationJsonLd(content);
+  if (!data) {
+    return null;
+  }
+
+  return <script type="application/ld+json" dangerouslySetInnerHTML={{ __html: serializeJsonLd(data) }} />;
+}
@@ -33,11 +33,11 @@ export function Proof({ proof }: ProofProps) {
   }
 
   return (
-    <section className="py-16 md:py-20 bg-gray-50">
+    <section className="py-16 md:py-20 bg-[var(--color-bg-muted)]">
       <div className="container mx-auto px-6 md:px-12 max-w-7xl">
         {title && (
           <div className="mb-12 md:mb-16">
-            <h2 className="text-3xl md:text-4xl font-bold text-[#2C3E50] mb-2 leading-tight">
+            <h2 className="text-3xl md:text-4xl font-bold text-[var(--color-heading)] mb-2 leading-tight">
               {title}
             </h2>
           </div>
@@ -49,12 +49,12 @@ export function Proof({ proof }: ProofProps) {
           {(summaryTitle || summaryBody) && (
             <div className="space-y-4">
               {summaryTitle && (
-                <h3 className="text-2xl md:text-3xl font-bold text-[#2C3E50] leading-tight">
+                <h3 className="text-2xl md:text-3xl font-bold text-[var(--color-heading)] leading-tight">
                   {summaryTitle}
                 </h3>
               )}
               {summaryBody && (
-                <p className="text-base md:text-lg text-gray-700 leading-relaxed">
+                <p className="text-base md:text-lg text-[var(--color-text)] leading-relaxed">
                   {summaryBody}
                 </p>
               )}
@@ -63,21 +63,21 @@ export function Proof({ proof }: ProofProps) {
 
           {/* Right: Quote/Testimonial */}
           {quote && quote.text && (
-            <div className="bg-white p-8 rounded-lg shadow-md">
+            <div className="bg-[var(--color-bg)] p-8 rounded-lg shadow-md">
               <blockquote className="space-y-6">
-                <p className="text-base md:text-lg text-gray-800 leading-relaxed font-normal italic">
+                <p className="text-base md:text-lg text-[var(--color-text)] leading-relaxed font-normal italic">
                   "{quote.text}"
                 </p>
 
                 {quote.attribution && (
                   <footer className="border-t border-gray-200 pt-4">
                     {quote.attribution.name && (
-                      <cite className="block text-[#2C3E50] font-bold text-base not-italic">
+                      <cite className="block text-[var(--color-heading)] font-bold text-base not-italic">
                         {quote.attribution.name}
                       </cite>
                     )}
                     {(quote.attribution.role || quote.attribution.company) && (
-                      <p className="text-gray-600 text-sm mt-1">
+                      <p className="text-[var(--color-text)] opacity-80 text-sm mt-1">
                         {[quote.attribution.role, quote.attribution.company]
                           .filter(Boolean)
                           .join(' • ')}
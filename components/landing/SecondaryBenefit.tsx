@@ -34,17 +34,17 @@ export function SecondaryBenefit({ secondary }: SecondaryBenefitProps) {
     : 'Learn More';
 
   return (
-    <section className="py-16 md:py-20 bg-gray-50">
+    <section className="py-16 md:py-20 bg-[var(--color-bg-muted)]">
       <div className="container mx-auto px-6 md:px-12 max-w-7xl">
         <div>
           {secondary.title && (
-            <h2 className="text-3xl md:text-4xl font-bold text-[#2C3E50] mb-4 leading-tight">
+            <h2 className="text-3xl md:text-4xl font-bold text-[var(--color-heading)] mb-4 leading-tight">
               {secondary.title}
             </h2>
           )}
 
           {secondary.body && (
-            <p className="text-base md:text-lg text-gray-700 leading-relaxed mb-6">
+            <p className="text-base md:text-lg text-[var(--color-text)] leading-relaxed mb-6">
               {secondary.body}
             </p>
           )}
@@ -61,7 +61,7 @@ export function SecondaryBenefit({ secondary }: SecondaryBenefitProps) {
                 linkType: 'external'
               })}
               {...hoverProps}
-              className="inline-flex items-center px-6 py-3 bg-[#2C3E50] hover:bg-[#1a252f] text-white font-bold rounded-lg shadow-md hover:shadow-lg transition-all duration-300"
+              className="inline-flex items-center px-6 py-3 bg-[var(--color-primary)] hover:brightness-90 text-[var(--color-on-primary)] font-bold rounded-lg shadow-md hover:shadow-lg transition-all duration-300"
             >
               {buttonText}
             </a>
@@ -30,18 +30,18 @@ export function SellerInfo({ seller }: SellerInfoProps) {
   const hoverProps = useHoverTelemetry('seller_cta', 'seller_section');
 
   return (
-    <section className="py-16 md:py-20 bg-white">
+    <section className="py-16 md:py-20 bg-[var(--color-bg)]">
       <div className="container mx-auto px-6 md:px-12 max-w-7xl">
         <div className="space-y-6">
           <div>
-            <h2 className="text-3xl md:text-4xl font-bold text-[#2C3E50] mb-4 leading-tight">
+            <h2 className="text-3xl md:text-4xl font-bold text-[var(--color-heading)] mb-4 leading-tight">
               About Us
             </h2>
           </div>
 
           {seller.body && (
             <div>
-              <p className="text-base md:text-lg text-gray-700 leading-relaxed max-w-4xl">
+              <p className="text-base md:text-lg text-[var(--color-text)] leading-relaxed max-w-4xl">
                 {seller.body}
               </p>
             </div>
@@ -60,7 +60,7 @@ export function SellerInfo({ seller }: SellerInfoProps) {
                   linkType: 'external'
                 })}
                 {...hoverProps}
-                className="inline-flex items-center gap-2 px-6 py-3 bg-[#2C3E50] hover:bg-[#1a252f] text-white font-bold rounded-lg shadow-md hover:shadow-lg transition-all duration-300"
+                className="inline-flex items-center gap-2 px-6 py-3 bg-[var(--color-primary)] hover:brightness-90 text-[var(--color-on-primary)] font-bold rounded-lg shadow-md hover:shadow-lg transition-all duration-300"
               >
                 Visit Our Website
                 <svg
@@ -0,0 +1,56 @@
+/**
+ * CONTEXT FOR COPILOT — PART A (Landing Page)
+ * - We render a landing page purely from a provided JSON.
+ * - No deploy or GitHub writes in Part A.
+ * - Use the normalized content contract defined in PART_A_Landing_Page_Implementation_Plan.md (sections: meta, hero, benefits, options, proof, social, secondary, seller, footer).
+ * - Implement strict validation: required fields, URL hygiene (https only), length caps (headline ≤90, subhead ≤220, benefit body ≤400, quote ≤300).
+ * - Produce deterministic content_sha: SHA256 over stable-stringified normalized JSON.
+ * - Theme via tokens: colors (primary, accent, bg, text), fonts (heading, body), enforce 4.5:1 contrast (auto-adjust text + warning flag).
+ * - Components accept normalized props only; skip empty sections without leaving gaps.
+ * - Studio flow: Paste → Validate → Normalize → Preview (optional draft save to landing_pages with status draft/validated).
+ */
+
+import type { SiteNavLink } from '@/lib/normalize/site';
+
+export interface SiteNavProps {
+  links: SiteNavLink[];
+  brandLogoUrl?: string | null;
+}
+
+/**
+ * Microsite header navigation - Overview plus the site's child pages
+ * Skips rendering for a page without child pages
+ */
+export function SiteNav({ links, brandLogoUrl }: SiteNavProps) {
+  if (links.length === 0) {
+    return null;
+  }
+
+  return (
+    <header className="sticky top-0 z-40 bg-[var(--color-bg)] border-b border-[var(--color-border)]">
+      <nav className="container mx-auto px-6 md:px-12 max-w-7xl flex items-center gap-6 h-14 overflow-x-auto">
+        {brandLogoUrl && (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={brandLogoUrl} alt="Company Logo" className="h-7 w-auto shrink-0" />
+        )}
+        <ul className="flex items-center gap-5 text-sm font-medium whitespace-nowrap">
+          {links.map((link) => (
+            <li key={link.href}>
+              <a
+                href={link.href}
+                aria-current={link.current ? 'page' : undefined}
+                className={
+                  link.current
+                    ? 'text-[var(--color-primary-text)] border-b-2 border-[var(--color-primary)] pb-1'
+                    : 'text-[var(--color-text)] opacity-80 hover:opacity-100'
+                }
+              >
+                {link.label}
+              </a>
+            </li>
+          ))}
+        </ul>
+      </nav>
+    </header>
+  );
+}
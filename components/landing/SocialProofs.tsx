@@ -32,9 +32,9 @@ export function SocialProofs({ social }: SocialProofsProps) {
     : 'Trusted by Industry Leaders';
 
   return (
-    <section id="social-proofs-section" className="py-16 md:py-20 bg-white">
+    <section id="social-proofs-section" className="py-16 md:py-20 bg-[var(--color-bg)]">
       <div className="container mx-auto px-6 md:px-12 max-w-7xl">
-        <h2 className="text-3xl md:text-4xl font-bold text-[#2C3E50] mb-12 leading-tight">
+        <h2 className="text-3xl md:text-4xl font-bold text-[var(--color-heading)] mb-12 leading-tight">
           {headline}
         </h2>
 
@@ -51,12 +51,12 @@ export function SocialProofs({ social }: SocialProofsProps) {
                 href: item.link,
                 linkType: 'external'
               })}
-              className="group bg-gray-50 hover:bg-gray-100 rounded-lg p-6 border border-gray-200 hover:border-gray-300 hover:shadow-md transition-all duration-300 block"
+              className="group bg-[var(--color-bg-muted)] hover:brightness-95 rounded-lg p-6 border border-gray-200 hover:border-gray-300 hover:shadow-md transition-all duration-300 block"
             >
               {/* Type badge */}
               {item.type && (
                 <div className="mb-3">
-                  <span className="inline-block px-3 py-1 bg-[#2C3E50] text-white text-xs font-bold uppercase tracking-wide rounded">
+                  <span className="inline-block px-3 py-1 bg-[var(--color-primary)] text-[var(--color-on-primary)] text-xs font-bold uppercase tracking-wide rounded">
                     {item.type}
                   </span>
                 </div>
@@ -64,13 +64,13 @@ export function SocialProofs({ social }: SocialProofsProps) {
 
               {/* Description */}
               {item.description && (
-                <h3 className="text-base font-bold text-[#2C3E50] leading-snug mb-4">
+                <h3 className="text-base font-bold text-[var(--color-heading)] leading-snug mb-4">
                   {item.description}
                 </h3>
               )}
 
               {/* Link indicator */}
-              <div className="flex items-center text-gray-600 font-semibold text-sm group-hover:text-[#2C3E50]">
+              <div className="flex items-center text-[var(--color-text)] opacity-80 font-semibold text-sm group-hover:text-[var(--color-heading)]">
                 <span>Learn more</span>
                 <svg
                   className="ml-2 w-4 h-4 group-hover:translate-x-1 transition-transform duration-300"
@@ -103,7 +103,7 @@ export function SocialProofs({ social }: SocialProofsProps) {
                 href: social.readMoreLink || '',
                 linkType: 'external'
               })}
-              className="inline-flex items-center px-6 py-3 bg-[#2C3E50] hover:bg-[#1a252f] text-white font-bold rounded-lg shadow-md hover:shadow-lg transition-all duration-300"
+              className="inline-flex items-center px-6 py-3 bg-[var(--color-primary)] hover:brightness-90 text-[var(--color-on-primary)] font-bold rounded-lg shadow-md hover:shadow-lg transition-all duration-300"
             >
               Read More
               <svg
@@ -0,0 +1,71 @@
+/**
+ * CONTEXT FOR COPILOT — PART A (Landing Page)
+ * - We render a landing page purely from a provided JSON.
+ * - No deploy or GitHub writes in Part A.
+ * - Use the normalized content contract defined in PART_A_Landing_Page_Implementation_Plan.md (sections: meta, hero, benefits, options, proof, social, secondary, seller, footer).
+ * - Implement strict validation: required fields, URL hygiene (https only), length caps (headline ≤90, subhead ≤220, benefit body ≤400, quote ≤300).
+ * - Produce deterministic content_sha: SHA256 over stable-stringified normalized JSON.
+ * - Theme via tokens: colors (primary, accent, bg, text), fonts (heading, body), enforce 4.5:1 contrast (auto-adjust text + warning flag).
+ * - Components accept normalized props only; skip empty sections without leaving gaps.
+ * - Studio flow: Paste → Validate → Normalize → Preview (optional draft save to landing_pages with status draft/validated).
+ */
+
+import type { TrustedBy as TrustedByType } from '@/lib/normalize/normalized.types';
+import { trackCtaClick } from '@/lib/analytics/hooks';
+
+export interface TrustedByProps {
+  trustedBy?: TrustedByType;
+}
+
+const LOGO_CLASS = 'h-8 md:h-10 w-auto grayscale opacity-70 hover:opacity-100 transition-opacity duration-300';
+
+/**
+ * Trusted By section - Strip of customer logos, each optionally linked
+ * Skips rendering if there are no logos
+ */
+export function TrustedBy({ trustedBy }: TrustedByProps) {
+  const logos = (trustedBy?.logos || []).filter((logo) => logo.url);
+  if (logos.length === 0) {
+    return null;
+  }
+
+  return (
+    <section id="trusted-by-section" className="py-6 md:py-8 border-t border-b border-slate-100 bg-[var(--color-bg)]">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="text-center">
+          <p className="text-[11px] md:text-xs font-semibold text-[var(--color-text)] opacity-80 tracking-[0.25em] uppercase mb-4">
+            {trustedBy?.title || 'Trusted by'}
+          </p>
+          <ul className="flex flex-wrap items-center justify-center gap-x-10 md:gap-x-14 gap-y-4">
+            {logos.map((logo, index) => {
+              // eslint-disable-next-line @next/next/no-img-element
+              const image = <img src={logo.url} alt={logo.alt} loading="lazy" className={LOGO_CLASS} />;
+
+              return (
+                <li key={index}>
+                  {logo.href ? (
+                    <a
+                      href={logo.href}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      onClick={() => trackCtaClick({
+                        id: 'visit_website',
+                        location: 'trusted_by',
+                        href: logo.href!,
+                        linkType: 'external'
+                      })}
+                    >
+                      {image}
+                    </a>
+                  ) : (
+                    image
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      </div>
+    </section>
+  );
+}
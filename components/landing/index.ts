@@ -11,6 +11,7 @@
  */
 
 export { Hero } from './Hero';
+export { TrustedBy } from './TrustedBy';
 export { Benefits } from './Benefits';
 export { Options } from './Options';
 export { Proof } from './Proof';
@@ -18,4 +19,6 @@ export { SocialProofs } from './SocialProofs';
 export { SecondaryBenefit } from './SecondaryBenefit';
 export { SellerInfo } from './SellerInfo';
 export { Footer } from './Footer';
+export { SiteNav } from './SiteNav';
+export { OrganizationJsonLd } from './OrganizationJsonLd';
 
@@ -0,0 +1,39 @@
+'use client';
+
+/**
+ * Default Template
+ *
+ * Standard template with every section; sections auto-skip if their data is empty.
+ *
+ * Template Type: 'default'
+ */
+
+import type { TemplateRendererProps } from './types';
+import {
+  Hero,
+  TrustedBy,
+  Benefits,
+  Options,
+  Proof,
+  SocialProofs,
+  SecondaryBenefit,
+  SellerInfo,
+  Footer,
+} from '../index';
+
+export function DefaultTemplate({ content }: TemplateRendererProps) {
+  return (
+    <div className="min-h-screen bg-white">
+      {/* SEO Meta - handled in page.tsx head */}
+      <Hero hero={content.hero} />
+      <TrustedBy trustedBy={content.trustedBy} />
+      <Benefits benefits={content.benefits} />
+      <Options options={content.options} />
+      <Proof proof={content.proof} />
+      <SocialProofs social={content.social} />
+      <SecondaryBenefit secondary={content.secondary} />
+      <SellerInfo seller={content.seller} />
+      <Footer footer={content.footer} brandLogoUrl={content.brand?.logoUrl} />
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+/**
+ * 'cyngn-abm' template definition
+ */
+
+import { z } from 'zod';
+import { defineTemplate } from './types';
+import { CyngnAbmTemplate } from './CyngnAbmTemplate';
+
+const cyngnAbmFieldsSchema = z
+  .object({
+    // Section 5 heading / copy above the meeting scheduler
+    calendarHeading: z.string().trim().min(1).max(90, 'calendarHeading must not exceed 90 characters').optional(),
+    calendarIntro: z.string().trim().min(1).max(300, 'calendarIntro must not exceed 300 characters').optional(),
+    // Benefit tiles shown when the page has no benefit items of its own
+    benefitTiles: z
+      .array(
+        z.object({
+          title: z.string().trim().min(1, 'title is required').max(40, 'title must not exceed 40 characters'),
+          description: z.string().trim().min(1, 'description is required').max(160, 'description must not exceed 160 characters'),
+          icon: z.enum(['bolt', 'shield', 'clock', 'badge']),
+        })
+      )
+      .min(1)
+      .max(4, 'benefitTiles supports at most 4 tiles')
+      .optional(),
+  })
+  .strict();
+
+export type CyngnAbmFields = z.infer<typeof cyngnAbmFieldsSchema>;
+
+export const cyngnAbmTemplate = defineTemplate({
+  id: 'cyngn-abm',
+  name: 'Cyngn ABM',
+  description: 'Bespoke account-based layout with hero video, trusted-by logos and an embedded HubSpot scheduler',
+  sections: ['hero', 'trustedBy', 'benefits', 'options', 'proof', 'seller'],
+  fieldsSchema: cyngnAbmFieldsSchema,
+  theme: {
+    colors: { primary: '#0F766E', accent: '#1E293B', bg: '#FFFFFF', text: '#475569', heading: '#1E293B' },
+  },
+  Renderer: CyngnAbmTemplate,
+});
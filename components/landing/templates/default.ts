@@ -0,0 +1,19 @@
+/**
+ * 'default' template definition
+ */
+
+import { z } from 'zod';
+import { defineTemplate } from './types';
+import { DefaultTemplate } from './DefaultTemplate';
+
+export const defaultTemplate = defineTemplate({
+  id: 'default',
+  name: 'Standard',
+  description: 'Every section in a simple single-column layout',
+  sections: ['hero', 'trustedBy', 'benefits', 'options', 'proof', 'social', 'secondary', 'seller', 'footer'],
+  fieldsSchema: z.object({}).strict(), // No extra fields
+  theme: {
+    colors: { primary: '#2C3E50', accent: '#2C3E50', bg: '#FFFFFF', text: '#374151', heading: '#2C3E50' },
+  },
+  Renderer: DefaultTemplate,
+});
@@ -4,4 +4,8 @@
  * All landing page templates are exported from here
  */
 
+export { DefaultTemplate } from './DefaultTemplate';
 export { CyngnAbmTemplate } from './CyngnAbmTemplate';
+export { listTemplates, getTemplate, getTemplateOrDefault, isTemplateId, DEFAULT_TEMPLATE_ID } from './registry';
+export { TEMPLATE_SECTIONS, defineTemplate } from './types';
+export type { TemplateDefinition, TemplateSection, TemplateRendererProps } from './types';
@@ -0,0 +1,43 @@
+/**
+ * Template registry
+ *
+ * All landing page templates, keyed by id. To add a template: write its renderer,
+ * declare it with defineTemplate (see default.ts / cyngnAbm.ts) and list it here.
+ * Validation rejects templateType values that are not registered.
+ */
+
+import type { TemplateDefinition } from './types';
+import { defaultTemplate } from './default';
+import { cyngnAbmTemplate } from './cyngnAbm';
+
+export const DEFAULT_TEMPLATE_ID = 'default';
+
+const TEMPLATES: readonly TemplateDefinition[] = [defaultTemplate, cyngnAbmTemplate];
+
+const TEMPLATES_BY_ID = new Map(TEMPLATES.map((template) => [template.id, template]));
+
+/**
+ * All registered templates, in picker order
+ */
+export function listTemplates(): readonly TemplateDefinition[] {
+  return TEMPLATES;
+}
+
+/**
+ * Look up a template by id (undefined if not registered)
+ */
+export function getTemplate(id: string | null | undefined): TemplateDefinition | undefined {
+  return TEMPLATES_BY_ID.get(id || DEFAULT_TEMPLATE_ID);
+}
+
+/**
+ * Template to render a page with: its own, or the default one for an id that is
+ * no longer registered (an old page never breaks)
+ */
+export function getTemplateOrDefault(id: string | null | undefined): TemplateDefinition {
+  return getTemplate(id) ?? defaultTemplate;
+}
+
+export function isTemplateId(id: unknown): id is string {
+  return typeof id === 'string' && TEMPLATES_BY_ID.has(id);
+}
@@ -0,0 +1,59 @@
+/**
+ * Template definition contract
+ *
+ * Every landing page template declares:
+ * - id: stored as templateType in the raw and normalized content
+ * - name / description: shown in the studio template picker
+ * - sections: the normalized sections its renderer displays
+ * - fieldsSchema: zod schema for its own extra fields (raw/normalized templateFields)
+ * - theme: its default colors/fonts; brand values override them (lib/theme/tokens.ts)
+ * - Renderer: the React component that renders a NormalizedContent
+ *
+ * Definitions live in plain modules (not 'use client') so validation can read
+ * the schema on the server; only the Renderer is a client component.
+ */
+
+import type { ComponentType } from 'react';
+import type { z } from 'zod';
+import type { NormalizedContent } from '@/lib/normalize/normalized.types';
+import type { ThemeDefaults } from '@/lib/theme/tokens';
+
+/**
+ * Normalized sections a template can render
+ */
+export const TEMPLATE_SECTIONS = [
+  'hero',
+  'trustedBy',
+  'benefits',
+  'options',
+  'proof',
+  'social',
+  'secondary',
+  'seller',
+  'footer',
+] as const;
+
+export type TemplateSection = (typeof TEMPLATE_SECTIONS)[number];
+
+export interface TemplateRendererProps {
+  content: NormalizedContent;
+}
+
+export interface TemplateDefinition<TFields extends z.ZodType = z.ZodType> {
+  id: string;
+  name: string;
+  description: string;
+  sections: readonly TemplateSection[];
+  fieldsSchema: TFields;
+  theme: ThemeDefaults;
+  Renderer: ComponentType<TemplateRendererProps>;
+}
+
+/**
+ * Declare a template (keeps the fieldsSchema type for the template's own module)
+ */
+export function defineTemplate<TFields extends z.ZodType>(
+  definition: TemplateDefinition<TFields>
+): TemplateDefinition<TFields> {
+  return definition;
+}
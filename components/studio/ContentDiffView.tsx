@@ -0,0 +1,142 @@
+'use client';
+
+/**
+ * ContentDiffView Component
+ * Side-by-side, field-level view of a ContentDiff (from /api/landing-pages/.../diff)
+ * Groups changes by section; text edits highlight the removed and added words.
+ */
+
+import type { ContentDiff, FieldChange } from '@/lib/normalize/diff';
+
+export interface ContentDiffViewProps {
+  diff: ContentDiff;
+  fromLabel: string;
+  toLabel: string;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function BeforeCell({ change }: { change: FieldChange }) {
+  if (change.kind === 'added') {
+    return <span className="text-gray-400 italic">—</span>;
+  }
+
+  if (change.textDiff) {
+    return (
+      <>
+        {change.textDiff
+          .filter((segment) => segment.type !== 'added')
+          .map((segment, index) => (
+            <span
+              key={index}
+              className={segment.type === 'removed' ? 'bg-red-100 text-red-800 line-through' : undefined}
+            >
+              {segment.text}
+            </span>
+          ))}
+      </>
+    );
+  }
+
+  return <span className="bg-red-50 text-red-800">{formatValue(change.before)}</span>;
+}
+
+function AfterCell({ change }: { change: FieldChange }) {
+  if (change.kind === 'removed') {
+    return <span className="text-gray-400 italic">—</span>;
+  }
+
+  if (change.textDiff) {
+    return (
+      <>
+        {change.textDiff
+          .filter((segment) => segment.type !== 'removed')
+          .map((segment, index) => (
+            <span
+              key={index}
+              className={segment.type === 'added' ? 'bg-green-100 text-green-800' : undefined}
+            >
+              {segment.text}
+            </span>
+          ))}
+      </>
+    );
+  }
+
+  return <span className="bg-green-50 text-green-800">{formatValue(change.after)}</span>;
+}
+
+const KIND_BADGE: Record<FieldChange['kind'], string> = {
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-red-100 text-red-800',
+  changed: 'bg-yellow-100 text-yellow-800',
+};
+
+export function ContentDiffView({ diff, fromLabel, toLabel }: ContentDiffViewProps) {
+  if (diff.identical) {
+    return (
+      <div className="p-4 bg-gray-50 border border-gray-200 rounded-md text-sm text-gray-600">
+        No content differences between {fromLabel} and {toLabel}.
+      </div>
+    );
+  }
+
+  // Changes arrive ordered by section; group while keeping that order
+  const sections: Array<{ section: string; changes: FieldChange[] }> = [];
+  for (const change of diff.changes) {
+    const last = sections[sections.length - 1];
+    if (last && last.section === change.section) {
+      last.changes.push(change);
+    } else {
+      sections.push({ section: change.section, changes: [change] });
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-3 text-sm">
+        <span className="px-2 py-1 rounded bg-green-100 text-green-800">{diff.summary.added} added</span>
+        <span className="px-2 py-1 rounded bg-red-100 text-red-800">{diff.summary.removed} removed</span>
+        <span className="px-2 py-1 rounded bg-yellow-100 text-yellow-800">{diff.summary.changed} changed</span>
+      </div>
+
+      {sections.map(({ section, changes }) => (
+        <div key={section} className="border border-gray-200 rounded-md overflow-hidden">
+          <div className="px-4 py-2 bg-gray-50 border-b border-gray-200 text-sm font-semibold text-gray-700">
+            {section}
+          </div>
+          <table className="min-w-full table-fixed text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500 uppercase tracking-wider">
+                <th className="w-1/5 px-4 py-2 text-left font-medium">Field</th>
+                <th className="w-2/5 px-4 py-2 text-left font-medium">{fromLabel}</th>
+                <th className="w-2/5 px-4 py-2 text-left font-medium">{toLabel}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {changes.map((change) => (
+                <tr key={`${change.kind}:${change.path}`} className="align-top">
+                  <td className="px-4 py-2 font-mono text-xs text-gray-600 break-all">
+                    {change.path.slice(section.length).replace(/^\./, '') || section}
+                    <span className={`ml-2 px-1.5 rounded text-[10px] uppercase ${KIND_BADGE[change.kind]}`}>
+                      {change.kind}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 text-gray-800 whitespace-pre-wrap break-words">
+                    <BeforeCell change={change} />
+                  </td>
+                  <td className="px-4 py-2 text-gray-800 whitespace-pre-wrap break-words">
+                    <AfterCell change={change} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+'use client';
+
+/**
+ * TemplatePicker Component
+ * Lists the registered templates with a live, scaled-down render of the current
+ * content in each one. Picking a template sets templateType in the editor JSON.
+ */
+
+import { LandingPage } from '@/components/landing/LandingPage';
+import { listTemplates, DEFAULT_TEMPLATE_ID } from '@/components/landing/templates';
+import type { NormalizedContent } from '@/lib/normalize/normalized.types';
+
+export interface TemplatePickerProps {
+  selectedId: string | null;
+  /** Content rendered in the thumbnails (the last validated content, or a sample) */
+  content: NormalizedContent | null;
+  onSelect: (templateId: string) => void;
+  disabled?: boolean;
+}
+
+const THUMBNAIL_SCALE = 0.2;
+const THUMBNAIL_VIEWPORT_WIDTH = 1280;
+
+export function TemplatePicker({ selectedId, content, onSelect, disabled = false }: TemplatePickerProps) {
+  const activeId = selectedId || DEFAULT_TEMPLATE_ID;
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      {listTemplates().map((template) => {
+        const selected = template.id === activeId;
+
+        return (
+          <button
+            key={template.id}
+            type="button"
+            onClick={() => onSelect(template.id)}
+            disabled={disabled}
+            className={`text-left rounded-lg border-2 overflow-hidden transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+              selected ? 'border-blue-600 ring-2 ring-blue-200' : 'border-gray-200 hover:border-gray-400'
+            }`}
+          >
+            <div className="relative h-36 overflow-hidden bg-gray-100" aria-hidden="true">
+              {content ? (
+                <div
+                  inert
+                  className="absolute top-0 left-0 pointer-events-none"
+                  style={{
+                    width: THUMBNAIL_VIEWPORT_WIDTH,
+                    transform: `scale(${THUMBNAIL_SCALE})`,
+                    transformOrigin: 'top left',
+                  }}
+                >
+                  <LandingPage content={{ ...content, templateType: template.id }} />
+                </div>
+              ) : (
+                <div className="flex h-full items-center justify-center text-xs text-gray-400">
+                  Loading preview…
+                </div>
+              )}
+            </div>
+            <div className="p-3 bg-white">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-semibold text-gray-900">{template.name}</span>
+                {selected && <span className="text-xs font-medium text-blue-600">Selected</span>}
+              </div>
+              <p className="mt-1 text-xs text-gray-500">{template.description}</p>
+              <p className="mt-1 text-xs text-gray-400 font-mono">{template.id}</p>
+            </div>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
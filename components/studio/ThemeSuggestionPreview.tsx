@@ -0,0 +1,94 @@
+'use client';
+
+/**
+ * Theme Suggestion Preview Component
+ *
+ * Shows a palette proposed by /api/theme/suggest: the logo's dominant colors,
+ * a miniature page drawn with the suggested colors (heading, body text,
+ * primary button, accent panel) and the contrast of each pair.
+ * Used by "Suggest theme" on /studio/sellers.
+ */
+
+import type { ThemeSuggestion } from '@/lib/theme/palette';
+
+interface ThemeSuggestionPreviewProps {
+  suggestion: ThemeSuggestion;
+  sellerName?: string;
+  onApply: () => void;
+  onDismiss: () => void;
+}
+
+export function ThemeSuggestionPreview({ suggestion, sellerName, onApply, onDismiss }: ThemeSuggestionPreviewProps) {
+  const { colors, swatches, contrast } = suggestion;
+  const ratios = [
+    { label: 'Text on background', value: contrast.text },
+    { label: 'Button text on primary', value: contrast.onPrimary },
+    { label: 'Text on accent', value: contrast.onAccent },
+    { label: 'Primary as text', value: contrast.primaryText },
+  ];
+
+  return (
+    <div className="rounded-lg border border-blue-200 bg-blue-50 p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-gray-900">Suggested theme</h4>
+        <div className="flex items-center gap-1" title="Dominant logo colors">
+          {swatches.map((swatch) => (
+            <span
+              key={swatch.hex}
+              className="inline-block w-5 h-5 rounded border border-gray-300"
+              style={{ backgroundColor: swatch.hex }}
+              title={`${swatch.hex} (${Math.round(swatch.share * 100)}%)`}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="rounded-md overflow-hidden border border-gray-200" style={{ backgroundColor: colors.bg }}>
+        <div className="p-4">
+          <p className="text-lg font-semibold" style={{ color: colors.text }}>
+            {sellerName ? `${sellerName} for your team` : 'Your headline here'}
+          </p>
+          <p className="mt-1 text-sm" style={{ color: colors.text }}>
+            Body copy uses the text color on the page background.{' '}
+            <span className="font-semibold" style={{ color: colors.primary }}>Links use primary.</span>
+          </p>
+          <span
+            className="mt-3 inline-block rounded-md px-3 py-1.5 text-sm font-semibold"
+            style={{ backgroundColor: colors.primary, color: '#FFFFFF' }}
+          >
+            Book a meeting
+          </span>
+        </div>
+        <div className="px-4 py-3 text-sm" style={{ backgroundColor: colors.accent, color: '#FFFFFF' }}>
+          Accent panels and the footer
+        </div>
+      </div>
+
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-gray-700">
+        {ratios.map((ratio) => (
+          <div key={ratio.label} className="flex justify-between">
+            <dt>{ratio.label}</dt>
+            <dd className="font-mono">{ratio.value.toFixed(2)}:1</dd>
+          </div>
+        ))}
+      </dl>
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="px-3 py-1.5 text-sm font-medium text-gray-700 hover:text-gray-900"
+        >
+          Dismiss
+        </button>
+        <button
+          type="button"
+          onClick={onApply}
+          className="px-3 py-1.5 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700"
+        >
+          Apply colors
+        </button>
+      </div>
+    </div>
+  );
+}
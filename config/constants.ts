@@ -48,9 +48,198 @@ export const RESERVED_SUBDOMAINS = [
 export const SUBDOMAIN_REGEX = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/i;
 
 /**
- * Throttle configuration for publish operations
+ * Domains the platform itself serves pages on (no registry entry needed)
  */
-export const THROTTLE_CONFIG = {
-  WINDOW_MS: 15_000, // 15 seconds
-  CLEANUP_MS: 60_000, // Clean up after 1 minute
+export const PLATFORM_DOMAINS = ['abm.hrytos.com'];
+
+/**
+ * Labels allowed between the buyer and the seller domain in a buyer host,
+ * e.g. "abm" in adient.abm.cyngn.com (buyer "adient", seller domain "cyngn.com")
+ */
+export const BUYER_HOST_SCHEME_LABELS = ['abm'];
+
+/**
+ * Seller domain registry: ownership is proven with a DNS TXT record
+ * {TXT_RECORD_PREFIX}.{domain} = "{TXT_VALUE_PREFIX}{verification_token}"
+ */
+export const DOMAIN_VERIFICATION_CONFIG = {
+  TXT_RECORD_PREFIX: '_hrytos-verify',
+  TXT_VALUE_PREFIX: 'hrytos-verification=',
+  LOOKUP_TIMEOUT_MS: 5_000,
+  MIDDLEWARE_CACHE_TTL_MS: 60_000, // How long middleware trusts a registry lookup per instance
+} as const;
+
+export const SELLER_DOMAIN_STATUSES = ['pending', 'verified', 'failed'] as const;
+export type SellerDomainStatus = (typeof SELLER_DOMAIN_STATUSES)[number];
+
+/**
+ * Landing page statuses
+ * A page_url_key has at most one live row (published/archived)
+ * and at most one working row (draft/in_review/scheduled) at a time
+ */
+export const LANDING_PAGE_STATUSES = ['draft', 'in_review', 'scheduled', 'published', 'archived'] as const;
+export type LandingPageStatus = (typeof LANDING_PAGE_STATUSES)[number];
+
+export const LIVE_STATUSES: readonly LandingPageStatus[] = ['published', 'archived'];
+export const DRAFT_STATUSES: readonly LandingPageStatus[] = ['draft', 'in_review', 'scheduled'];
+
+/**
+ * Campaign window configuration
+ * Pages expire this many days after the end of their mmyy month
+ * (same lifetime as tracking tokens)
+ */
+export const CAMPAIGN_WINDOW_CONFIG = {
+  EXPIRY_GRACE_DAYS: 90,
+} as const;
+
+/**
+ * Scheduled publish retries (/api/cron/publish-schedule)
+ * A failed publish is retried after RETRY_BASE_MINUTES, doubling each time,
+ * and left alone (still scheduled, with its error) after MAX_ATTEMPTS
+ */
+export const SCHEDULE_CONFIG = {
+  MAX_ATTEMPTS: 5,
+  RETRY_BASE_MINUTES: 5,
+} as const;
+
+/**
+ * Public REST API (/api/v1) key configuration
+ */
+export const API_KEY_CONFIG = {
+  PREFIX: 'lpk_', // Makes leaked keys easy to grep for
+  DISPLAY_PREFIX_LENGTH: 10, // Characters of the key kept for display
+  IDEMPOTENCY_TTL_HOURS: 24, // Replay window for Idempotency-Key
+  IDEMPOTENCY_PENDING_TIMEOUT_SECONDS: 300, // A reservation older than this (crashed request) can be taken over
+} as const;
+
+/**
+ * Actions written to the audit_events table (filter options in the studio audit view)
+ */
+export const AUDIT_ACTIONS = [
+  'page.publish',
+  'page.rollback',
+  'page.delete',
+  'page.restore',
+  'page.purge',
+  'page.set_primary',
+  'token.generate',
+  'api_key.create',
+  'api_key.revoke',
+  'seller.update',
+  'asset.upload',
+  'domain.create',
+  'domain.verify',
+  'domain.delete',
+  'auth.login',
+  'auth.login_failed',
+  'auth.logout',
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+/**
+ * Trash bin: deleted pages are kept this long before /api/cron/purge-trash removes them
+ */
+export const TRASH_CONFIG = {
+  RETENTION_DAYS: 30,
+  PURGE_BATCH_SIZE: 50, // Max pages purged per cron run
+} as const;
+
+/**
+ * Mail-merge batches: one template + a CSV of accounts → one page per row
+ */
+export const MAIL_MERGE_CONFIG = {
+  MAX_ROWS: 500,
+  MAX_CSV_BYTES: 1_000_000,
+  ROWS_PER_RUN: 10,           // Max rows published per /api/merge-batches/[id]/run call
+  RUN_TIME_BUDGET_MS: 20_000, // Stop claiming rows after this long (keeps a call inside function timeouts)
+} as const;
+
+/**
+ * Seller profile republish: re-applies the profile to each live page of the seller
+ */
+export const SELLER_REPUBLISH_CONFIG = {
+  PAGES_PER_RUN: 10,          // Max pages republished per /api/sellers/[sellerId]/republish call
+  RUN_TIME_BUDGET_MS: 20_000, // Stop starting new publishes after this long
+} as const;
+
+/**
+ * Theme suggestion: palette extracted from a seller's logo (/api/theme/suggest)
+ */
+export const THEME_SUGGEST_CONFIG = {
+  MAX_LOGO_BYTES: 5_000_000,
+  LOGO_FETCH_TIMEOUT_MS: 10_000,
+  MAX_SWATCHES: 6,            // Dominant colors returned with a suggestion
+} as const;
+
+/**
+ * Search engines: sitemap.xml lists indexable pages (seo.index) per host
+ */
+export const SEO_CONFIG = {
+  SITEMAP_MAX_PAGES: 1000, // Max published pages read for one sitemap (child pages come with them)
+} as const;
+
+/**
+ * Asset library: studio uploads referenced by asset_id from page content
+ */
+export const ASSET_CONFIG = {
+  MAX_UPLOAD_BYTES: 5_000_000,
+  ALLOWED_CONTENT_TYPES: ['image/png', 'image/jpeg', 'image/webp', 'image/gif'],
+  LIST_LIMIT: 200,
+} as const;
+
+export const ASSET_KINDS = ['logo', 'customer_logo', 'og_image'] as const;
+
+export type AssetKind = (typeof ASSET_KINDS)[number];
+
+/**
+ * Resized variants generated on upload (never upscaled; "fit" as in sharp)
+ * - Logos: WebP by width, transparency kept
+ * - OG images: the 1200x630 JPEG social networks expect, plus a thumbnail
+ */
+export const ASSET_VARIANTS: Record<
+  AssetKind,
+  Record<string, { width: number; height?: number; fit: 'inside' | 'cover'; format: 'webp' | 'jpeg' }>
+> = {
+  logo: {
+    thumb: { width: 160, fit: 'inside', format: 'webp' },
+    md: { width: 480, fit: 'inside', format: 'webp' },
+  },
+  customer_logo: {
+    thumb: { width: 160, fit: 'inside', format: 'webp' },
+    md: { width: 320, fit: 'inside', format: 'webp' },
+  },
+  og_image: {
+    thumb: { width: 320, fit: 'inside', format: 'webp' },
+    og: { width: 1200, height: 630, fit: 'cover', format: 'jpeg' },
+  },
+};
+
+/**
+ * CSV columns a mail-merge row reads as publish metadata (every other column is a {{placeholder}} value)
+ */
+export const MAIL_MERGE_META_COLUMNS = [
+  'buyer_id',
+  'mmyy',
+  'seller_domain',
+  'page_url_key',
+  'contact_ids',    // Contact UUIDs, separated by ";" or "|"
+  'contact_emails', // Contact emails, separated by ";" or "|"
+] as const;
+
+/**
+ * Rate limits (fixed window: at most `limit` hits per key per `windowMs`)
+ * - publish: re-publishes of the same page_url_key (studio, API and scheduler)
+ * - events: behavioral events per visitor_id (/api/events)
+ * - tokenLookup: tracking link lookups per client IP (/r/[token])
+ *
+ * Counters live in the store picked by RATE_LIMIT_STORE ("memory" or "postgres");
+ * production defaults to postgres so every serverless instance shares them.
+ */
+export const RATE_LIMITS = {
+  publish: { limit: 1, windowMs: 15_000 },
+  events: { limit: 100, windowMs: 60_000 },
+  tokenLookup: { limit: 10, windowMs: 60_000 },
 } as const;
+
+export type RateLimitName = keyof typeof RATE_LIMITS;
@@ -0,0 +1,444 @@
+/**
+ * CONTEXT FOR COPILOT — PART B (Multi-Tenant)
+ * - Draft → review → published workflow on top of publishLanding.
+ * - A draft is its own landing_pages row (status draft/in_review/scheduled) sharing the page_url_key of the live row.
+ * - Saving or reviewing a draft never touches the live row; approval publishes the draft via publishLanding and removes it.
+ * - Approval can be scheduled: the draft becomes 'scheduled' and /api/cron/publish-schedule publishes it at publish_at.
+ * - A page can be cloned into a new draft for another buyer, month or seller domain (cloneToDraft).
+ * - Security: every action requires the studio publish secret.
+ */
+
+'use server';
+
+import { supabaseAdmin } from '@/lib/db/supabase';
+import { verifyStudioSecret } from '@/lib/auth/studioAuth';
+import { validateAndNormalize } from '@/lib/validation';
+import { getSellerDefaults } from '@/lib/db/sellers';
+import { getAssetLookupForContent } from '@/lib/db/assets';
+import { validatePublishMeta, resolvePageUrlKey, ClonePageSchema } from '@/lib/validation/publishMeta';
+import { loadDraft, promoteDraft, type DraftRow } from '@/lib/publish/drafts';
+import { buildCloneMeta, cloneRawContent } from '@/lib/publish/clone';
+import { getDefaultExpireAt, isExpired } from '@/lib/utils/campaignWindow';
+import { DRAFT_STATUSES } from '@/config/constants';
+import type { LandingPageRow } from '@/lib/db/supabase';
+import type { DraftResult, PublishResult, PublishMeta } from '@/lib/types';
+
+/**
+ * Move a draft to a new status
+ */
+async function setDraftStatus(
+  draft: DraftRow,
+  status: 'draft' | 'in_review',
+  submittedBy: string | null
+): Promise<DraftResult> {
+  const { error } = await supabaseAdmin
+    .from('landing_pages')
+    .update({
+      status,
+      submitted_by: status === 'in_review' ? submittedBy : null,
+      submitted_at: status === 'in_review' ? new Date().toISOString() : null,
+      publish_at: null,
+    })
+    .eq('id', draft.id);
+
+  if (error) {
+    console.error('[draftWorkflow] Status update error', { id: draft.id, status, error: error.message });
+    return { ok: false, error: `Failed to update draft: ${error.message}` };
+  }
+
+  return {
+    ok: true,
+    id: draft.id,
+    pageUrlKey: draft.page_url_key,
+    status,
+    contentSha: draft.content_sha,
+  };
+}
+
+/**
+ * Server action to save validated content as a draft
+ *
+ * Creates or updates the single draft row for the page_url_key.
+ * Saving over a draft that is in review sends it back to 'draft'.
+ *
+ * @param rawJson - Raw landing page JSON
+ * @param meta - Publish metadata (buyer_id, seller_id, mmyy, seller_domain, campaign_id, page_url_key, redirect_from)
+ * @param secret - Studio publish secret for authorization
+ */
+export async function saveDraft(
+  rawJson: unknown,
+  meta: unknown,
+  secret?: string
+): Promise<DraftResult> {
+  try {
+    const secretCheck = verifyStudioSecret(secret);
+    if (!secretCheck.ok) {
+      console.warn('[saveDraft] Invalid secret provided');
+      return { ok: false, error: secretCheck.error };
+    }
+
+    const metaResult = validatePublishMeta(meta);
+    if (!metaResult.success) {
+      return {
+        ok: false,
+        error: 'Invalid publish metadata',
+        validationErrors: metaResult.error.issues.map((issue) => ({
+          path: issue.path.join('.'),
+          message: issue.message,
+        })),
+      };
+    }
+
+    const validMeta = metaResult.data as PublishMeta;
+    const slug = resolvePageUrlKey(validMeta);
+    const expireAt = validMeta.expire_at !== undefined
+      ? validMeta.expire_at
+      : getDefaultExpireAt(validMeta.mmyy);
+
+    const sellerDefaults = await getSellerDefaults(validMeta.seller_id);
+    const validationResult = await validateAndNormalize(rawJson, {
+      sellerDefaults,
+      assets: await getAssetLookupForContent(rawJson, sellerDefaults),
+    });
+    if (!validationResult.isValid || !validationResult.normalized) {
+      return {
+        ok: false,
+        error: 'Content validation failed',
+        validationErrors: validationResult.errors?.map((err) => ({
+          path: err.field || 'unknown',
+          message: err.message,
+        })),
+      };
+    }
+
+    const { data: existingDraft, error: queryError } = await supabaseAdmin
+      .from('landing_pages')
+      .select('id')
+      .eq('page_url_key', slug)
+      .in('status', DRAFT_STATUSES)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (queryError) {
+      console.error('[saveDraft] Database query error', { slug, error: queryError.message });
+      return { ok: false, error: 'Database error while looking up draft' };
+    }
+
+    const draftRow = {
+      page_url_key: slug,
+      campaign_id: validMeta.campaign_id || null,
+      seller_domain: validMeta.seller_domain || null,
+      status: 'draft' as const,
+      page_content: { normalized: validationResult.normalized, original: rawJson },
+      content_sha: validationResult.contentSha,
+      buyer_id: validMeta.buyer_id,
+      seller_id: validMeta.seller_id,
+      mmyy: validMeta.mmyy,
+      expire_at: expireAt,
+      redirect_from: validMeta.redirect_from?.length ? validMeta.redirect_from : null, // Applied when published
+      publish_at: null,
+      submitted_by: null,
+      submitted_at: null,
+    };
+
+    const { data: savedRow, error: saveError } = existingDraft
+      ? await supabaseAdmin
+          .from('landing_pages')
+          .update(draftRow)
+          .eq('id', existingDraft.id)
+          .select('id')
+          .single()
+      : await supabaseAdmin
+          .from('landing_pages')
+          .insert(draftRow)
+          .select('id')
+          .single();
+
+    if (saveError || !savedRow) {
+      console.error('[saveDraft] Database write error', { slug, error: saveError?.message });
+      return { ok: false, error: `Failed to save draft: ${saveError?.message ?? 'no row returned'}` };
+    }
+
+    console.info('[saveDraft] Draft saved', { slug, id: savedRow.id });
+
+    return {
+      ok: true,
+      id: savedRow.id,
+      pageUrlKey: slug,
+      status: 'draft',
+      contentSha: validationResult.contentSha,
+    };
+  } catch (error) {
+    console.error('[saveDraft] Unexpected error', {
+      errorMessage: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return { ok: false, error: 'An unexpected error occurred while saving the draft.' };
+  }
+}
+
+/**
+ * Server action to submit a draft for review
+ *
+ * @param draftId - landing_pages.id of the draft
+ * @param secret - Studio publish secret for authorization
+ * @param submittedBy - Optional name shown to reviewers
+ */
+export async function submitDraftForReview(
+  draftId: string,
+  secret?: string,
+  submittedBy?: string | null
+): Promise<DraftResult> {
+  const secretCheck = verifyStudioSecret(secret);
+  if (!secretCheck.ok) {
+    return { ok: false, error: secretCheck.error };
+  }
+
+  const loaded = await loadDraft(draftId);
+  if ('error' in loaded) {
+    return { ok: false, error: loaded.error };
+  }
+
+  if (loaded.draft.status !== 'draft') {
+    return { ok: false, error: 'Draft is already in review' };
+  }
+
+  return setDraftStatus(loaded.draft, 'in_review', submittedBy?.trim().slice(0, 100) || null);
+}
+
+/**
+ * Server action to send a draft in review (or scheduled) back to editing
+ * Cancels any pending scheduled publish.
+ *
+ * @param draftId - landing_pages.id of the draft
+ * @param secret - Studio publish secret for authorization
+ */
+export async function returnDraftToEditing(
+  draftId: string,
+  secret?: string
+): Promise<DraftResult> {
+  const secretCheck = verifyStudioSecret(secret);
+  if (!secretCheck.ok) {
+    return { ok: false, error: secretCheck.error };
+  }
+
+  const loaded = await loadDraft(draftId);
+  if ('error' in loaded) {
+    return { ok: false, error: loaded.error };
+  }
+
+  if (loaded.draft.status !== 'in_review' && loaded.draft.status !== 'scheduled') {
+    return { ok: false, error: 'Draft is not in review' };
+  }
+
+  return setDraftStatus(loaded.draft, 'draft', null);
+}
+
+/**
+ * Server action to approve a draft in review and publish it now
+ *
+ * Publishes the draft's stored raw JSON through publishLanding (same validation,
+ * versioning and revalidation as a direct publish), then removes the draft row.
+ * Scheduled drafts can also be approved early with this action.
+ *
+ * @param draftId - landing_pages.id of the draft
+ * @param secret - Studio publish secret for authorization
+ * @param approvedBy - Optional reviewer name recorded on the version snapshot
+ */
+export async function approveDraft(
+  draftId: string,
+  secret?: string,
+  approvedBy?: string | null
+): Promise<PublishResult> {
+  const secretCheck = verifyStudioSecret(secret);
+  if (!secretCheck.ok) {
+    return { ok: false, error: secretCheck.error };
+  }
+
+  const loaded = await loadDraft(draftId);
+  if ('error' in loaded) {
+    return { ok: false, error: loaded.error };
+  }
+
+  const { draft } = loaded;
+  if (draft.status !== 'in_review' && draft.status !== 'scheduled') {
+    return { ok: false, error: 'Only drafts in review can be approved' };
+  }
+
+  const result = await promoteDraft(draft, approvedBy?.trim() || draft.submitted_by || null, secret);
+
+  if (result.ok) {
+    console.info('[approveDraft] Draft approved and published', {
+      id: draft.id,
+      slug: draft.page_url_key,
+      changed: result.changed,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Server action to approve a draft in review for publishing at a later time
+ *
+ * The scheduler (/api/cron/publish-schedule) publishes it once publish_at passes.
+ *
+ * @param draftId - landing_pages.id of the draft
+ * @param publishAt - ISO 8601 timestamp in the future
+ * @param secret - Studio publish secret for authorization
+ */
+export async function scheduleDraft(
+  draftId: string,
+  publishAt: string,
+  secret?: string
+): Promise<DraftResult> {
+  const secretCheck = verifyStudioSecret(secret);
+  if (!secretCheck.ok) {
+    return { ok: false, error: secretCheck.error };
+  }
+
+  const publishTime = new Date(publishAt);
+  if (Number.isNaN(publishTime.getTime()) || isExpired(publishAt)) {
+    return { ok: false, error: 'Publish time must be a valid date in the future' };
+  }
+
+  const loaded = await loadDraft(draftId);
+  if ('error' in loaded) {
+    return { ok: false, error: loaded.error };
+  }
+
+  const { draft } = loaded;
+  if (draft.status !== 'in_review' && draft.status !== 'scheduled') {
+    return { ok: false, error: 'Only drafts in review can be scheduled' };
+  }
+
+  if (draft.expire_at && new Date(draft.expire_at).getTime() <= publishTime.getTime()) {
+    return { ok: false, error: 'Publish time must be before the page expires' };
+  }
+
+  const { error } = await supabaseAdmin
+    .from('landing_pages')
+    .update({
+      status: 'scheduled',
+      publish_at: publishTime.toISOString(),
+      // A new schedule gets a fresh set of attempts
+      schedule_attempts: 0,
+      schedule_retry_at: null,
+      schedule_error: null,
+    })
+    .eq('id', draft.id);
+
+  if (error) {
+    console.error('[scheduleDraft] Status update error', { id: draft.id, error: error.message });
+    return { ok: false, error: `Failed to schedule draft: ${error.message}` };
+  }
+
+  console.info('[scheduleDraft] Draft scheduled', {
+    id: draft.id,
+    slug: draft.page_url_key,
+    publishAt: publishTime.toISOString(),
+  });
+
+  return {
+    ok: true,
+    id: draft.id,
+    pageUrlKey: draft.page_url_key,
+    status: 'scheduled',
+    publishAt: publishTime.toISOString(),
+    contentSha: draft.content_sha,
+  };
+}
+
+/**
+ * Server action to clone a page into a new draft
+ *
+ * Copies the source's raw JSON (optionally swapping the buyer name throughout the
+ * text) and saves it as a draft for the new buyer, month or seller domain. The
+ * clone's page_url_key must be free: cloning never overwrites another page or draft.
+ *
+ * @param sourceId - landing_pages.id of the page to copy (live, archived or draft)
+ * @param target - New buyer_id / mmyy / seller_domain / page_url_key, buyer_name, roll_forward
+ * @param secret - Studio publish secret for authorization
+ */
+export async function cloneToDraft(
+  sourceId: string,
+  target: unknown,
+  secret?: string
+): Promise<DraftResult> {
+  try {
+    const secretCheck = verifyStudioSecret(secret);
+    if (!secretCheck.ok) {
+      return { ok: false, error: secretCheck.error };
+    }
+
+    const targetResult = ClonePageSchema.safeParse(target);
+    if (!targetResult.success) {
+      return {
+        ok: false,
+        error: 'Invalid clone target',
+        validationErrors: targetResult.error.issues.map((issue) => ({
+          path: issue.path.join('.'),
+          message: issue.message,
+        })),
+      };
+    }
+
+    const { data: source, error: sourceError } = await supabaseAdmin
+      .from('landing_pages')
+      .select('*')
+      .eq('id', sourceId)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (sourceError) {
+      console.error('[cloneToDraft] Database query error', { sourceId, error: sourceError.message });
+      return { ok: false, error: 'Database error while loading the source page' };
+    }
+
+    if (!source) {
+      return { ok: false, error: 'Landing page not found' };
+    }
+
+    const cloneMeta = buildCloneMeta(source as LandingPageRow, targetResult.data);
+    if ('error' in cloneMeta) {
+      return { ok: false, error: cloneMeta.error };
+    }
+
+    const slug = resolvePageUrlKey(cloneMeta.meta);
+    if (slug === source.page_url_key) {
+      return {
+        ok: false,
+        error: `The clone would use the same URL as the source (${slug}); change the buyer, month or slug`,
+      };
+    }
+
+    const { data: existing, error: existingError } = await supabaseAdmin
+      .from('landing_pages')
+      .select('id')
+      .eq('page_url_key', slug)
+      .is('deleted_at', null)
+      .limit(1);
+
+    if (existingError) {
+      console.error('[cloneToDraft] Database query error', { slug, error: existingError.message });
+      return { ok: false, error: 'Database error while checking the target URL' };
+    }
+
+    if (existing && existing.length > 0) {
+      return { ok: false, error: `A page or draft already exists at ${slug}` };
+    }
+
+    const rawJson = cloneRawContent(source as LandingPageRow, targetResult.data.buyer_name);
+    const result = await saveDraft(rawJson, cloneMeta.meta, secret);
+
+    if (result.ok) {
+      console.info('[cloneToDraft] Page cloned', { from: source.page_url_key, to: slug, id: result.id });
+    }
+
+    return result;
+  } catch (error) {
+    console.error('[cloneToDraft] Unexpected error', {
+      errorMessage: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return { ok: false, error: 'An unexpected error occurred while cloning the page.' };
+  }
+}
@@ -3,78 +3,68 @@
  * - One repo + one Vercel project. Supabase stores published pages.
  * - Studio Publish is a server action: validate → normalize → compute contentSha → upsert → revalidate → return url.
  * - Idempotency: if same contentSha for the key, no write or revalidate.
+ * - Stages without side effects live in lib/publish/pipeline.ts; dryRunPublish runs only those.
  * - Security: secrets are server-only; revalidate requires a secret header.
- * - No versioning now; re-publish overwrites the slug. Rollback by re-publishing old JSON.
+ * - Versioning: each changed publish bumps landing_pages.version and snapshots it to landing_page_versions.
+ * - Audit: each changed publish is written to audit_events (actor = published_by).
  */
 
 'use server';
 
-import crypto from 'crypto';
 import { supabaseAdmin } from '@/lib/db/supabase';
-import { validateAndNormalize } from '@/lib/validation';
-import { computeContentSha } from '@/lib/normalize/hash';
-import { validatePublishMeta } from '@/lib/validation/publishMeta';
+import { recordLandingPageVersion } from '@/lib/db/landingPageVersions';
+import { verifyStudioSecret } from '@/lib/auth/studioAuth';
+import { requestRevalidation } from '@/lib/utils/revalidate';
+import { getSitePageSlugs } from '@/lib/normalize/site';
+import { recordRedirects } from '@/lib/db/redirects';
+import { recordAuditEvent, getActionRequestInfo } from '@/lib/db/auditLog';
 import { authorizeLandingPageUrl } from '@/lib/analytics/domainAuthorization';
-import { THROTTLE_CONFIG } from '@/config/constants';
-import type { PublishResult, PublishMeta } from '@/lib/types';
+import {
+  resolvePublishTarget,
+  checkPublishDomain,
+  claimPublishThrottle,
+  normalizeForPublish,
+  findLiveRow,
+  checkKeyOwnership,
+  isUnchangedPublish,
+  dryRunPublishPipeline,
+} from '@/lib/publish/pipeline';
+import type { PublishResult, PublishDryRunResult } from '@/lib/types';
 
 /**
- * Generate public URL using path-based routing
- * Format: https://{seller_domain}/p/{page_url_key}
+ * Point old keys at the page's key and take their live pages down
+ * Runs after every changed publish (to clear any redirect away from the key)
+ * and after a no-op publish that lists redirect_from. Never fails the publish.
  */
-function generatePublicUrl(
-  buyerId: string,
-  sellerDomain: string | null | undefined,
-  pageUrlKey: string
-): string {
-  // Path-based URL: seller_domain/p/slug
-  if (sellerDomain) {
-    const protocol = sellerDomain.includes('localhost') ? 'http' : 'https';
-    return `${protocol}://${sellerDomain}/p/${pageUrlKey}`;
+async function redirectOldKeys(
+  fromKeys: string[],
+  slug: string,
+  publishedBy: string | null
+): Promise<void> {
+  const redirectError = await recordRedirects(fromKeys, slug, publishedBy);
+  if (redirectError || fromKeys.length === 0) {
+    return;
   }
-  
-  // Fallback to NEXT_PUBLIC_SITE_URL if no seller_domain
-  const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000';
-  return `${baseUrl}/p/${pageUrlKey}`;
-}
-
-/**
- * In-memory throttle to prevent rapid re-publishes of the same slug
- * Map: slug → timestamp of last publish
- * 
- * NOTE: In a multi-instance deployment (horizontal scaling), this throttle
- * is per-instance. For production, consider using Redis or similar.
- */
-const publishThrottle = new Map<string, number>();
 
-// Clean up throttle map periodically to prevent memory leaks
-if (typeof setInterval !== 'undefined') {
-  setInterval(() => {
-    const now = Date.now();
-    for (const [slug, timestamp] of publishThrottle.entries()) {
-      if (now - timestamp > THROTTLE_CONFIG.CLEANUP_MS) {
-        publishThrottle.delete(slug);
-      }
-    }
-  }, THROTTLE_CONFIG.CLEANUP_MS);
-}
+  // The old live pages are replaced by the redirect; archive them and drop their cache
+  const { data: archived, error: archiveError } = await supabaseAdmin
+    .from('landing_pages')
+    .update({ status: 'archived' })
+    .in('page_url_key', fromKeys)
+    .eq('status', 'published')
+    .is('deleted_at', null)
+    .select('page_url_key');
 
-/**
- * Check if a slug is currently throttled
- */
-function isThrottled(slug: string): boolean {
-  const lastPublish = publishThrottle.get(slug);
-  if (!lastPublish) return false;
-  
-  const elapsed = Date.now() - lastPublish;
-  return elapsed < THROTTLE_CONFIG.WINDOW_MS;
-}
+  if (archiveError) {
+    console.error('[publishLanding] Failed to archive redirected pages', {
+      fromKeys,
+      error: archiveError.message,
+    });
+  }
 
-/**
- * Update throttle timestamp for a slug
- */
-function updateThrottle(slug: string): void {
-  publishThrottle.set(slug, Date.now());
+  for (const row of archived || []) {
+    await requestRevalidation(row.page_url_key, 'publishLanding');
+  }
 }
 
 /**
@@ -82,13 +72,15 @@ function updateThrottle(slug: string): void {
  * 
  * Flow:
  * 1. Validate STUDIO_PUBLISH_SECRET
- * 2. Validate publish metadata (slug, buyer_id, seller_id, mmyy)
+ * 2. Validate publish metadata (slug, buyer_id, seller_id, mmyy) and check the
+ *    seller_domain against the domain registry
  * 3. Validate and normalize raw JSON using Part A logic
  * 4. Compute content SHA-256 hash
  * 5. Check idempotency: if same contentSha exists, return early
- * 6. Upsert to Supabase landing_pages table
- * 7. Call /api/revalidate to invalidate cache
- * 8. Return live URL
+ * 6. Write the live landing_pages row (bumping version) and snapshot to landing_page_versions
+ * 7. Record 301 redirects from meta.redirect_from and archive the pages they replace
+ * 8. Call /api/revalidate to invalidate cache
+ * 9. Record the publish in the audit log and return live URL
  * 
  * @param rawJson - Raw landing page JSON to validate and publish
  * @param meta - Publish metadata (slug, buyer_id, seller_id, mmyy)
@@ -126,146 +118,53 @@ export async function publishLanding(
     }
     
     // 1. Validate secret
-    const expectedSecret = process.env.STUDIO_PUBLISH_SECRET;
-    if (!expectedSecret) {
-      console.error('[publishLanding] STUDIO_PUBLISH_SECRET not configured');
-      return {
-        ok: false,
-        error: 'Server configuration error: STUDIO_PUBLISH_SECRET not set',
-      };
-    }
-    
-    // Timing-safe secret comparison to prevent timing attacks
-    if (!secret || secret.length !== expectedSecret.length) {
+    const secretCheck = verifyStudioSecret(secret);
+    if (!secretCheck.ok) {
       console.warn('[publishLanding] Invalid secret provided');
       return {
         ok: false,
-        error: 'Unauthorized: Invalid publish secret',
+        error: secretCheck.error,
       };
     }
     
-    // Use crypto.timingSafeEqual for constant-time comparison
-    const secretBuffer = Buffer.from(secret);
-    const expectedBuffer = Buffer.from(expectedSecret);
-    
-    let isSecretValid = false;
-    try {
-      isSecretValid = crypto.timingSafeEqual(secretBuffer, expectedBuffer);
-    } catch {
-      // Buffers of different lengths will throw
-      isSecretValid = false;
+    // 2. Validate metadata, generate page_url_key and resolve expiry
+    const resolved = resolvePublishTarget(meta);
+    if (!resolved.ok) {
+      return resolved.result;
     }
     
-    if (!isSecretValid) {
-      console.warn('[publishLanding] Invalid secret provided');
-      return {
-        ok: false,
-        error: 'Unauthorized: Invalid publish secret',
-      };
-    }
-    
-    // 2. Validate metadata
-    const metaResult = validatePublishMeta(meta);
-    if (!metaResult.success) {
-      console.warn('[publishLanding] Invalid metadata', {
-        issues: metaResult.error.issues,
-      });
-      
-      return {
-        ok: false,
-        error: 'Invalid publish metadata',
-        validationErrors: metaResult.error.issues.map((issue) => ({
-          path: issue.path.join('.'),
-          message: issue.message,
-        })),
-      };
+    // The seller_domain must be verified for this seller (or one of ours)
+    const domain = await checkPublishDomain(resolved.target);
+    if (!domain.ok) {
+      return domain.result;
     }
     
-    const validMeta = metaResult.data as PublishMeta;
-    
-    // Auto-generate page_url_key from buyer_id and seller_id
-    const slug = `${validMeta.buyer_id}-${validMeta.seller_id}-${validMeta.mmyy}`;
-    validMeta.page_url_key = slug;
+    const { meta: validMeta, slug, url: publicUrl, expireAt } = resolved.target;
     
-    // 3. Check throttle
-    if (isThrottled(slug)) {
-      const remaining = THROTTLE_CONFIG.WINDOW_MS - (Date.now() - (publishThrottle.get(slug) || 0));
-      console.warn('[publishLanding] Throttled', { slug, remainingMs: remaining });
-      
-      return {
-        ok: false,
-        error: `Please wait ${Math.ceil(remaining / 1000)} seconds before publishing again`,
-      };
+    // 4-5. Validate and normalize content using Part A logic, compute content SHA
+    const content = await normalizeForPublish(rawJson, slug, validMeta.seller_id);
+    if (!content.ok) {
+      return content.result;
     }
     
-    // 4. Validate and normalize content using Part A logic
-    const validationResult = await validateAndNormalize(rawJson);
-    if (!validationResult.isValid || !validationResult.normalized) {
-      console.warn('[publishLanding] Content validation failed', {
-        slug,
-        errors: validationResult.errors,
-      });
-      
-      return {
-        ok: false,
-        error: 'Content validation failed',
-        validationErrors: validationResult.errors?.map((err) => ({
-          path: err.field || 'unknown',
-          message: err.message,
-        })),
-      };
-    }
+    const { normalized, contentSha } = content;
     
-    const normalized = validationResult.normalized;
-    
-    // 5. Compute content SHA
-    const contentSha = await computeContentSha(normalized);
+    // 6. Check idempotency: query existing live row
+    const live = await findLiveRow(slug);
+    if (!live.ok) {
+      return live.result;
+    }
+    const existingRow = live.row;
     
-    // 6. Check idempotency: query existing row
-    let existingRow = null;
-    try {
-      const { data, error: queryError } = await supabaseAdmin
-        .from('landing_pages')
-        .select('content_sha, published_at')
-        .eq('page_url_key', slug)
-        .eq('status', 'published')
-        .maybeSingle();
-      
-      if (queryError) {
-        console.error('[publishLanding] Database query error', {
-          slug,
-          error: {
-            message: queryError.message,
-            details: queryError.details,
-            hint: queryError.hint,
-            code: queryError.code,
-          },
-        });
-        
-        return {
-          ok: false,
-          error: 'Database error during idempotency check',
-        };
-      }
-      existingRow = data;
-    } catch (fetchError) {
-      console.error('[publishLanding] Network/fetch error during idempotency check', {
-        slug,
-        error: fetchError instanceof Error ? {
-          name: fetchError.name,
-          message: fetchError.message,
-          cause: fetchError.cause,
-        } : fetchError,
-      });
-      
-      return {
-        ok: false,
-        error: 'Network error connecting to database. Please try again.',
-      };
+    // A vanity slug or redirect source owned by another page cannot be taken over
+    const ownership = await checkKeyOwnership(resolved.target, existingRow);
+    if (!ownership.ok) {
+      return ownership.result;
     }
+    const { redirectFrom } = resolved.target;
     
-    // If same contentSha exists, return early (no-op)
-    if (existingRow && existingRow.content_sha === contentSha) {
+    // If same contentSha is already live with the same expiry, return early (no-op)
+    if (isUnchangedPublish(existingRow, contentSha, expireAt)) {
       const duration = Date.now() - startTime;
       console.info('[publishLanding] Idempotent publish (no changes)', {
         slug,
@@ -273,6 +172,10 @@ export async function publishLanding(
         duration,
       });
       
+      if (redirectFrom.length > 0) {
+        await redirectOldKeys(redirectFrom, slug, validMeta.published_by || 'studio');
+      }
+      
       const url = `${process.env.NEXT_PUBLIC_SITE_URL}/p/${slug}`;
       return {
         ok: true,
@@ -282,127 +185,118 @@ export async function publishLanding(
       };
     }
     
-    // 7. Upsert to landing_pages table
+    // Claim the throttle window only once every check has passed (one counted hit, so
+    // concurrent publishes can't both write; a rejected publish leaves the window free)
+    const throttled = await claimPublishThrottle(slug);
+    if (throttled) {
+      return throttled;
+    }
+    
+    // 7. Write the live row with the next version number
+    // Drafts share the page_url_key, so update the live row by id instead of upserting on the key
     const now = new Date().toISOString();
-    const publicUrl = generatePublicUrl(validMeta.buyer_id, validMeta.seller_domain, slug);
+    const nextVersion = existingRow ? (existingRow.version ?? 1) + 1 : 1;
+    const pageContent = { normalized, original: rawJson };
+    const liveRow = {
+      page_url_key: slug,
+      campaign_id: validMeta.campaign_id || null,
+      seller_domain: validMeta.seller_domain || null,
+      page_url: publicUrl,                        // Store the full URL
+      status: 'published' as const,
+      page_content: pageContent,
+      content_sha: contentSha,
+      buyer_id: validMeta.buyer_id,
+      seller_id: validMeta.seller_id,
+      mmyy: validMeta.mmyy,
+      published_at: now,
+      expire_at: expireAt,
+      publish_at: null,
+      version: nextVersion,
+      // Note: updated_at is auto-managed by trigger
+    };
     
-    const { error: upsertError } = await supabaseAdmin
-      .from('landing_pages')
-      .upsert(
-        {
-          page_url_key: slug,
-          campaign_id: validMeta.campaign_id || null,
-          seller_domain: validMeta.seller_domain || null,
-          page_url: publicUrl,                        // Store the full URL
-          status: 'published',
-          page_content: { normalized },
-          content_sha: contentSha,
-          buyer_id: validMeta.buyer_id,
-          seller_id: validMeta.seller_id,
-          mmyy: validMeta.mmyy,
-          published_at: now,
-          version: 1,
-          // Note: updated_at is auto-managed by trigger
-          // Note: deleted_at is NULL for active pages
-        },
-        {
-          onConflict: 'page_url_key',
-        }
-      );
+    const { data: savedRow, error: upsertError } = existingRow
+      ? await supabaseAdmin
+          .from('landing_pages')
+          .update(liveRow)
+          .eq('id', existingRow.id)
+          .select('id')
+          .single()
+      : await supabaseAdmin
+          .from('landing_pages')
+          .insert(liveRow)
+          .select('id')
+          .single();
     
-    if (upsertError) {
+    if (upsertError || !savedRow) {
       console.error('[publishLanding] Database upsert error', {
         slug,
         error: upsertError,
-        errorMessage: upsertError.message,
-        errorDetails: upsertError.details,
-        errorHint: upsertError.hint,
-        errorCode: upsertError.code,
+        errorMessage: upsertError?.message,
+        errorDetails: upsertError?.details,
+        errorHint: upsertError?.hint,
+        errorCode: upsertError?.code,
       });
       
       return {
         ok: false,
-        error: `Failed to save to database: ${upsertError.message}`,
+        error: `Failed to save to database: ${upsertError?.message ?? 'no row returned'}`,
       };
     }
     
-    // 8. Call revalidate API to invalidate cache
-    try {
-      const revalidateSecret = process.env.REVALIDATE_SECRET;
-      if (!revalidateSecret) {
-        console.error('[publishLanding] REVALIDATE_SECRET not configured');
-        // Don't fail publish, just log warning
-        console.warn('[publishLanding] Skipping cache revalidation due to missing secret');
-      } else {
-        const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000';
-        const revalidateUrl = `${baseUrl}/api/revalidate`;
-        
-        // Add timeout to prevent hanging
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 5000); // 5 second timeout
-        
-        try {
-          const response = await fetch(revalidateUrl, {
-            method: 'POST',
-            headers: {
-              'content-type': 'application/json',
-              'x-revalidate-secret': revalidateSecret,
-            },
-            body: JSON.stringify({ slug }),
-            signal: controller.signal,
-          });
-          
-          clearTimeout(timeoutId);
-          
-          if (!response.ok) {
-            const errorText = await response.text();
-            console.error('[publishLanding] Revalidate API error', {
-              slug,
-              status: response.status,
-              error: errorText,
-            });
-            
-            // Don't fail the publish if revalidate fails
-            // The page is published, just cache isn't invalidated
-            console.warn('[publishLanding] Published but cache not invalidated', { slug });
-          } else {
-            console.info('[publishLanding] Cache revalidated', { slug });
-          }
-        } catch (fetchError) {
-          clearTimeout(timeoutId);
-          if ((fetchError as Error).name === 'AbortError') {
-            console.warn('[publishLanding] Revalidate request timed out', { slug });
-          } else {
-            throw fetchError;
-          }
-        }
-      }
-    } catch (revalidateError) {
-      console.error('[publishLanding] Revalidate request failed', {
-        slug,
-        error: revalidateError,
-      });
-      // Don't fail the publish
+    // 7b. Snapshot this version into the immutable history
+    // A failed snapshot does not undo the publish, but the result flags it (versionHistoryError)
+    const versionHistoryError = await recordLandingPageVersion({
+      landing_page_id: savedRow.id,
+      page_url_key: slug,
+      version: nextVersion,
+      content_sha: contentSha,
+      page_content: pageContent,
+      published_by: validMeta.published_by || 'studio',
+      published_at: now,
+    });
+    if (versionHistoryError) {
+      console.warn('[publishLanding] Published without a version snapshot', { slug, version: nextVersion });
     }
     
-    // 9. Update throttle and return success
-    updateThrottle(slug);
+    // 7c. Old keys (redirect_from) now 301 here; any redirect away from this key is dropped
+    await redirectOldKeys(redirectFrom, slug, validMeta.published_by || 'studio');
     
+    // 7d. Audit trail (never fails the publish)
+    await recordAuditEvent({
+      actor: validMeta.published_by || 'studio',
+      action: 'page.publish',
+      target_type: 'page',
+      target_id: savedRow.id,
+      page_url_key: slug,
+      before_sha: existingRow?.content_sha ?? null,
+      after_sha: contentSha,
+      metadata: {
+        version: nextVersion,
+        ...(redirectFrom.length > 0 ? { redirect_from: redirectFrom } : {}),
+        ...(validMeta.published_label ? { label: validMeta.published_label } : {}),
+        ...(versionHistoryError ? { version_history_error: versionHistoryError } : {}),
+      },
+    }, await getActionRequestInfo());
+    
+    // 8. Call revalidate API to invalidate cache (never fails the publish)
+    await requestRevalidation(slug, 'publishLanding', getSitePageSlugs(normalized));
+    
+    // 9. Return success
     const duration = Date.now() - startTime;
-    const url = generatePublicUrl(validMeta.buyer_id, validMeta.seller_domain, slug);
     
     // 10. Automatically authorize the published landing page URL for PostHog analytics
     try {
       const authorized = await authorizeLandingPageUrl(slug);
       if (authorized) {
-        console.info('[publishLanding] Landing page URL authorized for analytics', { slug, url });
+        console.info('[publishLanding] Landing page URL authorized for analytics', { slug, url: publicUrl });
       } else {
-        console.warn('[publishLanding] Failed to authorize landing page URL for analytics', { slug, url });
+        console.warn('[publishLanding] Failed to authorize landing page URL for analytics', { slug, url: publicUrl });
       }
     } catch (authError) {
       console.error('[publishLanding] Analytics domain authorization error', {
         slug,
-        url,
+        url: publicUrl,
         error: authError,
       });
       // Don't fail the publish for authorization errors
@@ -411,15 +305,18 @@ export async function publishLanding(
     console.info('[publishLanding] Published successfully', {
       slug,
       contentSha,
+      version: nextVersion,
       changed: true,
       duration,
     });
     
     return {
       ok: true,
-      url,
+      url: publicUrl,
       contentSha,
       changed: true,
+      version: nextVersion,
+      ...(versionHistoryError ? { versionHistoryError: `Version ${nextVersion} is live but missing from the version history: ${versionHistoryError}` } : {}),
     };
     
   } catch (error) {
@@ -445,3 +342,37 @@ export async function publishLanding(
     };
   }
 }
+
+/**
+ * Server action to dry-run a publish
+ * 
+ * Runs the same metadata, throttle, validation and idempotency stages as
+ * publishLanding but writes nothing, revalidates nothing and skips analytics
+ * authorization. Reports the slug and URL, whether content_sha would change,
+ * the version that would be written, throttle state, validation warnings and
+ * the cache paths a real publish would invalidate.
+ * 
+ * @param rawJson - Raw landing page JSON
+ * @param meta - Publish metadata (same as publishLanding)
+ * @param secret - Studio publish secret for authorization
+ */
+export async function dryRunPublish(
+  rawJson: unknown,
+  meta: unknown,
+  secret?: string
+): Promise<PublishDryRunResult> {
+  try {
+    const secretCheck = verifyStudioSecret(secret);
+    if (!secretCheck.ok) {
+      console.warn('[dryRunPublish] Invalid secret provided');
+      return { ok: false, dryRun: true, error: secretCheck.error };
+    }
+    
+    return await dryRunPublishPipeline(rawJson, meta);
+  } catch (error) {
+    console.error('[dryRunPublish] Unexpected error', {
+      errorMessage: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return { ok: false, dryRun: true, error: 'An unexpected error occurred during the dry run.' };
+  }
+}
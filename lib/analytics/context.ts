@@ -13,6 +13,7 @@ export interface TenantContext {
   content_sha: string;
   host: string;
   route_scheme: 'A' | 'B' | 'C';
+  site_page?: string; // Microsite child page (absent on the overview)
 }
 
 // Extended context with device and viewport info
@@ -28,6 +29,7 @@ export interface PageProps {
   seller_id?: string;
   page_url_key: string;
   content_sha: string;
+  site_page?: string;
 }
 
 /**
@@ -47,6 +49,7 @@ export function buildTenantContext(pageProps: PageProps): AnalyticsContext {
     content_sha: pageProps.content_sha,
     host,
     route_scheme: 'A', // Default to Option A for now
+    site_page: pageProps.site_page,
     device_type,
     viewport_w,
     viewport_h,
@@ -19,7 +19,7 @@ import { captureEvent } from '../../components/analytics/AnalyticsProvider';
 
 interface CtaClickParams {
   id: 'book_meeting' | 'read_case_study' | 'visit_website';
-  location: 'hero' | 'proof_section' | 'seller_section' | 'footer' | 'social_list';
+  location: 'hero' | 'trusted_by' | 'proof_section' | 'seller_section' | 'footer' | 'social_list';
   href: string;
   linkType: 'external' | 'internal';
 }
@@ -0,0 +1,146 @@
+/**
+ * CONTEXT FOR COPILOT — PART B (Multi-Tenant)
+ * Shared helpers for the public REST API (/api/v1).
+ * - Errors are JSON `{ ok: false, error, validationErrors? }` (same shape as PublishResult)
+ * - Mutating requests honour the Idempotency-Key header (stored per API key for 24h)
+ * - Page payloads never expose internal ids or draft rows
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ApiKeyRow, LandingPageRow } from '@/lib/db/supabase';
+import {
+  computeRequestSha,
+  reserveIdempotencyKey,
+  storeIdempotentResponse,
+  releaseIdempotencyKey,
+} from '@/lib/db/idempotencyKeys';
+
+/**
+ * Columns returned for a page (content is added for single-page reads)
+ */
+export const API_PAGE_COLUMNS =
+  'page_url_key, buyer_id, seller_id, seller_domain, mmyy, campaign_id, page_url, status, version, content_sha, published_at, expire_at, updated_at';
+
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+/**
+ * A handler result before it becomes a NextResponse
+ */
+export interface ApiResponse {
+  status: number;
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * JSON error response in the PublishResult shape
+ */
+export function apiError(
+  status: number,
+  error: string,
+  extra?: Record<string, unknown>,
+  headers?: Record<string, string>
+): NextResponse {
+  return NextResponse.json({ ok: false, error, ...extra }, { status, headers });
+}
+
+/**
+ * Public representation of a landing page row
+ */
+export function toApiPage(
+  row: Partial<LandingPageRow>,
+  options: { includeContent?: boolean } = {}
+) {
+  return {
+    page_url_key: row.page_url_key,
+    url: row.page_url ?? null,
+    status: row.status,
+    buyer_id: row.buyer_id,
+    seller_id: row.seller_id,
+    seller_domain: row.seller_domain ?? null,
+    mmyy: row.mmyy ?? null,
+    campaign_id: row.campaign_id ?? null,
+    version: row.version ?? null,
+    content_sha: row.content_sha,
+    published_at: row.published_at ?? null,
+    expire_at: row.expire_at ?? null,
+    updated_at: row.updated_at ?? null,
+    ...(options.includeContent
+      ? {
+          content: row.page_content?.original ?? null,
+          normalized: row.page_content?.normalized ?? null,
+        }
+      : {}),
+  };
+}
+
+/**
+ * Run a mutating request at most once per Idempotency-Key
+ *
+ * Without the header the handler simply runs. With it:
+ * - a retry with the same method, path and body replays the stored response
+ *   (marked with the `Idempotent-Replayed: true` header)
+ * - reusing the key for a different request returns 409
+ * - the key is reserved before the handler runs: a concurrent request with the
+ *   same key gets 409 (with Retry-After) instead of running it twice
+ * - 5xx responses are not stored (the reservation is released), so the client can retry them
+ *
+ * @param rawBody - Request body exactly as received (part of the fingerprint)
+ */
+export async function withIdempotency(
+  request: NextRequest,
+  apiKey: ApiKeyRow,
+  rawBody: string,
+  run: () => Promise<ApiResponse>
+): Promise<NextResponse> {
+  const idempotencyKey = request.headers.get('idempotency-key')?.trim();
+
+  if (!idempotencyKey) {
+    const result = await run();
+    return NextResponse.json(result.body, { status: result.status, headers: result.headers });
+  }
+
+  if (idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    return apiError(400, `Idempotency-Key must be at most ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`);
+  }
+
+  const entry = {
+    apiKeyId: apiKey.id,
+    idempotencyKey,
+    method: request.method,
+    path: request.nextUrl.pathname,
+    requestSha: computeRequestSha(request.method, request.nextUrl.pathname, rawBody),
+  };
+
+  const existing = await reserveIdempotencyKey(entry);
+  if (existing.kind === 'replay') {
+    return NextResponse.json(existing.body, {
+      status: existing.status,
+      headers: { 'Idempotent-Replayed': 'true' },
+    });
+  }
+  if (existing.kind === 'conflict') {
+    return apiError(409, 'Idempotency-Key was already used for a different request');
+  }
+  if (existing.kind === 'in_flight') {
+    return apiError(409, 'A request with this Idempotency-Key is still in progress', undefined, {
+      'Retry-After': '1',
+    });
+  }
+
+  let result: ApiResponse;
+  try {
+    result = await run();
+  } catch (error) {
+    await releaseIdempotencyKey(entry);
+    throw error;
+  }
+
+  if (result.status < 500) {
+    await storeIdempotentResponse({ ...entry, status: result.status, body: result.body });
+  } else {
+    await releaseIdempotencyKey(entry);
+  }
+
+  return NextResponse.json(result.body, { status: result.status, headers: result.headers });
+}
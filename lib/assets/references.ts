@@ -0,0 +1,110 @@
+/**
+ * CONTEXT FOR COPILOT — PART B (Multi-Tenant)
+ * Asset references in page content (client-safe: no database or storage imports).
+ * - Raw JSON names an uploaded image by id: brand.logoAssetId, ogImageAssetId,
+ *   trustedBy.logos[i].assetId (also inside microsite pages: site.pages[i].content.*)
+ * - Validation turns each reference into a URL from an AssetLookup (built on the
+ *   server by lib/db/assets.ts, or fetched from GET /api/assets?ids= in the studio)
+ * - A reference missing from the lookup is a blocking E-ASSET error
+ */
+
+import type { NormalizedContent, RawLandingContent } from '@/lib/normalize/normalized.types';
+import { buildSitePageRaw } from '@/lib/normalize/site';
+
+export const ASSET_ID_PATTERN = /^ast_[A-Za-z0-9_-]{12}$/;
+
+/**
+ * An asset as content sees it: public URLs of the original and its variants
+ */
+export interface ResolvedAsset {
+  asset_id: string;
+  kind: string;
+  alt?: string | null;
+  url: string;
+  width: number;
+  height: number;
+  variants: Record<string, { url: string; width: number; height: number }>;
+}
+
+export type AssetLookup = Record<string, ResolvedAsset>;
+
+export interface AssetReference {
+  path: string; // Raw field, e.g. "brand.logoAssetId"
+  assetId: string;
+  variant: string; // Variant rendered for this field (falls back to the original)
+}
+
+/**
+ * Every asset id the raw content references
+ */
+export function collectAssetReferences(raw: Partial<RawLandingContent>): AssetReference[] {
+  const references: AssetReference[] = [];
+  const add = (path: string, value: unknown, variant: string) => {
+    if (typeof value === 'string' && value.trim()) {
+      references.push({ path, assetId: value.trim(), variant });
+    }
+  };
+
+  add('brand.logoAssetId', raw.brand?.logoAssetId, 'md');
+  add('ogImageAssetId', raw.ogImageAssetId, 'og');
+
+  const logos = raw.trustedBy?.logos;
+  if (Array.isArray(logos)) {
+    logos.forEach((logo, index) => add(`trustedBy.logos[${index}].assetId`, logo?.assetId, 'md'));
+  }
+
+  // Microsite pages share the parent's brand, so only their own images are collected
+  const pages = raw.site?.pages;
+  if (Array.isArray(pages)) {
+    pages.forEach((page, index) => {
+      if (!page?.content || typeof page.content !== 'object') return;
+      for (const reference of collectAssetReferences({ ...page.content, brand: undefined, site: undefined })) {
+        references.push({ ...reference, path: `site.pages[${index}].content.${reference.path}` });
+      }
+    });
+  }
+
+  return references;
+}
+
+/**
+ * URL of an asset's variant, or of the original when it has no such variant
+ */
+export function getAssetUrl(asset: ResolvedAsset, variant?: string): string {
+  return (variant && asset.variants[variant]?.url) || asset.url;
+}
+
+/**
+ * Fill the normalized content's image URLs from the raw content's asset references
+ * (an asset id wins over a URL in the same object)
+ */
+export function applyAssetUrls(
+  normalized: NormalizedContent,
+  raw: Partial<RawLandingContent>,
+  assets: AssetLookup
+): NormalizedContent {
+  for (const reference of collectAssetReferences(raw)) {
+    const asset = assets[reference.assetId];
+    if (!asset) continue;
+    const url = getAssetUrl(asset, reference.variant);
+
+    if (reference.path === 'brand.logoAssetId') {
+      normalized.brand = { ...normalized.brand, logoUrl: url };
+    } else if (reference.path === 'ogImageAssetId') {
+      normalized.seo = { ...normalized.seo, ogImage: url };
+    } else {
+      const logoIndex = reference.path.match(/^trustedBy\.logos\[(\d+)\]\.assetId$/);
+      const logo = logoIndex ? normalized.trustedBy?.logos?.[Number(logoIndex[1])] : undefined;
+      if (logo) {
+        logo.url = url;
+      }
+    }
+  }
+
+  // Microsite pages, each against its own raw content (parent brand included)
+  normalized.site?.pages.forEach((page, index) => {
+    applyAssetUrls(page.content, buildSitePageRaw(raw as RawLandingContent, raw.site?.pages?.[index]?.content), assets);
+  });
+
+  return normalized;
+}
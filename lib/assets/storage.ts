@@ -0,0 +1,120 @@
+/**
+ * CONTEXT FOR COPILOT — PART B (Multi-Tenant)
+ * Storage drivers for the asset library.
+ * - localStorage: files under public/uploads (served by Next.js from /uploads), for local development
+ * - supabaseStorage: a public Supabase Storage bucket, for production
+ * Keys look like "{asset_id}/{variant}.{ext}"; an uploaded file is never overwritten.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { supabaseAdmin } from '@/lib/db/supabase';
+
+export interface AssetStorage {
+  name: 'local' | 'supabase';
+  /** Store a file under a new key */
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  /** Remove files (used to clean up after a failed upload) */
+  remove(keys: string[]): Promise<void>;
+  /** URL a browser loads the file from */
+  getPublicUrl(key: string): string;
+}
+
+const LOCAL_PUBLIC_PREFIX = '/uploads';
+
+export function createLocalStorage(rootDir: string = path.join(process.cwd(), 'public', 'uploads')): AssetStorage {
+  const resolveKey = (key: string) => {
+    const filePath = path.resolve(rootDir, key);
+    if (!filePath.startsWith(path.resolve(rootDir) + path.sep)) {
+      throw new Error(`Invalid asset key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    name: 'local',
+
+    async put(key, body) {
+      const filePath = resolveKey(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, body, { flag: 'wx' });
+    },
+
+    async remove(keys) {
+      await Promise.all(keys.map((key) => fs.rm(resolveKey(key), { force: true })));
+      // Drop the asset's directory once it is empty
+      const dirs = new Set(keys.map((key) => path.dirname(resolveKey(key))));
+      await Promise.all(Array.from(dirs).map((dir) => fs.rmdir(dir).catch(() => undefined)));
+    },
+
+    getPublicUrl(key) {
+      return `${LOCAL_PUBLIC_PREFIX}/${key}`;
+    },
+  };
+}
+
+export function createSupabaseStorage(bucket: string = process.env.ASSET_STORAGE_BUCKET || 'assets'): AssetStorage {
+  return {
+    name: 'supabase',
+
+    async put(key, body, contentType) {
+      const { error } = await supabaseAdmin.storage.from(bucket).upload(key, body, {
+        contentType,
+        cacheControl: '31536000', // Keys are never reused
+        upsert: false,
+      });
+
+      if (error) {
+        console.error('[assets:supabase] Upload failed', { bucket, key, error: error.message });
+        throw error;
+      }
+    },
+
+    async remove(keys) {
+      if (keys.length === 0) return;
+      const { error } = await supabaseAdmin.storage.from(bucket).remove(keys);
+
+      if (error) {
+        console.error('[assets:supabase] Remove failed', { bucket, keys, error: error.message });
+        throw error;
+      }
+    },
+
+    getPublicUrl(key) {
+      return supabaseAdmin.storage.from(bucket).getPublicUrl(key).data.publicUrl;
+    },
+  };
+}
+
+let storage: AssetStorage | null = null;
+
+function resolveStorage(): AssetStorage {
+  const configured = process.env.ASSET_STORAGE;
+  if (configured === 'local') return createLocalStorage();
+  if (configured === 'supabase') return createSupabaseStorage();
+
+  if (configured) {
+    console.warn('[assets] Unknown ASSET_STORAGE, using the default', { configured });
+  }
+  return process.env.NODE_ENV === 'production' ? createSupabaseStorage() : createLocalStorage();
+}
+
+/**
+ * Driver new uploads go to (ASSET_STORAGE: "supabase" by default in production, "local" otherwise)
+ */
+export function getAssetStorage(): AssetStorage {
+  if (!storage) {
+    storage = resolveStorage();
+  }
+  return storage;
+}
+
+/**
+ * Driver an existing asset was stored with (each row records its driver, so
+ * switching ASSET_STORAGE does not break older assets' URLs)
+ */
+export function getStorageForDriver(driver: AssetStorage['name']): AssetStorage {
+  const current = getAssetStorage();
+  if (current.name === driver) return current;
+  return driver === 'local' ? createLocalStorage() : createSupabaseStorage();
+}
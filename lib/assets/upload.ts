@@ -0,0 +1,125 @@
+/**
+ * CONTEXT FOR COPILOT — PART B (Multi-Tenant)
+ * Asset uploads: check the image, generate its resized variants (ASSET_VARIANTS),
+ * store everything through the storage driver and record the assets row.
+ * The file's real format is read with sharp; the browser-supplied type is not trusted.
+ */
+
+import sharp from 'sharp';
+import { nanoid } from 'nanoid';
+import { getAssetStorage } from './storage';
+import { insertAsset } from '@/lib/db/assets';
+import type { AssetRow, AssetVariant } from '@/lib/db/supabase';
+import { ASSET_CONFIG, ASSET_VARIANTS, type AssetKind } from '@/config/constants';
+
+export interface AssetUploadInput {
+  file: Buffer;
+  filename: string;
+  kind: AssetKind;
+  sellerId?: string | null;
+  alt?: string | null;
+  createdBy: string;
+}
+
+export type AssetUploadResult = { ok: true; asset: AssetRow } | { ok: false; error: string };
+
+const FORMAT_CONTENT_TYPES: Record<string, { contentType: string; extension: string }> = {
+  png: { contentType: 'image/png', extension: 'png' },
+  jpeg: { contentType: 'image/jpeg', extension: 'jpg' },
+  webp: { contentType: 'image/webp', extension: 'webp' },
+  gif: { contentType: 'image/gif', extension: 'gif' },
+};
+
+/**
+ * Resize one variant (never upscales)
+ */
+async function renderVariant(
+  file: Buffer,
+  spec: (typeof ASSET_VARIANTS)[AssetKind][string]
+): Promise<{ body: Buffer; width: number; height: number; contentType: string; extension: string }> {
+  const pipeline = sharp(file, { animated: false })
+    .rotate() // Apply EXIF orientation
+    .resize({
+      width: spec.width,
+      height: spec.height,
+      fit: spec.fit,
+      withoutEnlargement: true,
+    });
+
+  const { data, info } = spec.format === 'jpeg'
+    ? await pipeline.flatten({ background: '#FFFFFF' }).jpeg({ quality: 85, mozjpeg: true }).toBuffer({ resolveWithObject: true })
+    : await pipeline.webp({ quality: 85 }).toBuffer({ resolveWithObject: true });
+
+  return {
+    body: data,
+    width: info.width,
+    height: info.height,
+    contentType: spec.format === 'jpeg' ? 'image/jpeg' : 'image/webp',
+    extension: spec.format === 'jpeg' ? 'jpg' : 'webp',
+  };
+}
+
+/**
+ * Store an uploaded image and its variants, then record it in the library
+ */
+export async function uploadAsset(input: AssetUploadInput): Promise<AssetUploadResult> {
+  if (input.file.length > ASSET_CONFIG.MAX_UPLOAD_BYTES) {
+    return { ok: false, error: `File must not exceed ${ASSET_CONFIG.MAX_UPLOAD_BYTES / 1_000_000} MB` };
+  }
+
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(input.file).metadata();
+  } catch {
+    return { ok: false, error: 'File is not a readable image' };
+  }
+
+  const format = metadata.format ? FORMAT_CONTENT_TYPES[metadata.format] : undefined;
+  if (!format || !(ASSET_CONFIG.ALLOWED_CONTENT_TYPES as readonly string[]).includes(format.contentType)) {
+    return { ok: false, error: `Unsupported image format (${metadata.format || 'unknown'}); upload PNG, JPEG, WebP or GIF` };
+  }
+
+  const assetId = `ast_${nanoid(12)}`;
+  const storage = getAssetStorage();
+  const storedKeys: string[] = [];
+
+  try {
+    const originalKey = `${assetId}/original.${format.extension}`;
+    await storage.put(originalKey, input.file, format.contentType);
+    storedKeys.push(originalKey);
+
+    const variants: Record<string, AssetVariant> = {};
+    for (const [name, spec] of Object.entries(ASSET_VARIANTS[input.kind])) {
+      const variant = await renderVariant(input.file, spec);
+      const key = `${assetId}/${name}.${variant.extension}`;
+      await storage.put(key, variant.body, variant.contentType);
+      storedKeys.push(key);
+      variants[name] = { key, width: variant.width, height: variant.height, content_type: variant.contentType };
+    }
+
+    const asset = await insertAsset({
+      asset_id: assetId,
+      kind: input.kind,
+      seller_id: input.sellerId?.toLowerCase() || null,
+      filename: input.filename,
+      alt: input.alt || null,
+      content_type: format.contentType,
+      bytes: input.file.length,
+      width: metadata.width ?? 0,
+      height: metadata.height ?? 0,
+      storage_driver: storage.name,
+      storage_key: originalKey,
+      variants,
+      created_by: input.createdBy,
+    });
+
+    console.info('[uploadAsset] Stored asset', { assetId, kind: input.kind, driver: storage.name });
+    return { ok: true, asset };
+  } catch (error) {
+    // Don't leave files behind for an asset that was never recorded
+    await storage.remove(storedKeys).catch((cleanupError) => {
+      console.error('[uploadAsset] Cleanup failed', { assetId, error: cleanupError });
+    });
+    throw error;
+  }
+}
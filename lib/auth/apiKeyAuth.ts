@@ -0,0 +1,76 @@
+/**
+ * API Key Authentication Helpers (server-only)
+ *
+ * Callers of the public REST API (/api/v1) send a seller-scoped key as
+ * `Authorization: Bearer lpk_...` (or the `x-api-key` header).
+ * A key may only read and publish pages for its own seller_id, and for its
+ * seller_domain when the key is restricted to one.
+ */
+
+import type { NextRequest } from 'next/server';
+import type { ApiKeyRow } from '@/lib/db/supabase';
+import { findActiveApiKey, touchApiKey } from '@/lib/db/apiKeys';
+import { API_KEY_CONFIG } from '@/config/constants';
+
+/**
+ * Result of authenticating an API request
+ */
+export type ApiKeyAuth =
+  | { ok: true; apiKey: ApiKeyRow }
+  | { ok: false; status: 401 | 500; error: string };
+
+/**
+ * Read the API key from the Authorization or x-api-key header
+ */
+function readApiKey(request: NextRequest): string | null {
+  const authorization = request.headers.get('authorization');
+  if (authorization?.toLowerCase().startsWith('bearer ')) {
+    return authorization.slice(7).trim() || null;
+  }
+
+  return request.headers.get('x-api-key')?.trim() || null;
+}
+
+/**
+ * Authenticate a /api/v1 request by its API key
+ * Revoked and unknown keys are rejected with the same message.
+ */
+export async function authenticateApiKey(request: NextRequest): Promise<ApiKeyAuth> {
+  const plaintextKey = readApiKey(request);
+  if (!plaintextKey || !plaintextKey.startsWith(API_KEY_CONFIG.PREFIX)) {
+    return { ok: false, status: 401, error: 'Missing or malformed API key' };
+  }
+
+  try {
+    const apiKey = await findActiveApiKey(plaintextKey);
+    if (!apiKey) {
+      return { ok: false, status: 401, error: 'Invalid or revoked API key' };
+    }
+
+    await touchApiKey(apiKey.id);
+    return { ok: true, apiKey };
+  } catch {
+    return { ok: false, status: 500, error: 'Failed to verify API key' };
+  }
+}
+
+/**
+ * Check whether a key may act on a page for this seller/domain
+ *
+ * @returns Error message, or null if the key is in scope
+ */
+export function checkApiKeyScope(
+  apiKey: ApiKeyRow,
+  sellerId: string | null | undefined,
+  sellerDomain: string | null | undefined
+): string | null {
+  if (sellerId !== apiKey.seller_id) {
+    return `This API key can only access pages for seller "${apiKey.seller_id}"`;
+  }
+
+  if (apiKey.seller_domain && sellerDomain !== apiKey.seller_domain) {
+    return `This API key can only access pages on ${apiKey.seller_domain}`;
+  }
+
+  return null;
+}
@@ -0,0 +1,66 @@
+/**
+ * Studio Authentication Helpers (server-only)
+ *
+ * Two ways a caller can prove it is the studio:
+ * - The `studio_auth` cookie set by /api/auth after login (dashboard/studio pages)
+ * - The STUDIO_PUBLISH_SECRET, passed to server actions or as the
+ *   `x-studio-secret` header (see lib/utils/studioFetch.ts)
+ */
+
+import crypto from 'crypto';
+import type { NextRequest } from 'next/server';
+
+/**
+ * Result of verifying a studio secret
+ */
+export type StudioSecretCheck =
+  | { ok: true }
+  | { ok: false; error: string };
+
+/**
+ * Verify a studio publish secret using a timing-safe comparison
+ *
+ * @param secret - Secret provided by the caller
+ * @returns ok or a user-facing error message
+ */
+export function verifyStudioSecret(secret: string | null | undefined): StudioSecretCheck {
+  const expectedSecret = process.env.STUDIO_PUBLISH_SECRET;
+  if (!expectedSecret) {
+    console.error('[studioAuth] STUDIO_PUBLISH_SECRET not configured');
+    return {
+      ok: false,
+      error: 'Server configuration error: STUDIO_PUBLISH_SECRET not set',
+    };
+  }
+
+  if (!secret || secret.length !== expectedSecret.length) {
+    return { ok: false, error: 'Unauthorized: Invalid publish secret' };
+  }
+
+  // Use crypto.timingSafeEqual for constant-time comparison
+  let isValid = false;
+  try {
+    isValid = crypto.timingSafeEqual(Buffer.from(secret), Buffer.from(expectedSecret));
+  } catch {
+    // Buffers of different lengths will throw
+    isValid = false;
+  }
+
+  return isValid
+    ? { ok: true }
+    : { ok: false, error: 'Unauthorized: Invalid publish secret' };
+}
+
+/**
+ * Check whether an API request comes from an authenticated studio user
+ * Accepts either the login cookie or a valid x-studio-secret header.
+ */
+export function isStudioRequest(request: NextRequest): boolean {
+  const authCookie = request.cookies.get('studio_auth');
+  if (authCookie?.value === 'authenticated') {
+    return true;
+  }
+
+  const headerSecret = request.headers.get('x-studio-secret');
+  return headerSecret ? verifyStudioSecret(headerSecret).ok : false;
+}
@@ -0,0 +1,144 @@
+/**
+ * CONTEXT FOR COPILOT — PART B (Multi-Tenant)
+ * Helper functions for the api_keys table used by the public REST API (/api/v1).
+ * Keys are generated here, shown once, and stored only as a SHA-256 hash.
+ */
+
+import crypto from 'crypto';
+import { supabaseAdmin, type ApiKeyRow } from './supabase';
+import { API_KEY_CONFIG } from '@/config/constants';
+
+/**
+ * Columns safe to return to the studio (omits key_hash)
+ */
+const API_KEY_PUBLIC_COLUMNS =
+  'id, name, key_prefix, seller_id, seller_domain, created_by, created_at, last_used_at, revoked_at';
+
+export type ApiKeySummary = Omit<ApiKeyRow, 'key_hash'>;
+
+/**
+ * Hash an API key for storage and lookup
+ */
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * List all API keys (newest first), without hashes
+ */
+export async function listApiKeys(): Promise<ApiKeySummary[]> {
+  const { data, error } = await supabaseAdmin
+    .from('api_keys')
+    .select(API_KEY_PUBLIC_COLUMNS)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('[listApiKeys] Supabase error:', { code: error.code, message: error.message });
+    throw error;
+  }
+
+  return (data || []) as ApiKeySummary[];
+}
+
+/**
+ * Create a new API key scoped to a seller (and optionally one seller_domain)
+ *
+ * @returns The stored key summary and the plaintext key (returned only here, never again)
+ */
+export async function createApiKey(input: {
+  name: string;
+  seller_id: string;
+  seller_domain?: string | null;
+  created_by?: string | null;
+}): Promise<{ apiKey: ApiKeySummary; plaintextKey: string }> {
+  const plaintextKey = `${API_KEY_CONFIG.PREFIX}${crypto.randomBytes(24).toString('base64url')}`;
+
+  const { data, error } = await supabaseAdmin
+    .from('api_keys')
+    .insert({
+      name: input.name,
+      key_prefix: plaintextKey.slice(0, API_KEY_CONFIG.DISPLAY_PREFIX_LENGTH),
+      key_hash: hashApiKey(plaintextKey),
+      seller_id: input.seller_id,
+      seller_domain: input.seller_domain || null,
+      created_by: input.created_by || null,
+    })
+    .select(API_KEY_PUBLIC_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    console.error('[createApiKey] Supabase error:', { code: error?.code, message: error?.message });
+    throw error ?? new Error('No row returned');
+  }
+
+  return { apiKey: data as ApiKeySummary, plaintextKey };
+}
+
+/**
+ * Revoke an API key (idempotent: revoking twice keeps the first revoked_at)
+ *
+ * @returns The revoked key, or null if it does not exist
+ */
+export async function revokeApiKey(id: string): Promise<ApiKeySummary | null> {
+  const { data: existing, error: fetchError } = await supabaseAdmin
+    .from('api_keys')
+    .select(API_KEY_PUBLIC_COLUMNS)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (fetchError) {
+    console.error('[revokeApiKey] Supabase error:', { id, code: fetchError.code, message: fetchError.message });
+    throw fetchError;
+  }
+
+  if (!existing || existing.revoked_at) {
+    return existing as ApiKeySummary | null;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('api_keys')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', id)
+    .select(API_KEY_PUBLIC_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error('[revokeApiKey] Supabase error:', { id, code: error.code, message: error.message });
+    throw error;
+  }
+
+  return data as ApiKeySummary;
+}
+
+/**
+ * Find an active (non-revoked) key by its plaintext value
+ */
+export async function findActiveApiKey(plaintextKey: string): Promise<ApiKeyRow | null> {
+  const { data, error } = await supabaseAdmin
+    .from('api_keys')
+    .select('*')
+    .eq('key_hash', hashApiKey(plaintextKey))
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[findActiveApiKey] Supabase error:', { code: error.code, message: error.message });
+    throw error;
+  }
+
+  return data as ApiKeyRow | null;
+}
+
+/**
+ * Record that a key was used (best effort, never throws)
+ */
+export async function touchApiKey(id: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('api_keys')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) {
+    console.warn('[touchApiKey] Failed to update last_used_at:', { id, message: error.message });
+  }
+}
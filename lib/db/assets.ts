@@ -0,0 +1,110 @@
+/**
+ * CONTEXT FOR COPILOT — PART B (Multi-Tenant)
+ * Helper functions for the assets table (asset library).
+ * Rows record where the original and each resized variant are stored; URLs are
+ * built from the row's storage driver (lib/assets/storage.ts).
+ */
+
+import { supabaseAdmin, type AssetRow } from './supabase';
+import { getStorageForDriver } from '@/lib/assets/storage';
+import { ASSET_ID_PATTERN, collectAssetReferences, type AssetLookup, type ResolvedAsset } from '@/lib/assets/references';
+import { applySellerDefaults, type SellerDefaults } from '@/lib/normalize/sellerDefaults';
+import type { RawLandingContent } from '@/lib/normalize/normalized.types';
+import { ASSET_CONFIG, type AssetKind } from '@/config/constants';
+
+/**
+ * Public URLs of an asset's original and variants
+ */
+export function toResolvedAsset(row: AssetRow): ResolvedAsset {
+  const storage = getStorageForDriver(row.storage_driver);
+
+  return {
+    asset_id: row.asset_id,
+    kind: row.kind,
+    alt: row.alt ?? null,
+    url: storage.getPublicUrl(row.storage_key),
+    width: row.width,
+    height: row.height,
+    variants: Object.fromEntries(
+      Object.entries(row.variants || {}).map(([name, variant]) => [
+        name,
+        { url: storage.getPublicUrl(variant.key), width: variant.width, height: variant.height },
+      ])
+    ),
+  };
+}
+
+/**
+ * Insert an asset row (files must already be stored)
+ */
+export async function insertAsset(row: AssetRow): Promise<AssetRow> {
+  const { data, error } = await supabaseAdmin.from('assets').insert(row).select('*').single();
+
+  if (error || !data) {
+    console.error('[insertAsset] Supabase error:', { assetId: row.asset_id, message: error?.message });
+    throw error ?? new Error('Asset insert returned no row');
+  }
+
+  return data as AssetRow;
+}
+
+/**
+ * Get assets by id (ids that do not exist are simply absent)
+ */
+export async function getAssets(assetIds: string[]): Promise<AssetRow[]> {
+  const ids = Array.from(new Set(assetIds)).filter((id) => ASSET_ID_PATTERN.test(id));
+  if (ids.length === 0) return [];
+
+  const { data, error } = await supabaseAdmin.from('assets').select('*').in('asset_id', ids);
+
+  if (error) {
+    console.error('[getAssets] Supabase error:', { count: ids.length, code: error.code, message: error.message });
+    throw error;
+  }
+
+  return (data || []) as AssetRow[];
+}
+
+/**
+ * List the library, newest first
+ */
+export async function listAssets(filters: { kind?: AssetKind; sellerId?: string } = {}): Promise<AssetRow[]> {
+  let query = supabaseAdmin
+    .from('assets')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(ASSET_CONFIG.LIST_LIMIT);
+
+  if (filters.kind) query = query.eq('kind', filters.kind);
+  if (filters.sellerId) query = query.eq('seller_id', filters.sellerId.toLowerCase());
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('[listAssets] Supabase error:', { filters, code: error.code, message: error.message });
+    throw error;
+  }
+
+  return (data || []) as AssetRow[];
+}
+
+/**
+ * AssetLookup for validateAndNormalize
+ */
+export async function getAssetLookup(assetIds: string[]): Promise<AssetLookup> {
+  const rows = await getAssets(assetIds);
+  return Object.fromEntries(rows.map((row) => [row.asset_id, toResolvedAsset(row)]));
+}
+
+/**
+ * AssetLookup for everything a page references, including its seller profile's logo
+ */
+export async function getAssetLookupForContent(
+  raw: unknown,
+  sellerDefaults?: SellerDefaults | null
+): Promise<AssetLookup> {
+  if (!raw || typeof raw !== 'object') return {};
+
+  const merged = applySellerDefaults(raw as Partial<RawLandingContent>, sellerDefaults);
+  return getAssetLookup(collectAssetReferences(merged).map((reference) => reference.assetId));
+}
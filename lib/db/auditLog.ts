@@ -0,0 +1,166 @@
+/**
+ * CONTEXT FOR COPILOT — PART B (Multi-Tenant)
+ * Helper functions for the append-only audit_events table.
+ * - recordAuditEvent never throws: a failed audit write is logged, the audited action still succeeds
+ * - Request info (IP, user agent) comes from route handler headers, or next/headers in server actions
+ * - listAuditEvents / auditEventsToCsv back the studio audit view and its CSV export
+ */
+
+import { headers } from 'next/headers';
+import { supabaseAdmin, type AuditEventRow } from './supabase';
+import type { AuditAction } from '@/config/constants';
+
+/**
+ * Max rows returned by one query (the CSV export uses the same cap)
+ */
+const MAX_AUDIT_ROWS = 5000;
+
+export interface AuditRequestInfo {
+  ip: string | null;
+  user_agent: string | null;
+}
+
+export interface AuditEventFilters {
+  action?: AuditAction | null;
+  actor?: string | null;        // Case-insensitive substring match
+  page_url_key?: string | null;
+  from?: string | null;         // ISO 8601, inclusive
+  to?: string | null;           // ISO 8601, inclusive
+  limit?: number;
+}
+
+/**
+ * Client IP and user agent from request headers
+ * Uses the first x-forwarded-for hop (set by Vercel), then x-real-ip.
+ */
+export function getAuditRequestInfo(requestHeaders: Headers): AuditRequestInfo {
+  const ip =
+    requestHeaders.get('x-forwarded-for')?.split(',')[0]?.trim() ||
+    requestHeaders.get('x-real-ip') ||
+    null;
+
+  return {
+    ip,
+    user_agent: requestHeaders.get('user-agent')?.slice(0, 500) || null,
+  };
+}
+
+/**
+ * Request info for server actions (publishLanding, draft workflow)
+ * Returns nulls when called outside a request (e.g. scripts).
+ */
+export async function getActionRequestInfo(): Promise<AuditRequestInfo> {
+  try {
+    return getAuditRequestInfo(await headers());
+  } catch {
+    return { ip: null, user_agent: null };
+  }
+}
+
+/**
+ * Append an entry to the audit log
+ *
+ * @param event - Actor, action, target and optional before/after content_sha
+ * @param requestInfo - IP and user agent of the caller (omit for background jobs)
+ */
+export async function recordAuditEvent(
+  event: Omit<AuditEventRow, 'id' | 'occurred_at' | 'ip' | 'user_agent'>,
+  requestInfo?: AuditRequestInfo
+): Promise<void> {
+  try {
+    const { error } = await supabaseAdmin
+      .from('audit_events')
+      .insert({
+        ...event,
+        metadata: event.metadata ?? {},
+        ip: requestInfo?.ip ?? null,
+        user_agent: requestInfo?.user_agent ?? null,
+      });
+
+    if (error) {
+      console.error('[recordAuditEvent] Failed to write audit event', {
+        action: event.action,
+        target: event.page_url_key ?? event.target_id,
+        error: error.message,
+      });
+    }
+  } catch (error) {
+    console.error('[recordAuditEvent] Unexpected error', {
+      action: event.action,
+      errorMessage: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * List audit events, newest first
+ */
+export async function listAuditEvents(filters: AuditEventFilters = {}): Promise<AuditEventRow[]> {
+  let query = supabaseAdmin
+    .from('audit_events')
+    .select('*')
+    .order('occurred_at', { ascending: false })
+    .limit(Math.min(Math.max(filters.limit ?? 500, 1), MAX_AUDIT_ROWS));
+
+  if (filters.action) {
+    query = query.eq('action', filters.action);
+  }
+  if (filters.actor) {
+    query = query.ilike('actor', `%${filters.actor.replace(/[%_\\]/g, '\\$&')}%`);
+  }
+  if (filters.page_url_key) {
+    query = query.eq('page_url_key', filters.page_url_key);
+  }
+  if (filters.from) {
+    query = query.gte('occurred_at', filters.from);
+  }
+  if (filters.to) {
+    query = query.lte('occurred_at', filters.to);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('[listAuditEvents] Supabase error:', { code: error.code, message: error.message });
+    throw error;
+  }
+
+  return (data || []) as AuditEventRow[];
+}
+
+const CSV_COLUMNS: Array<keyof AuditEventRow> = [
+  'occurred_at',
+  'actor',
+  'action',
+  'target_type',
+  'target_id',
+  'page_url_key',
+  'before_sha',
+  'after_sha',
+  'ip',
+  'user_agent',
+  'metadata',
+];
+
+/**
+ * Quote a CSV cell; cells that a spreadsheet would run as a formula are prefixed with '
+ */
+function toCsvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  let text = typeof value === 'string' ? value : JSON.stringify(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render audit events as CSV (header row + one line per event)
+ */
+export function auditEventsToCsv(rows: AuditEventRow[]): string {
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const row of rows) {
+    lines.push(CSV_COLUMNS.map((column) => toCsvCell(row[column])).join(','));
+  }
+  return `${lines.join('\r\n')}\r\n`;
+}
@@ -0,0 +1,162 @@
+/**
+ * CONTEXT FOR COPILOT — PART B (Multi-Tenant)
+ * Helper functions for the api_idempotency_keys table.
+ * A mutating /api/v1 request sent with an Idempotency-Key header reserves the key
+ * here before it runs, then stores its response; retries with the same key and
+ * body get the stored response back (or 409 while the first request is in flight).
+ */
+
+import crypto from 'crypto';
+import { supabaseAdmin } from './supabase';
+import { API_KEY_CONFIG } from '@/config/constants';
+
+/**
+ * Outcome of reserving an idempotency key
+ * - reserved: first time this key is seen, run the request (then store or release it)
+ * - replay: same key and same request, return the stored response
+ * - conflict: same key reused for a different request
+ * - in_flight: same key is reserved by a request that hasn't finished yet
+ */
+export type IdempotencyReservation =
+  | { kind: 'reserved' }
+  | { kind: 'replay'; status: number; body: unknown }
+  | { kind: 'conflict' }
+  | { kind: 'in_flight' };
+
+/**
+ * Identifies one reserved request
+ */
+export interface IdempotencyEntry {
+  apiKeyId: string;
+  idempotencyKey: string;
+  method: string;
+  path: string;
+  requestSha: string;
+}
+
+/**
+ * Fingerprint of a request (method + path + raw body)
+ */
+export function computeRequestSha(method: string, path: string, body: string): string {
+  return crypto.createHash('sha256').update(`${method}\n${path}\n${body}`).digest('hex');
+}
+
+/**
+ * Reserve (api key, idempotency key) before running the request
+ * The pending row is inserted under the primary key, so of two concurrent requests
+ * only one is reserved. Entries older than API_KEY_CONFIG.IDEMPOTENCY_TTL_HOURS, and
+ * reservations older than IDEMPOTENCY_PENDING_TIMEOUT_SECONDS (a crashed request), are taken over.
+ */
+export async function reserveIdempotencyKey(entry: IdempotencyEntry): Promise<IdempotencyReservation> {
+  const now = new Date();
+  const pendingRow = {
+    api_key_id: entry.apiKeyId,
+    idempotency_key: entry.idempotencyKey,
+    request_method: entry.method,
+    request_path: entry.path,
+    request_sha: entry.requestSha,
+    response_status: null,
+    response_body: null,
+    created_at: now.toISOString(),
+  };
+
+  const { error: insertError } = await supabaseAdmin.from('api_idempotency_keys').insert(pendingRow);
+  if (!insertError) {
+    return { kind: 'reserved' };
+  }
+  if (insertError.code !== '23505') {
+    console.error('[reserveIdempotencyKey] Supabase error:', { code: insertError.code, message: insertError.message });
+    throw insertError;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('api_idempotency_keys')
+    .select('request_sha, response_status, response_body, created_at')
+    .eq('api_key_id', entry.apiKeyId)
+    .eq('idempotency_key', entry.idempotencyKey)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[reserveIdempotencyKey] Supabase error:', { code: error.code, message: error.message });
+    throw error;
+  }
+
+  // Released between our insert and this read: let the client retry
+  if (!data) {
+    return { kind: 'in_flight' };
+  }
+
+  const createdAt = new Date(data.created_at).getTime();
+  const isPending = data.response_status === null;
+  const expired = createdAt < now.getTime() - API_KEY_CONFIG.IDEMPOTENCY_TTL_HOURS * 60 * 60 * 1000;
+  const abandoned =
+    isPending && createdAt < now.getTime() - API_KEY_CONFIG.IDEMPOTENCY_PENDING_TIMEOUT_SECONDS * 1000;
+
+  if (expired || abandoned) {
+    // Take over only if nobody else did first (created_at is unchanged)
+    const { data: taken, error: takeError } = await supabaseAdmin
+      .from('api_idempotency_keys')
+      .update(pendingRow)
+      .eq('api_key_id', entry.apiKeyId)
+      .eq('idempotency_key', entry.idempotencyKey)
+      .eq('created_at', data.created_at)
+      .select('idempotency_key');
+
+    if (takeError) {
+      console.error('[reserveIdempotencyKey] Supabase error:', { code: takeError.code, message: takeError.message });
+      throw takeError;
+    }
+
+    return taken && taken.length > 0 ? { kind: 'reserved' } : { kind: 'in_flight' };
+  }
+
+  if (data.request_sha !== entry.requestSha) {
+    return { kind: 'conflict' };
+  }
+
+  return isPending
+    ? { kind: 'in_flight' }
+    : { kind: 'replay', status: data.response_status, body: data.response_body };
+}
+
+/**
+ * Store the response on a reserved key (best effort, never throws)
+ */
+export async function storeIdempotentResponse(
+  entry: IdempotencyEntry & { status: number; body: unknown }
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('api_idempotency_keys')
+    .update({ response_status: entry.status, response_body: entry.body })
+    .eq('api_key_id', entry.apiKeyId)
+    .eq('idempotency_key', entry.idempotencyKey)
+    .eq('request_sha', entry.requestSha);
+
+  if (error) {
+    console.warn('[storeIdempotentResponse] Failed to store response:', {
+      idempotencyKey: entry.idempotencyKey,
+      message: error.message,
+    });
+  }
+}
+
+/**
+ * Drop a reservation without a response (5xx or thrown), so the client can retry
+ * Best effort, never throws: a leftover reservation expires after IDEMPOTENCY_PENDING_TIMEOUT_SECONDS.
+ */
+export async function releaseIdempotencyKey(entry: IdempotencyEntry): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('api_idempotency_keys')
+    .delete()
+    .eq('api_key_id', entry.apiKeyId)
+    .eq('idempotency_key', entry.idempotencyKey)
+    .eq('request_sha', entry.requestSha)
+    .is('response_status', null);
+
+  if (error) {
+    console.warn('[releaseIdempotencyKey] Failed to release reservation:', {
+      idempotencyKey: entry.idempotencyKey,
+      message: error.message,
+    });
+  }
+}
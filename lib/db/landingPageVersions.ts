@@ -0,0 +1,100 @@
+/**
+ * CONTEXT FOR COPILOT — PART B (Multi-Tenant)
+ * Helper functions for the landing_page_versions history table.
+ * Snapshots are append-only: they are written on publish/restore and never updated.
+ */
+
+import { supabaseAdmin, type LandingPageVersionRow } from './supabase';
+
+/**
+ * Summary columns used when listing versions (omits the heavy page_content)
+ */
+const VERSION_SUMMARY_COLUMNS =
+  'id, landing_page_id, page_url_key, version, content_sha, published_by, restored_from_version, published_at, created_at';
+
+export type LandingPageVersionSummary = Omit<LandingPageVersionRow, 'page_content'>;
+
+/**
+ * List all versions of a landing page, newest first
+ *
+ * @param landingPageId - landing_pages.id
+ * @returns Version summaries (without page_content)
+ */
+export async function listLandingPageVersions(
+  landingPageId: string
+): Promise<LandingPageVersionSummary[]> {
+  const { data, error } = await supabaseAdmin
+    .from('landing_page_versions')
+    .select(VERSION_SUMMARY_COLUMNS)
+    .eq('landing_page_id', landingPageId)
+    .order('version', { ascending: false });
+
+  if (error) {
+    console.error('[listLandingPageVersions] Supabase error:', {
+      landingPageId,
+      code: error.code,
+      message: error.message,
+    });
+    throw error;
+  }
+
+  return (data || []) as LandingPageVersionSummary[];
+}
+
+/**
+ * Fetch a single version snapshot including its page_content
+ * Returns null if the version does not exist
+ *
+ * @param landingPageId - landing_pages.id
+ * @param version - Version number
+ */
+export async function getLandingPageVersion(
+  landingPageId: string,
+  version: number
+): Promise<LandingPageVersionRow | null> {
+  const { data, error } = await supabaseAdmin
+    .from('landing_page_versions')
+    .select('*')
+    .eq('landing_page_id', landingPageId)
+    .eq('version', version)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[getLandingPageVersion] Supabase error:', {
+      landingPageId,
+      version,
+      code: error.code,
+      message: error.message,
+    });
+    throw error;
+  }
+
+  return data as LandingPageVersionRow | null;
+}
+
+/**
+ * Append a version snapshot
+ * Called after the landing_pages row has been written for that version.
+ *
+ * @param snapshot - Version row to insert
+ * @returns Error message or null on success
+ */
+export async function recordLandingPageVersion(
+  snapshot: Omit<LandingPageVersionRow, 'id' | 'created_at'>
+): Promise<string | null> {
+  const { error } = await supabaseAdmin
+    .from('landing_page_versions')
+    .insert(snapshot);
+
+  if (error) {
+    console.error('[recordLandingPageVersion] Supabase error:', {
+      landingPageId: snapshot.landing_page_id,
+      version: snapshot.version,
+      code: error.code,
+      message: error.message,
+    });
+    return error.message;
+  }
+
+  return null;
+}
@@ -0,0 +1,110 @@
+/**
+ * CONTEXT FOR COPILOT — PART B (Multi-Tenant)
+ * Primary page per buyer subdomain.
+ * - A buyer can have several live pages on one seller domain (one per month, vanity keys)
+ * - The bare subdomain ({buyer}.{seller_domain}) serves the page marked is_primary, or the
+ *   most recently published one if none is (lib/db/publishedLanding.ts)
+ * - The others stay reachable at {buyer}.{seller_domain}/{mmyy} or /{page_url_key}
+ * - Switching the primary page is written to the audit log
+ */
+
+import { supabaseAdmin, type LandingPageRow } from './supabase';
+import { recordAuditEvent, type AuditRequestInfo } from './auditLog';
+
+type PrimaryPage = Pick<LandingPageRow, 'page_url_key' | 'buyer_id' | 'seller_domain' | 'mmyy' | 'is_primary'> & {
+  id: string;
+};
+
+export type SetPrimaryResult =
+  | { ok: true; page: PrimaryPage; previous: string | null }
+  | { ok: false; status: 404 | 409 | 500; error: string };
+
+/**
+ * Make a published page the one its buyer's bare subdomain serves
+ *
+ * @param id - landing_pages.id of a published page with a seller_domain
+ * @param actor - Actor shown in the audit log
+ * @param requestInfo - Caller IP and user agent for the audit log
+ */
+export async function setPrimaryLanding(
+  id: string,
+  actor: string,
+  requestInfo?: AuditRequestInfo
+): Promise<SetPrimaryResult> {
+  const { data: page, error: findError } = await supabaseAdmin
+    .from('landing_pages')
+    .select('id, page_url_key, buyer_id, seller_domain, mmyy, status, is_primary')
+    .eq('id', id)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (findError) {
+    console.error('[setPrimaryLanding] Database query error', { id, error: findError.message });
+    return { ok: false, status: 500, error: `Failed to load page: ${findError.message}` };
+  }
+  if (!page) {
+    return { ok: false, status: 404, error: 'Landing page not found' };
+  }
+  if (page.status !== 'published') {
+    return { ok: false, status: 409, error: 'Only a published page can be the primary page' };
+  }
+  if (!page.buyer_id || !page.seller_domain) {
+    return { ok: false, status: 409, error: 'The page has no buyer subdomain (set buyer_id and seller_domain)' };
+  }
+
+  // The unique index allows one primary per buyer and domain, so clear the old one first
+  const { data: cleared, error: clearError } = await supabaseAdmin
+    .from('landing_pages')
+    .update({ is_primary: false })
+    .eq('buyer_id', page.buyer_id)
+    .eq('seller_domain', page.seller_domain)
+    .eq('is_primary', true)
+    .neq('id', id)
+    .select('page_url_key');
+
+  if (clearError) {
+    console.error('[setPrimaryLanding] Clear error', { id, error: clearError.message });
+    return { ok: false, status: 500, error: `Failed to update pages: ${clearError.message}` };
+  }
+
+  const { error: updateError } = await supabaseAdmin
+    .from('landing_pages')
+    .update({ is_primary: true })
+    .eq('id', id);
+
+  if (updateError) {
+    console.error('[setPrimaryLanding] Update error', { id, error: updateError.message });
+    return { ok: false, status: 500, error: `Failed to update page: ${updateError.message}` };
+  }
+
+  const previous = cleared?.[0]?.page_url_key ?? null;
+
+  await recordAuditEvent({
+    actor,
+    action: 'page.set_primary',
+    target_type: 'page',
+    target_id: id,
+    page_url_key: page.page_url_key,
+    metadata: { buyer_id: page.buyer_id, seller_domain: page.seller_domain, previous },
+  }, requestInfo);
+
+  console.info('[setPrimaryLanding] Primary page set', {
+    id,
+    slug: page.page_url_key,
+    host: `${page.buyer_id}.${page.seller_domain}`,
+    previous,
+  });
+
+  return {
+    ok: true,
+    page: {
+      id: page.id,
+      page_url_key: page.page_url_key,
+      buyer_id: page.buyer_id,
+      seller_domain: page.seller_domain,
+      mmyy: page.mmyy,
+      is_primary: true,
+    },
+    previous,
+  };
+}
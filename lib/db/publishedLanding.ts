@@ -6,6 +6,8 @@
 
 import { supabaseAdmin, type LandingPageRow, hasNormalizedContent } from './supabase';
 import type { NormalizedContent } from '@/lib/normalize/normalized.types';
+import { getSitePage } from '@/lib/normalize/site';
+import { isIndexable } from '@/lib/seo/canonical';
 
 /**
  * Cache tag format for Option A (Global Slugs)
@@ -52,41 +54,192 @@ export async function getPublishedLanding(slug: string): Promise<LandingPageRow
   return data as LandingPageRow;
 }
 
+/**
+ * Path segment that selects one of a buyer's pages on their subdomain
+ * (adient.cyngn.com/1025 or adient.cyngn.com/adient-autonomy)
+ */
+const DOMAIN_PATH_REGEX = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
 /**
  * Fetch a published landing page by buyer_id and seller_domain (for wildcard routing)
  * Returns null if not found, not published, or soft-deleted
  * 
+ * Resolution policy when the buyer has several live pages on the domain:
+ * - With a path, the page whose mmyy or page_url_key matches it
+ * - Without one (the bare subdomain), the page marked is_primary, else the most
+ *   recently published page
+ * 
  * @param buyerId - The buyer identifier (e.g., 'adient')
  * @param sellerDomain - The seller's domain (e.g., 'cyngn.com')
+ * @param path - Optional path segment after the host (e.g., '1025')
  * @returns Published landing page row or null
  */
 export async function getPublishedLandingByDomain(
   buyerId: string,
-  sellerDomain: string
+  sellerDomain: string,
+  path?: string
 ): Promise<LandingPageRow | null> {
-  const { data, error } = await supabaseAdmin
+  if (path && !DOMAIN_PATH_REGEX.test(path)) {
+    return null;
+  }
+
+  let query = supabaseAdmin
     .from('landing_pages')
     .select('*')
     .eq('buyer_id', buyerId)
     .eq('seller_domain', sellerDomain)
     .eq('status', 'published')
-    .is('deleted_at', null)
-    .single();
+    .is('deleted_at', null);
+
+  if (path) {
+    query = query.or(`mmyy.eq.${path},page_url_key.eq.${path}`);
+  }
+
+  const { data, error } = await query
+    .order('is_primary', { ascending: false })
+    .order('published_at', { ascending: false, nullsFirst: false })
+    .limit(1)
+    .maybeSingle();
 
   if (error) {
-    if (error.code === 'PGRST116') {
-      return null;
-    }
     console.error('[getPublishedLandingByDomain] Supabase error:', {
       buyerId,
       sellerDomain,
+      path,
       code: error.code,
       message: error.message,
     });
     throw error;
   }
 
-  return data as LandingPageRow;
+  return data as LandingPageRow | null;
+}
+
+/**
+ * A buyer subdomain request resolved to a page (and microsite child page)
+ */
+export interface DomainLanding {
+  row: LandingPageRow;
+  sitePage: string | null; // Child page slug, null for the page itself
+  basePath: string; // Path of the page on the subdomain ("" or "/{mmyy}"), for the site navigation
+}
+
+/**
+ * Resolve a buyer subdomain path to a published page
+ * - "" → the primary page
+ * - "/{mmyy}" or "/{page_url_key}" → that page; otherwise "/{child}" → a child page of the primary page
+ * - "/{mmyy}/{child}" → a child page of that page
+ * 
+ * @param domainPath - Path after the host without leading/trailing slashes (middleware _domain_path)
+ */
+export async function resolveDomainLanding(
+  buyerId: string,
+  sellerDomain: string,
+  domainPath?: string
+): Promise<DomainLanding | null> {
+  const segments = (domainPath || '').split('/').filter(Boolean);
+  if (segments.length > 2) {
+    return null;
+  }
+
+  const [selector, child] = segments;
+  if (!selector) {
+    const row = await getPublishedLandingByDomain(buyerId, sellerDomain);
+    return row ? { row, sitePage: null, basePath: '' } : null;
+  }
+
+  const row = await getPublishedLandingByDomain(buyerId, sellerDomain, selector);
+  if (row && !child) {
+    return { row, sitePage: null, basePath: `/${selector}` };
+  }
+  if (row && child) {
+    return getSitePage(extractNormalizedContent(row), child) ? { row, sitePage: child, basePath: `/${selector}` } : null;
+  }
+  if (child) {
+    return null;
+  }
+
+  const primary = await getPublishedLandingByDomain(buyerId, sellerDomain);
+  return primary && getSitePage(extractNormalizedContent(primary), selector)
+    ? { row: primary, sitePage: selector, basePath: '' }
+    : null;
+}
+
+/**
+ * Fetch a landing page that was archived because its expire_at passed
+ * Used to show the expired-page experience instead of a 404
+ * 
+ * @param slug - The page_url_key to fetch
+ * @returns Expired landing page row or null
+ */
+export async function getExpiredLanding(slug: string): Promise<LandingPageRow | null> {
+  const { data, error } = await supabaseAdmin
+    .from('landing_pages')
+    .select('*')
+    .eq('page_url_key', slug)
+    .eq('status', 'archived')
+    .not('expire_at', 'is', null)
+    .lte('expire_at', new Date().toISOString())
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[getExpiredLanding] Supabase error:', {
+      slug,
+      code: error.code,
+      message: error.message,
+    });
+    throw error;
+  }
+
+  return data as LandingPageRow | null;
+}
+
+/**
+ * Fetch an expired landing page by buyer_id and seller_domain (for wildcard routing)
+ * Returns the most recently expired page if several campaigns have ended
+ * (with a path, only the page whose mmyy or page_url_key matches it)
+ */
+export async function getExpiredLandingByDomain(
+  buyerId: string,
+  sellerDomain: string,
+  path?: string
+): Promise<LandingPageRow | null> {
+  if (path && !DOMAIN_PATH_REGEX.test(path)) {
+    return null;
+  }
+
+  let query = supabaseAdmin
+    .from('landing_pages')
+    .select('*')
+    .eq('buyer_id', buyerId)
+    .eq('seller_domain', sellerDomain)
+    .eq('status', 'archived')
+    .not('expire_at', 'is', null)
+    .lte('expire_at', new Date().toISOString())
+    .is('deleted_at', null);
+
+  if (path) {
+    query = query.or(`mmyy.eq.${path},page_url_key.eq.${path}`);
+  }
+
+  const { data, error } = await query
+    .order('expire_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[getExpiredLandingByDomain] Supabase error:', {
+      buyerId,
+      sellerDomain,
+      path,
+      code: error.code,
+      message: error.message,
+    });
+    throw error;
+  }
+
+  return data as LandingPageRow | null;
 }
 
 /**
@@ -94,9 +247,10 @@ export async function getPublishedLandingByDomain(
  */
 export async function getPublishedContentByDomain(
   buyerId: string,
-  sellerDomain: string
+  sellerDomain: string,
+  path?: string
 ): Promise<NormalizedContent | null> {
-  const row = await getPublishedLandingByDomain(buyerId, sellerDomain);
+  const row = await getPublishedLandingByDomain(buyerId, sellerDomain, path);
   return extractNormalizedContent(row);
 }
 
@@ -145,24 +299,34 @@ export async function getPublishedContent(
  * Generate metadata from normalized content
  * Used by Next.js generateMetadata() function
  * 
+ * Pages are noindex unless seo.index is set; seo.title overrides the headline.
+ * 
  * @param content - Normalized content
+ * @param canonicalUrl - Canonical URL of the page (lib/seo/canonical.ts getCanonicalUrl)
  * @returns Metadata object for Next.js
  */
-export function generateMetadataFromContent(content: NormalizedContent) {
+export function generateMetadataFromContent(content: NormalizedContent, canonicalUrl?: string) {
   const { title, seo, hero } = content;
+  const pageTitle = seo?.title || title || hero.headline;
+  const indexable = isIndexable(seo);
 
   return {
-    title: title || hero.headline,
+    title: pageTitle,
     description: seo?.description || hero.subhead || undefined,
+    robots: { index: indexable, follow: indexable },
+    ...(canonicalUrl ? { alternates: { canonical: canonicalUrl } } : {}),
     openGraph: {
-      title: title || hero.headline,
+      title: pageTitle,
       description: seo?.description || hero.subhead || undefined,
       type: 'website',
+      ...(canonicalUrl ? { url: canonicalUrl } : {}),
+      ...(seo?.ogImage ? { images: [{ url: seo.ogImage, width: 1200, height: 630 }] } : {}),
     },
     twitter: {
       card: 'summary_large_image',
-      title: title || hero.headline,
+      title: pageTitle,
       description: seo?.description || hero.subhead || undefined,
+      ...(seo?.ogImage ? { images: [seo.ogImage] } : {}),
     },
   };
 }
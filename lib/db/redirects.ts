@@ -0,0 +1,153 @@
+/**
+ * CONTEXT FOR COPILOT — PART B (Multi-Tenant)
+ * Helper functions for the landing_page_redirects table.
+ * - Old keys 301 to the current key (middleware first, /p/[slug] as a fallback)
+ * - Chains are flattened when written, so a lookup is always a single hop
+ * - Publishing to a key removes any redirect away from it (the live page wins)
+ */
+
+import { supabaseAdmin } from './supabase';
+
+/**
+ * How long middleware caches a lookup (including "no redirect") per instance
+ */
+const REDIRECT_CACHE_TTL_MS = 60_000;
+
+const redirectCache = new Map<string, { to: string | null; expiresAt: number }>();
+
+/**
+ * Find the current key for an old page_url_key
+ *
+ * @returns Target page_url_key, or null if the key is not redirected
+ */
+export async function findRedirect(fromPageUrlKey: string): Promise<string | null> {
+  const { data, error } = await supabaseAdmin
+    .from('landing_page_redirects')
+    .select('to_page_url_key')
+    .eq('from_page_url_key', fromPageUrlKey)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[findRedirect] Supabase error:', {
+      fromPageUrlKey,
+      code: error.code,
+      message: error.message,
+    });
+    throw error;
+  }
+
+  return data?.to_page_url_key ?? null;
+}
+
+/**
+ * findRedirect without a cache that never throws, for the /p/[slug] fallback
+ * Only reached when no live page was found, so it must see a redirect recorded
+ * moments ago (the middleware cache may still hold "no redirect" for the key).
+ * A failed lookup means "no redirect" and the page falls through to expired / 404.
+ */
+export async function findRedirectSafe(fromPageUrlKey: string): Promise<string | null> {
+  try {
+    return await findRedirect(fromPageUrlKey);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * findRedirect with a short per-instance cache, for the middleware hot path
+ * Never throws: a failed lookup means "no redirect" and the page renders normally.
+ */
+export async function findRedirectCached(fromPageUrlKey: string): Promise<string | null> {
+  const cached = redirectCache.get(fromPageUrlKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.to;
+  }
+
+  try {
+    const to = await findRedirect(fromPageUrlKey);
+    redirectCache.set(fromPageUrlKey, { to, expiresAt: Date.now() + REDIRECT_CACHE_TTL_MS });
+    return to;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Point old keys at a page's current key
+ *
+ * - Drops any redirect away from toPageUrlKey (a page is live there now)
+ * - Re-points existing redirects that ended at one of the old keys (flattens chains)
+ * - Upserts one redirect per old key
+ *
+ * @param fromPageUrlKeys - Old keys (the current key itself is ignored)
+ * @param toPageUrlKey - Key the page now lives at
+ * @param createdBy - Free-text author recorded on new redirects
+ * @returns Error message or null on success
+ */
+export async function recordRedirects(
+  fromPageUrlKeys: string[],
+  toPageUrlKey: string,
+  createdBy: string | null
+): Promise<string | null> {
+  const fromKeys = [...new Set(fromPageUrlKeys)].filter((key) => key !== toPageUrlKey);
+  const now = new Date().toISOString();
+
+  const { error: clearError } = await supabaseAdmin
+    .from('landing_page_redirects')
+    .delete()
+    .eq('from_page_url_key', toPageUrlKey);
+
+  if (clearError) {
+    console.error('[recordRedirects] Failed to clear redirect from live key', {
+      toPageUrlKey,
+      error: clearError.message,
+    });
+    return clearError.message;
+  }
+
+  if (fromKeys.length === 0) {
+    redirectCache.delete(toPageUrlKey);
+    return null;
+  }
+
+  const { error: flattenError } = await supabaseAdmin
+    .from('landing_page_redirects')
+    .update({ to_page_url_key: toPageUrlKey, updated_at: now })
+    .in('to_page_url_key', fromKeys);
+
+  if (flattenError) {
+    console.error('[recordRedirects] Failed to flatten redirect chains', {
+      toPageUrlKey,
+      error: flattenError.message,
+    });
+    return flattenError.message;
+  }
+
+  const { error: upsertError } = await supabaseAdmin
+    .from('landing_page_redirects')
+    .upsert(
+      fromKeys.map((fromKey) => ({
+        from_page_url_key: fromKey,
+        to_page_url_key: toPageUrlKey,
+        created_by: createdBy,
+        updated_at: now,
+      })),
+      { onConflict: 'from_page_url_key' }
+    );
+
+  if (upsertError) {
+    console.error('[recordRedirects] Failed to write redirects', {
+      fromKeys,
+      toPageUrlKey,
+      error: upsertError.message,
+    });
+    return upsertError.message;
+  }
+
+  for (const key of [toPageUrlKey, ...fromKeys]) {
+    redirectCache.delete(key);
+  }
+
+  console.info('[recordRedirects] Redirects recorded', { fromKeys, toPageUrlKey });
+  return null;
+}
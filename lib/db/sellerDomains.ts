@@ -0,0 +1,212 @@
+/**
+ * CONTEXT FOR COPILOT — PART B (Multi-Tenant)
+ * Helper functions for the seller_domains table (domain registry).
+ * - A domain belongs to one seller and is served only once its DNS TXT record is verified
+ * - PLATFORM_DOMAINS (our own hosts) are always served and need no entry
+ * - The middleware reads the registry through a short per-instance cache
+ */
+
+import { supabaseAdmin, type SellerDomainRow } from './supabase';
+import { DOMAIN_VERIFICATION_CONFIG, PLATFORM_DOMAINS } from '@/config/constants';
+
+const domainCache = new Map<string, { verified: boolean; expiresAt: number }>();
+
+/**
+ * Whether a domain is (or is under) one of the platform's own domains
+ */
+export function isPlatformDomain(domain: string): boolean {
+  const host = domain.toLowerCase();
+  return PLATFORM_DOMAINS.some((platform) => host === platform || host.endsWith(`.${platform}`));
+}
+
+/**
+ * Get a registry entry by domain
+ */
+export async function getSellerDomain(domain: string): Promise<SellerDomainRow | null> {
+  const { data, error } = await supabaseAdmin
+    .from('seller_domains')
+    .select('*')
+    .eq('domain', domain.toLowerCase())
+    .maybeSingle();
+
+  if (error) {
+    console.error('[getSellerDomain] Supabase error:', { domain, code: error.code, message: error.message });
+    throw error;
+  }
+
+  return data as SellerDomainRow | null;
+}
+
+/**
+ * List registry entries, optionally for one seller
+ */
+export async function listSellerDomains(sellerId?: string): Promise<SellerDomainRow[]> {
+  let query = supabaseAdmin
+    .from('seller_domains')
+    .select('*')
+    .order('seller_id', { ascending: true })
+    .order('domain', { ascending: true });
+
+  if (sellerId) query = query.eq('seller_id', sellerId.toLowerCase());
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('[listSellerDomains] Supabase error:', { sellerId, code: error.code, message: error.message });
+    throw error;
+  }
+
+  return (data || []) as SellerDomainRow[];
+}
+
+/**
+ * Register a domain for a seller (status "pending" with a fresh verification token)
+ */
+export async function createSellerDomain(
+  domain: string,
+  sellerId: string,
+  createdBy: string
+): Promise<SellerDomainRow> {
+  const { data, error } = await supabaseAdmin
+    .from('seller_domains')
+    .insert({
+      domain: domain.toLowerCase(),
+      seller_id: sellerId.toLowerCase(),
+      status: 'pending',
+      verification_token: crypto.randomUUID().replace(/-/g, ''),
+      created_by: createdBy,
+    })
+    .select('*')
+    .single();
+
+  if (error || !data) {
+    console.error('[createSellerDomain] Supabase error:', { domain, sellerId, message: error?.message });
+    throw error ?? new Error('Domain insert returned no row');
+  }
+
+  return data as SellerDomainRow;
+}
+
+/**
+ * Record the result of a verification check
+ * A failed check of a verified domain takes it out of service.
+ */
+export async function recordDomainCheck(
+  domain: string,
+  result: { verified: boolean; error: string | null }
+): Promise<SellerDomainRow> {
+  const now = new Date().toISOString();
+  const { data, error } = await supabaseAdmin
+    .from('seller_domains')
+    .update({
+      status: result.verified ? 'verified' : 'failed',
+      last_checked_at: now,
+      last_check_error: result.error,
+      ...(result.verified ? { verified_at: now } : {}),
+      updated_at: now,
+    })
+    .eq('domain', domain.toLowerCase())
+    .select('*')
+    .single();
+
+  if (error || !data) {
+    console.error('[recordDomainCheck] Supabase error:', { domain, message: error?.message });
+    throw error ?? new Error('Domain update returned no row');
+  }
+
+  domainCache.delete(domain.toLowerCase());
+  return data as SellerDomainRow;
+}
+
+/**
+ * Remove a domain from the registry
+ *
+ * @returns Whether an entry was removed
+ */
+export async function deleteSellerDomain(domain: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('seller_domains')
+    .delete()
+    .eq('domain', domain.toLowerCase())
+    .select('domain');
+
+  if (error) {
+    console.error('[deleteSellerDomain] Supabase error:', { domain, code: error.code, message: error.message });
+    throw error;
+  }
+
+  domainCache.delete(domain.toLowerCase());
+  return (data || []).length > 0;
+}
+
+/**
+ * Why a seller may not publish on a domain, or null if it may
+ * (the domain must be a platform domain or verified for this seller)
+ */
+export async function checkSellerDomainAccess(domain: string, sellerId: string): Promise<string | null> {
+  if (isPlatformDomain(domain)) {
+    return null;
+  }
+
+  const entry = await getSellerDomain(domain);
+  if (!entry) {
+    return `Domain ${domain} is not registered; add it under Studio → Domains and verify it`;
+  }
+  if (entry.seller_id !== sellerId.toLowerCase()) {
+    return `Domain ${domain} is registered to another seller`;
+  }
+  if (entry.status !== 'verified') {
+    return `Domain ${domain} is not verified (status: ${entry.status}); add its DNS TXT record and run Verify`;
+  }
+  return null;
+}
+
+/**
+ * The longest of the candidate domains that pages may be served on (a platform
+ * domain or a verified entry), with a short per-instance cache for the middleware
+ * A failed lookup keeps the last known answers, or refuses domains it has none for.
+ *
+ * @param candidates - Suffixes of a request host, longest first (lib/domains/host.ts)
+ */
+export async function findServedDomainCached(candidates: string[]): Promise<string | null> {
+  const domains = candidates.map((candidate) => candidate.toLowerCase());
+  const now = Date.now();
+  const served = new Map<string, boolean>();
+  const uncached: string[] = [];
+
+  for (const domain of domains) {
+    const cached = domainCache.get(domain);
+    if (PLATFORM_DOMAINS.includes(domain)) {
+      served.set(domain, true);
+    } else if (cached && cached.expiresAt > now) {
+      served.set(domain, cached.verified);
+    } else {
+      uncached.push(domain);
+    }
+  }
+
+  if (uncached.length > 0) {
+    const { data, error } = await supabaseAdmin
+      .from('seller_domains')
+      .select('domain, status')
+      .in('domain', uncached);
+
+    if (error) {
+      console.error('[findServedDomainCached] Supabase error:', { domains: uncached, code: error.code, message: error.message });
+      for (const domain of uncached) {
+        served.set(domain, domainCache.get(domain)?.verified ?? false);
+      }
+    } else {
+      const verified = new Set((data || []).filter((row) => row.status === 'verified').map((row) => row.domain));
+      for (const domain of uncached) {
+        served.set(domain, verified.has(domain));
+        domainCache.set(domain, {
+          verified: verified.has(domain),
+          expiresAt: now + DOMAIN_VERIFICATION_CONFIG.MIDDLEWARE_CACHE_TTL_MS,
+        });
+      }
+    }
+  }
+
+  return domains.find((domain) => served.get(domain)) ?? null;
+}
@@ -0,0 +1,111 @@
+/**
+ * CONTEXT FOR COPILOT — PART B (Multi-Tenant)
+ * Helper functions for the sellers table (seller profiles).
+ * A profile holds the boilerplate every page of the seller shares; publish,
+ * drafts, the diff view and mail-merge merge it under the page's raw content
+ * (see lib/normalize/sellerDefaults.ts).
+ */
+
+import { supabaseAdmin, type SellerRow } from './supabase';
+import type { SellerDefaults } from '@/lib/normalize/sellerDefaults';
+
+export type SellerProfileInput = Omit<SellerRow, 'created_at' | 'updated_at' | 'updated_by'>;
+
+/**
+ * Raw content fields supplied by a profile
+ */
+export function sellerRowToDefaults(row: SellerRow): SellerDefaults {
+  const brand = row.brand && Object.keys(row.brand).length > 0 ? row.brand : undefined;
+
+  return {
+    SellersName: row.name,
+    sellerDescription: row.description || undefined,
+    sellerLinkWebsite: row.website_url || undefined,
+    sellerLinkReadMore: row.read_more_url || undefined,
+    meetingSchedulerLink: row.meeting_scheduler_url || undefined,
+    brand,
+  };
+}
+
+/**
+ * Get a seller profile by seller_id
+ */
+export async function getSeller(sellerId: string): Promise<SellerRow | null> {
+  const { data, error } = await supabaseAdmin
+    .from('sellers')
+    .select('*')
+    .eq('seller_id', sellerId.toLowerCase())
+    .maybeSingle();
+
+  if (error) {
+    console.error('[getSeller] Supabase error:', { sellerId, code: error.code, message: error.message });
+    throw error;
+  }
+
+  return data as SellerRow | null;
+}
+
+/**
+ * Profile defaults for a seller (null when the seller has no profile)
+ */
+export async function getSellerDefaults(sellerId: string): Promise<SellerDefaults | null> {
+  const seller = await getSeller(sellerId);
+  return seller ? sellerRowToDefaults(seller) : null;
+}
+
+/**
+ * List all seller profiles with how many live pages each has
+ */
+export async function listSellers(): Promise<Array<SellerRow & { live_pages: number }>> {
+  const { data, error } = await supabaseAdmin
+    .from('sellers')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (error) {
+    console.error('[listSellers] Supabase error:', { code: error.code, message: error.message });
+    throw error;
+  }
+
+  const sellers = (data || []) as SellerRow[];
+  const { data: pages, error: pagesError } = await supabaseAdmin
+    .from('landing_pages')
+    .select('seller_id')
+    .eq('status', 'published')
+    .is('deleted_at', null)
+    .in('seller_id', sellers.map((seller) => seller.seller_id));
+
+  if (pagesError) {
+    console.error('[listSellers] Page count error:', { code: pagesError.code, message: pagesError.message });
+    throw pagesError;
+  }
+
+  return sellers.map((seller) => ({
+    ...seller,
+    live_pages: (pages || []).filter((page) => page.seller_id === seller.seller_id).length,
+  }));
+}
+
+/**
+ * Create or update a seller profile
+ *
+ * @param updatedBy - Recorded on the row ("studio" for the studio UI)
+ */
+export async function upsertSeller(profile: SellerProfileInput, updatedBy: string): Promise<SellerRow> {
+  const { data, error } = await supabaseAdmin
+    .from('sellers')
+    .upsert(
+      { ...profile, updated_at: new Date().toISOString(), updated_by: updatedBy },
+      { onConflict: 'seller_id' }
+    )
+    .select('*')
+    .single();
+
+  if (error || !data) {
+    console.error('[upsertSeller] Supabase error:', { sellerId: profile.seller_id, message: error?.message });
+    throw error ?? new Error('Seller upsert returned no row');
+  }
+
+  console.info('[upsertSeller] Saved seller profile', { sellerId: profile.seller_id, updatedBy });
+  return data as SellerRow;
+}
@@ -0,0 +1,56 @@
+/**
+ * CONTEXT FOR COPILOT — PART B (Multi-Tenant)
+ * Indexable published pages for sitemap.xml (app/sitemap.ts).
+ * - Only live pages whose content sets seo.index (pages are noindex by default)
+ * - Expired pages (expire_at passed, not yet archived by the scheduler) are left out
+ * - On a buyer subdomain only that buyer's pages on the seller domain are read
+ */
+
+import { supabaseAdmin } from './supabase';
+import { SEO_CONFIG } from '@/config/constants';
+import type { SeoMeta, Site } from '@/lib/normalize/normalized.types';
+import type { CanonicalPage } from '@/lib/seo/canonical';
+
+export type IndexablePage = CanonicalPage & {
+  published_at: string | null;
+  seo: SeoMeta | null;
+  site: Site | null;
+};
+
+/**
+ * Published pages that opted into search engine indexing
+ *
+ * @param buyerId - Limit to one buyer's pages (with sellerDomain, for a buyer subdomain)
+ * @param sellerDomain - Limit to pages on this seller domain
+ */
+export async function listIndexableLandings(buyerId?: string, sellerDomain?: string): Promise<IndexablePage[]> {
+  let query = supabaseAdmin
+    .from('landing_pages')
+    .select(
+      'page_url_key, buyer_id, seller_domain, is_primary, published_at, seo:page_content->normalized->seo, site:page_content->normalized->site'
+    )
+    .eq('status', 'published')
+    .is('deleted_at', null)
+    .eq('page_content->normalized->seo->>index', 'true')
+    .or(`expire_at.is.null,expire_at.gt.${new Date().toISOString()}`)
+    .order('published_at', { ascending: false })
+    .limit(SEO_CONFIG.SITEMAP_MAX_PAGES);
+
+  if (buyerId && sellerDomain) {
+    query = query.eq('buyer_id', buyerId).eq('seller_domain', sellerDomain);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('[listIndexableLandings] Supabase error:', {
+      buyerId,
+      sellerDomain,
+      code: error.code,
+      message: error.message,
+    });
+    throw error;
+  }
+
+  return (data || []) as unknown as IndexablePage[];
+}
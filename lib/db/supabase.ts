@@ -6,10 +6,12 @@
  * - Studio Publish is a server action: validate → normalize → compute contentSha → upsert → revalidate → return url.
  * - Idempotency: if same contentSha for the key, no write or revalidate.
  * - Security: secrets are server-only; revalidate requires a secret header.
- * - No versioning now; re-publish overwrites the slug. Rollback by re-publishing old JSON.
+ * - Drafts live in their own row (status draft/in_review) next to the live row for the same key.
+ * - Every changed publish writes an immutable snapshot to landing_page_versions; rollback restores a snapshot.
  */
 
 import { createClient } from '@supabase/supabase-js';
+import type { AssetKind, AuditAction, LandingPageStatus, SellerDomainStatus } from '@/config/constants';
 
 /**
  * Server-side Supabase client with service role key
@@ -56,10 +58,10 @@ export interface LandingPageRow {
   page_url_key: string;             // Required: Unique slug
   seller_domain?: string | null;    // Seller's domain (e.g., "cyngn.com") for wildcard routing
   page_url?: string | null;         // Full URL to the landing page
-  status: 'draft' | 'published' | 'archived';
+  status: LandingPageStatus;
   page_content: {
     normalized: any; // NormalizedContent from Part A
-    original?: any; // Optional: store raw JSON for rollback
+    original?: any; // Raw seller JSON as submitted (reopened by studio Edit)
   };
   content_sha: string;
   buyer_id: string;                 // Required
@@ -69,7 +71,177 @@ export interface LandingPageRow {
   published_at?: string;            // ISO 8601 timestamp
   created_at?: string;              // Auto-generated
   updated_at?: string;              // Auto-updated via trigger
-  deleted_at?: string | null;       // Soft delete support
+  deleted_at?: string | null;       // Set while the page is in the trash
+  deleted_by?: string | null;
+  submitted_by?: string | null;     // Set when a draft is submitted for review
+  submitted_at?: string | null;
+  publish_at?: string | null;       // When a scheduled draft goes live
+  schedule_attempts?: number;       // Scheduled drafts: failed publish attempts
+  schedule_retry_at?: string | null; // Scheduled drafts: not retried before this time
+  schedule_error?: string | null;   // Scheduled drafts: last publish error
+  expire_at?: string | null;        // When the live page is archived (NULL = never)
+  redirect_from?: string[] | null;  // Draft rows: keys to 301 here once published (roll-forward clones)
+  is_primary?: boolean;             // Live rows: served at the bare buyer subdomain
+}
+
+/**
+ * Type-safe database types for landing_page_versions table
+ * One immutable row per published content change
+ */
+export interface LandingPageVersionRow {
+  id?: string;
+  landing_page_id: string;
+  page_url_key: string;
+  version: number;
+  content_sha: string;
+  page_content: LandingPageRow['page_content'];
+  published_by?: string | null;
+  restored_from_version?: number | null;
+  published_at: string;             // ISO 8601 timestamp
+  created_at?: string;
+}
+
+/**
+ * Type-safe database types for api_keys table
+ * The key itself is never stored, only its SHA-256 hash
+ */
+export interface ApiKeyRow {
+  id: string;
+  name: string;
+  key_prefix: string;               // Display only (e.g. "lpk_3f9a2c")
+  key_hash: string;
+  seller_id: string;                // Scope: pages this key may publish
+  seller_domain: string | null;     // Scope: NULL = any domain for the seller
+  created_by?: string | null;
+  created_at?: string;
+  last_used_at?: string | null;
+  revoked_at?: string | null;
+}
+
+/**
+ * Type-safe database types for audit_events table
+ * Append-only: a trigger rejects updates and deletes
+ */
+export interface AuditEventRow {
+  id?: string;
+  occurred_at?: string;             // ISO 8601 timestamp
+  actor: string;                    // published_by, "studio", "api:{key name}", "scheduler", "anonymous"
+  action: AuditAction;
+  target_type: 'page' | 'token' | 'api_key' | 'session' | 'seller' | 'asset' | 'domain';
+  target_id?: string | null;
+  page_url_key?: string | null;
+  before_sha?: string | null;
+  after_sha?: string | null;
+  ip?: string | null;
+  user_agent?: string | null;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Type-safe database types for sellers table (seller profile defaults)
+ */
+export interface SellerRow {
+  seller_id: string;
+  name: string;
+  description?: string | null;
+  website_url?: string | null;
+  read_more_url?: string | null;
+  meeting_scheduler_url?: string | null;
+  brand: {
+    logoUrl?: string;
+    colors?: { primary?: string; accent?: string; bg?: string; text?: string };
+    fonts?: { heading?: string; body?: string };
+  };
+  created_at?: string;
+  updated_at?: string;
+  updated_by?: string | null;
+}
+
+/**
+ * Type-safe database types for seller_domains table (domain registry)
+ */
+export interface SellerDomainRow {
+  domain: string;                   // Lowercase host, e.g. "cyngn.com"
+  seller_id: string;
+  status: SellerDomainStatus;
+  verification_token: string;       // Expected in the DNS TXT record
+  last_checked_at?: string | null;
+  last_check_error?: string | null;
+  verified_at?: string | null;
+  created_at?: string;
+  created_by?: string | null;
+  updated_at?: string;
+}
+
+/**
+ * Type-safe database types for assets table (asset library)
+ */
+export interface AssetVariant {
+  key: string; // Storage key
+  width: number;
+  height: number;
+  content_type: string;
+}
+
+export interface AssetRow {
+  asset_id: string;
+  kind: AssetKind;
+  seller_id?: string | null;
+  filename: string;
+  alt?: string | null;
+  content_type: string;
+  bytes: number;
+  width: number;
+  height: number;
+  storage_driver: 'local' | 'supabase';
+  storage_key: string;
+  variants: Record<string, AssetVariant>;
+  created_at?: string;
+  created_by?: string | null;
+}
+
+/**
+ * Type-safe database types for merge_batches table
+ */
+export interface MergeBatchRow {
+  id: string;
+  name: string;
+  status: 'ready' | 'running' | 'completed';
+  template: Record<string, unknown>;  // RawLandingContent with {{placeholders}}
+  defaults: {
+    seller_id: string;
+    seller_domain?: string | null;
+    mmyy?: string | null;
+    campaign_id?: string | null;
+  };
+  generate_tokens: boolean;
+  total_rows: number;
+  created_by?: string | null;
+  created_at?: string;
+  started_at?: string | null;
+  completed_at?: string | null;
+}
+
+/**
+ * Type-safe database types for merge_batch_items table (one CSV row of a batch)
+ */
+export interface MergeBatchItemRow {
+  id: string;
+  batch_id: string;
+  row_number: number;
+  status: 'invalid' | 'pending' | 'publishing' | 'published' | 'failed';
+  variables: Record<string, string>;
+  content: Record<string, unknown>;
+  meta: Record<string, unknown>;
+  page_url_key: string | null;
+  contact_ids: string[];
+  errors: Array<{ path: string; message: string }>;
+  warnings: Array<{ path: string; message: string }>;
+  url?: string | null;
+  landing_page_id?: string | null;
+  version?: number | null;
+  tokens_created?: number | null;
+  processed_at?: string | null;
 }
 
 /**
@@ -0,0 +1,220 @@
+/**
+ * CONTEXT FOR COPILOT — PART B (Multi-Tenant)
+ * Tracking token generation for the landing_page_token table.
+ * - One token per (contact, campaign, landing page); existing tokens are reused
+ * - Tracking URLs use the page's seller_domain so /r/{token} is served from the buyer-facing host
+ * - Shared by /api/tokens/generate (studio publish flow) and mail-merge batches
+ * - Every call that creates tokens is written to the audit log
+ */
+
+import { nanoid } from 'nanoid';
+import { supabaseAdmin } from './supabase';
+import { recordAuditEvent, type AuditRequestInfo } from './auditLog';
+
+/**
+ * How long a generated token stays valid
+ */
+const TOKEN_TTL_MS = 90 * 24 * 60 * 60 * 1000; // 90 days
+
+export interface GenerateTokensInput {
+  contactIds: string[];
+  campaignId: string;
+  landingPageId: string;
+  /** Host used when the page has no seller_domain and NEXT_PUBLIC_SITE_URL is unset */
+  fallbackHost: string;
+}
+
+export interface TrackingTokenWithContact {
+  token: string;
+  tracking_url: string | null;
+  contact: {
+    id?: string;
+    email?: string;
+    full_name?: string;
+    company_name?: string;
+    job_title?: string | null;
+  };
+}
+
+export type GenerateTokensResult =
+  | {
+      ok: true;
+      tokens: TrackingTokenWithContact[];
+      summary: { total: number; new: number; existing: number };
+    }
+  | { ok: false; status: 404 | 500; error: string; details?: string };
+
+// Type definitions for Supabase query results
+interface TokenContactResult {
+  id: string;
+  token: string;
+  tracking_url: string | null;
+  contact: {
+    id: string;
+    email: string;
+    full_name: string;
+    company_name: string;
+    job_title: string | null;
+  } | null;
+}
+
+/**
+ * Generate (or reuse) tracking tokens for contacts on a landing page
+ *
+ * @param input - Contacts, campaign and landing page
+ * @param actor - Recorded in the audit log ("studio", "anonymous", "mail-merge:{batch}")
+ * @param requestInfo - Caller IP and user agent for the audit log
+ * @returns All tokens for the contacts (existing + new) with contact details
+ */
+export async function generateTrackingTokens(
+  input: GenerateTokensInput,
+  actor: string,
+  requestInfo?: AuditRequestInfo
+): Promise<GenerateTokensResult> {
+  const { contactIds, campaignId, landingPageId } = input;
+
+  // Get landing page to determine the correct domain for tracking URLs
+  const { data: landingPage, error: landingPageError } = await supabaseAdmin
+    .from('landing_pages')
+    .select('seller_domain, page_url_key')
+    .eq('id', landingPageId)
+    .is('deleted_at', null)
+    .single();
+
+  if (landingPageError || !landingPage) {
+    return { ok: false, status: 404, error: 'Landing page not found' };
+  }
+
+  // Use seller_domain from landing page, fallback to NEXT_PUBLIC_SITE_URL or request origin
+  const domain = landingPage.seller_domain ||
+                 process.env.NEXT_PUBLIC_SITE_URL?.replace(/^https?:\/\//, '') ||
+                 input.fallbackHost;
+  const protocol = domain.includes('localhost') ? 'http' : 'https';
+  const baseUrl = `${protocol}://${domain}`;
+
+  // 1. Check which contacts already have tokens for this campaign + landing page
+  const { data: existingTokens, error: existingError } = await supabaseAdmin
+    .from('landing_page_token')
+    .select('contact_id, token, tracking_url')
+    .eq('campaign_id', campaignId)
+    .eq('landing_page_id', landingPageId)
+    .in('contact_id', contactIds);
+
+  if (existingError) {
+    console.error('[generateTrackingTokens] Failed to check existing tokens:', existingError);
+    return { ok: false, status: 500, error: 'Failed to check existing tokens' };
+  }
+
+  // 2. Determine which contacts need new tokens
+  const existingContactIds = new Set((existingTokens || []).map((t) => t.contact_id));
+  const newContactIds = contactIds.filter((id) => !existingContactIds.has(id));
+
+  // 3. Fetch contact details for new tokens
+  let newTokens: Array<{ token: string; contact_id: string }> = [];
+
+  if (newContactIds.length > 0) {
+    const { data: contacts, error: contactsError } = await supabaseAdmin
+      .from('contacts')
+      .select('id, email, full_name')
+      .in('id', newContactIds);
+
+    if (contactsError || !contacts) {
+      console.error('[generateTrackingTokens] Failed to fetch contacts:', contactsError);
+      return { ok: false, status: 500, error: 'Failed to fetch contact details' };
+    }
+
+    // 4. Generate unique tokens for each new contact
+    const rows = contacts.map((contact) => {
+      // Generate token: random_firstname (e.g., abc123_john)
+      const randomPart = nanoid(8);
+      const namePart = contact.email?.split('@')[0]?.toLowerCase()?.replace(/[^a-z0-9]/g, '') || 'user';
+      const token = `${randomPart}_${namePart}`;
+
+      return {
+        token,
+        tracking_url: `${baseUrl}/r/${token}`,
+        contact_id: contact.id,
+        campaign_id: campaignId,
+        landing_page_id: landingPageId,
+        expires_at: new Date(Date.now() + TOKEN_TTL_MS).toISOString(),
+        click_count: 0,
+      };
+    });
+
+    // 5. Bulk insert new tokens
+    const { error: insertError } = await supabaseAdmin
+      .from('landing_page_token')
+      .insert(rows);
+
+    if (insertError) {
+      console.error('[generateTrackingTokens] Failed to insert tokens:', insertError);
+      return { ok: false, status: 500, error: 'Failed to create tokens', details: insertError.message };
+    }
+
+    newTokens = rows;
+  }
+
+  if (newTokens.length > 0) {
+    await recordAuditEvent({
+      actor,
+      action: 'token.generate',
+      target_type: 'token',
+      target_id: landingPageId,
+      page_url_key: landingPage.page_url_key,
+      metadata: {
+        campaign_id: campaignId,
+        created: newTokens.length,
+        reused: existingTokens?.length || 0,
+        contact_ids: newTokens.map((t) => t.contact_id),
+      },
+    }, requestInfo);
+  }
+
+  // 6. Fetch ALL tokens (existing + new) with full contact details
+  const { data: allTokens, error: allTokensError } = await supabaseAdmin
+    .from('landing_page_token')
+    .select(`
+      id,
+      token,
+      tracking_url,
+      contact:contacts (
+        id,
+        email,
+        full_name,
+        company_name,
+        job_title
+      )
+    `)
+    .eq('campaign_id', campaignId)
+    .eq('landing_page_id', landingPageId)
+    .in('contact_id', contactIds);
+
+  if (allTokensError) {
+    console.error('[generateTrackingTokens] Failed to fetch all tokens:', allTokensError);
+    return { ok: false, status: 500, error: 'Failed to fetch tokens' };
+  }
+
+  // 7. Format response
+  const typedTokens = (allTokens || []) as unknown as TokenContactResult[];
+  const tokens = typedTokens.map((t) => ({
+    token: t.token,
+    tracking_url: t.tracking_url,
+    contact: {
+      id: t.contact?.id,
+      email: t.contact?.email,
+      full_name: t.contact?.full_name,
+      company_name: t.contact?.company_name,
+      job_title: t.contact?.job_title,
+    },
+  }));
+
+  return {
+    ok: true,
+    tokens,
+    summary: {
+      total: tokens.length,
+      new: newTokens.length,
+      existing: existingTokens?.length || 0,
+    },
+  };
+}
@@ -0,0 +1,305 @@
+/**
+ * CONTEXT FOR COPILOT — PART B (Multi-Tenant)
+ * Trash bin for landing pages (soft delete).
+ * - Deleting sets deleted_at; the row, its versions and its landing_page_token rows are kept
+ * - Restoring clears deleted_at, so the tokens resolve again, and revalidates the page
+ * - Purging removes the row for good (tokens first, versions cascade); the cron purges
+ *   pages that have been in the trash longer than TRASH_CONFIG.RETENTION_DAYS
+ * - Every delete, restore and purge is written to the audit log
+ */
+
+import { supabaseAdmin, type LandingPageRow } from './supabase';
+import { recordRedirects } from './redirects';
+import { recordAuditEvent, type AuditRequestInfo } from './auditLog';
+import { requestRevalidation } from '@/lib/utils/revalidate';
+import { DRAFT_STATUSES, LIVE_STATUSES, TRASH_CONFIG } from '@/config/constants';
+
+/**
+ * Columns shown in the trash view
+ */
+const TRASH_COLUMNS =
+  'id, page_url_key, buyer_id, seller_id, seller_domain, status, version, published_at, deleted_at, deleted_by';
+
+export type TrashedPage = Pick<
+  LandingPageRow,
+  'page_url_key' | 'buyer_id' | 'seller_id' | 'seller_domain' | 'status' | 'version' | 'published_at' | 'deleted_at' | 'deleted_by'
+> & { id: string; purge_after: string };
+
+type PageSummary = Pick<LandingPageRow, 'page_url_key' | 'status' | 'content_sha'> & { id: string };
+
+export type TrashResult =
+  | { ok: true; page: PageSummary; tokens?: number }
+  | { ok: false; status: 404 | 409 | 500; error: string };
+
+export interface PurgeRunResult {
+  purged: string[];
+  errors: Array<{ page_url_key: string; error: string }>;
+}
+
+/**
+ * When a page deleted at `deletedAt` becomes eligible for purge
+ */
+export function getPurgeAfter(deletedAt: string): string {
+  return new Date(new Date(deletedAt).getTime() + TRASH_CONFIG.RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+}
+
+async function findPage(id: string, trashed: boolean) {
+  const query = supabaseAdmin
+    .from('landing_pages')
+    .select('id, page_url_key, status, content_sha')
+    .eq('id', id);
+
+  const { data, error } = await (trashed ? query.not('deleted_at', 'is', null) : query.is('deleted_at', null))
+    .maybeSingle();
+
+  if (error) {
+    console.error('[trash] Database query error', { id, error: error.message });
+    throw error;
+  }
+
+  return data as PageSummary | null;
+}
+
+/**
+ * Move a page (live row or draft) to the trash
+ *
+ * @param id - landing_pages.id
+ * @param deletedBy - Actor shown in the trash view and the audit log
+ * @param requestInfo - Caller IP and user agent for the audit log
+ */
+export async function trashLandingPage(
+  id: string,
+  deletedBy: string,
+  requestInfo?: AuditRequestInfo
+): Promise<TrashResult> {
+  const page = await findPage(id, false);
+  if (!page) {
+    return { ok: false, status: 404, error: 'Landing page not found' };
+  }
+
+  const { error } = await supabaseAdmin
+    .from('landing_pages')
+    .update({ deleted_at: new Date().toISOString(), deleted_by: deletedBy })
+    .eq('id', id);
+
+  if (error) {
+    console.error('[trashLandingPage] Update error', { id, error: error.message });
+    return { ok: false, status: 500, error: `Failed to delete page: ${error.message}` };
+  }
+
+  // Drafts are never served, so only live rows need the cache cleared
+  if (LIVE_STATUSES.includes(page.status)) {
+    await requestRevalidation(page.page_url_key, 'trashLandingPage');
+  }
+
+  await recordAuditEvent({
+    actor: deletedBy,
+    action: 'page.delete',
+    target_type: 'page',
+    target_id: id,
+    page_url_key: page.page_url_key,
+    before_sha: page.content_sha,
+    after_sha: null,
+    metadata: { status: page.status },
+  }, requestInfo);
+
+  console.info('[trashLandingPage] Moved to trash', { id, slug: page.page_url_key, deletedBy });
+  return { ok: true, page };
+}
+
+/**
+ * List pages in the trash, most recently deleted first
+ */
+export async function listTrashedPages(): Promise<TrashedPage[]> {
+  const { data, error } = await supabaseAdmin
+    .from('landing_pages')
+    .select(TRASH_COLUMNS)
+    .not('deleted_at', 'is', null)
+    .order('deleted_at', { ascending: false })
+    .limit(200);
+
+  if (error) {
+    console.error('[listTrashedPages] Supabase error:', { code: error.code, message: error.message });
+    throw error;
+  }
+
+  return (data || []).map((row) => ({ ...row, purge_after: getPurgeAfter(row.deleted_at) })) as TrashedPage[];
+}
+
+/**
+ * Restore a page from the trash
+ *
+ * Refused while another page (or draft, for a trashed draft) holds the same
+ * page_url_key. A restored published page takes its key back from any redirect
+ * that was added while it was in the trash.
+ *
+ * @param actor - Recorded in the audit log
+ * @param requestInfo - Caller IP and user agent for the audit log
+ * @returns The restored page and how many tracking tokens point at it again
+ */
+export async function restoreLandingPage(
+  id: string,
+  actor: string,
+  requestInfo?: AuditRequestInfo
+): Promise<TrashResult> {
+  const page = await findPage(id, true);
+  if (!page) {
+    return { ok: false, status: 404, error: 'Page not found in trash' };
+  }
+
+  const sameSlot = DRAFT_STATUSES.includes(page.status) ? DRAFT_STATUSES : LIVE_STATUSES;
+  const { data: conflict, error: conflictError } = await supabaseAdmin
+    .from('landing_pages')
+    .select('id')
+    .eq('page_url_key', page.page_url_key)
+    .in('status', sameSlot)
+    .is('deleted_at', null)
+    .limit(1);
+
+  if (conflictError) {
+    console.error('[restoreLandingPage] Database query error', { id, error: conflictError.message });
+    throw conflictError;
+  }
+
+  if (conflict && conflict.length > 0) {
+    return {
+      ok: false,
+      status: 409,
+      error: `Another ${sameSlot === DRAFT_STATUSES ? 'draft' : 'page'} now uses ${page.page_url_key}; delete or move it first`,
+    };
+  }
+
+  const { error } = await supabaseAdmin
+    .from('landing_pages')
+    .update({ deleted_at: null, deleted_by: null })
+    .eq('id', id);
+
+  if (error) {
+    console.error('[restoreLandingPage] Update error', { id, error: error.message });
+    return { ok: false, status: 500, error: `Failed to restore page: ${error.message}` };
+  }
+
+  if (page.status === 'published') {
+    const redirectError = await recordRedirects([], page.page_url_key, null);
+    if (redirectError) {
+      console.warn('[restoreLandingPage] Restored but a redirect may still shadow the page', {
+        slug: page.page_url_key,
+        error: redirectError,
+      });
+    }
+  }
+
+  if (LIVE_STATUSES.includes(page.status)) {
+    await requestRevalidation(page.page_url_key, 'restoreLandingPage');
+  }
+
+  const { count: tokens } = await supabaseAdmin
+    .from('landing_page_token')
+    .select('id', { count: 'exact', head: true })
+    .eq('landing_page_id', id);
+
+  await recordAuditEvent({
+    actor,
+    action: 'page.restore',
+    target_type: 'page',
+    target_id: id,
+    page_url_key: page.page_url_key,
+    before_sha: null,
+    after_sha: page.content_sha,
+    metadata: { status: page.status, tokens: tokens ?? 0 },
+  }, requestInfo);
+
+  console.info('[restoreLandingPage] Restored from trash', { id, slug: page.page_url_key, tokens });
+  return { ok: true, page, tokens: tokens ?? 0 };
+}
+
+/**
+ * Permanently delete a page that is in the trash
+ * Removes its tracking tokens; version snapshots cascade with the row.
+ *
+ * @param actor - Recorded in the audit log ("scheduler" for the retention purge)
+ * @param requestInfo - Caller IP and user agent for the audit log
+ */
+export async function purgeLandingPage(
+  id: string,
+  actor: string,
+  requestInfo?: AuditRequestInfo
+): Promise<TrashResult> {
+  const page = await findPage(id, true);
+  if (!page) {
+    return { ok: false, status: 404, error: 'Page not found in trash' };
+  }
+
+  const { error: tokenError } = await supabaseAdmin
+    .from('landing_page_token')
+    .delete()
+    .eq('landing_page_id', id);
+
+  if (tokenError) {
+    console.error('[purgeLandingPage] Token delete error', { id, error: tokenError.message });
+    return { ok: false, status: 500, error: `Failed to delete tracking tokens: ${tokenError.message}` };
+  }
+
+  const { error } = await supabaseAdmin
+    .from('landing_pages')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error('[purgeLandingPage] Delete error', { id, error: error.message });
+    return { ok: false, status: 500, error: `Failed to purge page: ${error.message}` };
+  }
+
+  await recordAuditEvent({
+    actor,
+    action: 'page.purge',
+    target_type: 'page',
+    target_id: id,
+    page_url_key: page.page_url_key,
+    before_sha: page.content_sha,
+    after_sha: null,
+    metadata: { status: page.status },
+  }, requestInfo);
+
+  console.info('[purgeLandingPage] Purged', { id, slug: page.page_url_key });
+  return { ok: true, page };
+}
+
+/**
+ * Purge pages that have been in the trash longer than the retention period
+ *
+ * @param now - Reference time (defaults to the current time)
+ */
+export async function purgeExpiredTrash(now: Date = new Date()): Promise<PurgeRunResult> {
+  const result: PurgeRunResult = { purged: [], errors: [] };
+  const cutoff = new Date(now.getTime() - TRASH_CONFIG.RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  const { data: due, error } = await supabaseAdmin
+    .from('landing_pages')
+    .select('id, page_url_key')
+    .lte('deleted_at', cutoff)
+    .order('deleted_at', { ascending: true })
+    .limit(TRASH_CONFIG.PURGE_BATCH_SIZE);
+
+  if (error) {
+    console.error('[purgeExpiredTrash] Query error', { error: error.message });
+    result.errors.push({ page_url_key: '*', error: error.message });
+    return result;
+  }
+
+  for (const row of due || []) {
+    const purge = await purgeLandingPage(row.id, 'scheduler');
+    if (purge.ok) {
+      result.purged.push(row.page_url_key);
+    } else {
+      result.errors.push({ page_url_key: row.page_url_key, error: purge.error });
+    }
+  }
+
+  console.info('[purgeExpiredTrash] Run complete', {
+    purged: result.purged.length,
+    errors: result.errors.length,
+  });
+
+  return result;
+}
@@ -0,0 +1,191 @@
+/**
+ * CONTEXT FOR COPILOT — PART B (Multi-Tenant)
+ * Host parsing for buyer subdomains: {buyer}.{seller_domain} or {buyer}.{scheme}.{seller_domain}.
+ * - The registrable domain (e.g. "cyngn.co.uk") comes from the bundled public suffix
+ *   rules, so multi-label suffixes never end up as the seller domain
+ * - The seller domain is the longest suffix of the host that is served: a platform
+ *   domain or a verified seller_domains entry (looked up by the caller)
+ * - The labels left over must be one buyer label, optionally followed by a scheme
+ *   label from BUYER_HOST_SCHEME_LABELS; RESERVED_SUBDOMAINS are never buyers
+ * Pure functions: safe for the middleware (no Node APIs, no database).
+ */
+
+import { PUBLIC_SUFFIX_RULES } from './publicSuffixes';
+import {
+  BUYER_HOST_SCHEME_LABELS,
+  PLATFORM_DOMAINS,
+  RESERVED_SUBDOMAINS,
+  SUBDOMAIN_REGEX,
+} from '@/config/constants';
+
+/**
+ * How a request host is handled
+ * - app: our own hosts (studio, dashboard, local development, deployment previews)
+ * - buyer: a buyer page on a served seller domain
+ * - refused: a host we must not serve (unverified domain, reserved or malformed label)
+ */
+export type HostRoute =
+  | { type: 'app' }
+  | { type: 'buyer'; buyerId: string; sellerDomain: string; scheme: string | null }
+  | { type: 'refused'; reason: string };
+
+const RULES = (() => {
+  const exact = new Set<string>();
+  const wildcard = new Set<string>(); // "*.ck" is stored as "ck"
+  const exception = new Set<string>(); // "!www.ck" is stored as "www.ck"
+
+  for (const rule of PUBLIC_SUFFIX_RULES) {
+    if (rule.startsWith('!')) exception.add(rule.slice(1));
+    else if (rule.startsWith('*.')) wildcard.add(rule.slice(2));
+    else exact.add(rule);
+  }
+  return { exact, wildcard, exception };
+})();
+
+/**
+ * Lowercase host without port or trailing dot
+ */
+export function normalizeHost(hostname: string): string {
+  const host = hostname.trim().toLowerCase();
+  if (host.startsWith('[')) {
+    return host.slice(0, host.indexOf(']') + 1); // IPv6 literal
+  }
+  return host.split(':')[0].replace(/\.$/, '');
+}
+
+/**
+ * localhost and IP literals (development, health checks)
+ */
+export function isLocalHost(host: string): boolean {
+  return (
+    host === 'localhost' ||
+    host.endsWith('.localhost') ||
+    host.startsWith('[') ||
+    /^\d{1,3}(\.\d{1,3}){3}$/.test(host)
+  );
+}
+
+/**
+ * Public suffix of a host (the longest matching rule; the last label if none match)
+ *
+ * @example
+ * getPublicSuffix('adient.cyngn.co.uk') // => 'co.uk'
+ * getPublicSuffix('adient.cyngn.com')   // => 'com'
+ */
+export function getPublicSuffix(host: string): string {
+  const labels = host.split('.');
+
+  for (let i = 0; i < labels.length; i++) {
+    const candidate = labels.slice(i).join('.');
+    if (RULES.exception.has(candidate)) {
+      return labels.slice(i + 1).join('.');
+    }
+    if (RULES.exact.has(candidate) || (i + 1 < labels.length && RULES.wildcard.has(labels.slice(i + 1).join('.')))) {
+      return candidate;
+    }
+  }
+
+  return labels[labels.length - 1];
+}
+
+/**
+ * Whether a domain is itself a public suffix (nobody can own it)
+ */
+export function isPublicSuffix(domain: string): boolean {
+  return getPublicSuffix(domain) === domain;
+}
+
+/**
+ * Registrable domain: the public suffix plus one label (null for a bare suffix)
+ *
+ * @example
+ * getRegistrableDomain('adient.abm.cyngn.com') // => 'cyngn.com'
+ */
+export function getRegistrableDomain(host: string): string | null {
+  const suffix = getPublicSuffix(host);
+  if (host === suffix) return null;
+
+  const rest = host.slice(0, host.length - suffix.length - 1).split('.');
+  return `${rest[rest.length - 1]}.${suffix}`;
+}
+
+/**
+ * Suffixes of the host that could be its seller domain, longest first:
+ * from the host minus its first label down to the registrable domain
+ *
+ * @example
+ * getSellerDomainCandidates('adient.abm.cyngn.com') // => ['abm.cyngn.com', 'cyngn.com']
+ */
+export function getSellerDomainCandidates(host: string): string[] {
+  const registrable = getRegistrableDomain(host);
+  if (!registrable || host === registrable) return [];
+
+  const labels = host.split('.');
+  const minLabels = registrable.split('.').length;
+  const candidates: string[] = [];
+  for (let i = 1; labels.length - i >= minLabels; i++) {
+    candidates.push(labels.slice(i).join('.'));
+  }
+  return candidates;
+}
+
+/**
+ * Split a host into buyer (and scheme) labels under a served seller domain
+ */
+export function routeBuyerHost(host: string, sellerDomain: string): HostRoute {
+  const prefix = host.slice(0, host.length - sellerDomain.length - 1).split('.');
+  const isPlatform = PLATFORM_DOMAINS.includes(sellerDomain);
+
+  let buyerId: string;
+  let scheme: string | null = null;
+  if (prefix.length === 1) {
+    buyerId = prefix[0];
+  } else if (prefix.length === 2 && BUYER_HOST_SCHEME_LABELS.includes(prefix[1])) {
+    [buyerId, scheme] = prefix;
+  } else {
+    return { type: 'refused', reason: `Unsupported subdomain "${prefix.join('.')}" on ${sellerDomain}` };
+  }
+
+  if (RESERVED_SUBDOMAINS.includes(buyerId)) {
+    // Our own infrastructure hosts (www, studio, ...) under a platform domain are the app
+    return isPlatform && !scheme
+      ? { type: 'app' }
+      : { type: 'refused', reason: `"${buyerId}" is a reserved subdomain` };
+  }
+  if (!SUBDOMAIN_REGEX.test(buyerId)) {
+    return { type: 'refused', reason: `"${buyerId}" is not a valid buyer subdomain` };
+  }
+
+  return { type: 'buyer', buyerId, sellerDomain, scheme };
+}
+
+/**
+ * Work out how to handle a request's Host header
+ *
+ * @param hostname - Host header (port is ignored)
+ * @param findServedDomain - The longest candidate that is a platform domain or a
+ *   verified seller domain, or null (lib/db/sellerDomains.ts findServedDomainCached)
+ */
+export async function resolveHost(
+  hostname: string,
+  findServedDomain: (candidates: string[]) => Promise<string | null>
+): Promise<HostRoute> {
+  const host = normalizeHost(hostname);
+
+  // Local development, the base application domains and apex / hosting-platform hosts
+  if (!host || isLocalHost(host) || PLATFORM_DOMAINS.includes(host)) {
+    return { type: 'app' };
+  }
+
+  const candidates = getSellerDomainCandidates(host);
+  if (candidates.length === 0) {
+    return { type: 'app' };
+  }
+
+  const sellerDomain = await findServedDomain(candidates);
+  if (!sellerDomain) {
+    return { type: 'refused', reason: `${host} is not on a verified seller domain` };
+  }
+
+  return routeBuyerHost(host, sellerDomain);
+}
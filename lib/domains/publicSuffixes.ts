@@ -0,0 +1,67 @@
+/**
+ * CONTEXT FOR COPILOT — PART B (Multi-Tenant)
+ * Bundled public suffix rules (https://publicsuffix.org/list/ format).
+ * Only multi-label suffixes are listed: a host whose suffix matches no rule falls
+ * back to the implicit "*" rule (its last label, e.g. "com"). The list is a subset
+ * of the ICANN section for the markets we sell into, plus the private hosting
+ * suffixes our own deployments run on; add rules here when a seller's domain
+ * uses a suffix that is missing.
+ */
+
+export const PUBLIC_SUFFIX_RULES: readonly string[] = [
+  // ===== ICANN =====
+  // United Kingdom
+  'ac.uk', 'co.uk', 'gov.uk', 'ltd.uk', 'me.uk', 'net.uk', 'nhs.uk', 'org.uk', 'plc.uk', 'police.uk', 'sch.uk',
+  // Australia / New Zealand
+  'asn.au', 'com.au', 'edu.au', 'gov.au', 'id.au', 'net.au', 'org.au',
+  'ac.nz', 'co.nz', 'geek.nz', 'gen.nz', 'govt.nz', 'net.nz', 'org.nz', 'school.nz',
+  // Asia
+  'ac.jp', 'ad.jp', 'co.jp', 'ed.jp', 'go.jp', 'gr.jp', 'lg.jp', 'ne.jp', 'or.jp',
+  'ac.kr', 'co.kr', 'go.kr', 'ne.kr', 'or.kr', 're.kr',
+  'ac.in', 'co.in', 'edu.in', 'firm.in', 'gen.in', 'gov.in', 'ind.in', 'net.in', 'org.in',
+  'com.cn', 'edu.cn', 'gov.cn', 'net.cn', 'org.cn',
+  'com.hk', 'edu.hk', 'gov.hk', 'net.hk', 'org.hk',
+  'com.tw', 'edu.tw', 'gov.tw', 'net.tw', 'org.tw',
+  'com.sg', 'edu.sg', 'gov.sg', 'net.sg', 'org.sg',
+  'com.my', 'edu.my', 'gov.my', 'net.my', 'org.my',
+  'ac.id', 'co.id', 'go.id', 'or.id', 'web.id',
+  'ac.th', 'co.th', 'go.th', 'in.th', 'or.th',
+  'com.ph', 'edu.ph', 'gov.ph', 'net.ph', 'org.ph',
+  'com.vn', 'edu.vn', 'gov.vn', 'net.vn', 'org.vn',
+  'com.pk', 'edu.pk', 'gov.pk', 'net.pk', 'org.pk',
+  '*.bd', '*.kh', '*.mm', '*.np',
+  // Middle East / Africa
+  'ac.ae', 'co.ae', 'gov.ae', 'net.ae', 'org.ae',
+  'com.sa', 'edu.sa', 'gov.sa', 'net.sa', 'org.sa',
+  'com.qa', 'edu.qa', 'gov.qa', 'net.qa', 'org.qa',
+  'ac.il', 'co.il', 'gov.il', 'net.il', 'org.il',
+  'com.tr', 'edu.tr', 'gen.tr', 'gov.tr', 'net.tr', 'org.tr',
+  'com.eg', 'edu.eg', 'gov.eg', 'net.eg', 'org.eg',
+  'ac.za', 'co.za', 'gov.za', 'net.za', 'org.za',
+  'com.ng', 'edu.ng', 'gov.ng', 'net.ng', 'org.ng',
+  'ac.ke', 'co.ke', 'go.ke', 'ne.ke', 'or.ke',
+  '*.er', '*.fk',
+  // Americas
+  'com.br', 'edu.br', 'gov.br', 'net.br', 'org.br',
+  'com.mx', 'edu.mx', 'gob.mx', 'net.mx', 'org.mx',
+  'com.ar', 'edu.ar', 'gob.ar', 'net.ar', 'org.ar',
+  'com.co', 'edu.co', 'gov.co', 'net.co', 'org.co',
+  'com.pe', 'edu.pe', 'gob.pe', 'net.pe', 'org.pe',
+  'com.uy', 'edu.uy', 'gub.uy', 'net.uy', 'org.uy',
+  'com.ec', 'edu.ec', 'gob.ec', 'net.ec', 'org.ec',
+  '*.jm',
+  // Europe
+  'com.es', 'edu.es', 'gob.es', 'nom.es', 'org.es',
+  'com.pl', 'net.pl', 'org.pl',
+  'com.pt', 'edu.pt', 'gov.pt', 'org.pt',
+  'com.gr', 'edu.gr', 'gov.gr', 'net.gr', 'org.gr',
+  'com.ua', 'edu.ua', 'gov.ua', 'net.ua', 'org.ua',
+  'co.at', 'or.at',
+  // Wildcard with exception
+  '*.ck', '!www.ck',
+
+  // ===== PRIVATE (hosting platforms) =====
+  'amplifyapp.com', 'azurewebsites.net', 'cloudfront.net', 'firebaseapp.com', 'fly.dev',
+  'github.io', 'herokuapp.com', 'netlify.app', 'onrender.com', 'pages.dev',
+  'railway.app', 'up.railway.app', 'vercel.app', 'web.app', 'workers.dev',
+];
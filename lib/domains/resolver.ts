@@ -0,0 +1,89 @@
+/**
+ * CONTEXT FOR COPILOT — PART B (Multi-Tenant)
+ * TXT record resolvers for seller domain verification.
+ * - dnsResolver: real DNS lookups (node:dns), for production
+ * - stubResolver: answers from DOMAIN_RESOLVER_STUB_RECORDS, for local development
+ *   where the domains being registered can't carry our TXT record
+ */
+
+import { promises as dns } from 'dns';
+import { DOMAIN_VERIFICATION_CONFIG } from '@/config/constants';
+
+export interface TxtResolver {
+  name: 'dns' | 'stub';
+  /** TXT records of a host, each record's chunks joined; [] when it has none */
+  resolveTxt(host: string): Promise<string[]>;
+}
+
+/**
+ * DNS error codes that mean "no such record" rather than a failed lookup
+ */
+const NO_RECORD_CODES = new Set(['ENOTFOUND', 'ENODATA', 'NXDOMAIN']);
+
+export function createDnsResolver(timeoutMs: number = DOMAIN_VERIFICATION_CONFIG.LOOKUP_TIMEOUT_MS): TxtResolver {
+  return {
+    name: 'dns',
+
+    async resolveTxt(host) {
+      const resolver = new dns.Resolver({ timeout: timeoutMs, tries: 2 });
+      try {
+        const records = await resolver.resolveTxt(host);
+        return records.map((chunks) => chunks.join(''));
+      } catch (error) {
+        const code = (error as NodeJS.ErrnoException).code;
+        if (code && NO_RECORD_CODES.has(code)) {
+          return [];
+        }
+        throw error;
+      }
+    },
+  };
+}
+
+/**
+ * @param records - TXT records by host; defaults to the JSON in DOMAIN_RESOLVER_STUB_RECORDS,
+ *   e.g. {"_hrytos-verify.cyngn.com": ["hrytos-verification=abc123"]}
+ */
+export function createStubResolver(records?: Record<string, string[]>): TxtResolver {
+  let table = records;
+  if (!table) {
+    try {
+      table = JSON.parse(process.env.DOMAIN_RESOLVER_STUB_RECORDS || '{}') as Record<string, string[]>;
+    } catch {
+      console.warn('[domains:stub] DOMAIN_RESOLVER_STUB_RECORDS is not valid JSON; answering with no records');
+      table = {};
+    }
+  }
+
+  return {
+    name: 'stub',
+
+    async resolveTxt(host) {
+      const values = table[host.toLowerCase()];
+      return Array.isArray(values) ? values.map(String) : [];
+    },
+  };
+}
+
+let resolver: TxtResolver | null = null;
+
+function selectResolver(): TxtResolver {
+  const configured = process.env.DOMAIN_RESOLVER;
+  if (configured === 'dns') return createDnsResolver();
+  if (configured === 'stub') return createStubResolver();
+
+  if (configured) {
+    console.warn('[domains] Unknown DOMAIN_RESOLVER, using the default', { configured });
+  }
+  return process.env.NODE_ENV === 'production' ? createDnsResolver() : createStubResolver();
+}
+
+/**
+ * Resolver used for verification (DOMAIN_RESOLVER: "dns" by default in production, "stub" otherwise)
+ */
+export function getTxtResolver(): TxtResolver {
+  if (!resolver) {
+    resolver = selectResolver();
+  }
+  return resolver;
+}
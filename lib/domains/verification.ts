@@ -0,0 +1,79 @@
+/**
+ * CONTEXT FOR COPILOT — PART B (Multi-Tenant)
+ * Seller domain ownership checks.
+ * The seller adds a TXT record {TXT_RECORD_PREFIX}.{domain} containing
+ * "{TXT_VALUE_PREFIX}{verification_token}"; a check looks it up through the
+ * configured TxtResolver and records the result on the registry entry.
+ */
+
+import { getTxtResolver, type TxtResolver } from './resolver';
+import { recordDomainCheck } from '@/lib/db/sellerDomains';
+import type { SellerDomainRow } from '@/lib/db/supabase';
+import { DOMAIN_VERIFICATION_CONFIG } from '@/config/constants';
+
+/**
+ * The DNS record a seller has to add for a domain
+ */
+export function getVerificationRecord(entry: Pick<SellerDomainRow, 'domain' | 'verification_token'>): {
+  type: 'TXT';
+  name: string;
+  value: string;
+} {
+  return {
+    type: 'TXT',
+    name: `${DOMAIN_VERIFICATION_CONFIG.TXT_RECORD_PREFIX}.${entry.domain}`,
+    value: `${DOMAIN_VERIFICATION_CONFIG.TXT_VALUE_PREFIX}${entry.verification_token}`,
+  };
+}
+
+/**
+ * Registry entry with the record it needs (API responses)
+ */
+export function withVerificationRecord(entry: SellerDomainRow) {
+  return { ...entry, record: getVerificationRecord(entry) };
+}
+
+/**
+ * Look up the verification record (no database writes)
+ */
+export async function checkDomainOwnership(
+  entry: Pick<SellerDomainRow, 'domain' | 'verification_token'>,
+  resolver: TxtResolver = getTxtResolver()
+): Promise<{ verified: boolean; error: string | null }> {
+  const record = getVerificationRecord(entry);
+
+  let values: string[];
+  try {
+    values = await resolver.resolveTxt(record.name);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'unknown error';
+    return { verified: false, error: `DNS lookup for ${record.name} failed: ${reason}` };
+  }
+
+  if (values.some((value) => value.trim() === record.value)) {
+    return { verified: true, error: null };
+  }
+
+  return {
+    verified: false,
+    error: values.length === 0
+      ? `No TXT record found at ${record.name}`
+      : `TXT record at ${record.name} does not contain the expected value`,
+  };
+}
+
+/**
+ * Check a registered domain and store the result (status, last check, error)
+ */
+export async function verifySellerDomain(entry: SellerDomainRow): Promise<SellerDomainRow> {
+  const resolver = getTxtResolver();
+  const result = await checkDomainOwnership(entry, resolver);
+
+  console.info('[verifySellerDomain] Checked domain', {
+    domain: entry.domain,
+    resolver: resolver.name,
+    verified: result.verified,
+  });
+
+  return recordDomainCheck(entry.domain, result);
+}
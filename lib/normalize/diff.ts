@@ -0,0 +1,308 @@
+/**
+ * CONTEXT FOR COPILOT — PART A (Landing Page)
+ * - Semantic diff between two NormalizedContent objects (versions, or draft vs live).
+ * - Field-level: every leaf that was added, removed or changed, with a dotted path (e.g. "benefits.items[2].title").
+ * - Equality uses stableStringify, so key order never shows up as a change; null and missing are treated alike.
+ * - List items are aligned by content (LCS), so inserting a benefit doesn't mark every later item as changed.
+ * - Text changes carry a word-level diff for side-by-side rendering.
+ */
+
+import type { NormalizedContent } from './normalized.types';
+import { stableStringify } from './stableStringify';
+
+/**
+ * Display order of top-level sections (matches the normalized content contract)
+ */
+export const DIFF_SECTIONS = [
+  'title',
+  'buyersName',
+  'templateType',
+  'templateFields',
+  'seo',
+  'brand',
+  'hero',
+  'trustedBy',
+  'benefits',
+  'options',
+  'proof',
+  'social',
+  'secondary',
+  'seller',
+  'footer',
+  'site',
+] as const;
+
+export type DiffKind = 'added' | 'removed' | 'changed';
+
+/**
+ * A run of words in a text diff
+ */
+export interface TextSegment {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * One field-level change
+ */
+export interface FieldChange {
+  path: string;        // e.g. "hero.cta.href"
+  section: string;     // Top-level key, e.g. "hero"
+  kind: DiffKind;
+  before?: unknown;
+  after?: unknown;
+  textDiff?: TextSegment[]; // Only for string → string changes
+}
+
+/**
+ * Result of diffing two versions of normalized content
+ */
+export interface ContentDiff {
+  identical: boolean;
+  changes: FieldChange[];
+  summary: {
+    added: number;
+    removed: number;
+    changed: number;
+  };
+}
+
+/**
+ * Max tokens per side for the word-level diff (above this, show a whole-field replace)
+ */
+const MAX_TEXT_DIFF_TOKENS = 600;
+
+type Json = unknown;
+
+function isAbsent(value: Json): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+function isPlainObject(value: Json): value is Record<string, Json> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Longest common subsequence alignment of two token lists
+ * Returns matched index pairs in order
+ */
+function lcsPairs(a: string[], b: string[]): Array<[number, number]> {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const table: number[] = new Array(rows * cols).fill(0);
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * cols + j] = a[i] === b[j]
+        ? table[(i + 1) * cols + j + 1] + 1
+        : Math.max(table[(i + 1) * cols + j], table[i * cols + j + 1]);
+    }
+  }
+
+  const pairs: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (table[(i + 1) * cols + j] >= table[i * cols + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Word-level diff of two strings
+ *
+ * @example
+ * diffText('Book a meeting', 'Book a demo')
+ * // [{ type: 'equal', text: 'Book a ' }, { type: 'removed', text: 'meeting' }, { type: 'added', text: 'demo' }]
+ */
+export function diffText(before: string, after: string): TextSegment[] {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+
+  if (a.length > MAX_TEXT_DIFF_TOKENS || b.length > MAX_TEXT_DIFF_TOKENS) {
+    return [
+      { type: 'removed', text: before },
+      { type: 'added', text: after },
+    ];
+  }
+
+  const segments: TextSegment[] = [];
+  const push = (type: TextSegment['type'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  for (const [pi, pj] of lcsPairs(a, b)) {
+    while (i < pi) push('removed', a[i++]);
+    while (j < pj) push('added', b[j++]);
+    push('equal', a[i]);
+    i++;
+    j++;
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+
+  return segments;
+}
+
+/**
+ * Record every leaf under `value` as added or removed
+ */
+function pushLeaves(
+  value: Json,
+  path: string,
+  section: string,
+  kind: 'added' | 'removed',
+  out: FieldChange[]
+): void {
+  if (isAbsent(value)) return;
+
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => pushLeaves(item, `${path}[${index}]`, section, kind, out));
+    return;
+  }
+
+  if (isPlainObject(value)) {
+    for (const key of Object.keys(value)) {
+      pushLeaves(value[key], `${path}.${key}`, section, kind, out);
+    }
+    return;
+  }
+
+  out.push(kind === 'added'
+    ? { path, section, kind, after: value }
+    : { path, section, kind, before: value });
+}
+
+/**
+ * Diff two lists, aligning unchanged items by content
+ */
+function diffArrays(
+  before: Json[],
+  after: Json[],
+  path: string,
+  section: string,
+  out: FieldChange[]
+): void {
+  const beforeKeys = before.map((item) => stableStringify(item));
+  const afterKeys = after.map((item) => stableStringify(item));
+  const anchors = [...lcsPairs(beforeKeys, afterKeys), [before.length, after.length] as [number, number]];
+
+  let i = 0;
+  let j = 0;
+  for (const [ai, aj] of anchors) {
+    // Pair up the unmatched runs between anchors as in-place edits, extras as adds/removes
+    while (i < ai && j < aj) {
+      diffValues(before[i], after[j], `${path}[${j}]`, section, out);
+      i++;
+      j++;
+    }
+    while (i < ai) {
+      pushLeaves(before[i], `${path}[${i}]`, section, 'removed', out);
+      i++;
+    }
+    while (j < aj) {
+      pushLeaves(after[j], `${path}[${j}]`, section, 'added', out);
+      j++;
+    }
+    // Skip the matched item itself
+    i = ai + 1;
+    j = aj + 1;
+  }
+}
+
+function diffValues(
+  before: Json,
+  after: Json,
+  path: string,
+  section: string,
+  out: FieldChange[]
+): void {
+  const beforeAbsent = isAbsent(before);
+  const afterAbsent = isAbsent(after);
+
+  if (beforeAbsent && afterAbsent) return;
+  if (beforeAbsent) return pushLeaves(after, path, section, 'added', out);
+  if (afterAbsent) return pushLeaves(before, path, section, 'removed', out);
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = [...Object.keys(after), ...Object.keys(before).filter((key) => !(key in after))];
+    for (const key of keys) {
+      diffValues(before[key], after[key], `${path}.${key}`, section, out);
+    }
+    return;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    diffArrays(before, after, path, section, out);
+    return;
+  }
+
+  if (stableStringify(before) === stableStringify(after)) return;
+
+  // Shape changed (e.g. object → string): report as remove + add
+  if (isPlainObject(before) || isPlainObject(after) || Array.isArray(before) || Array.isArray(after)) {
+    pushLeaves(before, path, section, 'removed', out);
+    pushLeaves(after, path, section, 'added', out);
+    return;
+  }
+
+  out.push({
+    path,
+    section,
+    kind: 'changed',
+    before,
+    after,
+    ...(typeof before === 'string' && typeof after === 'string'
+      ? { textDiff: diffText(before, after) }
+      : {}),
+  });
+}
+
+/**
+ * Compute a field-level diff between two versions of normalized content
+ *
+ * @param before - Older content (e.g. live version); null for "nothing published yet"
+ * @param after - Newer content (e.g. draft in the editor)
+ * @returns Changes ordered by section, then by position within the section
+ */
+export function diffNormalizedContent(
+  before: NormalizedContent | null,
+  after: NormalizedContent | null
+): ContentDiff {
+  const changes: FieldChange[] = [];
+  const beforeObj = (before ?? {}) as unknown as Record<string, Json>;
+  const afterObj = (after ?? {}) as unknown as Record<string, Json>;
+
+  const knownSections: readonly string[] = DIFF_SECTIONS;
+  const extraSections = [...Object.keys(afterObj), ...Object.keys(beforeObj)]
+    .filter((key, index, all) => !knownSections.includes(key) && all.indexOf(key) === index);
+
+  for (const section of [...DIFF_SECTIONS, ...extraSections]) {
+    diffValues(beforeObj[section], afterObj[section], section, section, changes);
+  }
+
+  return {
+    identical: changes.length === 0,
+    changes,
+    summary: {
+      added: changes.filter((change) => change.kind === 'added').length,
+      removed: changes.filter((change) => change.kind === 'removed').length,
+      changed: changes.filter((change) => change.kind === 'changed').length,
+    },
+  };
+}
@@ -13,5 +13,9 @@
 // Re-export all normalization utilities
 export * from './normalized.types';
 export * from './mapRawToNormalized';
+export * from './mapNormalizedToRaw';
+export * from './sellerDefaults';
+export * from './site';
 export * from './stableStringify';
 export * from './hash';
+export * from './diff';
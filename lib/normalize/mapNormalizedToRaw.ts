@@ -0,0 +1,184 @@
+/**
+ * CONTEXT FOR COPILOT — PART A (Landing Page)
+ * - Reverse of mapRawToNormalized: rebuild seller-format JSON from normalized content.
+ * - Used to edit legacy landing_pages rows that were published before page_content.original was stored.
+ * - Derived fields (options title, footer CTA, CTA text) are dropped; mapRawToNormalized regenerates them.
+ * - Text that was sanitized on the way in stays sanitized, so the round-trip is stable, not byte-identical.
+ */
+
+import type { NormalizedContent, RawLandingContent } from './normalized.types';
+
+/**
+ * Marker used by mapRawToNormalized to carry the benefits summary paragraph
+ */
+const SUMMARY_MARKER = '__SUMMARY__';
+
+/**
+ * Convert null to undefined so JSON.stringify omits the key
+ */
+function opt<T>(value: T | null | undefined): T | undefined {
+  return value === null || value === undefined || value === '' ? undefined : value;
+}
+
+/**
+ * Drop keys whose value is undefined; returns undefined if nothing is left
+ */
+function compact<T extends Record<string, unknown>>(obj: T): T | undefined {
+  const entries = Object.entries(obj).filter(([, value]) => value !== undefined);
+  return entries.length > 0 ? (Object.fromEntries(entries) as T) : undefined;
+}
+
+/**
+ * Maps normalized content back to the raw JSON input structure
+ * The result passes validateAndNormalize whenever the original raw JSON did.
+ *
+ * @param normalized - Normalized content (e.g. landing_pages.page_content.normalized)
+ * @returns Raw landing page JSON suitable for the studio editor
+ */
+export function mapNormalizedToRaw(normalized: NormalizedContent): RawLandingContent {
+  const { hero, trustedBy, benefits, options, proof, social, secondary, seller, brand } = normalized;
+
+  const sellersName =
+    hero.sellerName ||
+    options?.sellerName ||
+    social?.sellerName ||
+    secondary?.sellerName ||
+    '';
+  const buyersName = normalized.buyersName || social?.buyerName || '';
+
+  // hero.cta.href was meetingSchedulerLink || sellerLinkWebsite
+  const sellerWebsite = opt(seller?.links?.primary);
+  const ctaHref = opt(hero.cta?.href);
+  const meetingLink =
+    opt(options?.meetingLink) ?? (ctaHref && ctaHref !== sellerWebsite ? ctaHref : undefined);
+
+  // Benefits: split the summary marker back out of the items list
+  const summaryItem = benefits?.items?.find((item) => item.title === SUMMARY_MARKER);
+  const benefitItems = benefits?.items?.filter((item) => item.title !== SUMMARY_MARKER) ?? [];
+
+  const raw: RawLandingContent = {
+    BuyersName: buyersName,
+    SellersName: sellersName,
+    biggestBusinessBenefitBuyerStatement: hero.headline || normalized.title,
+  };
+
+  if (normalized.templateType && normalized.templateType !== 'default') {
+    raw.templateType = normalized.templateType;
+  }
+  if (normalized.templateFields) {
+    raw.templateFields = normalized.templateFields;
+  }
+
+  // Hero/Meta
+  raw.synopsisBusinessBenefit = opt(hero.subhead) ?? opt(normalized.seo?.description);
+  raw.shortDescriptionBusinessBenefit = opt(hero.shortDescription);
+  raw.meetingSchedulerLink = meetingLink;
+  raw.sellerLinkWebsite = sellerWebsite;
+  raw.quickDemoLinks = opt(hero.media?.videoUrl);
+
+  // Trusted by
+  if (trustedBy?.logos && trustedBy.logos.length > 0) {
+    raw.trustedBy = compact({
+      title: opt(trustedBy.title),
+      logos: trustedBy.logos.map((logo) => compact({
+        url: logo.url,
+        alt: logo.alt,
+        href: opt(logo.href),
+      })!),
+    });
+  }
+
+  // Benefits
+  if (benefits) {
+    raw.highestOperationalBenefit = compact({
+      highestOperationalBenefitStatement: opt(benefits.title),
+      highestOperationalBenefitSummary: opt(summaryItem?.body),
+      benefits: benefitItems.length > 0
+        ? benefitItems.map((item) => compact({
+            statement: item.title,
+            content: opt(item.body),
+          })!)
+        : undefined,
+    });
+  }
+
+  // Options
+  raw.synopsisAutomationOptions = opt(options?.intro);
+  if (options?.cards && options.cards.length > 0) {
+    raw.options = options.cards.map((card) => compact({
+      title: card.title,
+      description: opt(card.description),
+    })!);
+  }
+
+  // Proof/Case Study
+  if (proof) {
+    raw.mostRelevantProof = compact({
+      title: opt(proof.title),
+      summaryTitle: opt(proof.summaryTitle),
+      summaryContent: opt(proof.summaryBody),
+      quoteContent: opt(proof.quote?.text),
+      quoteVideoLink: opt(proof.videoUrl),
+      quoteAuthorFullname: opt(proof.quote?.attribution?.name),
+      quoteAuthorDesignation: opt(proof.quote?.attribution?.role),
+      quoteAuthorCompany: opt(proof.quote?.attribution?.company),
+    }) ?? {};
+  }
+
+  // Social Proofs
+  if (social?.items && social.items.length > 0) {
+    raw.socialProofs = social.items.map((item) => compact({
+      type: opt(item.type),
+      description: opt(item.description),
+      link: item.link,
+    })!);
+  }
+
+  // Secondary Benefit
+  raw.secondHighestOperationalBenefitStatement = opt(secondary?.title);
+  raw.secondHighestOperationalBenefitDescription = opt(secondary?.body);
+
+  // Seller Info
+  raw.sellerDescription = opt(seller?.body);
+  raw.sellerLinkReadMore = opt(seller?.links?.more) ?? opt(social?.readMoreLink);
+
+  // Theme
+  if (brand) {
+    raw.brand = compact({
+      logoUrl: opt(brand.logoUrl),
+      colors: brand.colors ? compact({
+        primary: opt(brand.colors.primary),
+        accent: opt(brand.colors.accent),
+        bg: opt(brand.colors.bg),
+        text: opt(brand.colors.text),
+      }) : undefined,
+      fonts: brand.fonts ? compact({
+        heading: opt(brand.fonts.heading),
+        body: opt(brand.fonts.body),
+      }) : undefined,
+    });
+  }
+
+  // Search engine settings
+  if (normalized.seo) {
+    raw.seo = compact({
+      index: normalized.seo.index ? true : undefined,
+      canonicalHost: opt(normalized.seo.canonicalHost),
+      title: opt(normalized.seo.title),
+    });
+  }
+
+  // Microsite child pages (their brand is the parent's, so it is not repeated)
+  if (normalized.site && normalized.site.pages.length > 0) {
+    raw.site = {
+      overviewLabel: normalized.site.overviewLabel,
+      pages: normalized.site.pages.map((page) => {
+        const content: Partial<RawLandingContent> = mapNormalizedToRaw(page.content);
+        delete content.brand;
+        return { slug: page.slug, navLabel: page.navLabel, content };
+      }),
+    };
+  }
+
+  return compact(raw) as RawLandingContent;
+}
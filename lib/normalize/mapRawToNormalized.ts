@@ -17,6 +17,7 @@ import type {
   Benefits,
   Options,
   Proof,
+  TrustedBy,
   SocialProofs,
   SecondaryBenefit,
   SellerInfo,
@@ -24,7 +25,10 @@ import type {
   SeoMeta,
   Brand,
   TemplateType,
+  Site,
 } from './normalized.types';
+import { applySellerDefaults, type SellerDefaults } from './sellerDefaults';
+import { buildSitePageRaw, DEFAULT_OVERVIEW_LABEL } from './site';
 
 /**
  * Extract buyer company name from biggestBusinessBenefitBuyerStatement
@@ -52,15 +56,28 @@ function extractSellerName(description: string | undefined): string | null {
   return match ? match[1].trim() : null;
 }
 
+/**
+ * Template fields are kept only when they are a non-empty object
+ */
+function hasTemplateFields(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value) && Object.keys(value).length > 0;
+}
+
 /**
  * Maps raw JSON input to normalized content structure
  * This function performs the transformation WITHOUT validation
  * Validation happens in a separate phase
  *
- * @param raw - Raw landing page JSON from seller
+ * @param pageRaw - Raw landing page JSON from seller
+ * @param sellerDefaults - Seller profile boilerplate, merged under the page's own fields
  * @returns Normalized content structure for rendering
  */
-export function mapRawToNormalized(raw: RawLandingContent): NormalizedContent {
+export function mapRawToNormalized(
+  pageRaw: RawLandingContent,
+  sellerDefaults?: SellerDefaults | null
+): NormalizedContent {
+  const raw = applySellerDefaults(pageRaw, sellerDefaults);
+
   // Extract and sanitize text fields
   const sanitize = (text: string | undefined | null): string | null => {
     if (!text) return null;
@@ -78,6 +95,9 @@ export function mapRawToNormalized(raw: RawLandingContent): NormalizedContent {
   const seo: SeoMeta = {
     description: sanitize(raw.synopsisBusinessBenefit) || undefined,
     ogImage: null, // Future enhancement
+    index: raw.seo?.index === true ? true : undefined,
+    canonicalHost: raw.seo?.canonicalHost,
+    title: sanitize(raw.seo?.title) || undefined,
   };
 
   // Brand (pass through if provided)
@@ -114,6 +134,19 @@ export function mapRawToNormalized(raw: RawLandingContent): NormalizedContent {
     sellerName: raw.SellersName || null,
   };
 
+  // Trusted by section (logos keep their raw order; asset ids are resolved to URLs after validation)
+  let trustedBy: TrustedBy | undefined;
+  if (raw.trustedBy?.logos && raw.trustedBy.logos.length > 0) {
+    trustedBy = {
+      title: sanitize(raw.trustedBy.title),
+      logos: raw.trustedBy.logos.map((logo) => ({
+        url: logo.url?.trim() || '',
+        alt: sanitize(logo.alt) || '',
+        href: logo.href?.trim() || null,
+      })),
+    };
+  }
+
   // Benefits section
   let benefits: Benefits | undefined;
   if (raw.highestOperationalBenefit) {
@@ -234,6 +267,19 @@ export function mapRawToNormalized(raw: RawLandingContent): NormalizedContent {
       : null,
   };
 
+  // Microsite child pages (each normalized as a page of its own over the inherited fields)
+  let site: Site | undefined;
+  if (raw.site?.pages && raw.site.pages.length > 0) {
+    site = {
+      overviewLabel: sanitize(raw.site.overviewLabel) || DEFAULT_OVERVIEW_LABEL,
+      pages: raw.site.pages.map((page) => ({
+        slug: page.slug.trim().toLowerCase(),
+        navLabel: sanitize(page.navLabel) || '',
+        content: mapRawToNormalized(buildSitePageRaw(raw, page.content)),
+      })),
+    };
+  }
+
   // Construct normalized content
   // Template type (defaults to 'default' if not specified)
   const templateType: TemplateType = raw.templateType || 'default';
@@ -242,9 +288,11 @@ export function mapRawToNormalized(raw: RawLandingContent): NormalizedContent {
     title,
     buyersName: raw.BuyersName || null, // Store buyer name for personalization
     templateType,
+    templateFields: hasTemplateFields(raw.templateFields) ? raw.templateFields : undefined,
     seo,
     brand,
     hero,
+    trustedBy,
     benefits,
     options,
     proof,
@@ -252,6 +300,7 @@ export function mapRawToNormalized(raw: RawLandingContent): NormalizedContent {
     secondary,
     seller,
     footer,
+    site,
   };
 
   return normalized;
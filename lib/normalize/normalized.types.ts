@@ -10,12 +10,22 @@
  * - Studio flow: Paste → Validate → Normalize → Preview (optional draft save to landing_pages with status draft/validated).
  */
 
+/**
+ * Host the canonical URL points at:
+ * - 'subdomain': the buyer subdomain ({buyer}.{seller_domain}), when the page has one
+ * - 'path': /p/{page_url_key} on the application domain
+ */
+export type SeoCanonicalHost = 'subdomain' | 'path';
+
 /**
  * SEO metadata for the landing page
  */
 export interface SeoMeta {
   description?: string;
   ogImage?: string | null;
+  index?: boolean; // Pages are noindex unless this is true
+  canonicalHost?: SeoCanonicalHost; // Defaults to 'subdomain'
+  title?: string | null; // <title> override (the headline otherwise)
 }
 
 /**
@@ -154,6 +164,23 @@ export interface SocialProofs {
   readMoreLink?: string | null; // Link to seller's read more page
 }
 
+/**
+ * Customer logo in the "Trusted by" strip
+ */
+export interface TrustedByLogo {
+  url: string; // Image URL (an asset library logo resolves to its md variant)
+  alt: string;
+  href?: string | null; // Optional link, e.g. the customer's website
+}
+
+/**
+ * "Trusted by" customer logo strip
+ */
+export interface TrustedBy {
+  title?: string | null;
+  logos?: TrustedByLogo[];
+}
+
 /**
  * Secondary benefit section
  */
@@ -188,11 +215,31 @@ export interface Footer {
 }
 
 /**
- * Template types for landing pages
+ * Child page of a microsite, served at /p/{page_url_key}/{slug}
+ * (or {buyer}.{seller_domain}/{slug}) under its parent page
+ */
+export interface SitePage {
+  slug: string;
+  navLabel: string;
+  content: NormalizedContent; // Shares the parent's brand and template; has no site of its own
+}
+
+/**
+ * Microsite: the page itself is the overview, child pages share its brand,
+ * header navigation and analytics context
+ */
+export interface Site {
+  overviewLabel: string; // Nav label of the parent page
+  pages: SitePage[];
+}
+
+/**
+ * Template id for landing pages
+ * Any id registered in components/landing/templates/registry.ts, e.g.
  * - 'default': Standard template with all sections
  * - 'cyngn-abm': Bespoke ABM template optimized for Cyngn seller
  */
-export type TemplateType = 'default' | 'cyngn-abm';
+export type TemplateType = string;
 
 /**
  * Complete normalized landing page content structure
@@ -202,9 +249,11 @@ export interface NormalizedContent {
   title: string;
   buyersName?: string | null; // Buyer company name for personalization
   templateType?: TemplateType; // Which template to render with
+  templateFields?: Record<string, unknown>; // Extra fields of the template (validated by its fieldsSchema)
   seo?: SeoMeta;
   brand?: Brand;
   hero: Hero;
+  trustedBy?: TrustedBy;
   benefits?: Benefits;
   options?: Options;
   proof?: Proof;
@@ -212,6 +261,7 @@ export interface NormalizedContent {
   secondary?: SecondaryBenefit;
   seller?: SellerInfo;
   footer?: Footer;
+  site?: Site;
 }
 
 /**
@@ -222,8 +272,9 @@ export interface RawLandingContent {
   BuyersName: string;
   SellersName: string;
 
-  // Template type (optional, defaults to 'default')
-  templateType?: 'default' | 'cyngn-abm';
+  // Template id (optional, defaults to 'default') and the template's own extra fields
+  templateType?: string;
+  templateFields?: Record<string, unknown>;
 
   // Required fields
   biggestBusinessBenefitBuyerStatement: string;
@@ -235,6 +286,17 @@ export interface RawLandingContent {
   sellerLinkWebsite?: string;
   quickDemoLinks?: string;
 
+  // Trusted by (customer logo strip): each logo is an asset library id or an https URL
+  trustedBy?: {
+    title?: string;
+    logos?: Array<{
+      assetId?: string; // Asset library id; wins over url
+      url?: string;
+      alt: string;
+      href?: string;
+    }>;
+  };
+
   // Benefits
   highestOperationalBenefit?: {
     highestOperationalBenefitStatement?: string;
@@ -279,9 +341,31 @@ export interface RawLandingContent {
   sellerDescription?: string;
   sellerLinkReadMore?: string;
 
+  // Microsite: child pages under this page (the overview). Each page's content is
+  // validated like a page of its own; see lib/normalize/site.ts for inherited fields
+  site?: {
+    overviewLabel?: string;
+    pages?: Array<{
+      slug: string; // URL segment, e.g. "roi"
+      navLabel: string; // Header navigation label
+      content: Partial<RawLandingContent>;
+    }>;
+  };
+
+  // Social share image: asset library id (og variant is used)
+  ogImageAssetId?: string;
+
+  // Search engine settings (pages are noindex unless index is true)
+  seo?: {
+    index?: boolean;
+    canonicalHost?: 'subdomain' | 'path';
+    title?: string;
+  };
+
   // Theme (optional, future)
   brand?: {
     logoUrl?: string;
+    logoAssetId?: string; // Asset library id; wins over logoUrl
     colors?: {
       primary?: string;
       accent?: string;
@@ -0,0 +1,81 @@
+/**
+ * CONTEXT FOR COPILOT — PART B (Multi-Tenant)
+ * Seller profile defaults (sellers table) merged under a page's raw content.
+ * - The page's own non-empty value always wins; defaults only fill gaps
+ * - brand is merged per key (the logo, each color, each font)
+ * - Pages store their raw JSON without the defaults, so editing the profile and
+ *   republishing re-applies the new boilerplate to every page of the seller
+ */
+
+import type { RawLandingContent } from './normalized.types';
+
+/**
+ * Raw fields a seller profile can supply
+ */
+export interface SellerDefaults {
+  SellersName?: string;
+  sellerDescription?: string;
+  sellerLinkWebsite?: string;
+  sellerLinkReadMore?: string;
+  meetingSchedulerLink?: string;
+  brand?: RawLandingContent['brand'];
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
+
+/**
+ * Fill a flat object's blank keys from the defaults
+ */
+function fillBlanks<T extends Record<string, unknown>>(value: T | undefined, defaults: T | undefined): T | undefined {
+  if (!defaults) return value;
+  if (!value) return { ...defaults };
+
+  const merged: Record<string, unknown> = { ...value };
+  for (const [key, fallback] of Object.entries(defaults)) {
+    if (isBlank(merged[key]) && !isBlank(fallback)) {
+      merged[key] = fallback;
+    }
+  }
+  return merged as T;
+}
+
+/**
+ * Merge seller profile defaults under a page's raw content
+ *
+ * @example
+ * applySellerDefaults({ BuyersName: 'Adient', SellersName: '' }, { SellersName: 'Cyngn' })
+ * // => { BuyersName: 'Adient', SellersName: 'Cyngn' }
+ */
+export function applySellerDefaults<T extends Partial<RawLandingContent>>(
+  raw: T,
+  defaults: SellerDefaults | null | undefined
+): T {
+  if (!defaults) return raw;
+
+  const merged: Record<string, unknown> = { ...raw };
+  const { brand: defaultBrand, ...fields } = defaults;
+
+  for (const [key, fallback] of Object.entries(fields)) {
+    if (isBlank(merged[key]) && !isBlank(fallback)) {
+      merged[key] = fallback;
+    }
+  }
+
+  if (defaultBrand) {
+    const brand = raw.brand;
+    const hasLogo = !isBlank(brand?.logoUrl) || !isBlank(brand?.logoAssetId);
+    merged.brand = {
+      ...defaultBrand,
+      ...brand,
+      // The logo is one value: a page with its own logo (URL or asset) keeps it whole
+      logoUrl: hasLogo ? brand?.logoUrl : defaultBrand.logoUrl,
+      logoAssetId: hasLogo ? brand?.logoAssetId : defaultBrand.logoAssetId,
+      colors: fillBlanks(brand?.colors, defaultBrand.colors),
+      fonts: fillBlanks(brand?.fonts, defaultBrand.fonts),
+    };
+  }
+
+  return merged as T;
+}
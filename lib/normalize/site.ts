@@ -0,0 +1,112 @@
+/**
+ * CONTEXT FOR COPILOT — PART A (Landing Page)
+ * - Microsites: a page (the overview) with child pages such as ROI, case studies or a security FAQ.
+ * - A child page's raw content is validated and normalized like a page of its own, after
+ *   inheriting the parent's shared fields (names, template, seller links, search indexing);
+ *   brand is always the parent's.
+ * - Child pages are served at /p/{page_url_key}/{slug} and {buyer}.{seller_domain}/{slug}.
+ */
+
+import type { NormalizedContent, RawLandingContent, SitePage } from './normalized.types';
+
+/**
+ * Parent fields a child page inherits unless it sets its own
+ */
+export const SITE_INHERITED_FIELDS = [
+  'BuyersName',
+  'SellersName',
+  'templateType',
+  'meetingSchedulerLink',
+  'sellerLinkWebsite',
+  'sellerLinkReadMore',
+  'sellerDescription',
+  'ogImageAssetId',
+] as const;
+
+/**
+ * Nav label of the parent page when site.overviewLabel is not set
+ */
+export const DEFAULT_OVERVIEW_LABEL = 'Overview';
+
+/**
+ * Raw content of a child page: the parent's shared fields under the child's own,
+ * with the parent's brand (the whole site shares one brand)
+ *
+ * @param parent - Raw content of the parent page (seller defaults already applied)
+ * @param content - site.pages[i].content
+ */
+export function buildSitePageRaw(
+  parent: RawLandingContent,
+  content: Partial<RawLandingContent> | undefined
+): RawLandingContent {
+  const inherited: Partial<RawLandingContent> = {};
+  for (const field of SITE_INHERITED_FIELDS) {
+    if (parent[field] !== undefined) {
+      inherited[field] = parent[field];
+    }
+  }
+
+  // Sites don't nest, and a child page can't restyle itself
+  const own: Partial<RawLandingContent> = { ...content };
+  delete own.site;
+  delete own.brand;
+
+  // Indexing and the canonical host follow the site unless the page sets its own;
+  // the title override is per page (a malformed seo is left for validation to report)
+  if (own.seo === undefined || (own.seo && typeof own.seo === 'object' && !Array.isArray(own.seo))) {
+    const seo = { index: parent.seo?.index, canonicalHost: parent.seo?.canonicalHost, ...own.seo };
+    delete own.seo;
+    if (Object.values(seo).some((value) => value !== undefined)) {
+      inherited.seo = seo;
+    }
+  }
+
+  return { ...inherited, ...own, brand: parent.brand } as RawLandingContent;
+}
+
+/**
+ * A child page of the site by its slug
+ */
+export function getSitePage(content: NormalizedContent | null | undefined, slug: string): SitePage | null {
+  return content?.site?.pages.find((page) => page.slug === slug) ?? null;
+}
+
+/**
+ * Slugs of a site's child pages (empty for a single page)
+ */
+export function getSitePageSlugs(content: NormalizedContent | null | undefined): string[] {
+  return content?.site?.pages.map((page) => page.slug) ?? [];
+}
+
+export interface SiteNavLink {
+  label: string;
+  href: string;
+  current: boolean;
+}
+
+/**
+ * Header navigation of a site (empty for a page without child pages)
+ *
+ * @param content - Normalized content of the parent page
+ * @param basePath - Path of the parent page: "/p/{page_url_key}", or "" / "/{mmyy}" on a buyer subdomain
+ * @param currentSlug - Slug of the child page being shown, null for the overview
+ */
+export function getSiteNav(
+  content: NormalizedContent,
+  basePath: string,
+  currentSlug: string | null
+): SiteNavLink[] {
+  const pages = content.site?.pages || [];
+  if (pages.length === 0) {
+    return [];
+  }
+
+  return [
+    { label: content.site?.overviewLabel || DEFAULT_OVERVIEW_LABEL, href: basePath || '/', current: currentSlug === null },
+    ...pages.map((page) => ({
+      label: page.navLabel,
+      href: `${basePath}/${page.slug}`,
+      current: page.slug === currentSlug,
+    })),
+  ];
+}
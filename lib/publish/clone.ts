@@ -0,0 +1,107 @@
+/**
+ * CONTEXT FOR COPILOT — PART B (Multi-Tenant)
+ * Helpers for cloning a page into a new draft (new buyer, new month or new seller domain).
+ * - cloneRawContent: copy the source's raw JSON, swapping the buyer's name throughout the text
+ * - buildCloneMeta: publish metadata for the clone, with the roll-forward redirect if requested
+ * The server action (cloneToDraft in lib/actions/draftWorkflow.ts) saves the result via saveDraft.
+ */
+
+import type { LandingPageRow } from '@/lib/db/supabase';
+import { mapNormalizedToRaw } from '@/lib/normalize/mapNormalizedToRaw';
+import type { ClonePageTarget, PublishMeta } from '@/lib/validation/publishMeta';
+
+/**
+ * Strings that are links are copied as-is (a buyer name inside a URL is usually a path or slug)
+ */
+const URL_PATTERN = /^(https?:|mailto:|\/)/i;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Replace whole-word occurrences of one buyer name with another in every text value
+ *
+ * @example
+ * replaceBuyerName({ hero: 'Adient\'s plants', link: 'https://x.com/adient' }, 'Adient', 'Lear')
+ * // => { hero: 'Lear\'s plants', link: 'https://x.com/adient' }
+ */
+export function replaceBuyerName<T>(value: T, from: string, to: string): T {
+  const pattern = new RegExp(`(?<![\\w])${escapeRegExp(from)}(?![\\w])`, 'g');
+
+  const walk = (node: unknown): unknown => {
+    if (typeof node === 'string') {
+      return URL_PATTERN.test(node) ? node : node.replace(pattern, to);
+    }
+    if (Array.isArray(node)) {
+      return node.map(walk);
+    }
+    if (node && typeof node === 'object') {
+      return Object.fromEntries(Object.entries(node).map(([key, child]) => [key, walk(child)]));
+    }
+    return node;
+  };
+
+  return walk(value) as T;
+}
+
+/**
+ * Copy a page's raw JSON for a clone
+ * Legacy rows without stored raw JSON go through the reverse mapper.
+ *
+ * @param source - Page being cloned
+ * @param buyerName - New buyer name; replaces the source BuyersName in all text fields
+ */
+export function cloneRawContent(
+  source: LandingPageRow,
+  buyerName?: string
+): Record<string, unknown> {
+  const raw = structuredClone(
+    source.page_content.original ?? mapNormalizedToRaw(source.page_content.normalized)
+  ) as Record<string, unknown>;
+
+  const previousName = typeof raw.BuyersName === 'string' ? raw.BuyersName.trim() : '';
+  if (!buyerName || buyerName === previousName) {
+    return raw;
+  }
+
+  const replaced = previousName ? replaceBuyerName(raw, previousName, buyerName) : raw;
+  return { ...replaced, BuyersName: buyerName };
+}
+
+/**
+ * Build the publish metadata for a clone
+ *
+ * Unset target fields are copied from the source. A roll-forward (same buyer and
+ * seller, new month) lists the source key in redirect_from, so publishing the clone
+ * 301s last month's link to it.
+ *
+ * @returns Metadata for saveDraft, or an error message
+ */
+export function buildCloneMeta(
+  source: LandingPageRow,
+  target: ClonePageTarget
+): { meta: PublishMeta } | { error: string } {
+  const buyerId = target.buyer_id ?? source.buyer_id;
+  const mmyy = target.mmyy ?? source.mmyy;
+
+  if (!mmyy) {
+    return { error: 'Source page has no mmyy; set one for the clone' };
+  }
+
+  if (target.roll_forward && (buyerId !== source.buyer_id || mmyy === source.mmyy)) {
+    return { error: 'A roll-forward keeps the same buyer and moves to a new month' };
+  }
+
+  return {
+    meta: {
+      page_url_key: target.page_url_key || null,
+      redirect_from: target.roll_forward ? [source.page_url_key] : null,
+      campaign_id: source.campaign_id || null,
+      seller_domain: target.seller_domain ?? source.seller_domain ?? '',
+      buyer_id: buyerId,
+      seller_id: source.seller_id,
+      mmyy,
+    },
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * CONTEXT FOR COPILOT — PART B (Multi-Tenant)
+ * Server-only helpers shared by the draft workflow actions and the scheduler.
+ * - loadDraft: fetch a working row (draft/in_review/scheduled) by id
+ * - promoteDraft: publish a draft through publishLanding and remove the working row
+ */
+
+import { supabaseAdmin, type LandingPageRow } from '@/lib/db/supabase';
+import { mapNormalizedToRaw } from '@/lib/normalize/mapNormalizedToRaw';
+import { publishLanding } from '@/lib/actions/publishLanding';
+import { DRAFT_STATUSES } from '@/config/constants';
+import type { PublishResult } from '@/lib/types';
+
+export type DraftRow = LandingPageRow & { id: string };
+
+/**
+ * Load a draft row by id
+ * Returns an error message if the row is missing or is not a draft
+ */
+export async function loadDraft(draftId: string): Promise<{ draft: DraftRow } | { error: string }> {
+  const { data, error } = await supabaseAdmin
+    .from('landing_pages')
+    .select('*')
+    .eq('id', draftId)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[loadDraft] Database query error', { draftId, error: error.message });
+    return { error: 'Database error while loading draft' };
+  }
+
+  if (!data || !DRAFT_STATUSES.includes(data.status)) {
+    return { error: 'Draft not found' };
+  }
+
+  return { draft: data as DraftRow };
+}
+
+/**
+ * Publish a draft row and delete it
+ *
+ * Uses the draft's stored raw JSON (or the reverse mapper for legacy rows) so the
+ * publish goes through the same validation, versioning and revalidation as the studio.
+ *
+ * @param draft - Draft row to publish
+ * @param publishedBy - Recorded on the version snapshot
+ * @param secret - Studio publish secret (the scheduler passes the server's own)
+ */
+export async function promoteDraft(
+  draft: DraftRow,
+  publishedBy: string | null,
+  secret: string | undefined
+): Promise<PublishResult> {
+  const rawJson = draft.page_content.original ?? mapNormalizedToRaw(draft.page_content.normalized);
+  const result = await publishLanding(
+    rawJson,
+    {
+      page_url_key: draft.page_url_key, // Keeps a vanity slug chosen when the draft was saved
+      redirect_from: draft.redirect_from ?? null, // e.g. last month's key for a roll-forward clone
+      seller_domain: draft.seller_domain,
+      campaign_id: draft.campaign_id || null,
+      buyer_id: draft.buyer_id,
+      seller_id: draft.seller_id,
+      mmyy: draft.mmyy,
+      published_by: publishedBy,
+      expire_at: draft.expire_at ?? null, // Resolved when the draft was saved
+    },
+    secret
+  );
+
+  if (!result.ok) {
+    return result;
+  }
+
+  // The draft is now live; drop the working copy
+  const { error: deleteError } = await supabaseAdmin
+    .from('landing_pages')
+    .delete()
+    .eq('id', draft.id);
+
+  if (deleteError) {
+    console.error('[promoteDraft] Published but failed to remove draft', {
+      id: draft.id,
+      error: deleteError.message,
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,308 @@
+/**
+ * CONTEXT FOR COPILOT — PART B (Multi-Tenant)
+ * Mail-merge helpers: one RawLandingContent template with {{placeholders}} plus a CSV
+ * of per-account variables yields one page per row.
+ * - parseCsv: RFC 4180 CSV (quoted fields, "" escapes, CRLF) → header + rows
+ * - fillTemplate: substitute {{column}} in every string of the template
+ * - planMergeRows: fill, validate (validateAndNormalize + publish metadata) and work out each row's key
+ * Nothing here writes to the database; lib/publish/mergeBatches.ts stores and runs the batch.
+ */
+
+import { z } from 'zod';
+import { validateAndNormalize } from '@/lib/validation';
+import { applySellerDefaults, type SellerDefaults } from '@/lib/normalize/sellerDefaults';
+import { collectAssetReferences, type AssetLookup } from '@/lib/assets/references';
+import { resolvePublishTarget } from './pipeline';
+import { MAIL_MERGE_CONFIG, MAIL_MERGE_META_COLUMNS } from '@/config/constants';
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z0-9_.-]+)\s*\}\}/g;
+
+const LIST_SEPARATOR = /[;|]/;
+
+export interface CsvTable {
+  columns: string[];
+  rows: Array<Record<string, string>>;
+}
+
+/**
+ * Batch-wide metadata; a row's own buyer_id / mmyy / seller_domain / page_url_key columns win
+ */
+export interface MergeDefaults {
+  seller_id: string;
+  seller_domain?: string | null;
+  mmyy?: string | null;
+  campaign_id?: string | null;
+  published_by?: string | null;
+}
+
+export interface MergeIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * One CSV row after filling and validation
+ */
+export interface MergeRowPlan {
+  row_number: number;               // 1 = first row after the header
+  variables: Record<string, string>;
+  content: Record<string, unknown>; // Filled template (raw JSON)
+  meta: Record<string, unknown>;    // Publish metadata for publishLanding
+  page_url_key: string | null;      // null when the metadata is invalid
+  buyer_name: string | null;
+  contact_ids: string[];
+  contact_emails: string[];
+  errors: MergeIssue[];
+  warnings: MergeIssue[];
+  valid: boolean;
+}
+
+export type MergePlan =
+  | { ok: true; placeholders: string[]; columns: string[]; rows: MergeRowPlan[] }
+  | { ok: false; error: string };
+
+/**
+ * Parse CSV text into a header row and one record per data row
+ * Blank lines are skipped; short rows are padded with empty cells.
+ */
+export function parseCsv(text: string): { ok: true; table: CsvTable } | { ok: false; error: string } {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      record.push(cell);
+      records.push(record);
+      record = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (inQuotes) {
+    return { ok: false, error: 'CSV has an unterminated quoted field' };
+  }
+  if (cell !== '' || record.length > 0) {
+    record.push(cell);
+    records.push(record);
+  }
+
+  const nonBlank = records.filter((r) => r.some((value) => value.trim() !== ''));
+  if (nonBlank.length === 0) {
+    return { ok: false, error: 'CSV is empty' };
+  }
+
+  const columns = nonBlank[0].map((name) => name.trim());
+  if (columns.some((name) => !name)) {
+    return { ok: false, error: 'Every CSV column needs a header' };
+  }
+  const duplicate = columns.find((name, index) => columns.indexOf(name) !== index);
+  if (duplicate) {
+    return { ok: false, error: `CSV column "${duplicate}" appears more than once` };
+  }
+
+  const rows: CsvTable['rows'] = [];
+  for (const [index, values] of nonBlank.slice(1).entries()) {
+    if (values.length > columns.length) {
+      return { ok: false, error: `CSV row ${index + 1} has ${values.length} cells but the header has ${columns.length}` };
+    }
+    rows.push(Object.fromEntries(columns.map((name, i) => [name, (values[i] ?? '').trim()])));
+  }
+
+  return { ok: true, table: { columns, rows } };
+}
+
+/**
+ * Names of every {{placeholder}} in the template, sorted
+ */
+export function findPlaceholders(template: unknown): string[] {
+  const names = new Set<string>();
+
+  const walk = (node: unknown) => {
+    if (typeof node === 'string') {
+      for (const match of node.matchAll(PLACEHOLDER_PATTERN)) {
+        names.add(match[1]);
+      }
+    } else if (Array.isArray(node)) {
+      node.forEach(walk);
+    } else if (node && typeof node === 'object') {
+      Object.values(node).forEach(walk);
+    }
+  };
+
+  walk(template);
+  return [...names].sort();
+}
+
+/**
+ * Replace {{name}} in every string of the template with the row's value
+ * Unknown names are left as-is (planMergeRows rejects them up front).
+ *
+ * @example
+ * fillTemplate({ HeroHeadline: '{{BuyersName}} plants, automated' }, { BuyersName: 'Adient' })
+ * // => { HeroHeadline: 'Adient plants, automated' }
+ */
+export function fillTemplate<T>(template: T, variables: Record<string, string>): T {
+  const walk = (node: unknown): unknown => {
+    if (typeof node === 'string') {
+      return node.replace(PLACEHOLDER_PATTERN, (match, name: string) =>
+        Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : match
+      );
+    }
+    if (Array.isArray(node)) {
+      return node.map(walk);
+    }
+    if (node && typeof node === 'object') {
+      return Object.fromEntries(Object.entries(node).map(([key, child]) => [key, walk(child)]));
+    }
+    return node;
+  };
+
+  return walk(template) as T;
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value || '')
+    .split(LIST_SEPARATOR)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Fill and validate every row of a mail-merge
+ *
+ * A row is valid when its filled content passes validateAndNormalize, its metadata
+ * passes publish validation and no earlier row resolves to the same page_url_key.
+ *
+ * @param template - RawLandingContent with {{placeholders}}
+ * @param csvText - Header row + one row per account
+ * @param defaults - Batch-wide metadata (seller_id, and fallbacks for the per-row columns)
+ * @param sellerDefaults - The seller's profile defaults, merged under each row's content
+ * @param loadAssets - Looks up the assets the rows reference (called once per batch)
+ */
+export async function planMergeRows(
+  template: Record<string, unknown>,
+  csvText: string,
+  defaults: MergeDefaults,
+  sellerDefaults?: SellerDefaults | null,
+  loadAssets?: (assetIds: string[]) => Promise<AssetLookup>
+): Promise<MergePlan> {
+  const parsed = parseCsv(csvText);
+  if (!parsed.ok) {
+    return parsed;
+  }
+
+  const { columns, rows } = parsed.table;
+  if (rows.length === 0) {
+    return { ok: false, error: 'CSV has a header but no rows' };
+  }
+  if (rows.length > MAIL_MERGE_CONFIG.MAX_ROWS) {
+    return { ok: false, error: `A batch is limited to ${MAIL_MERGE_CONFIG.MAX_ROWS} rows (CSV has ${rows.length})` };
+  }
+  if (!columns.includes('buyer_id')) {
+    return { ok: false, error: 'CSV needs a buyer_id column' };
+  }
+
+  const placeholders = findPlaceholders(template);
+  const missing = placeholders.filter((name) => !columns.includes(name));
+  if (missing.length > 0) {
+    return { ok: false, error: `Template placeholders with no CSV column: ${missing.join(', ')}` };
+  }
+
+  // Rows can reference different assets (e.g. an assetId column), so fill them all first
+  const contents = rows.map((row) => fillTemplate(template, row));
+  const assets = loadAssets
+    ? await loadAssets(
+        contents.flatMap((content) =>
+          collectAssetReferences(applySellerDefaults(content, sellerDefaults)).map((reference) => reference.assetId)
+        )
+      )
+    : {};
+
+  const seenKeys = new Map<string, number>();
+  const plans: MergeRowPlan[] = [];
+
+  for (const [index, row] of rows.entries()) {
+    const rowNumber = index + 1;
+    const variables = Object.fromEntries(
+      Object.entries(row).filter(([name]) => !(MAIL_MERGE_META_COLUMNS as readonly string[]).includes(name))
+    );
+    const content = contents[index];
+    const meta = {
+      page_url_key: row.page_url_key || null,
+      seller_domain: row.seller_domain || defaults.seller_domain || '',
+      campaign_id: defaults.campaign_id || null,
+      buyer_id: row.buyer_id,
+      seller_id: defaults.seller_id,
+      mmyy: row.mmyy || defaults.mmyy || '',
+      published_by: defaults.published_by ?? null,
+    };
+
+    const errors: MergeIssue[] = [];
+    const warnings: MergeIssue[] = [];
+
+    const validation = await validateAndNormalize(content, { sellerDefaults, assets });
+    errors.push(...validation.errors.map((e) => ({ path: e.field || '', message: e.message })));
+    warnings.push(...validation.warnings.map((w) => ({ path: w.field || '', message: w.message })));
+
+    let pageUrlKey: string | null = null;
+    const target = resolvePublishTarget(meta);
+    if (target.ok) {
+      pageUrlKey = target.target.slug;
+      const firstRow = seenKeys.get(pageUrlKey);
+      if (firstRow) {
+        errors.push({ path: 'page_url_key', message: `Same page_url_key as row ${firstRow} (${pageUrlKey})` });
+      } else {
+        seenKeys.set(pageUrlKey, rowNumber);
+      }
+    } else {
+      errors.push(...(target.result.validationErrors ?? [{ path: '', message: target.result.error || 'Invalid metadata' }]));
+    }
+
+    const contactIds = splitList(row.contact_ids);
+    const invalidIds = contactIds.filter((id) => !z.string().uuid().safeParse(id).success);
+    if (invalidIds.length > 0) {
+      errors.push({ path: 'contact_ids', message: `Not contact UUIDs: ${invalidIds.join(', ')}` });
+    }
+
+    plans.push({
+      row_number: rowNumber,
+      variables,
+      content,
+      meta: { ...meta, page_url_key: pageUrlKey ?? meta.page_url_key },
+      page_url_key: pageUrlKey,
+      buyer_name: typeof content.BuyersName === 'string' ? content.BuyersName : null,
+      contact_ids: contactIds,
+      contact_emails: splitList(row.contact_emails).map((email) => email.toLowerCase()),
+      errors,
+      warnings,
+      valid: errors.length === 0,
+    });
+  }
+
+  return { ok: true, placeholders, columns, rows: plans };
+}
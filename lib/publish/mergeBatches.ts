@@ -0,0 +1,454 @@
+/**
+ * CONTEXT FOR COPILOT — PART B (Multi-Tenant)
+ * Mail-merge batch jobs (merge_batches + merge_batch_items).
+ * - previewMergeBatch: fill + validate every CSV row without saving anything (the studio's pass/fail grid)
+ * - createMergeBatch: store the batch; valid rows start as pending, invalid rows are kept for the grid
+ * - runMergeBatch: publish pending rows through publishLanding, a few per call, and optionally
+ *   generate tracking tokens for each row's contacts; the studio calls it until the batch completes
+ */
+
+import { supabaseAdmin, type MergeBatchRow, type MergeBatchItemRow } from '@/lib/db/supabase';
+import { generateTrackingTokens } from '@/lib/db/trackingTokens';
+import { getSellerDefaults } from '@/lib/db/sellers';
+import { getAssetLookup } from '@/lib/db/assets';
+import type { AuditRequestInfo } from '@/lib/db/auditLog';
+import { publishLanding } from '@/lib/actions/publishLanding';
+import { planMergeRows, type MergeDefaults, type MergePlan } from './mailMerge';
+import { LIVE_STATUSES, MAIL_MERGE_CONFIG } from '@/config/constants';
+
+/**
+ * A row left in "publishing" this long (crashed or timed-out run) is retried;
+ * publishing is idempotent, so a retry of a row that did go live is a no-op
+ */
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+
+const INSERT_CHUNK_SIZE = 100;
+
+/**
+ * Columns for the studio grid (the filled content and metadata stay in the database)
+ */
+const ITEM_SUMMARY_COLUMNS =
+  'id, batch_id, row_number, status, variables, page_url_key, contact_ids, errors, warnings, url, landing_page_id, version, tokens_created, processed_at';
+
+export type MergeBatchItemSummary = Omit<MergeBatchItemRow, 'content' | 'meta'>;
+
+export interface MergeBatchInput {
+  name: string;
+  template: Record<string, unknown>;
+  csv: string;
+  defaults: Omit<MergeDefaults, 'published_by'>;
+  generate_tokens: boolean;
+}
+
+export interface MergeProgress {
+  total: number;
+  invalid: number;
+  pending: number;
+  publishing: number;
+  published: number;
+  failed: number;
+  done: boolean;
+}
+
+export interface MergeRunCaller {
+  host: string;
+  requestInfo?: AuditRequestInfo;
+}
+
+export interface MergeBatchDetail {
+  batch: MergeBatchRow;
+  items: MergeBatchItemSummary[];
+  progress: MergeProgress;
+}
+
+/**
+ * Recorded as published_by on every page of the batch (and so as the audit actor)
+ */
+function getBatchActor(name: string): string {
+  return `mail-merge:${name}`.slice(0, 100);
+}
+
+/**
+ * Count items per status
+ */
+export function getMergeProgress(items: Pick<MergeBatchItemRow, 'status'>[]): MergeProgress {
+  const count = (status: MergeBatchItemRow['status']) => items.filter((item) => item.status === status).length;
+  const progress = {
+    total: items.length,
+    invalid: count('invalid'),
+    pending: count('pending'),
+    publishing: count('publishing'),
+    published: count('published'),
+    failed: count('failed'),
+  };
+  return { ...progress, done: progress.pending === 0 && progress.publishing === 0 };
+}
+
+/**
+ * Turn contact_emails into contact ids (one query for the whole batch)
+ * Emails with no matching contact become a warning on the row.
+ */
+async function resolveContactEmails(plan: Extract<MergePlan, { ok: true }>): Promise<void> {
+  const emails = [...new Set(plan.rows.flatMap((row) => row.contact_emails))];
+  if (emails.length === 0) {
+    return;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('contacts')
+    .select('id, email')
+    .in('email', emails);
+
+  if (error) {
+    console.error('[resolveContactEmails] Supabase error:', { code: error.code, message: error.message });
+    throw error;
+  }
+
+  const idsByEmail = new Map((data || []).map((contact) => [String(contact.email).toLowerCase(), contact.id as string]));
+
+  for (const row of plan.rows) {
+    const unknown = row.contact_emails.filter((email) => !idsByEmail.has(email));
+    if (unknown.length > 0) {
+      row.warnings.push({ path: 'contact_emails', message: `No contact found for ${unknown.join(', ')}` });
+    }
+    const resolved = row.contact_emails.map((email) => idsByEmail.get(email)).filter((id): id is string => !!id);
+    row.contact_ids = [...new Set([...row.contact_ids, ...resolved])];
+  }
+}
+
+/**
+ * Fill and validate every row without saving anything
+ */
+export async function previewMergeBatch(input: MergeBatchInput): Promise<MergePlan> {
+  const plan = await planMergeRows(
+    input.template,
+    input.csv,
+    { ...input.defaults, published_by: getBatchActor(input.name) },
+    await getSellerDefaults(input.defaults.seller_id),
+    getAssetLookup
+  );
+
+  if (plan.ok) {
+    await resolveContactEmails(plan);
+  }
+
+  return plan;
+}
+
+/**
+ * Validate and store a batch
+ *
+ * @param createdBy - Shown in the studio ("studio" for the studio UI)
+ * @returns The stored batch, or an error when the CSV or template is unusable or no row is valid
+ */
+export async function createMergeBatch(
+  input: MergeBatchInput,
+  createdBy: string
+): Promise<{ ok: true; detail: MergeBatchDetail } | { ok: false; error: string; plan?: MergePlan }> {
+  const plan = await previewMergeBatch(input);
+  if (!plan.ok) {
+    return plan;
+  }
+
+  if (!plan.rows.some((row) => row.valid)) {
+    return { ok: false, error: 'No row passed validation', plan };
+  }
+
+  const { data: batch, error: batchError } = await supabaseAdmin
+    .from('merge_batches')
+    .insert({
+      name: input.name,
+      template: input.template,
+      defaults: input.defaults,
+      generate_tokens: input.generate_tokens,
+      total_rows: plan.rows.length,
+      created_by: createdBy,
+    })
+    .select('*')
+    .single();
+
+  if (batchError || !batch) {
+    console.error('[createMergeBatch] Batch insert error', { error: batchError?.message });
+    return { ok: false, error: `Failed to create batch: ${batchError?.message ?? 'no row returned'}` };
+  }
+
+  const items = plan.rows.map((row) => ({
+    batch_id: batch.id,
+    row_number: row.row_number,
+    status: row.valid ? 'pending' : 'invalid',
+    variables: row.variables,
+    content: row.content,
+    meta: row.meta,
+    page_url_key: row.page_url_key,
+    contact_ids: row.contact_ids,
+    errors: row.errors,
+    warnings: row.warnings,
+  }));
+
+  for (let start = 0; start < items.length; start += INSERT_CHUNK_SIZE) {
+    const { error } = await supabaseAdmin
+      .from('merge_batch_items')
+      .insert(items.slice(start, start + INSERT_CHUNK_SIZE));
+
+    if (error) {
+      console.error('[createMergeBatch] Item insert error', { batchId: batch.id, error: error.message });
+      await supabaseAdmin.from('merge_batches').delete().eq('id', batch.id);
+      return { ok: false, error: `Failed to store batch rows: ${error.message}` };
+    }
+  }
+
+  console.info('[createMergeBatch] Batch created', {
+    batchId: batch.id,
+    rows: items.length,
+    valid: items.filter((item) => item.status === 'pending').length,
+  });
+
+  const detail = await getMergeBatch(batch.id);
+  return detail ? { ok: true, detail } : { ok: false, error: 'Batch was created but could not be read back' };
+}
+
+/**
+ * Load a batch with all of its rows
+ */
+export async function getMergeBatch(id: string): Promise<MergeBatchDetail | null> {
+  const { data: batch, error } = await supabaseAdmin
+    .from('merge_batches')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[getMergeBatch] Supabase error:', { code: error.code, message: error.message });
+    throw error;
+  }
+
+  if (!batch) {
+    return null;
+  }
+
+  const { data: items, error: itemsError } = await supabaseAdmin
+    .from('merge_batch_items')
+    .select(ITEM_SUMMARY_COLUMNS)
+    .eq('batch_id', id)
+    .order('row_number', { ascending: true });
+
+  if (itemsError) {
+    console.error('[getMergeBatch] Items query error:', { code: itemsError.code, message: itemsError.message });
+    throw itemsError;
+  }
+
+  const rows = (items || []) as MergeBatchItemSummary[];
+  return { batch: batch as MergeBatchRow, items: rows, progress: getMergeProgress(rows) };
+}
+
+/**
+ * Most recent batches, newest first (without rows or templates)
+ */
+export async function listMergeBatches(): Promise<Array<Omit<MergeBatchRow, 'template'>>> {
+  const { data, error } = await supabaseAdmin
+    .from('merge_batches')
+    .select('id, name, status, defaults, generate_tokens, total_rows, created_by, created_at, started_at, completed_at')
+    .order('created_at', { ascending: false })
+    .limit(50);
+
+  if (error) {
+    console.error('[listMergeBatches] Supabase error:', { code: error.code, message: error.message });
+    throw error;
+  }
+
+  return (data || []) as Array<Omit<MergeBatchRow, 'template'>>;
+}
+
+async function updateItem(id: string, fields: Partial<MergeBatchItemRow>): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('merge_batch_items')
+    .update({ ...fields, processed_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) {
+    console.error('[runMergeBatch] Item update error', { id, error: error.message });
+  }
+}
+
+/**
+ * Claim the next pending row so two concurrent runs never publish the same one
+ */
+async function claimNextItem(batchId: string): Promise<MergeBatchItemRow | null> {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const { data: next, error } = await supabaseAdmin
+      .from('merge_batch_items')
+      .select('id')
+      .eq('batch_id', batchId)
+      .eq('status', 'pending')
+      .order('row_number', { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[runMergeBatch] Pending query error', { batchId, error: error.message });
+      throw error;
+    }
+    if (!next) {
+      return null;
+    }
+
+    const { data: claimed, error: claimError } = await supabaseAdmin
+      .from('merge_batch_items')
+      .update({ status: 'publishing', processed_at: new Date().toISOString() })
+      .eq('id', next.id)
+      .eq('status', 'pending')
+      .select('*')
+      .maybeSingle();
+
+    if (claimError) {
+      console.error('[runMergeBatch] Claim error', { id: next.id, error: claimError.message });
+      throw claimError;
+    }
+    if (claimed) {
+      return claimed as MergeBatchItemRow;
+    }
+    // Another run claimed it first; try the next row
+  }
+
+  return null;
+}
+
+/**
+ * Publish one claimed row, then generate its tracking tokens if the batch asks for them
+ */
+async function publishItem(
+  batch: MergeBatchRow,
+  item: MergeBatchItemRow,
+  caller: MergeRunCaller
+): Promise<void> {
+  const result = await publishLanding(item.content, item.meta, process.env.STUDIO_PUBLISH_SECRET);
+
+  if (!result.ok) {
+    await updateItem(item.id, {
+      status: 'failed',
+      errors: result.validationErrors ?? [{ path: '', message: result.error || 'Publish failed' }],
+    });
+    return;
+  }
+
+  const { data: page } = await supabaseAdmin
+    .from('landing_pages')
+    .select('id')
+    .eq('page_url_key', item.page_url_key)
+    .in('status', LIVE_STATUSES)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  let tokensCreated: number | null = null;
+  const warnings = [...item.warnings];
+
+  if (batch.generate_tokens && batch.defaults.campaign_id && page && item.contact_ids.length > 0) {
+    const tokens = await generateTrackingTokens(
+      {
+        contactIds: item.contact_ids,
+        campaignId: batch.defaults.campaign_id,
+        landingPageId: page.id,
+        fallbackHost: caller.host,
+      },
+      getBatchActor(batch.name),
+      caller.requestInfo
+    );
+
+    if (tokens.ok) {
+      tokensCreated = tokens.summary.new;
+    } else {
+      warnings.push({ path: 'contact_ids', message: `Published, but tracking tokens failed: ${tokens.error}` });
+    }
+  }
+
+  await updateItem(item.id, {
+    status: 'published',
+    url: result.url ?? null,
+    version: result.version ?? null,
+    landing_page_id: page?.id ?? null,
+    tokens_created: tokensCreated,
+    warnings,
+  });
+}
+
+/**
+ * Publish the next pending rows of a batch
+ *
+ * Handles up to MAIL_MERGE_CONFIG.ROWS_PER_RUN rows or RUN_TIME_BUDGET_MS, whichever
+ * comes first, so each call fits in a serverless function. Call again until
+ * progress.done; the batch is marked completed when no row is left.
+ *
+ * @param caller - Request host (tracking URL fallback) and IP / user agent for the token audit entries
+ * @returns The batch after this run, or null if it does not exist
+ */
+export async function runMergeBatch(
+  id: string,
+  caller: MergeRunCaller
+): Promise<MergeBatchDetail | null> {
+  const { data: batch, error } = await supabaseAdmin
+    .from('merge_batches')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[runMergeBatch] Supabase error:', { code: error.code, message: error.message });
+    throw error;
+  }
+  if (!batch) {
+    return null;
+  }
+
+  if (batch.status !== 'completed') {
+    const startedAt = Date.now();
+
+    // Retry rows left behind by a run that died mid-publish
+    await supabaseAdmin
+      .from('merge_batch_items')
+      .update({ status: 'pending' })
+      .eq('batch_id', id)
+      .eq('status', 'publishing')
+      .lt('processed_at', new Date(startedAt - STALE_CLAIM_MS).toISOString());
+
+    if (batch.status === 'ready') {
+      await supabaseAdmin
+        .from('merge_batches')
+        .update({ status: 'running', started_at: new Date(startedAt).toISOString() })
+        .eq('id', id);
+    }
+
+    let processed = 0;
+    while (
+      processed < MAIL_MERGE_CONFIG.ROWS_PER_RUN &&
+      Date.now() - startedAt < MAIL_MERGE_CONFIG.RUN_TIME_BUDGET_MS
+    ) {
+      const item = await claimNextItem(id);
+      if (!item) break;
+
+      try {
+        await publishItem(batch as MergeBatchRow, item, caller);
+      } catch (publishError) {
+        console.error('[runMergeBatch] Row failed', { batchId: id, row: item.row_number, error: publishError });
+        await updateItem(item.id, {
+          status: 'failed',
+          errors: [{ path: '', message: publishError instanceof Error ? publishError.message : 'Unknown error' }],
+        });
+      }
+      processed++;
+    }
+
+    console.info('[runMergeBatch] Run complete', { batchId: id, processed, durationMs: Date.now() - startedAt });
+  }
+
+  const detail = await getMergeBatch(id);
+  if (detail && detail.progress.done && detail.batch.status !== 'completed') {
+    const completedAt = new Date().toISOString();
+    await supabaseAdmin
+      .from('merge_batches')
+      .update({ status: 'completed', completed_at: completedAt })
+      .eq('id', id);
+    detail.batch = { ...detail.batch, status: 'completed', completed_at: completedAt };
+  }
+
+  return detail;
+}
@@ -0,0 +1,511 @@
+/**
+ * CONTEXT FOR COPILOT — PART B (Multi-Tenant)
+ * - Side-effect-free stages of the publish pipeline, shared by publishLanding and the dry-run.
+ * - Stages: resolve target (meta → slug, url, expiry) → check seller domain → throttle check → validate/normalize → look up live row → check ownership → decide.
+ * - Nothing here writes to the database, revalidates caches or calls PostHog; publishLanding does that after planning.
+ * - The throttle check lives here so the dry-run reads the same shared rate limit as a real publish.
+ */
+
+import { supabaseAdmin } from '@/lib/db/supabase';
+import { getSellerDefaults } from '@/lib/db/sellers';
+import { getAssetLookupForContent } from '@/lib/db/assets';
+import { checkSellerDomainAccess } from '@/lib/db/sellerDomains';
+import { validateAndNormalize } from '@/lib/validation';
+import { computeContentSha } from '@/lib/normalize/hash';
+import { getSitePageSlugs } from '@/lib/normalize/site';
+import { validatePublishMeta, resolvePageUrlKey } from '@/lib/validation/publishMeta';
+import { getRevalidationPaths } from '@/lib/utils/revalidate';
+import { getDefaultExpireAt, isExpired } from '@/lib/utils/campaignWindow';
+import { checkRateLimit, peekRateLimit } from '@/lib/rateLimit';
+import { LIVE_STATUSES, type LandingPageStatus } from '@/config/constants';
+import type { NormalizedContent } from '@/lib/normalize/normalized.types';
+import type { PublishResult, PublishMeta, PublishDryRunResult } from '@/lib/types';
+
+/**
+ * Stage failure: the PublishResult to return as-is
+ */
+type StageFailure = { ok: false; result: PublishResult };
+
+/**
+ * Where a publish would land
+ */
+export interface PublishTarget {
+  meta: PublishMeta;
+  slug: string;
+  url: string;
+  expireAt: string | null;
+  redirectFrom: string[]; // Old keys that will 301 to slug
+}
+
+/**
+ * Live landing_pages columns the pipeline needs
+ */
+export interface LiveRowSummary {
+  id: string;
+  status: LandingPageStatus;
+  buyer_id: string;
+  seller_id: string;
+  seller_domain: string | null;
+  content_sha: string;
+  published_at: string | null;
+  version: number | null;
+  expire_at: string | null;
+}
+
+/**
+ * A live page at one of the redirect_from keys
+ */
+export interface RedirectSourceSummary {
+  page_url_key: string;
+  seller_id: string;
+  seller_domain: string | null;
+}
+
+/**
+ * Generate public URL using path-based routing
+ * Format: https://{seller_domain}/p/{page_url_key}
+ */
+export function generatePublicUrl(
+  sellerDomain: string | null | undefined,
+  pageUrlKey: string
+): string {
+  // Path-based URL: seller_domain/p/slug
+  if (sellerDomain) {
+    const protocol = sellerDomain.includes('localhost') ? 'http' : 'https';
+    return `${protocol}://${sellerDomain}/p/${pageUrlKey}`;
+  }
+
+  // Fallback to NEXT_PUBLIC_SITE_URL if no seller_domain
+  const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000';
+  return `${baseUrl}/p/${pageUrlKey}`;
+}
+
+/**
+ * Compare two nullable timestamps (Postgres and JS format them differently)
+ */
+function sameInstant(a: string | null | undefined, b: string | null | undefined): boolean {
+  if (!a || !b) return !a && !b;
+  return new Date(a).getTime() === new Date(b).getTime();
+}
+
+/**
+ * Milliseconds until the slug may be published again (0 = not throttled)
+ * Reads the shared "publish" rate limit without counting a hit (dry-run only).
+ */
+export async function getThrottleRemainingMs(slug: string): Promise<number> {
+  const decision = await peekRateLimit('publish', slug);
+  return decision.allowed ? 0 : Math.max(0, decision.resetAt - Date.now());
+}
+
+/**
+ * Claim the publish throttle window for a slug, right before the write
+ * Call it once validation, ownership and DB checks have passed, so a rejected publish
+ * doesn't use up the window. Counts the hit atomically in the shared store, so of two
+ * concurrent publishes of the same slug (other instances, a merge batch and the studio)
+ * only one goes ahead.
+ *
+ * @returns null when the publish may go ahead, otherwise the refusal to return
+ */
+export async function claimPublishThrottle(slug: string): Promise<PublishResult | null> {
+  const decision = await checkRateLimit('publish', slug);
+  if (decision.allowed) {
+    return null;
+  }
+
+  console.warn('[publishLanding] Throttled', { slug, retryAfterSeconds: decision.retryAfterSeconds });
+  return {
+    ok: false,
+    error: `Please wait ${decision.retryAfterSeconds} seconds before publishing again`,
+    retryAfterSeconds: decision.retryAfterSeconds,
+  };
+}
+
+/**
+ * Stage 1: validate metadata and work out slug, public URL and expiry
+ */
+export function resolvePublishTarget(
+  meta: unknown
+): StageFailure | { ok: true; target: PublishTarget } {
+  const metaResult = validatePublishMeta(meta);
+  if (!metaResult.success) {
+    console.warn('[publishPipeline] Invalid metadata', {
+      issues: metaResult.error.issues,
+    });
+
+    return {
+      ok: false,
+      result: {
+        ok: false,
+        error: 'Invalid publish metadata',
+        validationErrors: metaResult.error.issues.map((issue) => ({
+          path: issue.path.join('.'),
+          message: issue.message,
+        })),
+      },
+    };
+  }
+
+  const validMeta = metaResult.data as PublishMeta;
+
+  // Vanity slug if provided, otherwise {buyer_id}-{seller_id}-{mmyy}
+  const slug = resolvePageUrlKey(validMeta);
+  validMeta.page_url_key = slug;
+
+  // Expiry: explicit value (null = never) or the default campaign window from mmyy
+  const expireAt = validMeta.expire_at !== undefined
+    ? validMeta.expire_at
+    : getDefaultExpireAt(validMeta.mmyy);
+  if (isExpired(expireAt)) {
+    return {
+      ok: false,
+      result: {
+        ok: false,
+        error: `This page would expire immediately (expire_at ${expireAt}). Set a later expiry date to republish it.`,
+        validationErrors: [{ path: 'expire_at', message: 'expire_at must be in the future' }],
+      },
+    };
+  }
+
+  return {
+    ok: true,
+    target: {
+      meta: validMeta,
+      slug,
+      url: generatePublicUrl(validMeta.seller_domain, slug),
+      expireAt,
+      redirectFrom: [...new Set(validMeta.redirect_from ?? [])].filter((key) => key !== slug),
+    },
+  };
+}
+
+/**
+ * Stage 1b: the seller_domain must be a platform domain or verified for the seller
+ * (seller_domains registry)
+ */
+export async function checkPublishDomain(target: PublishTarget): Promise<StageFailure | { ok: true }> {
+  const { seller_domain: sellerDomain, seller_id: sellerId } = target.meta;
+  if (!sellerDomain) {
+    return { ok: true };
+  }
+
+  let refusal: string | null;
+  try {
+    refusal = await checkSellerDomainAccess(sellerDomain, sellerId);
+  } catch {
+    return { ok: false, result: { ok: false, error: 'Database error while checking the seller domain' } };
+  }
+
+  if (refusal) {
+    return {
+      ok: false,
+      result: {
+        ok: false,
+        error: refusal,
+        validationErrors: [{ path: 'seller_domain', message: refusal }],
+      },
+    };
+  }
+
+  return { ok: true };
+}
+
+/**
+ * Stage 2: validate and normalize content using Part A logic, then hash it
+ * The seller's profile defaults (sellers table) are merged under the raw content first,
+ * and asset references are resolved from the asset library.
+ */
+export async function normalizeForPublish(
+  rawJson: unknown,
+  slug: string,
+  sellerId: string
+): Promise<
+  | (StageFailure & { warnings: PublishDryRunResult['warnings'] })
+  | { ok: true; normalized: NormalizedContent; contentSha: string; warnings: PublishDryRunResult['warnings'] }
+> {
+  let sellerDefaults;
+  try {
+    sellerDefaults = await getSellerDefaults(sellerId);
+  } catch {
+    return {
+      ok: false,
+      warnings: [],
+      result: { ok: false, error: 'Database error while loading the seller profile' },
+    };
+  }
+
+  let assets;
+  try {
+    assets = await getAssetLookupForContent(rawJson, sellerDefaults);
+  } catch {
+    return {
+      ok: false,
+      warnings: [],
+      result: { ok: false, error: 'Database error while loading referenced assets' },
+    };
+  }
+
+  const validationResult = await validateAndNormalize(rawJson, { sellerDefaults, assets });
+  const warnings = validationResult.warnings.map((warning) => ({
+    code: warning.code,
+    path: warning.field || 'unknown',
+    message: warning.message,
+  }));
+
+  if (!validationResult.isValid || !validationResult.normalized) {
+    console.warn('[publishPipeline] Content validation failed', {
+      slug,
+      errors: validationResult.errors,
+    });
+
+    return {
+      ok: false,
+      warnings,
+      result: {
+        ok: false,
+        error: 'Content validation failed',
+        validationErrors: validationResult.errors?.map((err) => ({
+          path: err.field || 'unknown',
+          message: err.message,
+        })),
+      },
+    };
+  }
+
+  const normalized = validationResult.normalized;
+  const contentSha = await computeContentSha(normalized);
+
+  return { ok: true, normalized, contentSha, warnings };
+}
+
+/**
+ * Stage 3: look up the live row for the slug (drafts share the key, so filter to live statuses)
+ */
+export async function findLiveRow(
+  slug: string
+): Promise<StageFailure | { ok: true; row: LiveRowSummary | null }> {
+  try {
+    const { data, error: queryError } = await supabaseAdmin
+      .from('landing_pages')
+      .select('id, status, buyer_id, seller_id, seller_domain, content_sha, published_at, version, expire_at')
+      .eq('page_url_key', slug)
+      .in('status', LIVE_STATUSES)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (queryError) {
+      console.error('[publishPipeline] Database query error', {
+        slug,
+        error: {
+          message: queryError.message,
+          details: queryError.details,
+          hint: queryError.hint,
+          code: queryError.code,
+        },
+      });
+
+      return {
+        ok: false,
+        result: { ok: false, error: 'Database error during idempotency check' },
+      };
+    }
+
+    return { ok: true, row: data as LiveRowSummary | null };
+  } catch (fetchError) {
+    console.error('[publishPipeline] Network/fetch error during idempotency check', {
+      slug,
+      error: fetchError instanceof Error ? {
+        name: fetchError.name,
+        message: fetchError.message,
+        cause: fetchError.cause,
+      } : fetchError,
+    });
+
+    return {
+      ok: false,
+      result: { ok: false, error: 'Network error connecting to database. Please try again.' },
+    };
+  }
+}
+
+/**
+ * Live pages currently at the redirect_from keys (they get archived on publish)
+ */
+export async function findRedirectSources(
+  slug: string,
+  redirectFrom: string[]
+): Promise<StageFailure | { ok: true; rows: RedirectSourceSummary[] }> {
+  if (redirectFrom.length === 0) {
+    return { ok: true, rows: [] };
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('landing_pages')
+    .select('page_url_key, seller_id, seller_domain')
+    .in('page_url_key', redirectFrom)
+    .in('status', LIVE_STATUSES)
+    .is('deleted_at', null);
+
+  if (error) {
+    console.error('[publishPipeline] Redirect source lookup error', { slug, error: error.message });
+    return { ok: false, result: { ok: false, error: 'Database error while checking redirects' } };
+  }
+
+  return { ok: true, rows: (data || []) as RedirectSourceSummary[] };
+}
+
+/**
+ * Stage 4: make sure the keys belong to this buyer/seller
+ * A vanity slug (or redirect source) already used by another page cannot be taken over.
+ */
+export async function checkKeyOwnership(
+  target: PublishTarget,
+  row: LiveRowSummary | null
+): Promise<StageFailure | { ok: true }> {
+  const { meta, slug, redirectFrom } = target;
+
+  if (row && (row.buyer_id !== meta.buyer_id || row.seller_id !== meta.seller_id)) {
+    return {
+      ok: false,
+      result: {
+        ok: false,
+        error: `page_url_key "${slug}" is already used by another page`,
+        validationErrors: [{ path: 'page_url_key', message: 'Slug is already in use' }],
+        conflict: true,
+      },
+    };
+  }
+
+  const sources = await findRedirectSources(slug, redirectFrom);
+  if (!sources.ok) {
+    return sources;
+  }
+
+  const foreign = sources.rows.filter((source) => source.seller_id !== meta.seller_id);
+  if (foreign.length > 0) {
+    return {
+      ok: false,
+      result: {
+        ok: false,
+        error: 'Cannot redirect from a page that belongs to another seller',
+        conflict: true,
+        validationErrors: foreign.map((source) => ({
+          path: 'redirect_from',
+          message: `"${source.page_url_key}" belongs to another seller`,
+        })),
+      },
+    };
+  }
+
+  return { ok: true };
+}
+
+/**
+ * Stage 5: is this publish a no-op?
+ * Same contentSha already live with the same expiry → nothing to write.
+ * An archived row with the same content is still republished.
+ */
+export function isUnchangedPublish(
+  row: LiveRowSummary | null,
+  contentSha: string,
+  expireAt: string | null
+): boolean {
+  return (
+    !!row &&
+    row.status === 'published' &&
+    row.content_sha === contentSha &&
+    sameInstant(row.expire_at, expireAt)
+  );
+}
+
+/**
+ * Run every publish stage without side effects and report what a publish would do
+ *
+ * Unlike publishLanding, a throttled slug does not stop the run: it is reported
+ * alongside the rest so pre-flight checks see every problem at once.
+ * Authorization is the caller's job (server action or API route).
+ *
+ * @param rawJson - Raw landing page JSON
+ * @param meta - Publish metadata (buyer_id, seller_id, mmyy, seller_domain, ...)
+ */
+export async function dryRunPublishPipeline(
+  rawJson: unknown,
+  meta: unknown
+): Promise<PublishDryRunResult> {
+  if (rawJson === null || rawJson === undefined) {
+    return { ok: false, dryRun: true, error: 'Content is required' };
+  }
+
+  if (meta === null || meta === undefined) {
+    return { ok: false, dryRun: true, error: 'Metadata is required' };
+  }
+
+  const resolved = resolvePublishTarget(meta);
+  if (!resolved.ok) {
+    return { ...resolved.result, dryRun: true };
+  }
+
+  const domain = await checkPublishDomain(resolved.target);
+  if (!domain.ok) {
+    return { ...domain.result, dryRun: true };
+  }
+
+  const { meta: validMeta, slug, url, expireAt, redirectFrom } = resolved.target;
+  const report = {
+    dryRun: true as const,
+    slug,
+    url,
+    expireAt,
+  };
+
+  const content = await normalizeForPublish(rawJson, slug, validMeta.seller_id);
+  if (!content.ok) {
+    return { ...content.result, ...report, warnings: content.warnings };
+  }
+
+  const live = await findLiveRow(slug);
+  if (!live.ok) {
+    return { ...live.result, ...report, contentSha: content.contentSha, warnings: content.warnings };
+  }
+
+  const { row } = live;
+  const ownership = await checkKeyOwnership(resolved.target, row);
+  if (!ownership.ok) {
+    return { ...ownership.result, ...report, contentSha: content.contentSha, warnings: content.warnings };
+  }
+
+  const unchanged = isUnchangedPublish(row, content.contentSha, expireAt);
+  const action: PublishDryRunResult['action'] = unchanged
+    ? 'noop'
+    : !row
+    ? 'insert'
+    : row.status === 'archived'
+    ? 'republish'
+    : 'update';
+
+  // Like the real publish, only a publish that passed every check and writes is throttled
+  const throttleRemainingMs = unchanged ? 0 : await getThrottleRemainingMs(slug);
+  const throttled = throttleRemainingMs > 0;
+
+  return {
+    ok: !throttled,
+    ...report,
+    throttled,
+    throttleRemainingMs,
+    ...(throttled
+      ? { error: `Please wait ${Math.ceil(throttleRemainingMs / 1000)} seconds before publishing again` }
+      : {}),
+    action,
+    contentSha: content.contentSha,
+    currentContentSha: row?.content_sha ?? null,
+    contentChanged: row?.content_sha !== content.contentSha,
+    changed: !unchanged,
+    currentVersion: row?.version ?? null,
+    nextVersion: unchanged ? row?.version ?? null : row ? (row.version ?? 1) + 1 : 1,
+    warnings: content.warnings,
+    redirectFrom,
+    revalidatePaths: [
+      ...(unchanged ? [] : getRevalidationPaths(slug, getSitePageSlugs(content.normalized))),
+      ...redirectFrom.flatMap((key) => getRevalidationPaths(key)),
+    ],
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * CONTEXT FOR COPILOT — PART B (Multi-Tenant)
+ * Publish schedule runner, invoked by /api/cron/publish-schedule.
+ * - Publishes scheduled drafts whose publish_at has passed; a failed publish is
+ *   recorded on the draft and retried with backoff (SCHEDULE_CONFIG), so failing
+ *   drafts don't hold up the ones behind them
+ * - Archives published pages whose expire_at has passed, then revalidates them
+ *   so visitors get the expired-page experience instead of stale content
+ */
+
+import { supabaseAdmin } from '@/lib/db/supabase';
+import { requestRevalidation } from '@/lib/utils/revalidate';
+import { getSitePageSlugs } from '@/lib/normalize/site';
+import { SCHEDULE_CONFIG } from '@/config/constants';
+import { promoteDraft, type DraftRow } from './drafts';
+
+/**
+ * Max rows handled per run for each task (keeps a run well inside function timeouts)
+ */
+const BATCH_SIZE = 50;
+
+export interface ScheduleRunResult {
+  published: string[];
+  expired: string[];
+  errors: Array<{ page_url_key: string; error: string }>;
+}
+
+/**
+ * Record a failed scheduled publish: back off, or give up after MAX_ATTEMPTS
+ */
+async function recordScheduleFailure(draft: DraftRow, error: string, now: Date): Promise<void> {
+  const attempts = (draft.schedule_attempts ?? 0) + 1;
+  const retryAt = new Date(now.getTime() + SCHEDULE_CONFIG.RETRY_BASE_MINUTES * 60 * 1000 * 2 ** (attempts - 1));
+
+  const { error: updateError } = await supabaseAdmin
+    .from('landing_pages')
+    .update({
+      schedule_attempts: attempts,
+      schedule_retry_at: attempts < SCHEDULE_CONFIG.MAX_ATTEMPTS ? retryAt.toISOString() : null,
+      schedule_error: error.slice(0, 500),
+    })
+    .eq('id', draft.id);
+
+  if (updateError) {
+    console.error('[runPublishSchedule] Failed to record publish failure', {
+      slug: draft.page_url_key,
+      error: updateError.message,
+    });
+  }
+
+  if (attempts >= SCHEDULE_CONFIG.MAX_ATTEMPTS) {
+    console.warn('[runPublishSchedule] Giving up on scheduled publish', { slug: draft.page_url_key, attempts });
+  }
+}
+
+/**
+ * Run all due scheduled publishes and expiries
+ *
+ * @param now - Reference time (defaults to the current time)
+ */
+export async function runPublishSchedule(now: Date = new Date()): Promise<ScheduleRunResult> {
+  const result: ScheduleRunResult = { published: [], expired: [], errors: [] };
+  const nowIso = now.toISOString();
+
+  // 1. Scheduled drafts that are due (failed ones only once their backoff has passed)
+  const { data: dueDrafts, error: dueError } = await supabaseAdmin
+    .from('landing_pages')
+    .select('*')
+    .eq('status', 'scheduled')
+    .is('deleted_at', null)
+    .lte('publish_at', nowIso)
+    .lt('schedule_attempts', SCHEDULE_CONFIG.MAX_ATTEMPTS)
+    .or(`schedule_retry_at.is.null,schedule_retry_at.lte.${nowIso}`)
+    .order('publish_at', { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (dueError) {
+    console.error('[runPublishSchedule] Failed to query scheduled drafts', { error: dueError.message });
+    result.errors.push({ page_url_key: '*', error: dueError.message });
+  }
+
+  for (const draft of (dueDrafts || []) as DraftRow[]) {
+    const publishResult = await promoteDraft(
+      draft,
+      draft.submitted_by ? `${draft.submitted_by} (scheduled)` : 'scheduler',
+      process.env.STUDIO_PUBLISH_SECRET
+    );
+
+    if (publishResult.ok) {
+      result.published.push(draft.page_url_key);
+    } else {
+      console.error('[runPublishSchedule] Scheduled publish failed', {
+        slug: draft.page_url_key,
+        error: publishResult.error,
+      });
+      result.errors.push({ page_url_key: draft.page_url_key, error: publishResult.error || 'Publish failed' });
+      await recordScheduleFailure(draft, publishResult.error || 'Publish failed', now);
+    }
+  }
+
+  // 2. Live pages past their expiry
+  const { data: expiredPages, error: expiredError } = await supabaseAdmin
+    .from('landing_pages')
+    .update({ status: 'archived' })
+    .eq('status', 'published')
+    .is('deleted_at', null)
+    .not('expire_at', 'is', null)
+    .lte('expire_at', nowIso)
+    .select('page_url_key, page_content');
+
+  if (expiredError) {
+    console.error('[runPublishSchedule] Failed to archive expired pages', { error: expiredError.message });
+    result.errors.push({ page_url_key: '*', error: expiredError.message });
+  }
+
+  for (const page of expiredPages || []) {
+    // Microsite child pages expire with their parent
+    await requestRevalidation(page.page_url_key, 'runPublishSchedule', getSitePageSlugs(page.page_content?.normalized));
+    result.expired.push(page.page_url_key);
+  }
+
+  console.info('[runPublishSchedule] Run complete', {
+    published: result.published.length,
+    expired: result.expired.length,
+    errors: result.errors.length,
+  });
+
+  return result;
+}
@@ -0,0 +1,109 @@
+/**
+ * CONTEXT FOR COPILOT — PART B (Multi-Tenant)
+ * Re-apply a seller profile to the seller's live pages.
+ * - Each published page is republished from its stored raw JSON, so the current
+ *   profile defaults are merged in again (see lib/normalize/sellerDefaults.ts)
+ * - Pages whose content_sha does not change are left at their current version
+ * - Runs in chunks (SELLER_REPUBLISH_CONFIG) with a page_url_key cursor; the studio
+ *   calls again with next_cursor until it is null
+ */
+
+import { supabaseAdmin, type LandingPageRow } from '@/lib/db/supabase';
+import { publishLanding } from '@/lib/actions/publishLanding';
+import { mapNormalizedToRaw } from '@/lib/normalize/mapNormalizedToRaw';
+import { SELLER_REPUBLISH_CONFIG } from '@/config/constants';
+
+export interface SellerRepublishItem {
+  page_url_key: string;
+  ok: boolean;
+  changed?: boolean;
+  version?: number;
+  url?: string;
+  error?: string;
+}
+
+export interface SellerRepublishRun {
+  results: SellerRepublishItem[];
+  next_cursor: string | null; // page_url_key to continue after (null = done)
+}
+
+/**
+ * Republish the next live pages of a seller
+ *
+ * @param sellerId - Seller whose pages are republished
+ * @param cursor - page_url_key of the last page handled by the previous call (null to start)
+ * @param publishedBy - Recorded on the version snapshots (e.g. "seller-profile:cyngn")
+ */
+export async function republishSellerPages(
+  sellerId: string,
+  cursor: string | null,
+  publishedBy: string
+): Promise<SellerRepublishRun> {
+  const startedAt = Date.now();
+
+  let query = supabaseAdmin
+    .from('landing_pages')
+    .select('page_url_key, seller_domain, campaign_id, buyer_id, seller_id, mmyy, expire_at, page_content')
+    .eq('seller_id', sellerId.toLowerCase())
+    .eq('status', 'published')
+    .is('deleted_at', null)
+    .order('page_url_key', { ascending: true })
+    .limit(SELLER_REPUBLISH_CONFIG.PAGES_PER_RUN + 1);
+
+  if (cursor) {
+    query = query.gt('page_url_key', cursor);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('[republishSellerPages] Supabase error:', { sellerId, code: error.code, message: error.message });
+    throw error;
+  }
+
+  const pages = (data || []) as LandingPageRow[];
+  const results: SellerRepublishItem[] = [];
+
+  for (const page of pages.slice(0, SELLER_REPUBLISH_CONFIG.PAGES_PER_RUN)) {
+    if (Date.now() - startedAt >= SELLER_REPUBLISH_CONFIG.RUN_TIME_BUDGET_MS) break;
+
+    const rawJson = page.page_content.original ?? mapNormalizedToRaw(page.page_content.normalized);
+    const result = await publishLanding(
+      rawJson,
+      {
+        page_url_key: page.page_url_key,
+        seller_domain: page.seller_domain,
+        campaign_id: page.campaign_id || null,
+        buyer_id: page.buyer_id,
+        seller_id: page.seller_id,
+        mmyy: page.mmyy,
+        published_by: publishedBy,
+        expire_at: page.expire_at ?? null,
+      },
+      process.env.STUDIO_PUBLISH_SECRET
+    );
+
+    results.push({
+      page_url_key: page.page_url_key,
+      ok: result.ok,
+      changed: result.changed,
+      version: result.version,
+      url: result.url,
+      error: result.ok ? undefined : result.error,
+    });
+  }
+
+  const last = results[results.length - 1];
+  const hasMore = results.length < pages.length;
+  console.info('[republishSellerPages] Run complete', {
+    sellerId,
+    processed: results.length,
+    failed: results.filter((item) => !item.ok).length,
+    hasMore,
+    durationMs: Date.now() - startedAt,
+  });
+
+  return {
+    results,
+    next_cursor: hasMore ? (last?.page_url_key ?? cursor) : null,
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * CONTEXT FOR COPILOT — PART B (Multi-Tenant)
+ * Shared rate limiting for publish throttling, /api/events and /r/[token].
+ * - Limits are configured in RATE_LIMITS (config/constants.ts)
+ * - The store comes from RATE_LIMIT_STORE: "postgres" (default in production) or "memory"
+ * - A store error fails open: the request is allowed and the error is logged
+ * - rateLimitHeaders turns a decision into Retry-After / RateLimit-* response headers
+ */
+
+import { RATE_LIMITS, type RateLimitName } from '@/config/constants';
+import { createMemoryStore, createPostgresStore, type RateLimitBucket, type RateLimitStore } from './stores';
+
+export type { RateLimitStore } from './stores';
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfterSeconds: number; // 0 when allowed
+  resetAt: number;           // Epoch ms when the window ends
+}
+
+let store: RateLimitStore | null = null;
+
+function resolveStore(): RateLimitStore {
+  const configured = process.env.RATE_LIMIT_STORE;
+  if (configured === 'memory') return createMemoryStore();
+  if (configured === 'postgres') return createPostgresStore();
+
+  if (configured) {
+    console.warn('[rateLimit] Unknown RATE_LIMIT_STORE, using the default', { configured });
+  }
+  return process.env.NODE_ENV === 'production' ? createPostgresStore() : createMemoryStore();
+}
+
+/**
+ * Store used by every limit (created on first use)
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    store = resolveStore();
+  }
+  return store;
+}
+
+/**
+ * Swap the store (scripts and local experiments)
+ */
+export function setRateLimitStore(next: RateLimitStore): void {
+  store = next;
+}
+
+function toDecision(name: RateLimitName, bucket: RateLimitBucket | null, counted: boolean): RateLimitDecision {
+  const { limit, windowMs } = RATE_LIMITS[name];
+  const now = Date.now();
+  const hits = bucket?.hits ?? 0;
+  const resetAt = bucket?.resetAt ?? now + windowMs;
+  // A counted hit is allowed up to the limit; a peek asks whether one more hit would be
+  const allowed = counted ? hits <= limit : hits < limit;
+
+  return {
+    allowed,
+    limit,
+    remaining: Math.max(0, limit - hits),
+    retryAfterSeconds: allowed ? 0 : Math.max(1, Math.ceil((resetAt - now) / 1000)),
+    resetAt,
+  };
+}
+
+function failOpen(name: RateLimitName, key: string, error: unknown): RateLimitDecision {
+  console.error('[rateLimit] Store error, allowing request', {
+    limit: name,
+    key,
+    errorMessage: error instanceof Error ? error.message : 'Unknown error',
+  });
+  return toDecision(name, null, false);
+}
+
+/**
+ * Count a hit for `key` and decide whether the request may go ahead
+ *
+ * @example
+ * const decision = await checkRateLimit('events', visitorId);
+ * if (!decision.allowed) return NextResponse.json(..., { status: 429, headers: rateLimitHeaders(decision) });
+ */
+export async function checkRateLimit(name: RateLimitName, key: string): Promise<RateLimitDecision> {
+  try {
+    const bucket = await getRateLimitStore().hit(`${name}:${key}`, RATE_LIMITS[name].windowMs);
+    return toDecision(name, bucket, true);
+  } catch (error) {
+    return failOpen(name, key, error);
+  }
+}
+
+/**
+ * Decide whether a hit would be allowed, without counting one
+ * Used by the publish dry-run, which reports the throttle without claiming it.
+ */
+export async function peekRateLimit(name: RateLimitName, key: string): Promise<RateLimitDecision> {
+  try {
+    return toDecision(name, await getRateLimitStore().peek(`${name}:${key}`), false);
+  } catch (error) {
+    return failOpen(name, key, error);
+  }
+}
+
+/**
+ * Drop expired buckets (run daily by /api/cron/purge-trash)
+ */
+export async function pruneRateLimits(now: Date = new Date()): Promise<number> {
+  return getRateLimitStore().prune(now.getTime());
+}
+
+/**
+ * Response headers for a decision: RateLimit-Limit / -Remaining / -Reset, plus Retry-After when blocked
+ */
+export function rateLimitHeaders(decision: RateLimitDecision): Record<string, string> {
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(decision.limit),
+    'RateLimit-Remaining': String(decision.remaining),
+    'RateLimit-Reset': String(Math.max(0, Math.ceil((decision.resetAt - Date.now()) / 1000))),
+  };
+
+  if (!decision.allowed) {
+    headers['Retry-After'] = String(decision.retryAfterSeconds);
+  }
+
+  return headers;
+}
@@ -0,0 +1,123 @@
+/**
+ * CONTEXT FOR COPILOT — PART B (Multi-Tenant)
+ * Storage backends for lib/rateLimit.
+ * - memoryStore: per-process Map, for local development and scripts
+ * - postgresStore: rate_limit_buckets table, shared by every serverless instance
+ * Both count hits in fixed windows keyed by "{limit name}:{key}".
+ */
+
+import { supabaseAdmin } from '@/lib/db/supabase';
+
+/**
+ * Hits counted in a bucket's current window
+ */
+export interface RateLimitBucket {
+  hits: number;
+  resetAt: number; // Epoch ms when the window ends
+}
+
+export interface RateLimitStore {
+  name: 'memory' | 'postgres';
+  /** Count one hit and return the bucket after it */
+  hit(bucketKey: string, windowMs: number): Promise<RateLimitBucket>;
+  /** Current bucket without counting a hit (null = no hits in the current window) */
+  peek(bucketKey: string): Promise<RateLimitBucket | null>;
+  /** Drop buckets whose window ended before `now`; returns how many were removed */
+  prune(now: number): Promise<number>;
+}
+
+/**
+ * Sweep the Map once it grows past this many buckets
+ * (replaces the old setInterval cleanup, which kept serverless functions busy)
+ */
+const MEMORY_SWEEP_THRESHOLD = 10_000;
+
+export function createMemoryStore(): RateLimitStore {
+  const buckets = new Map<string, RateLimitBucket>();
+
+  const prune = async (now: number) => {
+    let removed = 0;
+    for (const [key, bucket] of buckets.entries()) {
+      if (bucket.resetAt <= now) {
+        buckets.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  };
+
+  return {
+    name: 'memory',
+
+    async hit(bucketKey, windowMs) {
+      const now = Date.now();
+      if (buckets.size > MEMORY_SWEEP_THRESHOLD) {
+        await prune(now);
+      }
+
+      const current = buckets.get(bucketKey);
+      const bucket = !current || current.resetAt <= now
+        ? { hits: 1, resetAt: now + windowMs }
+        : { hits: current.hits + 1, resetAt: current.resetAt };
+
+      buckets.set(bucketKey, bucket);
+      return bucket;
+    },
+
+    async peek(bucketKey) {
+      const bucket = buckets.get(bucketKey);
+      return bucket && bucket.resetAt > Date.now() ? bucket : null;
+    },
+
+    prune,
+  };
+}
+
+export function createPostgresStore(): RateLimitStore {
+  return {
+    name: 'postgres',
+
+    async hit(bucketKey, windowMs) {
+      const { data, error } = await supabaseAdmin
+        .rpc('rate_limit_hit', { p_bucket_key: bucketKey, p_window_ms: windowMs })
+        .single<{ hits: number; reset_at: string }>();
+
+      if (error || !data) {
+        console.error('[rateLimit:postgres] Hit failed', { bucketKey, error: error?.message });
+        throw error ?? new Error('rate_limit_hit returned no row');
+      }
+
+      return { hits: data.hits, resetAt: new Date(data.reset_at).getTime() };
+    },
+
+    async peek(bucketKey) {
+      const { data, error } = await supabaseAdmin
+        .from('rate_limit_buckets')
+        .select('hits, reset_at')
+        .eq('bucket_key', bucketKey)
+        .gt('reset_at', new Date().toISOString())
+        .maybeSingle();
+
+      if (error) {
+        console.error('[rateLimit:postgres] Peek failed', { bucketKey, error: error.message });
+        throw error;
+      }
+
+      return data ? { hits: data.hits, resetAt: new Date(data.reset_at).getTime() } : null;
+    },
+
+    async prune(now) {
+      const { count, error } = await supabaseAdmin
+        .from('rate_limit_buckets')
+        .delete({ count: 'exact' })
+        .lte('reset_at', new Date(now).toISOString());
+
+      if (error) {
+        console.error('[rateLimit:postgres] Prune failed', { error: error.message });
+        throw error;
+      }
+
+      return count ?? 0;
+    },
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * CONTEXT FOR COPILOT — PART B (Multi-Tenant)
+ * Canonical URLs and indexing of published pages.
+ * - A page is reachable at /p/{page_url_key} and on its buyer subdomain; the canonical URL
+ *   names one of them (seo.canonicalHost, the subdomain by default)
+ * - Pages are noindex unless their content sets seo.index (ABM pages name their buyer)
+ * - Used by the page metadata and by robots.txt / sitemap.xml (app/robots.ts, app/sitemap.ts)
+ */
+
+import { RESERVED_SUBDOMAINS, SUBDOMAIN_REGEX } from '@/config/constants';
+import type { LandingPageRow } from '@/lib/db/supabase';
+import type { HostRoute } from '@/lib/domains/host';
+import type { SeoMeta, Site } from '@/lib/normalize/normalized.types';
+
+export type CanonicalPage = Pick<LandingPageRow, 'page_url_key' | 'buyer_id' | 'seller_domain' | 'is_primary'>;
+
+/**
+ * Origin of the application domain (/p/{page_url_key} URLs)
+ */
+export function getSiteOrigin(): string {
+  return (process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000').replace(/\/+$/, '');
+}
+
+/**
+ * Origin of the page's buyer subdomain, or null if it has none
+ * ({buyer_id}.{seller_domain}; the abm scheme host serves the same pages)
+ */
+export function getBuyerOrigin(page: Pick<CanonicalPage, 'buyer_id' | 'seller_domain'>): string | null {
+  const buyerId = page.buyer_id;
+  if (!buyerId || !page.seller_domain || !SUBDOMAIN_REGEX.test(buyerId) || RESERVED_SUBDOMAINS.includes(buyerId)) {
+    return null;
+  }
+  const protocol = page.seller_domain.includes('localhost') ? 'http' : 'https';
+  return `${protocol}://${buyerId}.${page.seller_domain}`;
+}
+
+/**
+ * Canonical URL of a published page (or of one of its microsite pages)
+ *
+ * - 'subdomain' (default): the bare buyer subdomain for the primary page, otherwise
+ *   {buyer}.{seller_domain}/{page_url_key} (unique, unlike /{mmyy})
+ * - 'path', or a page without a buyer subdomain: {NEXT_PUBLIC_SITE_URL}/p/{page_url_key}
+ *
+ * @param page - The published row
+ * @param seo - SEO settings of the content shown (a child page's own settings)
+ * @param sitePage - Microsite child page slug, null for the page itself
+ */
+export function getCanonicalUrl(page: CanonicalPage, seo: SeoMeta | undefined, sitePage: string | null = null): string {
+  const childPath = sitePage ? `/${sitePage}` : '';
+  const buyerOrigin = seo?.canonicalHost === 'path' ? null : getBuyerOrigin(page);
+
+  if (buyerOrigin) {
+    const pagePath = page.is_primary ? '' : `/${page.page_url_key}`;
+    return `${buyerOrigin}${pagePath}${childPath}`;
+  }
+
+  return `${getSiteOrigin()}/p/${page.page_url_key}${childPath}`;
+}
+
+/**
+ * Whether search engines may index the content (noindex unless seo.index is true)
+ */
+export function isIndexable(seo: SeoMeta | undefined): boolean {
+  return seo?.index === true;
+}
+
+/**
+ * Canonical URLs of a page and of its microsite pages that may be indexed
+ * (child pages inherit the site's settings unless they set their own)
+ */
+export function getIndexableUrls(page: CanonicalPage, seo: SeoMeta | null | undefined, site?: Site | null): string[] {
+  const urls = isIndexable(seo ?? undefined) ? [getCanonicalUrl(page, seo ?? undefined)] : [];
+  for (const sitePage of site?.pages || []) {
+    if (isIndexable(sitePage.content.seo)) {
+      urls.push(getCanonicalUrl(page, sitePage.content.seo, sitePage.slug));
+    }
+  }
+  return urls;
+}
+
+/**
+ * Origin whose canonical URLs a host's sitemap.xml lists: the application domain,
+ * or the buyer subdomain (its abm scheme host lists the same URLs); null for refused hosts
+ */
+export function getHostOrigin(hostRoute: HostRoute): string | null {
+  if (hostRoute.type === 'app') {
+    return getSiteOrigin();
+  }
+  if (hostRoute.type === 'buyer') {
+    return getBuyerOrigin({ buyer_id: hostRoute.buyerId, seller_domain: hostRoute.sellerDomain });
+  }
+  return null;
+}
+
+/**
+ * Whether a URL is on the given origin
+ */
+export function isOnOrigin(url: string, origin: string): boolean {
+  return url === origin || url.startsWith(`${origin}/`);
+}
@@ -0,0 +1,47 @@
+/**
+ * CONTEXT FOR COPILOT — PART A (Landing Page)
+ * - JSON-LD structured data for landing pages: the seller as a schema.org Organization.
+ * - Built from the normalized content only (seller name, description, website, brand logo).
+ */
+
+import type { NormalizedContent } from '@/lib/normalize/normalized.types';
+
+export interface OrganizationJsonLd {
+  '@context': 'https://schema.org';
+  '@type': 'Organization';
+  name: string;
+  url?: string;
+  logo?: string;
+  description?: string;
+}
+
+/**
+ * schema.org Organization for the page's seller, or null without a seller name
+ */
+export function buildOrganizationJsonLd(content: NormalizedContent): OrganizationJsonLd | null {
+  const name = content.hero.sellerName || content.options?.sellerName || content.social?.sellerName;
+  if (!name) {
+    return null;
+  }
+
+  const url = content.seller?.links?.primary;
+  const logo = content.brand?.logoUrl;
+  const description = content.seller?.body;
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Organization',
+    name,
+    ...(url ? { url } : {}),
+    ...(logo ? { logo } : {}),
+    ...(description ? { description } : {}),
+  };
+}
+
+/**
+ * JSON for a <script type="application/ld+json"> body
+ * ("<" is escaped so content can't close the script element)
+ */
+export function serializeJsonLd(data: object): string {
+  return JSON.stringify(data).replace(/</g, '\\u003c');
+}
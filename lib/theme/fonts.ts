@@ -0,0 +1,111 @@
+/**
+ * CONTEXT FOR COPILOT — PART A (Landing Page)
+ * Self-hosted font catalogue for brand.fonts.
+ * - Only fonts listed here can be used; the files live in public/fonts/{slug}/
+ *   (latin subset, woff2, copied from the @fontsource packages with their OFL license)
+ * - Pages load them from our own origin: LandingPage emits the @font-face rules,
+ *   /p/[slug] adds preload hints for the weights above the fold
+ * - A font outside the catalogue falls back to DEFAULT_FONTS (W-FONT warning)
+ */
+
+export interface CatalogueFont {
+  family: string; // CSS family name, also the value stored in brand.fonts
+  slug: string; // Directory under public/fonts
+  category: 'sans-serif' | 'serif';
+  weights: readonly number[];
+}
+
+export const FONT_CATALOGUE: readonly CatalogueFont[] = [
+  { family: 'Inter', slug: 'inter', category: 'sans-serif', weights: [400, 600, 700] },
+  { family: 'Roboto', slug: 'roboto', category: 'sans-serif', weights: [400, 600, 700] },
+  { family: 'Open Sans', slug: 'open-sans', category: 'sans-serif', weights: [400, 600, 700] },
+  { family: 'Lato', slug: 'lato', category: 'sans-serif', weights: [400, 700] },
+  { family: 'Montserrat', slug: 'montserrat', category: 'sans-serif', weights: [400, 600, 700] },
+  { family: 'Poppins', slug: 'poppins', category: 'sans-serif', weights: [400, 600, 700] },
+  { family: 'Source Sans 3', slug: 'source-sans-3', category: 'sans-serif', weights: [400, 600, 700] },
+  { family: 'Merriweather', slug: 'merriweather', category: 'serif', weights: [400, 600, 700] },
+  { family: 'Playfair Display', slug: 'playfair-display', category: 'serif', weights: [400, 600, 700] },
+];
+
+/**
+ * Family every page falls back to (first family of DEFAULT_FONTS)
+ */
+export const DEFAULT_CATALOGUE_FAMILY = 'Inter';
+
+const FALLBACK_STACKS: Record<CatalogueFont['category'], string> = {
+  'sans-serif': '-apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif',
+  serif: 'Georgia, "Times New Roman", serif',
+};
+
+// Weights preloaded on /p/[slug]: body copy and headings (font-semibold)
+const PRELOAD_WEIGHTS = { body: 400, heading: 600 } as const;
+
+/**
+ * Look up a catalogue font by family name (case-insensitive; a CSS stack is
+ * matched on its first family, so '"Inter", sans-serif' finds Inter)
+ */
+export function findCatalogueFont(value: string | null | undefined): CatalogueFont | undefined {
+  const first = value?.split(',')[0].trim().replace(/^["']|["']$/g, '').toLowerCase();
+  if (!first) return undefined;
+  return FONT_CATALOGUE.find((font) => font.family.toLowerCase() === first);
+}
+
+/**
+ * Public URL of one weight of a catalogue font
+ */
+export function getFontFileUrl(font: CatalogueFont, weight: number): string {
+  return `/fonts/${font.slug}/${font.slug}-latin-${weight}-normal.woff2`;
+}
+
+/**
+ * CSS font-family stack for a catalogue font ("Merriweather" → "Merriweather", Georgia, …)
+ */
+export function getCatalogueFontStack(font: CatalogueFont): string {
+  return `"${font.family}", ${FALLBACK_STACKS[font.category]}`;
+}
+
+/**
+ * Heading and body fonts a page renders with (catalogue fonts only; anything
+ * else is replaced by the default family)
+ */
+export function resolvePageFonts(
+  fonts: { heading?: string | null; body?: string | null } | null | undefined
+): { heading: CatalogueFont; body: CatalogueFont } {
+  const fallback = findCatalogueFont(DEFAULT_CATALOGUE_FAMILY) as CatalogueFont;
+  return {
+    heading: findCatalogueFont(fonts?.heading) || fallback,
+    body: findCatalogueFont(fonts?.body) || fallback,
+  };
+}
+
+/**
+ * @font-face rules for the given fonts (every weight, deduplicated)
+ */
+export function getFontFaceCss(fonts: CatalogueFont[]): string {
+  const unique = Array.from(new Set(fonts));
+  return unique
+    .flatMap((font) =>
+      font.weights.map(
+        (weight) =>
+          `@font-face{font-family:"${font.family}";font-style:normal;font-weight:${weight};font-display:swap;` +
+          `src:url(${getFontFileUrl(font, weight)}) format("woff2");}`
+      )
+    )
+    .join('\n');
+}
+
+/**
+ * Font files worth preloading for a page (body regular + heading semibold,
+ * or the nearest weight the font has)
+ */
+export function getFontPreloadUrls(pageFonts: { heading: CatalogueFont; body: CatalogueFont }): string[] {
+  const nearest = (font: CatalogueFont, weight: number) =>
+    font.weights.reduce((best, w) => (Math.abs(w - weight) < Math.abs(best - weight) ? w : best));
+
+  return Array.from(
+    new Set([
+      getFontFileUrl(pageFonts.body, nearest(pageFonts.body, PRELOAD_WEIGHTS.body)),
+      getFontFileUrl(pageFonts.heading, nearest(pageFonts.heading, PRELOAD_WEIGHTS.heading)),
+    ])
+  );
+}
@@ -0,0 +1,224 @@
+/**
+ * CONTEXT FOR COPILOT — PART B (Multi-Tenant)
+ * Theme suggestion from a seller's logo (server-side only: uses sharp).
+ * - extractDominantColors: downsample the logo, bucket opaque pixels, return the
+ *   most common colors
+ * - suggestBrandColors: turn those colors into a BrandColors set that passes
+ *   WCAG AA with the way the templates use it (white text on primary/accent,
+ *   text and primary-as-text on bg), checked with getContrastRatio
+ * - Used by POST /api/theme/suggest ("Suggest theme" on /studio/sellers)
+ */
+
+import sharp from 'sharp';
+import { THEME_SUGGEST_CONFIG } from '@/config/constants';
+import { getContrastRatio, parseColor, WCAG_CONTRAST } from '@/lib/utils/contrast';
+import { isHttpsUrl } from '@/lib/utils/url';
+import { DEFAULT_COLORS } from './tokens';
+
+export interface PaletteSwatch {
+  hex: string;
+  share: number; // Fraction of the logo's opaque pixels (0-1)
+}
+
+export interface ThemeSuggestion {
+  colors: { primary: string; accent: string; bg: string; text: string };
+  swatches: PaletteSwatch[];
+  /** Contrast of each pair the templates draw (all ≥ 4.5) */
+  contrast: { onPrimary: number; onAccent: number; text: number; primaryText: number };
+}
+
+interface Hsl {
+  h: number; // 0-360
+  s: number; // 0-1
+  l: number; // 0-1
+}
+
+const SAMPLE_SIZE = 64; // Logo is downsampled to at most 64x64 before counting
+const MIN_ALPHA = 128; // Pixels more transparent than this are background
+const CHROMATIC_MIN_SATURATION = 0.25;
+const MIN_HUE_DISTANCE = 30; // Degrees between primary and a logo-derived accent
+const WHITE = '#FFFFFF';
+
+function toHex(r: number, g: number, b: number): string {
+  return `#${[r, g, b].map((v) => Math.round(v).toString(16).padStart(2, '0')).join('')}`.toUpperCase();
+}
+
+function toHsl(hex: string): Hsl {
+  const rgb = parseColor(hex) || { r: 0, g: 0, b: 0 };
+  const r = rgb.r / 255;
+  const g = rgb.g / 255;
+  const b = rgb.b / 255;
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  const d = max - min;
+
+  if (d === 0) return { h: 0, s: 0, l };
+
+  const s = d / (1 - Math.abs(2 * l - 1));
+  let h: number;
+  if (max === r) h = ((g - b) / d) % 6;
+  else if (max === g) h = (b - r) / d + 2;
+  else h = (r - g) / d + 4;
+
+  return { h: (h * 60 + 360) % 360, s, l };
+}
+
+function fromHsl({ h, s, l }: Hsl): string {
+  const c = (1 - Math.abs(2 * l - 1)) * s;
+  const x = c * (1 - Math.abs(((h / 60) % 2) - 1));
+  const m = l - c / 2;
+  const [r, g, b] =
+    h < 60 ? [c, x, 0] : h < 120 ? [x, c, 0] : h < 180 ? [0, c, x] : h < 240 ? [0, x, c] : h < 300 ? [x, 0, c] : [c, 0, x];
+  return toHex((r + m) * 255, (g + m) * 255, (b + m) * 255);
+}
+
+function hueDistance(a: Hsl, b: Hsl): number {
+  const d = Math.abs(a.h - b.h);
+  return Math.min(d, 360 - d);
+}
+
+function isChromatic(hsl: Hsl): boolean {
+  return hsl.s >= CHROMATIC_MIN_SATURATION && hsl.l > 0.15 && hsl.l < 0.85;
+}
+
+/**
+ * Darken a color (keeping its hue) until text of the given color reaches the ratio on it
+ */
+function darkenForContrast(color: string, textColor: string, minRatio: number = WCAG_CONTRAST.AA_NORMAL): string {
+  const hsl = toHsl(color);
+  let candidate = color.toUpperCase();
+
+  while ((getContrastRatio(textColor, candidate) ?? 0) < minRatio && hsl.l > 0) {
+    hsl.l = Math.max(0, hsl.l - 0.02);
+    candidate = fromHsl(hsl);
+  }
+  return candidate;
+}
+
+/**
+ * Most common colors of a logo image (PNG, JPEG, WebP, SVG, …), transparent pixels ignored
+ */
+export async function extractDominantColors(
+  image: Buffer,
+  maxColors: number = THEME_SUGGEST_CONFIG.MAX_SWATCHES
+): Promise<PaletteSwatch[]> {
+  const { data, info } = await sharp(image)
+    .resize(SAMPLE_SIZE, SAMPLE_SIZE, { fit: 'inside' })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  // Bucket by the top 4 bits of each channel, averaging the real colors inside a bucket
+  const buckets = new Map<number, { r: number; g: number; b: number; count: number }>();
+  let opaque = 0;
+
+  for (let i = 0; i < data.length; i += info.channels) {
+    if (data[i + 3] < MIN_ALPHA) continue;
+    const [r, g, b] = [data[i], data[i + 1], data[i + 2]];
+    const key = ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4);
+    const bucket = buckets.get(key) || { r: 0, g: 0, b: 0, count: 0 };
+    bucket.r += r;
+    bucket.g += g;
+    bucket.b += b;
+    bucket.count += 1;
+    buckets.set(key, bucket);
+    opaque += 1;
+  }
+
+  return Array.from(buckets.values())
+    .sort((a, b) => b.count - a.count)
+    .slice(0, maxColors)
+    .map((bucket) => ({
+      hex: toHex(bucket.r / bucket.count, bucket.g / bucket.count, bucket.b / bucket.count),
+      share: bucket.count / opaque,
+    }));
+}
+
+/**
+ * Propose brand colors from a logo's dominant colors
+ *
+ * - primary: the most common saturated color (or the darkest neutral of a
+ *   monochrome logo), darkened until white text reads on it
+ * - accent: the next saturated color with a clearly different hue, else a dark
+ *   neutral from the logo, else a deep shade of primary (white text must read on it too)
+ * - bg: white; text: the logo's darkest neutral if readable, else DEFAULT_COLORS.text
+ */
+export function suggestBrandColors(swatches: PaletteSwatch[]): ThemeSuggestion {
+  const withHsl = swatches.map((swatch) => ({ ...swatch, hsl: toHsl(swatch.hex) }));
+  const chromatic = withHsl.filter((swatch) => isChromatic(swatch.hsl));
+  // Greys of the logo (not its white), darkest first
+  const neutrals = withHsl
+    .filter((swatch) => swatch.hsl.s < CHROMATIC_MIN_SATURATION && swatch.hsl.l < 0.85)
+    .sort((a, b) => a.hsl.l - b.hsl.l);
+  const darkNeutral = neutrals.find((swatch) => swatch.hsl.l < 0.3);
+
+  const bg = WHITE;
+  const primarySource = chromatic[0];
+  // A monochrome logo keeps its own dark tone as primary
+  const primary = darkenForContrast(primarySource?.hex || neutrals[0]?.hex || DEFAULT_COLORS.primary, WHITE);
+
+  const accentSource = primarySource
+    ? chromatic.find((swatch) => hueDistance(swatch.hsl, primarySource.hsl) >= MIN_HUE_DISTANCE) || darkNeutral
+    : undefined;
+  const accent = accentSource
+    ? darkenForContrast(accentSource.hex, WHITE)
+    : fromHsl({ ...toHsl(primary), l: toHsl(primary).l * 0.6 });
+
+  const darkest = darkNeutral?.hex.toUpperCase();
+  const text =
+    darkest && (getContrastRatio(darkest, bg) ?? 0) >= WCAG_CONTRAST.AA_NORMAL ? darkest : DEFAULT_COLORS.text;
+
+  return {
+    colors: { primary, accent, bg, text },
+    swatches,
+    contrast: {
+      onPrimary: getContrastRatio(WHITE, primary) ?? 0,
+      onAccent: getContrastRatio(WHITE, accent) ?? 0,
+      text: getContrastRatio(text, bg) ?? 0,
+      primaryText: getContrastRatio(primary, bg) ?? 0,
+    },
+  };
+}
+
+/**
+ * Download a logo for palette extraction (https only, size-capped)
+ *
+ * @throws Error with a user-facing message when the URL or response is unusable
+ */
+export async function fetchLogoImage(logoUrl: string): Promise<Buffer> {
+  if (!isHttpsUrl(logoUrl)) {
+    throw new Error('Logo URL must use https://');
+  }
+
+  const response = await fetch(logoUrl, {
+    signal: AbortSignal.timeout(THEME_SUGGEST_CONFIG.LOGO_FETCH_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Logo could not be downloaded (HTTP ${response.status})`);
+  }
+
+  const contentType = response.headers.get('content-type') || '';
+  if (!contentType.startsWith('image/')) {
+    throw new Error(`Logo URL did not return an image (${contentType || 'no content type'})`);
+  }
+
+  const declaredLength = Number(response.headers.get('content-length') || 0);
+  if (declaredLength > THEME_SUGGEST_CONFIG.MAX_LOGO_BYTES) {
+    throw new Error('Logo is too large');
+  }
+
+  const buffer = Buffer.from(await response.arrayBuffer());
+  if (buffer.length > THEME_SUGGEST_CONFIG.MAX_LOGO_BYTES) {
+    throw new Error('Logo is too large');
+  }
+  return buffer;
+}
+
+/**
+ * Suggest a theme for a logo image
+ */
+export async function suggestThemeFromImage(image: Buffer): Promise<ThemeSuggestion> {
+  return suggestBrandColors(await extractDominantColors(image));
+}
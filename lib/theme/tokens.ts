@@ -10,6 +10,10 @@
  * - Studio flow: Paste → Validate → Normalize → Preview (optional draft save to landing_pages with status draft/validated).
  */
 
+import { ensureReadableTextColor, getContrastRatio } from '@/lib/utils/contrast';
+import type { Brand, BrandColors } from '@/lib/normalize/normalized.types';
+import { findCatalogueFont, getCatalogueFontStack } from './fonts';
+
 /**
  * Default theme colors with WCAG AA compliant contrast
  */
@@ -48,6 +52,12 @@ export const CSS_VARIABLES = {
   colorSuccess: '--color-success',
   colorWarning: '--color-warning',
   colorError: '--color-error',
+  colorOnPrimary: '--color-on-primary', // Text on primary buttons
+  colorOnAccent: '--color-on-accent', // Text on accent panels
+  colorPrimaryText: '--color-primary-text', // Primary used as text/icon color on bg
+  colorPrimarySoft: '--color-primary-soft', // Primary tint for cards and highlights
+  colorHeading: '--color-heading',
+  colorBgMuted: '--color-bg-muted', // Alternating section background
 
   // Fonts
   fontHeading: '--font-heading',
@@ -161,3 +171,106 @@ export function applyTheme(element: HTMLElement, config: ThemeConfig = {}): void
     element.style.setProperty(property, value);
   });
 }
+
+/**
+ * A template's own look, used for every token the brand does not set
+ */
+export interface ThemeDefaults {
+  colors: {
+    primary: string;
+    accent: string;
+    bg: string;
+    text: string;
+    heading: string;
+  };
+  fonts?: {
+    heading?: string;
+    body?: string;
+  };
+}
+
+/**
+ * A token the renderer changed to keep text readable
+ */
+export interface ThemeAdjustment {
+  token: string; // CSS variable, e.g. "--color-text"
+  from: string;
+  to: string;
+  against: string; // Background the token is drawn on
+  ratio: number | null; // Contrast ratio of the original pair
+}
+
+export interface ResolvedTheme {
+  variables: Record<string, string>;
+  adjustments: ThemeAdjustment[];
+}
+
+const SAFE_COLOR = /^(#([0-9a-f]{3}|[0-9a-f]{6})|rgba?\(\s*[\d.\s,%]+\))$/i;
+
+/**
+ * Brand color if it is a plain hex / rgb() value (anything else could break out of the style attribute)
+ */
+function safeColor(value: string | null | undefined): string | undefined {
+  const trimmed = value?.trim();
+  return trimmed && SAFE_COLOR.test(trimmed) ? trimmed : undefined;
+}
+
+/**
+ * CSS stack for a brand font, if it is in the self-hosted catalogue
+ */
+function toFontStack(value: string | null | undefined): string | undefined {
+  const font = findCatalogueFont(value);
+  return font ? getCatalogueFontStack(font) : undefined;
+}
+
+/**
+ * Resolve a page's theme: brand values over the template defaults, with every
+ * text/background pair forced to WCAG AA via ensureReadableTextColor.
+ * adjustments lists each token that was changed (surfaced as W-CONTRAST warnings
+ * and on the page wrapper as data-theme-adjusted).
+ *
+ * @param brand - NormalizedContent.brand / RawLandingContent.brand
+ * @param defaults - The template's theme (components/landing/templates)
+ */
+export function resolveTheme(
+  brand: Pick<Brand, 'colors' | 'fonts'> | null | undefined,
+  defaults: ThemeDefaults
+): ResolvedTheme {
+  const adjustments: ThemeAdjustment[] = [];
+  const brandColors: BrandColors = brand?.colors || {};
+
+  const bg = safeColor(brandColors.bg) || defaults.colors.bg;
+  const primary = safeColor(brandColors.primary) || defaults.colors.primary;
+  const accent = safeColor(brandColors.accent) || defaults.colors.accent;
+
+  const readable = (token: string, color: string, against: string): string => {
+    const { text, adjusted } = ensureReadableTextColor(against, color);
+    if (adjusted) {
+      adjustments.push({ token, from: color, to: text, against, ratio: getContrastRatio(color, against) });
+    }
+    return text;
+  };
+
+  const text = readable(CSS_VARIABLES.colorText, safeColor(brandColors.text) || defaults.colors.text, bg);
+  const heading = readable(CSS_VARIABLES.colorHeading, safeColor(brandColors.text) || defaults.colors.heading, bg);
+  const primaryText = readable(CSS_VARIABLES.colorPrimaryText, primary, bg);
+  const onPrimary = readable(CSS_VARIABLES.colorOnPrimary, '#FFFFFF', primary);
+  const onAccent = readable(CSS_VARIABLES.colorOnAccent, '#FFFFFF', accent);
+
+  const variables = generateThemeVariables({
+    colors: { primary, accent, bg, text },
+    fonts: {
+      heading: toFontStack(brand?.fonts?.heading) || defaults.fonts?.heading,
+      body: toFontStack(brand?.fonts?.body) || defaults.fonts?.body,
+    },
+  });
+
+  variables[CSS_VARIABLES.colorHeading] = heading;
+  variables[CSS_VARIABLES.colorOnPrimary] = onPrimary;
+  variables[CSS_VARIABLES.colorOnAccent] = onAccent;
+  variables[CSS_VARIABLES.colorPrimaryText] = primaryText;
+  variables[CSS_VARIABLES.colorPrimarySoft] = `color-mix(in srgb, ${primary} 8%, ${bg})`;
+  variables[CSS_VARIABLES.colorBgMuted] = `color-mix(in srgb, ${bg} 95%, ${text})`;
+
+  return { variables, adjustments };
+}
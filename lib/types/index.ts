@@ -10,6 +10,44 @@ export interface PublishResult {
   url?: string;
   contentSha?: string;
   changed?: boolean;
+  version?: number; // Version number written (only when changed)
+  error?: string;
+  validationErrors?: Array<{ path: string; message: string }>;
+  retryAfterSeconds?: number; // Set when the publish was refused by the throttle
+  conflict?: boolean; // Set when the key (or a redirect source) belongs to another page
+  versionHistoryError?: string; // Published, but the version snapshot could not be saved
+}
+
+/**
+ * Report of what a publish would do, without doing it (dry-run)
+ * ok is false when the real publish would be rejected (invalid, expired, throttled, DB error)
+ */
+export interface PublishDryRunResult extends PublishResult {
+  dryRun: true;
+  slug?: string;
+  expireAt?: string | null;
+  action?: 'insert' | 'update' | 'republish' | 'noop';
+  currentContentSha?: string | null; // null when nothing is live yet
+  contentChanged?: boolean; // content_sha differs from the live row
+  currentVersion?: number | null;
+  nextVersion?: number | null;
+  throttled?: boolean;
+  throttleRemainingMs?: number;
+  warnings?: Array<{ code: string; path: string; message: string }>;
+  redirectFrom?: string[]; // Old keys that would 301 to slug
+  revalidatePaths?: string[]; // Cache paths a publish would invalidate
+}
+
+/**
+ * Result of a draft workflow operation (save, submit, return to editing)
+ */
+export interface DraftResult {
+  ok: boolean;
+  id?: string; // landing_pages.id of the draft row
+  pageUrlKey?: string;
+  status?: 'draft' | 'in_review' | 'scheduled';
+  publishAt?: string | null; // Set when status is 'scheduled'
+  contentSha?: string;
   error?: string;
   validationErrors?: Array<{ path: string; message: string }>;
 }
@@ -0,0 +1,46 @@
+/**
+ * CONTEXT FOR COPILOT — PART B (Multi-Tenant)
+ * Campaign window helpers derived from a page's mmyy.
+ * A page for "1025" runs through October 2025 and expires
+ * CAMPAIGN_WINDOW_CONFIG.EXPIRY_GRACE_DAYS after the month ends.
+ */
+
+import { CAMPAIGN_WINDOW_CONFIG } from '@/config/constants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse MMYY into the first instant (UTC) after the campaign month
+ * Returns null for malformed input
+ *
+ * @example
+ * getCampaignMonthEnd('1025') // 2025-11-01T00:00:00.000Z
+ */
+export function getCampaignMonthEnd(mmyy: string): Date | null {
+  const match = /^(0[1-9]|1[0-2])(\d{2})$/.exec(mmyy);
+  if (!match) return null;
+
+  const month = parseInt(match[1], 10); // 1-12
+  const year = 2000 + parseInt(match[2], 10);
+  // Date.UTC month is 0-based, so `month` is already the following month
+  return new Date(Date.UTC(year, month, 1));
+}
+
+/**
+ * Default expire_at for a page with the given mmyy
+ *
+ * @returns ISO 8601 timestamp, or null if mmyy is malformed
+ */
+export function getDefaultExpireAt(mmyy: string): string | null {
+  const monthEnd = getCampaignMonthEnd(mmyy);
+  if (!monthEnd) return null;
+
+  return new Date(monthEnd.getTime() + CAMPAIGN_WINDOW_CONFIG.EXPIRY_GRACE_DAYS * DAY_MS).toISOString();
+}
+
+/**
+ * Whether a page with this expire_at has expired
+ */
+export function isExpired(expireAt: string | null | undefined, now: Date = new Date()): boolean {
+  return !!expireAt && new Date(expireAt).getTime() <= now.getTime();
+}
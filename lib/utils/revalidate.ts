@@ -0,0 +1,87 @@
+/**
+ * CONTEXT FOR COPILOT — PART B (Multi-Tenant)
+ * Server-side helper to call /api/revalidate for a landing page slug
+ * (and its microsite child pages, so one publish refreshes the whole site).
+ *
+ * - Never throws: a failed revalidation must not fail the write that triggered it
+ * - 5 second timeout so a slow revalidate cannot hang a publish
+ */
+
+/**
+ * Cache paths /api/revalidate invalidates for a slug
+ * Shared with the publish dry-run so it reports exactly what would be revalidated
+ *
+ * @param sitePages - Microsite child page slugs (lib/normalize/site.ts getSitePageSlugs)
+ */
+export function getRevalidationPaths(slug: string, sitePages: string[] = []): string[] {
+  return [`/p/${slug}`, ...sitePages.map((page) => `/p/${slug}/${page}`)];
+}
+
+/**
+ * Ask /api/revalidate to invalidate the cached page for a slug
+ *
+ * @param slug - page_url_key to revalidate
+ * @param logPrefix - Caller name used in log lines (e.g. "publishLanding")
+ * @param sitePages - Microsite child page slugs to revalidate with it
+ * @returns true if the cache was invalidated
+ */
+export async function requestRevalidation(slug: string, logPrefix: string, sitePages: string[] = []): Promise<boolean> {
+  try {
+    const revalidateSecret = process.env.REVALIDATE_SECRET;
+    if (!revalidateSecret) {
+      console.error(`[${logPrefix}] REVALIDATE_SECRET not configured`);
+      console.warn(`[${logPrefix}] Skipping cache revalidation due to missing secret`);
+      return false;
+    }
+
+    const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000';
+    const revalidateUrl = `${baseUrl}/api/revalidate`;
+
+    // Add timeout to prevent hanging
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 5000); // 5 second timeout
+
+    try {
+      const response = await fetch(revalidateUrl, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'x-revalidate-secret': revalidateSecret,
+        },
+        body: JSON.stringify(sitePages.length > 0 ? { slug, pages: sitePages } : { slug }),
+        signal: controller.signal,
+      });
+
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`[${logPrefix}] Revalidate API error`, {
+          slug,
+          status: response.status,
+          error: errorText,
+        });
+
+        // The write succeeded, just the cache isn't invalidated
+        console.warn(`[${logPrefix}] Saved but cache not invalidated`, { slug });
+        return false;
+      }
+
+      console.info(`[${logPrefix}] Cache revalidated`, { slug });
+      return true;
+    } catch (fetchError) {
+      clearTimeout(timeoutId);
+      if ((fetchError as Error).name === 'AbortError') {
+        console.warn(`[${logPrefix}] Revalidate request timed out`, { slug });
+        return false;
+      }
+      throw fetchError;
+    }
+  } catch (revalidateError) {
+    console.error(`[${logPrefix}] Revalidate request failed`, {
+      slug,
+      error: revalidateError,
+    });
+    return false;
+  }
+}
@@ -35,6 +35,23 @@ export function clearStudioSecret(): void {
   }
 }
 
+/**
+ * Get the stored studio secret, prompting for it once per session if missing
+ * Used by client components before calling secret-protected server actions
+ */
+export function promptStudioSecret(): string | null {
+  const stored = getStudioSecret();
+  if (stored) {
+    return stored;
+  }
+
+  const secret = typeof window !== 'undefined' ? window.prompt('Enter Studio Publish Secret:') : null;
+  if (secret) {
+    setStudioSecret(secret);
+  }
+  return secret;
+}
+
 /**
  * Check if user is authenticated for studio operations
  */
@@ -78,3 +78,22 @@ export function isValidUrl(url: string | undefined | null): boolean {
     return false;
   }
 }
+
+/**
+ * Rebuild the visitor's query string (r, vid, sid, ...) without the internal routing
+ * params (_buyer_id, _domain_path, ...), e.g. to keep tracking params across a redirect
+ *
+ * @param searchParams - A page's resolved searchParams
+ * @returns "?r=...&vid=..." or "" when nothing is left
+ */
+export function buildPublicQuery(searchParams: Record<string, string | string[] | undefined> | undefined): string {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(searchParams || {})) {
+    if (key.startsWith('_') || value === undefined) continue;
+    for (const item of Array.isArray(value) ? value : [value]) {
+      query.append(key, item);
+    }
+  }
+  const queryString = query.toString();
+  return queryString ? `?${queryString}` : '';
+}
@@ -38,6 +38,12 @@ export const ERROR_CODES = {
   E_URL_VIDEO: 'E-URL-VIDEO',
   E_TEXT_LIMIT: 'E-TEXT-LIMIT',
   E_NORMALIZE: 'E-NORMALIZE',
+  E_TEMPLATE: 'E-TEMPLATE',
+  E_TEMPLATE_FIELDS: 'E-TEMPLATE-FIELDS',
+  E_ASSET: 'E-ASSET',
+  E_TRUSTED_BY: 'E-TRUSTED-BY',
+  E_SITE: 'E-SITE',
+  E_SEO: 'E-SEO',
 } as const;
 
 /**
@@ -51,6 +57,8 @@ export const WARNING_CODES = {
   W_QUOTE_LONG: 'W-QUOTE-LONG',
   W_VIDEO_HOST: 'W-VIDEO-HOST',
   W_CONTRAST: 'W-CONTRAST',
+  W_TEMPLATE_SECTION: 'W-TEMPLATE-SECTION',
+  W_FONT: 'W-FONT',
 } as const;
 
 /**
@@ -69,6 +77,13 @@ export const ERROR_MESSAGES: Record<string, string> = {
   [ERROR_CODES.E_TEXT_LIMIT]: 'Text exceeds allowed length; please shorten.',
   [ERROR_CODES.E_NORMALIZE]:
     'Could not normalize content. Check field names and structure.',
+  [ERROR_CODES.E_TEMPLATE]: 'Unknown template; pick one of the registered templates.',
+  [ERROR_CODES.E_TEMPLATE_FIELDS]: 'Template fields do not match the template schema.',
+  [ERROR_CODES.E_ASSET]: 'Referenced asset does not exist in the asset library.',
+  [ERROR_CODES.E_TRUSTED_BY]:
+    'Each trusted-by logo needs alt text and an asset id or https image URL; links must be https.',
+  [ERROR_CODES.E_SITE]: 'Microsite pages need a unique URL slug, a nav label and content.',
+  [ERROR_CODES.E_SEO]: 'SEO settings need a boolean index, a canonicalHost of "subdomain" or "path" and a text title.',
 };
 
 /**
@@ -87,6 +102,10 @@ export const WARNING_MESSAGES: Record<string, string> = {
     "Video host not supported for embed; we'll show a link.",
   [WARNING_CODES.W_CONTRAST]:
     "Brand colors reduce text contrast; we've auto-adjusted text color.",
+  [WARNING_CODES.W_TEMPLATE_SECTION]:
+    "The selected template doesn't display one or more sections of this content.",
+  [WARNING_CODES.W_FONT]:
+    "Font isn't in the font catalogue; the page uses the default font instead.",
 };
 
 /**
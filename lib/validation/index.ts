@@ -12,7 +12,9 @@
 
 import type { RawLandingContent, NormalizedContent } from '@/lib/normalize/normalized.types';
 import { mapRawToNormalized } from '@/lib/normalize/mapRawToNormalized';
+import { applySellerDefaults, type SellerDefaults } from '@/lib/normalize/sellerDefaults';
 import { computeContentSha } from '@/lib/normalize/hash';
+import { applyAssetUrls, type AssetLookup } from '@/lib/assets/references';
 import {
   validateRequiredFields,
   validateUrls,
@@ -20,6 +22,15 @@ import {
   checkTextWarnings,
   checkVideoHost,
   checkThemeContrast,
+  checkBrandFonts,
+  validateTemplate,
+  validateTrustedBy,
+  validateSeo,
+  validateAssetReferences,
+  validateSite,
+  validateSitePages,
+  checkSitePageWarnings,
+  checkTemplateSections,
   LENGTH_CAPS,
 } from './rules';
 import { ERROR_CODES, createError, type ErrorItem, type WarningItem } from './errors';
@@ -40,6 +51,16 @@ export interface ValidationResult {
   isValid: boolean;
 }
 
+/**
+ * Options for validation and normalization
+ */
+export interface ValidateOptions {
+  /** Seller profile boilerplate merged under the raw content before validating */
+  sellerDefaults?: SellerDefaults | null;
+  /** Asset library entries the content references (lib/db/assets.ts getAssetLookupForContent) */
+  assets?: AssetLookup;
+}
+
 /**
  * Truncate meta description to specified length
  * Adds ellipsis if truncated
@@ -63,22 +84,35 @@ function truncateMetaDescription(description: string | undefined | null, maxLeng
   return truncated + '...';
 }
 
+/**
+ * Microsite structure, then each child page as a page of its own
+ */
+function validateSiteContent(raw: RawLandingContent): ErrorItem[] {
+  const structural = validateSite(raw);
+  return structural.length > 0 ? structural : validateSitePages(raw);
+}
+
 /**
  * Main validation and normalization function
  * 
  * This function:
+ * 0. Merges seller profile defaults (options.sellerDefaults) under the raw content
  * 1. Validates required fields
  * 2. Validates URLs
- * 3. Validates text length limits
+ * 3. Validates text length limits, the template (registered id, templateFields schema),
+ *    the trusted-by logo strip, SEO settings, asset references (options.assets) and
+ *    microsite pages (each validated like a page of its own)
  * 4. Checks for warnings (long text, video host, contrast)
- * 5. If no blocking errors, normalizes the content
- * 6. Truncates meta description
+ * 5. If no blocking errors, normalizes the content, fills asset URLs (and warns about
+ *    sections the template hides)
+ * 6. Truncates meta descriptions (the page's and its microsite pages')
  * 7. Computes content SHA
  * 
  * @param raw - Raw landing page JSON
+ * @param options - Seller profile defaults to merge under the content, referenced assets
  * @returns Validation result with normalized content, hash, errors, and warnings
  */
-export async function validateAndNormalize(raw: any): Promise<ValidationResult> {
+export async function validateAndNormalize(raw: any, options: ValidateOptions = {}): Promise<ValidationResult> {
   const errors: ErrorItem[] = [];
   const warnings: WarningItem[] = [];
 
@@ -93,7 +127,7 @@ export async function validateAndNormalize(raw: any): Promise<ValidationResult>
     };
   }
 
-  const rawContent = raw as RawLandingContent;
+  const rawContent = applySellerDefaults(raw as RawLandingContent, options.sellerDefaults);
 
   // Run all validation rules
   try {
@@ -101,11 +135,18 @@ export async function validateAndNormalize(raw: any): Promise<ValidationResult>
     errors.push(...validateRequiredFields(rawContent));
     errors.push(...validateUrls(rawContent));
     errors.push(...validateTextLimits(rawContent));
+    errors.push(...validateTemplate(rawContent));
+    errors.push(...validateTrustedBy(rawContent));
+    errors.push(...validateSeo(rawContent));
+    errors.push(...validateAssetReferences(rawContent, options.assets));
+    errors.push(...validateSiteContent(rawContent));
 
     // Non-blocking warnings
     warnings.push(...checkTextWarnings(rawContent));
     warnings.push(...checkVideoHost(rawContent));
     warnings.push(...checkThemeContrast(rawContent));
+    warnings.push(...checkBrandFonts(rawContent));
+    warnings.push(...checkSitePageWarnings(rawContent));
 
     // If there are blocking errors, return early
     if (errors.length > 0) {
@@ -119,11 +160,14 @@ export async function validateAndNormalize(raw: any): Promise<ValidationResult>
     }
 
     // No blocking errors - proceed with normalization
-    const normalized = mapRawToNormalized(rawContent);
+    const normalized = applyAssetUrls(mapRawToNormalized(rawContent), rawContent, options.assets || {});
+    warnings.push(...checkTemplateSections(normalized));
 
     // Truncate meta description
-    if (normalized.seo?.description) {
-      normalized.seo.description = truncateMetaDescription(normalized.seo.description);
+    for (const page of [normalized, ...(normalized.site?.pages.map((sitePage) => sitePage.content) ?? [])]) {
+      if (page.seo?.description) {
+        page.seo.description = truncateMetaDescription(page.seo.description);
+      }
     }
 
     // Compute content hash
@@ -158,7 +202,7 @@ export async function validateAndNormalize(raw: any): Promise<ValidationResult>
  * Synchronous version of validateAndNormalize (without SHA computation)
  * Useful for quick validation checks without async overhead
  */
-export function validateAndNormalizeSync(raw: any): Omit<ValidationResult, 'contentSha'> & { contentSha: null } {
+export function validateAndNormalizeSync(raw: any, options: ValidateOptions = {}): Omit<ValidationResult, 'contentSha'> & { contentSha: null } {
   const errors: ErrorItem[] = [];
   const warnings: WarningItem[] = [];
 
@@ -172,15 +216,22 @@ export function validateAndNormalizeSync(raw: any): Omit<ValidationResult, 'cont
     };
   }
 
-  const rawContent = raw as RawLandingContent;
+  const rawContent = applySellerDefaults(raw as RawLandingContent, options.sellerDefaults);
 
   try {
     errors.push(...validateRequiredFields(rawContent));
     errors.push(...validateUrls(rawContent));
     errors.push(...validateTextLimits(rawContent));
+    errors.push(...validateTemplate(rawContent));
+    errors.push(...validateTrustedBy(rawContent));
+    errors.push(...validateSeo(rawContent));
+    errors.push(...validateAssetReferences(rawContent, options.assets));
+    errors.push(...validateSiteContent(rawContent));
     warnings.push(...checkTextWarnings(rawContent));
     warnings.push(...checkVideoHost(rawContent));
     warnings.push(...checkThemeContrast(rawContent));
+    warnings.push(...checkBrandFonts(rawContent));
+    warnings.push(...checkSitePageWarnings(rawContent));
 
     if (errors.length > 0) {
       return {
@@ -192,10 +243,13 @@ export function validateAndNormalizeSync(raw: any): Omit<ValidationResult, 'cont
       };
     }
 
-    const normalized = mapRawToNormalized(rawContent);
+    const normalized = applyAssetUrls(mapRawToNormalized(rawContent), rawContent, options.assets || {});
+    warnings.push(...checkTemplateSections(normalized));
 
-    if (normalized.seo?.description) {
-      normalized.seo.description = truncateMetaDescription(normalized.seo.description);
+    for (const page of [normalized, ...(normalized.site?.pages.map((sitePage) => sitePage.content) ?? [])]) {
+      if (page.seo?.description) {
+        page.seo.description = truncateMetaDescription(page.seo.description);
+      }
     }
 
     return {
@@ -4,6 +4,7 @@
  */
 
 import { z } from 'zod';
+import { RESERVED_SUBDOMAINS } from '@/config/constants';
 
 /**
  * Slug pattern for Option A (Global Slugs)
@@ -34,17 +35,32 @@ const MMYY_PATTERN = /^(0[1-9]|1[0-2])\d{2}$/;
  */
 const ID_PATTERN = /^[a-zA-Z0-9]+(?:-[a-zA-Z0-9]+)*$/;
 
+/**
+ * A page_url_key: slug pattern, not a reserved system name
+ */
+const PageUrlKeySchema = z
+  .string()
+  .min(3, 'Slug must be at least 3 characters')
+  .max(100, 'Slug must not exceed 100 characters')
+  .regex(SLUG_PATTERN, 'Slug must be lowercase alphanumeric with hyphens (e.g., "buyer-seller-1025")')
+  .refine((val) => !RESERVED_SUBDOMAINS.includes(val), {
+    message: 'Slug is a reserved name and cannot be used',
+  });
+
 /**
  * Zod schema for publish metadata validation
- * Note: page_url_key is now auto-generated from subdomain (one buyer = one subdomain)
+ * Note: page_url_key defaults to {buyer_id}-{seller_id}-{mmyy}; set it for a vanity slug
  */
 export const PublishMetaSchema = z.object({
-  page_url_key: z
-    .string()
-    .min(3, 'Slug must be at least 3 characters')
-    .max(100, 'Slug must not exceed 100 characters')
-    .regex(SLUG_PATTERN, 'Slug must be lowercase alphanumeric with hyphens (e.g., "buyer-seller-1025")')
-    .optional(), // Auto-generated from subdomain if not provided
+  page_url_key: PageUrlKeySchema
+    .optional()
+    .nullable(), // Vanity slug; auto-generated from buyer/seller/mmyy if not provided
+  
+  redirect_from: z
+    .array(PageUrlKeySchema)
+    .max(10, 'redirect_from must not list more than 10 slugs')
+    .optional()
+    .nullable(), // Old keys that should 301 to this page (e.g. last month's slug)
   
   campaign_id: z
     .string()
@@ -82,6 +98,26 @@ export const PublishMetaSchema = z.object({
   mmyy: z
     .string()
     .regex(MMYY_PATTERN, 'mmyy must be in MMYY format (e.g., "1025" for October 2025)'),
+  
+  published_by: z
+    .string()
+    .trim()
+    .max(100, 'published_by must not exceed 100 characters')
+    .optional()
+    .nullable(), // Recorded on the version snapshot; defaults to "studio"
+  
+  published_label: z
+    .string()
+    .trim()
+    .max(100, 'published_label must not exceed 100 characters')
+    .optional()
+    .nullable(), // Free-form label kept in the audit metadata only (never the actor)
+  
+  expire_at: z
+    .string()
+    .datetime({ offset: true, message: 'expire_at must be an ISO 8601 timestamp' })
+    .optional()
+    .nullable(), // Omitted = end of mmyy month + grace period; null = never expires
 });
 
 /**
@@ -89,6 +125,31 @@ export const PublishMetaSchema = z.object({
  */
 export type PublishMeta = z.infer<typeof PublishMetaSchema>;
 
+/**
+ * Zod schema for cloning a page into a new draft
+ * Every field is optional; unset fields are copied from the source page.
+ */
+export const ClonePageSchema = z
+  .object({
+    buyer_id: PublishMetaSchema.shape.buyer_id.optional(),
+    mmyy: PublishMetaSchema.shape.mmyy.optional(),
+    seller_domain: PublishMetaSchema.shape.seller_domain.optional(),
+    page_url_key: PageUrlKeySchema.optional().nullable(), // Vanity slug for the clone
+    buyer_name: z
+      .string()
+      .trim()
+      .min(1, 'buyer_name must not be empty')
+      .max(100, 'buyer_name must not exceed 100 characters')
+      .optional(), // Replaces the source BuyersName throughout the text fields
+    roll_forward: z.boolean().optional(), // Same buyer, new month: 301 the source key to the clone once published
+  })
+  .refine(
+    (val) => val.buyer_id || val.mmyy || val.seller_domain || val.page_url_key,
+    { message: 'Set at least one of buyer_id, mmyy, seller_domain or page_url_key' }
+  );
+
+export type ClonePageTarget = z.infer<typeof ClonePageSchema>;
+
 /**
  * Validate publish metadata
  * 
@@ -130,6 +191,21 @@ export function generateSlug(buyer_id: string, seller_id: string, mmyy: string):
   return `${buyer_id}-${seller_id}-${mmyy}`;
 }
 
+/**
+ * The page_url_key a publish writes to: the vanity slug if set, otherwise the generated one
+ * 
+ * @example
+ * resolvePageUrlKey({ buyer_id: 'adient', seller_id: 'cyngn', mmyy: '1025' });
+ * // => "adient-cyngn-1025"
+ * resolvePageUrlKey({ page_url_key: 'adient-autonomy', buyer_id: 'adient', seller_id: 'cyngn', mmyy: '1025' });
+ * // => "adient-autonomy"
+ */
+export function resolvePageUrlKey(
+  meta: Pick<PublishMeta, 'page_url_key' | 'buyer_id' | 'seller_id' | 'mmyy'>
+): string {
+  return meta.page_url_key || generateSlug(meta.buyer_id, meta.seller_id, meta.mmyy);
+}
+
 /**
  * Validate that the slug matches the expected format from buyer/seller/mmyy
  * 
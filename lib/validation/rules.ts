@@ -10,7 +10,7 @@
  * - Studio flow: Paste → Validate → Normalize → Preview (optional draft save to landing_pages with status draft/validated).
  */
 
-import type { RawLandingContent } from '@/lib/normalize/normalized.types';
+import type { RawLandingContent, NormalizedContent, SeoCanonicalHost } from '@/lib/normalize/normalized.types';
 import {
   ERROR_CODES,
   WARNING_CODES,
@@ -20,7 +20,12 @@ import {
   type WarningItem,
 } from './errors';
 import { isHttpsUrl as isHttpsUrlUtil } from '@/lib/utils/url';
-import { getContrastRatio, WCAG_CONTRAST } from '@/lib/utils/contrast';
+import { WCAG_CONTRAST } from '@/lib/utils/contrast';
+import { resolveTheme } from '@/lib/theme/tokens';
+import { ASSET_ID_PATTERN, collectAssetReferences, type AssetLookup } from '@/lib/assets/references';
+import { DEFAULT_CATALOGUE_FAMILY, FONT_CATALOGUE, findCatalogueFont } from '@/lib/theme/fonts';
+import { getTemplate, getTemplateOrDefault, listTemplates, TEMPLATE_SECTIONS } from '@/components/landing/templates';
+import { buildSitePageRaw } from '@/lib/normalize/site';
 
 /**
  * LENGTH CAPS (soft targets, warnings only)
@@ -47,6 +52,39 @@ export const HARD_LIMITS = {
   QUOTE: Math.ceil(LENGTH_CAPS.QUOTE * 1.2), // 360
 } as const;
 
+/**
+ * "Trusted by" strip limits
+ */
+export const TRUSTED_BY_LIMITS = {
+  MAX_LOGOS: 12,
+  TITLE: 60,
+  ALT: 120,
+} as const;
+
+/**
+ * Microsite limits
+ */
+export const SITE_LIMITS = {
+  MAX_PAGES: 8,
+  NAV_LABEL: 30,
+} as const;
+
+/**
+ * Search engine settings limits
+ */
+export const SEO_LIMITS = {
+  TITLE: 70,
+} as const;
+
+const SEO_CANONICAL_HOSTS: readonly SeoCanonicalHost[] = ['subdomain', 'path'];
+
+/**
+ * Child page slugs that would be shadowed by other routes on a buyer subdomain
+ * (/{mmyy} selects a month's page; /p, /api, ... are the app's own)
+ */
+const SITE_RESERVED_SLUGS = ['p', 'api', 'studio', 'tokens', 'login'];
+const SITE_SLUG_REGEX = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
 /**
  * Check if a string is a valid HTTPS URL (uses utility)
  */
@@ -315,24 +353,353 @@ export function checkVideoHost(raw: RawLandingContent): WarningItem[] {
 export function checkThemeContrast(raw: RawLandingContent): WarningItem[] {
   const warnings: WarningItem[] = [];
 
-  // Check brand colors for WCAG AA compliance
-  if (raw.brand?.colors) {
-    const { bg, text } = raw.brand.colors;
-    
-    if (bg && text) {
-      const ratio = getContrastRatio(text, bg);
-      
-      if (ratio !== null && ratio < WCAG_CONTRAST.AA_NORMAL) {
-        warnings.push(
-          createWarning(
-            WARNING_CODES.W_CONTRAST,
-            'brand.colors',
-            `Text/background contrast ${ratio.toFixed(2)}:1 is below WCAG AA minimum (${WCAG_CONTRAST.AA_NORMAL}:1)`
-          )
-        );
-      }
+  // The renderer auto-adjusts failing pairs; report each change it will make
+  const { adjustments } = resolveTheme(raw.brand, getTemplateOrDefault(raw.templateType).theme);
+
+  for (const adjustment of adjustments) {
+    const ratio = adjustment.ratio !== null ? `${adjustment.ratio.toFixed(2)}:1` : 'unknown';
+    warnings.push(
+      createWarning(
+        WARNING_CODES.W_CONTRAST,
+        'brand.colors',
+        `${adjustment.token} ${adjustment.from} on ${adjustment.against} has contrast ${ratio}, below WCAG AA (${WCAG_CONTRAST.AA_NORMAL}:1); rendered as ${adjustment.to}`
+      )
+    );
+  }
+
+  return warnings;
+}
+
+/**
+ * Check brand fonts against the self-hosted font catalogue
+ */
+export function checkBrandFonts(raw: RawLandingContent): WarningItem[] {
+  const warnings: WarningItem[] = [];
+
+  for (const key of ['heading', 'body'] as const) {
+    const value = raw.brand?.fonts?.[key];
+    if (typeof value === 'string' && value.trim() && !findCatalogueFont(value)) {
+      warnings.push(
+        createWarning(
+          WARNING_CODES.W_FONT,
+          `brand.fonts.${key}`,
+          `Font "${value.trim()}" isn't in the font catalogue; rendering with the default font (${DEFAULT_CATALOGUE_FAMILY}). Available: ${FONT_CATALOGUE.map((font) => font.family).join(', ')}`
+        )
+      );
     }
   }
 
   return warnings;
 }
+
+/**
+ * Validate the "Trusted by" logo strip: every logo needs alt text and an image
+ * (asset library id or https URL); optional links must be https
+ */
+export function validateTrustedBy(raw: RawLandingContent): ErrorItem[] {
+  const errors: ErrorItem[] = [];
+  const trustedBy = raw.trustedBy;
+
+  if (trustedBy === undefined || trustedBy === null) {
+    return errors;
+  }
+  if (typeof trustedBy !== 'object' || Array.isArray(trustedBy)) {
+    errors.push(createError(ERROR_CODES.E_TRUSTED_BY, 'trustedBy', 'trustedBy must be an object with title and logos'));
+    return errors;
+  }
+
+  if (trustedBy.title !== undefined && typeof trustedBy.title !== 'string') {
+    errors.push(createError(ERROR_CODES.E_TRUSTED_BY, 'trustedBy.title', 'trustedBy.title must be a string'));
+  } else if (trustedBy.title && trustedBy.title.length > TRUSTED_BY_LIMITS.TITLE) {
+    errors.push(
+      createError(ERROR_CODES.E_TEXT_LIMIT, 'trustedBy.title', `Trusted-by title exceeds hard limit of ${TRUSTED_BY_LIMITS.TITLE} characters.`)
+    );
+  }
+
+  if (trustedBy.logos === undefined) {
+    return errors;
+  }
+  if (!Array.isArray(trustedBy.logos)) {
+    errors.push(createError(ERROR_CODES.E_TRUSTED_BY, 'trustedBy.logos', 'trustedBy.logos must be an array'));
+    return errors;
+  }
+  if (trustedBy.logos.length > TRUSTED_BY_LIMITS.MAX_LOGOS) {
+    errors.push(
+      createError(ERROR_CODES.E_TRUSTED_BY, 'trustedBy.logos', `trustedBy supports at most ${TRUSTED_BY_LIMITS.MAX_LOGOS} logos`)
+    );
+  }
+
+  trustedBy.logos.forEach((logo, index) => {
+    const path = `trustedBy.logos[${index}]`;
+    if (!logo || typeof logo !== 'object') {
+      errors.push(createError(ERROR_CODES.E_TRUSTED_BY, path, `${path} must be an object with alt and assetId or url`));
+      return;
+    }
+
+    if (typeof logo.alt !== 'string' || !isNonEmpty(logo.alt)) {
+      errors.push(createError(ERROR_CODES.E_TRUSTED_BY, `${path}.alt`, `${path}.alt is required (describe the logo, e.g. the customer's name)`));
+    } else if (logo.alt.length > TRUSTED_BY_LIMITS.ALT) {
+      errors.push(createError(ERROR_CODES.E_TRUSTED_BY, `${path}.alt`, `${path}.alt must not exceed ${TRUSTED_BY_LIMITS.ALT} characters`));
+    }
+
+    // An asset id is checked by validateAssetReferences; otherwise the URL must be https
+    if (logo.assetId !== undefined && typeof logo.assetId !== 'string') {
+      errors.push(createError(ERROR_CODES.E_TRUSTED_BY, `${path}.assetId`, `${path}.assetId must be a string`));
+    } else if (!isNonEmpty(logo.assetId)) {
+      if (typeof logo.url !== 'string' || !isNonEmpty(logo.url)) {
+        errors.push(createError(ERROR_CODES.E_TRUSTED_BY, path, `${path} needs an assetId or a url`));
+      } else if (!isHttpsUrl(logo.url)) {
+        errors.push(createError(ERROR_CODES.E_TRUSTED_BY, `${path}.url`, `${path}.url must be a valid https URL`));
+      }
+    }
+
+    if (logo.href !== undefined && logo.href !== '' && !isHttpsUrl(logo.href)) {
+      errors.push(createError(ERROR_CODES.E_TRUSTED_BY, `${path}.href`, `${path}.href must be a valid https URL`));
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Validate the search engine settings: index flag, canonical host and title override
+ */
+export function validateSeo(raw: RawLandingContent): ErrorItem[] {
+  const errors: ErrorItem[] = [];
+  const seo = raw.seo;
+
+  if (seo === undefined || seo === null) {
+    return errors;
+  }
+  if (typeof seo !== 'object' || Array.isArray(seo)) {
+    errors.push(createError(ERROR_CODES.E_SEO, 'seo', 'seo must be an object with index, canonicalHost and title'));
+    return errors;
+  }
+
+  if (seo.index !== undefined && typeof seo.index !== 'boolean') {
+    errors.push(createError(ERROR_CODES.E_SEO, 'seo.index', 'seo.index must be true or false'));
+  }
+  if (seo.canonicalHost !== undefined && !SEO_CANONICAL_HOSTS.includes(seo.canonicalHost)) {
+    errors.push(
+      createError(ERROR_CODES.E_SEO, 'seo.canonicalHost', `seo.canonicalHost must be one of: ${SEO_CANONICAL_HOSTS.join(', ')}`)
+    );
+  }
+  if (seo.title !== undefined && typeof seo.title !== 'string') {
+    errors.push(createError(ERROR_CODES.E_SEO, 'seo.title', 'seo.title must be a string'));
+  } else if (seo.title && seo.title.length > SEO_LIMITS.TITLE) {
+    errors.push(
+      createError(ERROR_CODES.E_TEXT_LIMIT, 'seo.title', `SEO title exceeds hard limit of ${SEO_LIMITS.TITLE} characters.`)
+    );
+  }
+
+  return errors;
+}
+
+/**
+ * Check asset references (brand.logoAssetId, ogImageAssetId, trustedBy logos) against the asset library
+ *
+ * @param assets - Assets that exist, keyed by id (a missing lookup means none were found)
+ */
+export function validateAssetReferences(raw: RawLandingContent, assets: AssetLookup | undefined): ErrorItem[] {
+  const errors: ErrorItem[] = [];
+
+  for (const reference of collectAssetReferences(raw)) {
+    if (!ASSET_ID_PATTERN.test(reference.assetId)) {
+      errors.push(
+        createError(ERROR_CODES.E_ASSET, reference.path, `"${reference.assetId}" is not an asset id (expected ast_ + 12 characters)`)
+      );
+    } else if (!assets?.[reference.assetId]) {
+      errors.push(
+        createError(ERROR_CODES.E_ASSET, reference.path, `Asset ${reference.assetId} does not exist in the asset library`)
+      );
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate templateType against the template registry and templateFields
+ * against the template's own schema
+ */
+export function validateTemplate(raw: RawLandingContent): ErrorItem[] {
+  const errors: ErrorItem[] = [];
+
+  if (raw.templateType !== undefined && typeof raw.templateType !== 'string') {
+    errors.push(createError(ERROR_CODES.E_TEMPLATE, 'templateType', 'templateType must be a string'));
+    return errors;
+  }
+
+  const template = getTemplate(raw.templateType);
+  if (!template) {
+    const known = listTemplates().map((t) => `"${t.id}"`).join(', ');
+    errors.push(
+      createError(ERROR_CODES.E_TEMPLATE, 'templateType', `Unknown template "${raw.templateType}". Use one of: ${known}`)
+    );
+    return errors;
+  }
+
+  if (raw.templateFields === undefined) {
+    return errors;
+  }
+
+  const parsed = template.fieldsSchema.safeParse(raw.templateFields);
+  if (!parsed.success) {
+    for (const issue of parsed.error.issues) {
+      const path = ['templateFields', ...issue.path.map(String)].join('.');
+      errors.push(createError(ERROR_CODES.E_TEMPLATE_FIELDS, path, `${path}: ${issue.message}`));
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Warn when the content has sections the selected template does not render
+ */
+export function checkTemplateSections(normalized: NormalizedContent): WarningItem[] {
+  const template = getTemplate(normalized.templateType);
+  if (!template) {
+    return [];
+  }
+
+  const hidden = TEMPLATE_SECTIONS.filter(
+    (section) => !template.sections.includes(section) && hasSectionContent(normalized[section])
+  );
+
+  return hidden.length > 0
+    ? [
+        createWarning(
+          WARNING_CODES.W_TEMPLATE_SECTION,
+          'templateType',
+          `Template "${template.name}" does not display: ${hidden.join(', ')}`
+        ),
+      ]
+    : [];
+}
+
+function hasSectionContent(section: unknown): boolean {
+  if (!section || typeof section !== 'object') {
+    return false;
+  }
+  return Object.values(section).some((value) =>
+    Array.isArray(value) ? value.length > 0 : value !== null && value !== undefined && value !== ''
+  );
+}
+
+/**
+ * Validate the microsite structure: page slugs, nav labels and content objects
+ */
+export function validateSite(raw: RawLandingContent): ErrorItem[] {
+  const errors: ErrorItem[] = [];
+  const site = raw.site;
+
+  if (site === undefined || site === null) {
+    return errors;
+  }
+  if (typeof site !== 'object' || Array.isArray(site)) {
+    errors.push(createError(ERROR_CODES.E_SITE, 'site', 'site must be an object with overviewLabel and pages'));
+    return errors;
+  }
+
+  if (site.overviewLabel !== undefined && typeof site.overviewLabel !== 'string') {
+    errors.push(createError(ERROR_CODES.E_SITE, 'site.overviewLabel', 'site.overviewLabel must be a string'));
+  } else if (site.overviewLabel && site.overviewLabel.length > SITE_LIMITS.NAV_LABEL) {
+    errors.push(
+      createError(ERROR_CODES.E_TEXT_LIMIT, 'site.overviewLabel', `site.overviewLabel must not exceed ${SITE_LIMITS.NAV_LABEL} characters`)
+    );
+  }
+
+  if (site.pages === undefined) {
+    return errors;
+  }
+  if (!Array.isArray(site.pages)) {
+    errors.push(createError(ERROR_CODES.E_SITE, 'site.pages', 'site.pages must be an array'));
+    return errors;
+  }
+  if (site.pages.length > SITE_LIMITS.MAX_PAGES) {
+    errors.push(createError(ERROR_CODES.E_SITE, 'site.pages', `A site supports at most ${SITE_LIMITS.MAX_PAGES} pages`));
+  }
+
+  const seen = new Set<string>();
+  site.pages.forEach((page, index) => {
+    const path = `site.pages[${index}]`;
+    if (!page || typeof page !== 'object') {
+      errors.push(createError(ERROR_CODES.E_SITE, path, `${path} must be an object with slug, navLabel and content`));
+      return;
+    }
+
+    if (typeof page.slug !== 'string' || !SITE_SLUG_REGEX.test(page.slug.trim().toLowerCase())) {
+      errors.push(
+        createError(ERROR_CODES.E_SITE, `${path}.slug`, `${path}.slug must be lowercase letters, numbers and hyphens (e.g. "roi")`)
+      );
+    } else {
+      const slug = page.slug.trim().toLowerCase();
+      if (/^\d{4}$/.test(slug) || SITE_RESERVED_SLUGS.includes(slug)) {
+        errors.push(createError(ERROR_CODES.E_SITE, `${path}.slug`, `${path}.slug "${slug}" is reserved`));
+      } else if (seen.has(slug)) {
+        errors.push(createError(ERROR_CODES.E_SITE, `${path}.slug`, `${path}.slug "${slug}" is used by another page`));
+      }
+      seen.add(slug);
+    }
+
+    if (typeof page.navLabel !== 'string' || !isNonEmpty(page.navLabel)) {
+      errors.push(createError(ERROR_CODES.E_SITE, `${path}.navLabel`, `${path}.navLabel is required`));
+    } else if (page.navLabel.length > SITE_LIMITS.NAV_LABEL) {
+      errors.push(
+        createError(ERROR_CODES.E_TEXT_LIMIT, `${path}.navLabel`, `${path}.navLabel must not exceed ${SITE_LIMITS.NAV_LABEL} characters`)
+      );
+    }
+
+    if (!page.content || typeof page.content !== 'object' || Array.isArray(page.content)) {
+      errors.push(createError(ERROR_CODES.E_SITE, `${path}.content`, `${path}.content must be an object of page fields`));
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Point a child page's issues at its place in the raw JSON (site.pages[i].content.*)
+ */
+function inSitePage<T extends ErrorItem | WarningItem>(items: T[], index: number, slug: string): T[] {
+  const prefix = `site.pages[${index}].content`;
+  return items.map((item) => ({
+    ...item,
+    field: item.field ? `${prefix}.${item.field}` : prefix,
+    message: `Page "${slug}": ${item.message}`,
+  }));
+}
+
+/**
+ * Validate each microsite page like a page of its own (over the fields it inherits)
+ * Asset references in child pages are checked by validateAssetReferences on the parent.
+ * Run after validateSite passes.
+ */
+export function validateSitePages(raw: RawLandingContent): ErrorItem[] {
+  return (raw.site?.pages || []).flatMap((page, index) => {
+    const pageRaw = buildSitePageRaw(raw, page.content);
+    return inSitePage(
+      [
+        ...validateRequiredFields(pageRaw),
+        ...validateUrls(pageRaw),
+        ...validateTextLimits(pageRaw),
+        ...validateTemplate(pageRaw),
+        ...validateTrustedBy(pageRaw),
+        ...validateSeo(pageRaw),
+      ],
+      index,
+      page.slug
+    );
+  });
+}
+
+/**
+ * Text and video warnings for each microsite page
+ */
+export function checkSitePageWarnings(raw: RawLandingContent): WarningItem[] {
+  return (raw.site?.pages || []).flatMap((page, index) => {
+    const pageRaw = buildSitePageRaw(raw, page.content);
+    return inSitePage([...checkTextWarnings(pageRaw), ...checkVideoHost(pageRaw)], index, page.slug);
+  });
+}
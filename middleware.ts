@@ -1,5 +1,8 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { findRedirectCached } from '@/lib/db/redirects';
+import { findServedDomainCached } from '@/lib/db/sellerDomains';
+import { resolveHost } from '@/lib/domains/host';
 
 /**
  * Check if user is authenticated via cookie
@@ -9,53 +12,7 @@ function isAuthenticated(request: NextRequest): boolean {
   return authCookie?.value === 'authenticated';
 }
 
-/**
- * Extract buyer_id and seller_domain from hostname
- * Format: {buyer_id}.{seller_domain}
- * Examples:
- * - adient.cyngn.com → { buyerId: "adient", sellerDomain: "cyngn.com" }
- * - duke.techflow.io → { buyerId: "duke", sellerDomain: "techflow.io" }
- * - localhost:3000 → null (development)
- */
-function extractDomainInfo(hostname: string): { buyerId: string; sellerDomain: string } | null {
-  // Remove port if present
-  const host = hostname.split(':')[0];
-  
-  // Skip localhost, deployment platforms, and base application domain
-  if (
-    host === 'localhost' || 
-    host === '127.0.0.1' ||
-    host === 'abm.hrytos.com' || // Your base domain
-    host.endsWith('.vercel.app') ||
-    host.endsWith('.netlify.app') ||
-    host.endsWith('.railway.app')
-  ) {
-    return null;
-  }
-  
-  // Split into parts
-  const parts = host.split('.');
-  
-  // Need at least 3 parts: subdomain.domain.tld (e.g., adient.cyngn.com)
-  if (parts.length < 3) {
-    return null;
-  }
-  
-  // First part is buyer_id
-  const buyerId = parts[0];
-  
-  // Skip www
-  if (buyerId === 'www') {
-    return null;
-  }
-  
-  // Rest is seller_domain
-  const sellerDomain = parts.slice(1).join('.');
-  
-  return { buyerId, sellerDomain };
-}
-
-export function middleware(request: NextRequest) {
+export async function middleware(request: NextRequest) {
   const hostname = request.headers.get('host') || '';
   const { pathname } = request.nextUrl;
   
@@ -74,9 +31,25 @@ export function middleware(request: NextRequest) {
     return NextResponse.next();
   }
   
-  // Check if path requires authentication
+  // Old page keys answer with a 301 to the current key, keeping the query string (r, vid, sid, ...)
+  // and the microsite child page (/p/{old}/roi -> /p/{new}/roi)
+  const slugMatch = pathname.match(/^\/p\/([a-z0-9]+(?:-[a-z0-9]+)*)(\/[a-z0-9]+(?:-[a-z0-9]+)*)?\/?$/);
+  if (slugMatch) {
+    const redirectTarget = await findRedirectCached(slugMatch[1]);
+    if (redirectTarget) {
+      const url = request.nextUrl.clone();
+      url.pathname = `/p/${redirectTarget}${slugMatch[2] || ''}`;
+      return NextResponse.redirect(url, 301);
+    }
+  }
+  
+  // Work out the buyer and seller domain from the host ({buyer}.{seller_domain} or
+  // {buyer}.abm.{seller_domain}; see lib/domains/host.ts)
+  const hostRoute = await resolveHost(hostname, findServedDomainCached);
+  
+  // Check if path requires authentication (on a buyer host "/" is the buyer's primary page)
   const requiresAuth = 
-    pathname === '/' || 
+    (pathname === '/' && hostRoute.type === 'app') || 
     pathname.startsWith('/studio') || 
     pathname.startsWith('/tokens');
   
@@ -93,16 +66,18 @@ export function middleware(request: NextRequest) {
     return NextResponse.next();
   }
   
-  // Extract domain info
-  const domainInfo = extractDomainInfo(hostname);
-  
-  // If no domain info (localhost or base domain), allow authenticated users to access dashboard
-  if (!domainInfo) {
-    // Authenticated users can access the dashboard (/)
-    // This allows the dashboard to work on localhost and base domains
+  // Our own hosts (localhost, base domain): authenticated users can access the dashboard
+  if (hostRoute.type === 'app') {
     return NextResponse.next();
   }
   
+  // Unverified seller domains, reserved or malformed subdomains are not served
+  if (hostRoute.type === 'refused') {
+    return new NextResponse('Not Found', { status: 404 });
+  }
+  
+  const domainInfo = hostRoute;
+  
   // Rewrite to dynamic route with domain context
   const url = request.nextUrl.clone();
   
@@ -113,11 +88,16 @@ export function middleware(request: NextRequest) {
     return NextResponse.rewrite(url);
   }
   
-  // Otherwise, rewrite to /p/buyer-domain with flag
+  // Otherwise, rewrite to /p/buyer-domain with flag; a path selects one of the buyer's
+  // pages (adient.cyngn.com/1025), the bare subdomain serves their primary page
+  const domainPath = pathname.replace(/^\/+|\/+$/g, '');
   url.pathname = `/p/${domainInfo.buyerId}`;
   url.searchParams.set('_buyer_id', domainInfo.buyerId);
   url.searchParams.set('_seller_domain', domainInfo.sellerDomain);
   url.searchParams.set('_domain_route', 'true');
+  if (domainPath) {
+    url.searchParams.set('_domain_path', domainPath);
+  }
   
   return NextResponse.rewrite(url);
 }
@@ -0,0 +1,43 @@
+-- Migration: Add immutable version history for landing pages
+-- Purpose: Every publish that changes content_sha writes a snapshot so any
+--          previous version can be inspected and restored from the studio.
+
+CREATE TABLE IF NOT EXISTS landing_page_versions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  landing_page_id UUID REFERENCES landing_pages(id) ON DELETE CASCADE NOT NULL,
+  page_url_key TEXT NOT NULL,               -- Denormalized for lookups/display
+  version INTEGER NOT NULL,
+  content_sha TEXT NOT NULL,
+  page_content JSONB NOT NULL,              -- Same shape as landing_pages.page_content
+  published_by TEXT,                        -- Who published this version (free text)
+  restored_from_version INTEGER,            -- Set when the version was created by a rollback
+  published_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT landing_page_versions_page_version_unique UNIQUE (landing_page_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_landing_page_versions_page
+  ON landing_page_versions(landing_page_id, version DESC);
+
+-- Snapshots are immutable: block updates (deletes cascade with the page only)
+CREATE OR REPLACE FUNCTION prevent_landing_page_version_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'landing_page_versions rows are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_landing_page_versions_immutable ON landing_page_versions;
+CREATE TRIGGER trg_landing_page_versions_immutable
+  BEFORE UPDATE ON landing_page_versions
+  FOR EACH ROW EXECUTE FUNCTION prevent_landing_page_version_update();
+
+COMMENT ON TABLE landing_page_versions IS 'Immutable snapshot of every published content change (used for history and rollback)';
+
+-- Backfill: snapshot the currently published content of existing pages
+INSERT INTO landing_page_versions (landing_page_id, page_url_key, version, content_sha, page_content, published_by, published_at)
+SELECT id, page_url_key, COALESCE(version, 1), content_sha, page_content, 'backfill', COALESCE(published_at, created_at, NOW())
+FROM landing_pages
+WHERE content_sha IS NOT NULL
+ON CONFLICT (landing_page_id, version) DO NOTHING;
@@ -0,0 +1,35 @@
+-- Migration: Draft → review → published workflow
+-- Purpose: A page_url_key can now have one live row (published/archived) and
+--          one working row (draft/in_review) at the same time, so edits can be
+--          reviewed before they replace what the buyer sees.
+
+-- Allow the new in_review status
+ALTER TABLE landing_pages
+DROP CONSTRAINT IF EXISTS landing_pages_status_check;
+
+ALTER TABLE landing_pages
+ADD CONSTRAINT landing_pages_status_check
+CHECK (status IN ('draft', 'in_review', 'published', 'archived'));
+
+-- Replace the global page_url_key uniqueness with one-live + one-draft per key
+-- (004's constraint, and the index from the documented setup SQL)
+ALTER TABLE landing_pages
+DROP CONSTRAINT IF EXISTS idx_landing_pages_page_url_key_unique;
+
+DROP INDEX IF EXISTS landing_pages_page_url_key_uk;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_landing_pages_live_key_unique
+  ON landing_pages(page_url_key)
+  WHERE status IN ('published', 'archived');
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_landing_pages_draft_key_unique
+  ON landing_pages(page_url_key)
+  WHERE status IN ('draft', 'in_review');
+
+-- Review bookkeeping (free text, like landing_page_versions.published_by)
+ALTER TABLE landing_pages
+ADD COLUMN IF NOT EXISTS submitted_by TEXT,
+ADD COLUMN IF NOT EXISTS submitted_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN landing_pages.submitted_by IS 'Who submitted the draft for review';
+COMMENT ON COLUMN landing_pages.submitted_at IS 'When the draft entered in_review';
@@ -0,0 +1,43 @@
+-- Migration: Scheduled publish and automatic expiry
+-- Purpose: Drafts can be approved for a future publish_at, and live pages are
+--          archived by the scheduler once expire_at passes (default: end of the
+--          mmyy campaign month + 90 days, matching token lifetime).
+
+ALTER TABLE landing_pages
+ADD COLUMN IF NOT EXISTS publish_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS expire_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN landing_pages.publish_at IS 'When a scheduled draft should go live';
+COMMENT ON COLUMN landing_pages.expire_at IS 'When the live page is archived and replaced by the expired-page experience (NULL = never)';
+
+-- Allow the new scheduled status (an approved draft waiting for publish_at)
+ALTER TABLE landing_pages
+DROP CONSTRAINT IF EXISTS landing_pages_status_check;
+
+ALTER TABLE landing_pages
+ADD CONSTRAINT landing_pages_status_check
+CHECK (status IN ('draft', 'in_review', 'scheduled', 'published', 'archived'));
+
+-- Scheduled rows are working copies, so they share the one-draft-per-key slot
+DROP INDEX IF EXISTS idx_landing_pages_draft_key_unique;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_landing_pages_draft_key_unique
+  ON landing_pages(page_url_key)
+  WHERE status IN ('draft', 'in_review', 'scheduled');
+
+-- Scheduler lookups
+CREATE INDEX IF NOT EXISTS idx_landing_pages_publish_at
+  ON landing_pages(publish_at)
+  WHERE status = 'scheduled';
+
+CREATE INDEX IF NOT EXISTS idx_landing_pages_expire_at
+  ON landing_pages(expire_at)
+  WHERE status = 'published';
+
+-- Backfill expiry for existing live pages from their mmyy (last day of month + 90 days)
+UPDATE landing_pages
+SET expire_at = (
+  date_trunc('month', to_date(mmyy, 'MMYY')) + INTERVAL '1 month' + INTERVAL '90 days'
+)
+WHERE expire_at IS NULL
+  AND status = 'published'
+  AND mmyy ~ '^(0[1-9]|1[0-2])[0-9]{2}$';
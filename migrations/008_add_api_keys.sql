@@ -0,0 +1,41 @@
+-- Migration: API keys and idempotency keys for the public REST API (/api/v1)
+-- Purpose: Automated content pipelines publish through /api/v1/pages with a
+--          per-seller key instead of the studio publish secret.
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,                       -- Label shown in the studio (e.g. "Cyngn content pipeline")
+  key_prefix TEXT NOT NULL,                 -- First characters of the key, for display only
+  key_hash TEXT NOT NULL UNIQUE,            -- SHA-256 of the full key; the key itself is never stored
+  seller_id TEXT NOT NULL,                  -- Key can only publish pages for this seller
+  seller_domain TEXT,                       -- NULL = any domain for the seller
+  created_by TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ                    -- Set on revoke; revoked keys are rejected
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_seller ON api_keys(seller_id);
+
+COMMENT ON TABLE api_keys IS 'Hashed, seller-scoped API keys for /api/v1 (revocable)';
+
+-- Responses to mutating requests sent with an Idempotency-Key header.
+-- A retry with the same key and body replays the stored response;
+-- the same key with a different body is rejected.
+CREATE TABLE IF NOT EXISTS api_idempotency_keys (
+  api_key_id UUID REFERENCES api_keys(id) ON DELETE CASCADE NOT NULL,
+  idempotency_key TEXT NOT NULL,
+  request_method TEXT NOT NULL,
+  request_path TEXT NOT NULL,
+  request_sha TEXT NOT NULL,                -- SHA-256 of method + path + body
+  response_status INTEGER NOT NULL,
+  response_body JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  PRIMARY KEY (api_key_id, idempotency_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_idempotency_keys_created
+  ON api_idempotency_keys(created_at);
+
+COMMENT ON TABLE api_idempotency_keys IS 'Stored responses for Idempotency-Key replays (kept 24 hours)';
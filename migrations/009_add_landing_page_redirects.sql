@@ -0,0 +1,20 @@
+-- Migration: Permanent redirects between page keys
+-- Purpose: When a page moves to a new page_url_key (new month or a vanity
+--          slug), links already sent to buyers keep working: the old key
+--          answers with a 301 to the new one, keeping the query string.
+
+CREATE TABLE IF NOT EXISTS landing_page_redirects (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  from_page_url_key TEXT NOT NULL UNIQUE,   -- Old key (no live page should exist here)
+  to_page_url_key TEXT NOT NULL,            -- Current key; chains are flattened on write
+  created_by TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT landing_page_redirects_not_self CHECK (from_page_url_key <> to_page_url_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_landing_page_redirects_to
+  ON landing_page_redirects(to_page_url_key);
+
+COMMENT ON TABLE landing_page_redirects IS 'Old page_url_key → current page_url_key (301), consulted by middleware and /p/[slug]';
@@ -0,0 +1,9 @@
+-- Migration: Pending redirects on drafts
+-- Purpose: A draft cloned as a roll-forward (same buyer, next month) remembers
+--          the previous month's key. When the draft is published, that key
+--          gets a 301 to the new page (see landing_page_redirects).
+
+ALTER TABLE landing_pages
+  ADD COLUMN IF NOT EXISTS redirect_from TEXT[];
+
+COMMENT ON COLUMN landing_pages.redirect_from IS 'Draft rows only: keys that should 301 to this page once it is published';
@@ -0,0 +1,31 @@
+-- Migration: Trash bin (soft delete)
+-- Purpose: Deleting a page sets deleted_at instead of removing the row, so a
+--          misclick no longer wipes its tracking tokens. Trashed pages can be
+--          restored; /api/cron/purge-trash removes them after the retention
+--          period (TRASH_CONFIG.RETENTION_DAYS).
+
+ALTER TABLE landing_pages
+ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS deleted_by TEXT;
+
+COMMENT ON COLUMN landing_pages.deleted_at IS 'When the page was moved to the trash (NULL = not deleted)';
+COMMENT ON COLUMN landing_pages.deleted_by IS 'Who moved the page to the trash (free text)';
+
+-- Trashed rows no longer hold their page_url_key: a new page can take the key,
+-- and restoring is refused while it is taken (the global key index must be gone, see 006)
+DROP INDEX IF EXISTS landing_pages_page_url_key_uk;
+
+DROP INDEX IF EXISTS idx_landing_pages_live_key_unique;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_landing_pages_live_key_unique
+  ON landing_pages(page_url_key)
+  WHERE status IN ('published', 'archived') AND deleted_at IS NULL;
+
+DROP INDEX IF EXISTS idx_landing_pages_draft_key_unique;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_landing_pages_draft_key_unique
+  ON landing_pages(page_url_key)
+  WHERE status IN ('draft', 'in_review', 'scheduled') AND deleted_at IS NULL;
+
+-- Trash view and purge lookups
+CREATE INDEX IF NOT EXISTS idx_landing_pages_deleted_at
+  ON landing_pages(deleted_at)
+  WHERE deleted_at IS NOT NULL;
@@ -0,0 +1,44 @@
+-- Migration: Audit log
+-- Purpose: Append-only record of who published, deleted, restored or purged
+--          pages, generated tracking tokens, managed API keys and signed in to
+--          the studio. Read by the studio audit view and its CSV export.
+
+CREATE TABLE IF NOT EXISTS audit_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  actor TEXT NOT NULL,                      -- published_by, "studio", "api:{key name}", "scheduler", "anonymous"
+  action TEXT NOT NULL,                     -- e.g. page.publish, page.delete, token.generate, auth.login
+  target_type TEXT NOT NULL CHECK (target_type IN ('page', 'token', 'api_key', 'session')),
+  target_id TEXT,                           -- landing_pages.id, api_keys.id, ... (text: not every target is a uuid)
+  page_url_key TEXT,
+  before_sha TEXT,                          -- content_sha before the action (page actions)
+  after_sha TEXT,                           -- content_sha after the action (page actions)
+  ip TEXT,
+  user_agent TEXT,
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_occurred
+  ON audit_events(occurred_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_action
+  ON audit_events(action, occurred_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_page
+  ON audit_events(page_url_key, occurred_at DESC)
+  WHERE page_url_key IS NOT NULL;
+
+-- Entries are immutable: block updates and deletes
+CREATE OR REPLACE FUNCTION prevent_audit_event_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_events rows are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_audit_events_immutable ON audit_events;
+CREATE TRIGGER trg_audit_events_immutable
+  BEFORE UPDATE OR DELETE ON audit_events
+  FOR EACH ROW EXECUTE FUNCTION prevent_audit_event_change();
+
+COMMENT ON TABLE audit_events IS 'Append-only audit log of publish, delete, token, API key and auth actions';
@@ -0,0 +1,30 @@
+-- Migration: Shared rate-limit counters
+-- Purpose: Publish throttling, /api/events and /r/[token] rate limits were
+--          per-process Maps, so each serverless instance counted on its own.
+--          Counters now live here and are shared by every instance.
+
+CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+  bucket_key TEXT PRIMARY KEY,              -- "{limit name}:{key}", e.g. "publish:adient-cyngn-1025"
+  hits INTEGER NOT NULL DEFAULT 0,          -- Hits in the current window
+  reset_at TIMESTAMPTZ NOT NULL             -- End of the current window
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_reset_at
+  ON rate_limit_buckets(reset_at);
+
+COMMENT ON TABLE rate_limit_buckets IS 'Fixed-window rate-limit counters (expired rows are pruned daily)';
+
+-- Count one hit against a bucket in a single statement, so concurrent
+-- requests on different instances never lose an increment.
+-- An expired window starts over at 1.
+CREATE OR REPLACE FUNCTION rate_limit_hit(p_bucket_key TEXT, p_window_ms INTEGER)
+RETURNS TABLE (hits INTEGER, reset_at TIMESTAMPTZ)
+LANGUAGE sql
+AS $$
+  INSERT INTO rate_limit_buckets AS b (bucket_key, hits, reset_at)
+  VALUES (p_bucket_key, 1, NOW() + p_window_ms * INTERVAL '1 millisecond')
+  ON CONFLICT (bucket_key) DO UPDATE
+    SET hits = CASE WHEN b.reset_at <= NOW() THEN 1 ELSE b.hits + 1 END,
+        reset_at = CASE WHEN b.reset_at <= NOW() THEN EXCLUDED.reset_at ELSE b.reset_at END
+  RETURNING b.hits, b.reset_at;
+$$;
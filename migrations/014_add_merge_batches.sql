@@ -0,0 +1,52 @@
+-- Migration: Mail-merge batches
+-- Purpose: Publish many near-identical pages from one template with {{placeholders}}
+--          plus a CSV of per-account variables. Each CSV row is stored with its
+--          filled content and metadata; the studio publishes the valid rows in
+--          chunks (POST /api/merge-batches/{id}/run) and polls the progress.
+
+CREATE TABLE IF NOT EXISTS merge_batches (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,                       -- Label shown in the studio (e.g. "Q4 automotive outbound")
+  status TEXT NOT NULL DEFAULT 'ready'
+    CHECK (status IN ('ready', 'running', 'completed')),
+  template JSONB NOT NULL,                  -- RawLandingContent with {{placeholders}}
+  defaults JSONB NOT NULL,                  -- seller_id, seller_domain, mmyy, campaign_id
+  generate_tokens BOOLEAN NOT NULL DEFAULT FALSE, -- Create tracking tokens for each row's contacts
+  total_rows INTEGER NOT NULL,
+  created_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_merge_batches_created_at ON merge_batches(created_at DESC);
+
+COMMENT ON TABLE merge_batches IS 'Mail-merge jobs: one template + CSV rows → one published page per row';
+
+CREATE TABLE IF NOT EXISTS merge_batch_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  batch_id UUID REFERENCES merge_batches(id) ON DELETE CASCADE NOT NULL,
+  row_number INTEGER NOT NULL,              -- 1 = first CSV row after the header
+  status TEXT NOT NULL
+    CHECK (status IN ('invalid', 'pending', 'publishing', 'published', 'failed')),
+  variables JSONB NOT NULL,                 -- The row's placeholder values
+  content JSONB NOT NULL,                   -- Filled template (raw JSON)
+  meta JSONB NOT NULL,                      -- Publish metadata
+  page_url_key TEXT,
+  contact_ids UUID[] NOT NULL DEFAULT '{}', -- Resolved from the contact_ids / contact_emails columns
+  errors JSONB NOT NULL DEFAULT '[]'::jsonb,   -- [{path, message}] validation or publish errors
+  warnings JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{path, message}]
+  url TEXT,                                 -- Live URL once published
+  landing_page_id UUID REFERENCES landing_pages(id) ON DELETE SET NULL,
+  version INTEGER,
+  tokens_created INTEGER,
+  processed_at TIMESTAMPTZ,
+
+  UNIQUE (batch_id, row_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_merge_batch_items_pending
+  ON merge_batch_items(batch_id, row_number)
+  WHERE status = 'pending';
+
+COMMENT ON TABLE merge_batch_items IS 'One row of a mail-merge batch with its validation and publish result';
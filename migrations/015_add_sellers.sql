@@ -0,0 +1,26 @@
+-- Migration: Seller profiles
+-- Purpose: Store a seller's shared boilerplate (name, description, links, meeting
+--          scheduler, brand) once instead of re-typing it into every buyer JSON.
+--          The profile is merged under each page's raw content at validate/publish
+--          time, so editing it and republishing updates all of the seller's pages.
+
+CREATE TABLE IF NOT EXISTS sellers (
+  seller_id TEXT PRIMARY KEY,               -- Same id as landing_pages.seller_id (e.g. "cyngn")
+  name TEXT NOT NULL,                       -- → SellersName
+  description TEXT,                         -- → sellerDescription ("About {seller}" copy)
+  website_url TEXT,                         -- → sellerLinkWebsite
+  read_more_url TEXT,                       -- → sellerLinkReadMore
+  meeting_scheduler_url TEXT,               -- → meetingSchedulerLink
+  brand JSONB NOT NULL DEFAULT '{}'::jsonb, -- → brand { logoUrl, colors, fonts }
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_by TEXT
+);
+
+COMMENT ON TABLE sellers IS 'Seller profiles: boilerplate merged under every page of the seller';
+
+-- Profile edits are audited (seller.update)
+ALTER TABLE audit_events DROP CONSTRAINT IF EXISTS audit_events_target_type_check;
+ALTER TABLE audit_events
+  ADD CONSTRAINT audit_events_target_type_check
+  CHECK (target_type IN ('page', 'token', 'api_key', 'session', 'seller'));
@@ -0,0 +1,34 @@
+-- Migration: Asset library
+-- Purpose: Images uploaded through the studio (seller logos, customer logos, OG
+--          images). Files live in the configured storage driver (local filesystem
+--          in development, Supabase Storage in production); this table records the
+--          original and its resized variants so content JSON can reference an
+--          image by asset_id instead of a hard-coded URL.
+
+CREATE TABLE IF NOT EXISTS assets (
+  asset_id TEXT PRIMARY KEY,                 -- "ast_" + 12 random characters
+  kind TEXT NOT NULL CHECK (kind IN ('logo', 'customer_logo', 'og_image')),
+  seller_id TEXT,                            -- Optional owner (library filter only)
+  filename TEXT NOT NULL,                    -- Name of the uploaded file
+  alt TEXT,                                  -- Default alt text
+  content_type TEXT NOT NULL,
+  bytes INTEGER NOT NULL,
+  width INTEGER NOT NULL,
+  height INTEGER NOT NULL,
+  storage_driver TEXT NOT NULL CHECK (storage_driver IN ('local', 'supabase')),
+  storage_key TEXT NOT NULL,                 -- Original file
+  variants JSONB NOT NULL DEFAULT '{}'::jsonb, -- { name: { key, width, height, content_type } }
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_assets_seller_created ON assets (seller_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_assets_kind_created ON assets (kind, created_at DESC);
+
+COMMENT ON TABLE assets IS 'Asset library: uploaded images referenced by asset_id from page content';
+
+-- Uploads are audited (asset.upload)
+ALTER TABLE audit_events DROP CONSTRAINT IF EXISTS audit_events_target_type_check;
+ALTER TABLE audit_events
+  ADD CONSTRAINT audit_events_target_type_check
+  CHECK (target_type IN ('page', 'token', 'api_key', 'session', 'seller', 'asset'));
@@ -0,0 +1,29 @@
+-- Migration: Seller domain registry
+-- Purpose: Only serve pages on domains a seller has proven they own. A domain is
+--          registered for one seller, then verified by a DNS TXT record
+--          (_hrytos-verify.{domain} = "hrytos-verification={verification_token}").
+--          The middleware and publish refuse domains that are not verified.
+
+CREATE TABLE IF NOT EXISTS seller_domains (
+  domain TEXT PRIMARY KEY,                  -- Lowercase host without port (e.g. "cyngn.com")
+  seller_id TEXT NOT NULL,                  -- Seller allowed to publish on it (landing_pages.seller_id)
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'verified', 'failed')),
+  verification_token TEXT NOT NULL,         -- Expected in the TXT record
+  last_checked_at TIMESTAMPTZ,              -- Last DNS check (any result)
+  last_check_error TEXT,                    -- Why the last check failed
+  verified_at TIMESTAMPTZ,                  -- Last successful check
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_seller_domains_seller_id ON seller_domains (seller_id);
+
+COMMENT ON TABLE seller_domains IS 'Seller domain registry: pages are served and published only on verified domains';
+
+-- Registrations, checks and removals are audited (domain.*)
+ALTER TABLE audit_events DROP CONSTRAINT IF EXISTS audit_events_target_type_check;
+ALTER TABLE audit_events
+  ADD CONSTRAINT audit_events_target_type_check
+  CHECK (target_type IN ('page', 'token', 'api_key', 'session', 'seller', 'asset', 'domain'));
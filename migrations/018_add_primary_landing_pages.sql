@@ -0,0 +1,15 @@
+-- Migration: Primary page per buyer subdomain
+-- Purpose: A buyer can have several live pages on one seller domain (one per month,
+--          or vanity keys). The bare subdomain (adient.cyngn.com) serves the page
+--          marked primary, or the most recently published one if none is; the
+--          others are served at adient.cyngn.com/{mmyy} or /{page_url_key}.
+
+ALTER TABLE landing_pages
+  ADD COLUMN IF NOT EXISTS is_primary BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- At most one primary live page per buyer and seller domain
+CREATE UNIQUE INDEX IF NOT EXISTS idx_landing_pages_primary_unique
+  ON landing_pages(buyer_id, seller_domain)
+  WHERE is_primary AND status IN ('published', 'archived') AND deleted_at IS NULL;
+
+COMMENT ON COLUMN landing_pages.is_primary IS 'Live rows only: served at the bare buyer subdomain ({buyer}.{seller_domain})';
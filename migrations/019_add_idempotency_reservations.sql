@@ -0,0 +1,11 @@
+-- Migration: Reserve Idempotency-Keys before running the request
+-- Purpose: Two concurrent requests with the same Idempotency-Key both missed the
+--          lookup and both ran. The first request now inserts a pending row
+--          (no response yet) under the primary key; a concurrent retry finds it
+--          and gets 409 instead of running the publish a second time.
+
+ALTER TABLE api_idempotency_keys
+  ALTER COLUMN response_status DROP NOT NULL,
+  ALTER COLUMN response_body DROP NOT NULL;
+
+COMMENT ON COLUMN api_idempotency_keys.response_status IS 'NULL while the request is in flight (reserved, no response stored yet)';
@@ -0,0 +1,14 @@
+-- Migration: Retry bookkeeping for scheduled publishes
+-- Purpose: The scheduler took the oldest BATCH_SIZE due drafts on every run and
+--          recorded nothing when a publish failed, so a batch of permanently
+--          failing drafts blocked every draft scheduled after them. Failures
+--          now back off (schedule_retry_at) and stop after a few attempts.
+
+ALTER TABLE landing_pages
+  ADD COLUMN IF NOT EXISTS schedule_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS schedule_retry_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS schedule_error TEXT;
+
+COMMENT ON COLUMN landing_pages.schedule_attempts IS 'Scheduled drafts: failed publish attempts (reset when rescheduled)';
+COMMENT ON COLUMN landing_pages.schedule_retry_at IS 'Scheduled drafts: not retried before this time';
+COMMENT ON COLUMN landing_pages.schedule_error IS 'Scheduled drafts: error from the last failed publish attempt';
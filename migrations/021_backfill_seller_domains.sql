@@ -0,0 +1,37 @@
+-- Migration: Grandfather seller domains that were already in use
+-- Purpose: 017 added the registry empty, so every domain with live pages stopped
+--          being served (middleware 404) and published until it was registered
+--          and verified by hand. Register each (seller_id, seller_domain) pair
+--          already used by live pages as verified. Run it together with 017.
+--          A grandfathered domain is re-checked only when someone presses Verify;
+--          without the TXT record that check marks it failed.
+
+INSERT INTO seller_domains (domain, seller_id, status, verification_token, verified_at, created_by)
+SELECT
+  live.domain,
+  MIN(live.seller_id),
+  'verified',
+  replace(uuid_generate_v4()::text, '-', ''),
+  NOW(),
+  'migration:021 (grandfathered)'
+FROM (
+  SELECT DISTINCT lower(seller_domain) AS domain, seller_id
+  FROM landing_pages
+  WHERE status IN ('published', 'archived')
+    AND deleted_at IS NULL
+    AND seller_domain IS NOT NULL
+) AS live
+-- Platform domains (PLATFORM_DOMAINS) need no entry
+WHERE live.domain <> 'abm.hrytos.com'
+  AND live.domain NOT LIKE '%.abm.hrytos.com'
+GROUP BY live.domain
+-- A domain used by more than one seller is ambiguous: left for manual registration
+HAVING COUNT(DISTINCT live.seller_id) = 1
+ON CONFLICT (domain) DO NOTHING;
+
+-- Domains left out because several sellers use them (register each by hand):
+-- SELECT lower(seller_domain) AS domain, array_agg(DISTINCT seller_id)
+-- FROM landing_pages
+-- WHERE status IN ('published', 'archived') AND deleted_at IS NULL AND seller_domain IS NOT NULL
+-- GROUP BY lower(seller_domain)
+-- HAVING COUNT(DISTINCT seller_id) > 1;